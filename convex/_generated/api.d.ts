@@ -14,29 +14,51 @@ import type {
   FunctionReference,
 } from "convex/server";
 import type * as ai_config from "../ai/config.js";
+import type * as ai_context from "../ai/context.js";
+import type * as ai_embeddings from "../ai/embeddings.js";
 import type * as ai_generation from "../ai/generation.js";
 import type * as ai_helpers from "../ai/helpers.js";
+import type * as ai_knowledgeBase from "../ai/knowledgeBase.js";
 import type * as ai_providers from "../ai/providers.js";
+import type * as ai_retry from "../ai/retry.js";
+import type * as ai_tools from "../ai/tools.js";
+import type * as ai_webSearch from "../ai/webSearch.js";
 import type * as ai from "../ai.js";
 import type * as aiHelpers from "../aiHelpers.js";
 import type * as aiSdkHelpers from "../aiSdkHelpers.js";
 import type * as analytics from "../analytics.js";
+import type * as analyticsRollups from "../analyticsRollups.js";
 import type * as artifacts from "../artifacts.js";
+import type * as assistants from "../assistants.js";
 import type * as auth from "../auth.js";
 import type * as branches from "../branches.js";
+import type * as chatEncryption from "../chatEncryption.js";
+import type * as chatPasswords from "../chatPasswords.js";
+import type * as chatUnlock from "../chatUnlock.js";
 import type * as chats from "../chats.js";
 import type * as cleanup from "../cleanup.js";
+import type * as contextWindow from "../contextWindow.js";
 import type * as crons from "../crons.js";
+import type * as deepLinks from "../deepLinks.js";
 import type * as emailAuth from "../emailAuth.js";
+import type * as embeddings from "../embeddings.js";
 import type * as geminiActions from "../geminiActions.js";
 import type * as http from "../http.js";
+import type * as imports from "../imports.js";
+import type * as knowledgeBase from "../knowledgeBase.js";
+import type * as knowledgeBaseActions from "../knowledgeBaseActions.js";
 import type * as library from "../library.js";
 import type * as messages from "../messages.js";
 import type * as preferences from "../preferences.js";
+import type * as pricing from "../pricing.js";
 import type * as projects from "../projects.js";
 import type * as router from "../router.js";
 import type * as search from "../search.js";
+import type * as semanticSearch from "../semanticSearch.js";
+import type * as semanticSearchActions from "../semanticSearchActions.js";
+import type * as sessions from "../sessions.js";
 import type * as sharing from "../sharing.js";
+import type * as usageLimits from "../usageLimits.js";
 import type * as users from "../users.js";
 
 /**
@@ -49,29 +71,51 @@ import type * as users from "../users.js";
  */
 declare const fullApi: ApiFromModules<{
   "ai/config": typeof ai_config;
+  "ai/context": typeof ai_context;
+  "ai/embeddings": typeof ai_embeddings;
   "ai/generation": typeof ai_generation;
   "ai/helpers": typeof ai_helpers;
+  "ai/knowledgeBase": typeof ai_knowledgeBase;
   "ai/providers": typeof ai_providers;
+  "ai/retry": typeof ai_retry;
+  "ai/tools": typeof ai_tools;
+  "ai/webSearch": typeof ai_webSearch;
   ai: typeof ai;
   aiHelpers: typeof aiHelpers;
   aiSdkHelpers: typeof aiSdkHelpers;
   analytics: typeof analytics;
+  analyticsRollups: typeof analyticsRollups;
   artifacts: typeof artifacts;
+  assistants: typeof assistants;
   auth: typeof auth;
   branches: typeof branches;
+  chatEncryption: typeof chatEncryption;
+  chatPasswords: typeof chatPasswords;
+  chatUnlock: typeof chatUnlock;
   chats: typeof chats;
   cleanup: typeof cleanup;
+  contextWindow: typeof contextWindow;
   crons: typeof crons;
+  deepLinks: typeof deepLinks;
   emailAuth: typeof emailAuth;
+  embeddings: typeof embeddings;
   geminiActions: typeof geminiActions;
   http: typeof http;
+  imports: typeof imports;
+  knowledgeBase: typeof knowledgeBase;
+  knowledgeBaseActions: typeof knowledgeBaseActions;
   library: typeof library;
   messages: typeof messages;
   preferences: typeof preferences;
+  pricing: typeof pricing;
   projects: typeof projects;
   router: typeof router;
   search: typeof search;
+  semanticSearch: typeof semanticSearch;
+  semanticSearchActions: typeof semanticSearchActions;
+  sessions: typeof sessions;
   sharing: typeof sharing;
+  usageLimits: typeof usageLimits;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
@@ -1,10 +1,18 @@
 "use node";
 
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
 import { action, internalAction } from "./_generated/server";
 import { internal, api } from "./_generated/api";
-import { generateText, streamText, generateObject, streamObject } from "ai";
+import {
+    generateText,
+    streamText,
+    generateObject,
+    streamObject,
+    stepCountIs,
+} from "ai";
 import { z } from "zod";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { calculateCost, normalizeUsage } from "./pricing";
 
 import {
     getProviderFromModel,
@@ -17,11 +25,45 @@ import {
     processLibraryItemForAISDK,
     buildModelMessages,
     attachmentObjectsToCanonicalParts,
+    createCancellationWatcher,
+    reserveUsage,
+    handleAISDKError,
 } from "./ai/helpers";
+import {
+    buildModelChain,
+    getErrorStatusCode,
+    getRetryDelay,
+    isTransientError,
+    MAX_RETRIES,
+    sleep,
+} from "./ai/retry";
 import {
     imageGenerationManager,
     videoGenerationManager,
 } from "./ai/generation";
+import {
+    buildToolSet,
+    collectToolInvocations,
+    MAX_TOOL_STEPS,
+    type ToolInvocationRecord,
+} from "./ai/tools";
+import { estimatePromptTokens, fitHistoryToContext } from "./ai/context";
+import {
+    buildKnowledgeSystemPrompt,
+    retrieveKnowledge,
+    type KnowledgeResult,
+} from "./ai/knowledgeBase";
+import {
+    decryptContent,
+    encryptContent,
+    verifyChatKey,
+} from "./chatEncryption";
+import {
+    runWebSearch,
+    buildSearchSystemPrompt,
+    extractCitations,
+    type WebSearchResult,
+} from "./ai/webSearch";
 
 // AI response generation with Vercel AI SDK - Updated for HTTP endpoints
 export const generateStreamingResponse = internalAction({
@@ -63,6 +105,8 @@ export const generateStreamingResponse = internalAction({
                 })
             )
         ),
+        // Raw message key of an encrypted chat, sent by the unlocked client
+        chatKey: v.optional(v.string()),
     },
     returns: v.any(),
     handler: async (ctx, args): Promise<Response> => {
@@ -85,6 +129,17 @@ export const generateStreamingResponse = internalAction({
             );
             if (!chat) throw new Error("Chat not found");
 
+            // Encrypted chats: history is decrypted for this request only and
+            // everything written back is sealed with the same key
+            const chatKey = chat.encryption
+                ? await verifyChatKey(chat.encryption, args.chatKey ?? "")
+                : null;
+            if (chat.encryption && !chatKey) {
+                throw new Error("Encrypted chat - unlock it to send its key");
+            }
+            const seal = async (text: string) =>
+                chatKey ? await encryptContent(chatKey, text) : text;
+
             // Create assistant message for streaming
             const messageId: any = args.retryMessageId || await ctx.runMutation(
                 internal.messages.addMessageInternal,
@@ -96,6 +151,54 @@ export const generateStreamingResponse = internalAction({
                 }
             );
 
+            // Budgets and rate limits are checked before any provider call
+            const limitError = await reserveUsage(ctx, chat.userId, "chat", [
+                args.model,
+            ]);
+            if (limitError) {
+                await ctx.runMutation(internal.aiHelpers.updateMessageContent, {
+                    messageId: messageId,
+                    content: `⚠️ ${limitError}`,
+                    isStreaming: false,
+                    responseMetadata: {
+                        finishReason: "usage_limit",
+                        responseTime: Date.now() - startTime,
+                        model: args.model,
+                        provider: getProviderFromModel(args.model),
+                    },
+                });
+
+                return new Response(limitError, {
+                    status: 429,
+                    headers: {
+                        "Content-Type": "text/plain",
+                        "Access-Control-Allow-Origin": "*",
+                    },
+                });
+            }
+
+            // Assistant chats: restrict commands and pin the assistant's knowledge
+            const assistantContext = await ctx.runQuery(
+                internal.assistants.getChatAssistantContextInternal,
+                {
+                    chatId: args.chatId,
+                    commands: args.commands,
+                }
+            );
+            const requestedCommands = assistantContext
+                ? assistantContext.commands
+                : args.commands;
+            // Artifacts and media prompts are stored in plain text
+            const commands = chatKey
+                ? requestedCommands?.filter((command) => command === "search")
+                : requestedCommands;
+            const referencedLibraryItems = [...(args.referencedLibraryItems || [])];
+            for (const item of assistantContext?.knowledge || []) {
+                if (!referencedLibraryItems.some((ref) => ref.id === item.id)) {
+                    referencedLibraryItems.push(item);
+                }
+            }
+
             // Get combined AI settings (per-chat + global preferences)
             const aiSettings: any = await ctx.runQuery(
                 internal.aiHelpers.getCombinedAISettings,
@@ -107,13 +210,21 @@ export const generateStreamingResponse = internalAction({
 
             // Get user API keys and chat history
             const userApiKeys = await getUserApiKeys(ctx);
-            const messages = await ctx.runQuery(
+            const storedMessages = await ctx.runQuery(
                 internal.aiHelpers.getChatHistory,
                 {
                     chatId: args.chatId,
                     excludeMessageId: messageId,
                 }
             );
+            const messages = chatKey
+                ? await Promise.all(
+                      storedMessages.map(async (m: any) => ({
+                          ...m,
+                          content: await decryptContent(chatKey, m.content),
+                      }))
+                  )
+                : storedMessages;
 
             const lastUserMessage = messages
                 .filter((m: any) => m.role === "user")
@@ -149,15 +260,52 @@ export const generateStreamingResponse = internalAction({
                 }
             }
 
-            if (
-                args.referencedLibraryItems &&
-                args.referencedLibraryItems.length > 0
-            ) {
+            // Knowledge-base items - referenced, or shared with the chat's
+            // project - contribute their most relevant passages instead of
+            // the whole file. If retrieval fails the files are attached.
+            let knowledgeResults: KnowledgeResult[] = [];
+            let knowledgeItemIds = new Set<string>();
+            try {
+                const knowledgeSources = await ctx.runQuery(
+                    internal.knowledgeBase.getKnowledgeSourcesInternal,
+                    {
+                        userId: chat.userId,
+                        attachmentIds: referencedLibraryItems
+                            .filter((item) => item.type === "attachment")
+                            .map((item) => item.id),
+                        projectId: chat.projectId,
+                    }
+                );
+                if (knowledgeSources.length > 0) {
+                    knowledgeResults = await retrieveKnowledge(ctx, {
+                        userId: chat.userId,
+                        query: content,
+                        attachmentIds: knowledgeSources.map(
+                            (source) => source.attachmentId
+                        ),
+                        apiKeys: userApiKeys,
+                    });
+                    knowledgeItemIds = new Set(
+                        knowledgeSources.map((source) => source.attachmentId)
+                    );
+                    console.log("📚 KNOWLEDGE BASE RETRIEVAL:", {
+                        chatId: args.chatId,
+                        items: knowledgeSources.length,
+                        passages: knowledgeResults.length,
+                        timestamp: new Date().toISOString(),
+                    });
+                }
+            } catch (error) {
+                console.error("Knowledge base retrieval failed:", error);
+            }
+
+            if (referencedLibraryItems.length > 0) {
                 console.log(
-                    `🔗 Processing ${args.referencedLibraryItems.length} referenced library items...`
+                    `🔗 Processing ${referencedLibraryItems.length} referenced library items...`
                 );
 
-                for (const item of args.referencedLibraryItems) {
+                for (const item of referencedLibraryItems) {
+                    if (knowledgeItemIds.has(item.id)) continue;
                     try {
                         const processedItem = await processLibraryItemForAISDK(
                             item,
@@ -178,10 +326,10 @@ export const generateStreamingResponse = internalAction({
             );
 
             // Check for special commands
-            const hasCanvas = args.commands?.includes("canvas");
-            const hasImageGen = args.commands?.includes("image");
-            const hasVideoGen = args.commands?.includes("video");
-            const hasSearch = args.commands?.includes("search");
+            const hasCanvas = commands?.includes("canvas");
+            const hasImageGen = commands?.includes("image");
+            const hasVideoGen = commands?.includes("video");
+            const hasSearch = commands?.includes("search");
 
             // Handle command combinations and priorities
             const isMediaGeneration = hasImageGen;
@@ -343,6 +491,18 @@ export const generateStreamingResponse = internalAction({
                 }
             }
 
+            // Run /search once up front so canvas and chat share the same sources
+            const searchResults = hasSearch ? await runWebSearch(content) : [];
+            // Library passages are numbered after the web results
+            const knowledgePrompt =
+                knowledgeResults.length > 0
+                    ? buildKnowledgeSystemPrompt(
+                          knowledgeResults,
+                          searchResults.length + 1
+                      )
+                    : null;
+            const citationSources = [...searchResults, ...knowledgeResults];
+
             // Handle canvas/structured output (can be combined with search)
             if (isCanvasGeneration) {
                 const canvasSchema = z.object({
@@ -352,7 +512,11 @@ export const generateStreamingResponse = internalAction({
                     artifacts: z.array(
                         z.object({
                             id: z.string(),
-                            filename: z.string(),
+                            filename: z
+                                .string()
+                                .describe(
+                                    "Path from the project root, e.g. src/App.jsx. Files of a multi-file project import each other with relative paths"
+                                ),
                             language: z.string(),
                             content: z.string(),
                             description: z.string(),
@@ -366,9 +530,14 @@ export const generateStreamingResponse = internalAction({
                 try {
                     // Enhanced prompt for canvas with optional search
                     let enhancedPrompt = content;
-                    if (hasSearch) {
+                    if (searchResults.length > 0) {
+                        enhancedPrompt = `${content}\n\n${buildSearchSystemPrompt(searchResults)}`;
+                    } else if (hasSearch) {
                         enhancedPrompt = `${content}\n\nNote: Use web search to find current information if needed for creating accurate and up-to-date artifacts.`;
                     }
+                    if (knowledgePrompt) {
+                        enhancedPrompt = `${enhancedPrompt}\n\n${knowledgePrompt}`;
+                    }
 
                     await ctx.runAction(internal.ai.generateStructuredOutput, {
                         chatId: args.chatId,
@@ -379,7 +548,7 @@ export const generateStreamingResponse = internalAction({
                         enhancedPrompt,
                         metadata: {
                             hasSearch,
-                            commands: args.commands,
+                            commands: commands,
                         },
                         // Pass AI settings to structured output generation
                         aiSettings,
@@ -422,13 +591,6 @@ export const generateStreamingResponse = internalAction({
                 }
             }
 
-            // Normal AI response using AI SDK streaming with custom settings
-            const modelInstance = providerManager.getModel(
-                provider,
-                args.model,
-                userKey
-            );
-
             // Convert messages to AI SDK format (structured pipeline)
             const systemPromptMsg =
                 aiSettings.systemPrompt && aiSettings.systemPrompt.trim()
@@ -440,15 +602,81 @@ export const generateStreamingResponse = internalAction({
                           },
                       ]
                     : [];
+            const searchPromptMsg =
+                searchResults.length > 0
+                    ? [
+                          {
+                              _id: "search-results",
+                              role: "system" as const,
+                              content: buildSearchSystemPrompt(searchResults),
+                          },
+                      ]
+                    : [];
+            const knowledgePromptMsg = knowledgePrompt
+                ? [
+                      {
+                          _id: "knowledge-results",
+                          role: "system" as const,
+                          content: knowledgePrompt,
+                      },
+                  ]
+                : [];
             const attachmentParts = attachmentObjectsToCanonicalParts(
                 allProcessedAttachments
             );
-            const convertedMessages = buildModelMessages(
-                [...systemPromptMsg, ...messages],
-                {
-                    userAttachmentParts: attachmentParts,
+            // Long chats are trimmed (or summarized) to fit the context window.
+            // Fallback models can have a smaller window, so each model in the
+            // chain gets its own fit (built once, reused across retries).
+            const promptsByModel = new Map<string, Promise<any[]>>();
+            const getModelMessages = (model: string) => {
+                let prompt = promptsByModel.get(model);
+                if (!prompt) {
+                    prompt = fitHistoryToContext(ctx, {
+                        chatId: args.chatId,
+                        userId: chat.userId,
+                        model,
+                        history: messages,
+                        aiSettings,
+                        reservedTokens: estimatePromptTokens(
+                            [
+                                ...systemPromptMsg,
+                                ...searchPromptMsg,
+                                ...knowledgePromptMsg,
+                            ],
+                            model
+                        ),
+                        // A stored summary would hold the history in plain text
+                        allowSummarize: !chatKey,
+                        userApiKeys,
+                    }).then((contextMessages) =>
+                        buildModelMessages(
+                            [
+                                ...systemPromptMsg,
+                                ...searchPromptMsg,
+                                ...knowledgePromptMsg,
+                                ...contextMessages,
+                            ],
+                            {
+                                userAttachmentParts: attachmentParts,
+                            }
+                        )
+                    );
+                    promptsByModel.set(model, prompt);
                 }
-            );
+                return prompt;
+            };
+
+            // Server-side tools enabled for this chat (multi-step tool calling).
+            // Tool results are stored in plain text, so none in encrypted chats.
+            const tools = chatKey
+                ? undefined
+                : buildToolSet(aiSettings.enabledTools, {
+                      ctx,
+                      userId: chat.userId,
+                      chatId: args.chatId,
+                  });
+            const toolInvocations: ToolInvocationRecord[] = [];
+            let stepIndex = 0;
 
             console.log("🔄 Starting AI SDK streaming with custom settings:", {
                 temperature: aiSettings.temperature,
@@ -457,71 +685,290 @@ export const generateStreamingResponse = internalAction({
                 frequencyPenalty: aiSettings.frequencyPenalty,
                 presencePenalty: aiSettings.presencePenalty,
                 hasSystemPrompt: !!aiSettings.systemPrompt,
+                tools: tools ? Object.keys(tools) : [],
             });
 
-            // Use AI SDK's streamText for streaming response with custom settings
-            const result: any = streamText({
-                model: modelInstance,
-                messages: convertedMessages,
-                temperature: aiSettings.temperature,
-                // use maxOutputTokens per AI SDK v5
-                maxOutputTokens: aiSettings.maxTokens,
-                topP: aiSettings.topP,
-                frequencyPenalty: aiSettings.frequencyPenalty,
-                presencePenalty: aiSettings.presencePenalty,
-                onFinish: async (result) => {
-                    // Finalize the response with metadata tracking
-                    const responseTime = Date.now() - startTime;
-                    await ctx.runMutation(
-                        internal.aiHelpers.updateMessageContent,
-                        {
+            // Requested model first, then the user's fallback chain
+            const fallbackModels = await ctx.runQuery(
+                internal.aiHelpers.getFallbackModels,
+                { userId: chat.userId }
+            );
+            const modelChain = buildModelChain(args.model, fallbackModels);
+            let attempts = 0;
+
+            // Abort the model stream when the user hits stop
+            const cancellation = createCancellationWatcher(ctx, messageId);
+
+            // One streamText call against one model. Provider errors are
+            // captured rather than thrown so the caller can retry or fall back.
+            const streamWithModel = async (model: string) => {
+                attempts++;
+                const modelProvider = getProviderFromModel(model);
+                const modelKey =
+                    userApiKeys[
+                        PROVIDER_CONFIGS[modelProvider]
+                            .userKeyField as keyof typeof userApiKeys
+                    ];
+                const modelInstance = providerManager.getModel(
+                    modelProvider,
+                    model,
+                    modelKey
+                );
+                const convertedMessages = await getModelMessages(model);
+                let streamError: unknown;
+                let text = "";
+
+                // Use AI SDK's streamText for streaming response with custom settings
+                const result: any = streamText({
+                    model: modelInstance,
+                    messages: convertedMessages,
+                    abortSignal: cancellation.signal,
+                    // Retries are handled here, across models
+                    maxRetries: 0,
+                    temperature: aiSettings.temperature,
+                    // use maxOutputTokens per AI SDK v5
+                    maxOutputTokens: aiSettings.maxTokens,
+                    topP: aiSettings.topP,
+                    frequencyPenalty: aiSettings.frequencyPenalty,
+                    presencePenalty: aiSettings.presencePenalty,
+                    ...(tools
+                        ? { tools, stopWhen: stepCountIs(MAX_TOOL_STEPS) }
+                        : {}),
+                    onError: ({ error }) => {
+                        streamError = error;
+                    },
+                    onStepFinish: async (step) => {
+                        const invocations = collectToolInvocations(
+                            step,
+                            stepIndex++
+                        );
+                        if (invocations.length === 0) return;
+
+                        // Persist tool calls as they complete so the UI can show progress
+                        toolInvocations.push(...invocations);
+                        metadata.toolInvocations = [...toolInvocations];
+                        await ctx.runMutation(
+                            internal.aiHelpers.updateMessageContent,
+                            {
+                                messageId: messageId,
+                                metadata,
+                                isStreaming: true,
+                            }
+                        );
+                    },
+                    onFinish: async (result) => {
+                        // A failed attempt is finalized by the retry loop
+                        if (streamError) return;
+
+                        // Finalize the response with metadata tracking
+                        const responseTime = Date.now() - startTime;
+                        // Text is produced across steps when tools are used
+                        const finalText = result.steps
+                            .map((step) => step.text)
+                            .join("");
+                        if (citationSources.length > 0) {
+                            metadata.citations = extractCitations(
+                                finalText,
+                                citationSources
+                            );
+                        }
+                        await ctx.runMutation(
+                            internal.aiHelpers.updateMessageContent,
+                            {
+                                messageId: messageId,
+                                content: await seal(finalText),
+                                metadata,
+                                isStreaming: false,
+                                responseMetadata: {
+                                    usage: result.totalUsage, // store raw usage
+                                    finishReason: result.finishReason,
+                                    responseTime,
+                                    model,
+                                    provider: modelProvider,
+                                    requestId: crypto.randomUUID(),
+                                    requestedModel:
+                                        model !== args.model
+                                            ? args.model
+                                            : undefined,
+                                    attempts,
+                                },
+                            }
+                        );
+
+                        console.log("✅ AI SDK STREAMING COMPLETE:", {
+                            chatId: args.chatId,
                             messageId: messageId,
-                            content: result.text,
-                            metadata,
-                            isStreaming: false,
-                            responseMetadata: {
-                                usage: result.usage, // store raw usage
-                                finishReason: result.finishReason,
-                                responseTime,
-                                model: args.model,
-                                provider,
-                                requestId: crypto.randomUUID(),
+                            model,
+                            requestedModel: args.model,
+                            attempts,
+                            responseLength: finalText.length,
+                            responseTime,
+                            usage: result.totalUsage,
+                            toolCalls: toolInvocations.length,
+                            citations: metadata.citations?.length || 0,
+                            finishReason: result.finishReason,
+                            customSettings: {
+                                temperature: aiSettings.temperature,
+                                maxTokens: aiSettings.maxTokens,
                             },
-                        }
-                    );
+                            timestamp: new Date().toISOString(),
+                        });
+                    },
+                });
+
+                // Stream the response and update message incrementally
+                try {
+                    for await (const delta of result.textStream) {
+                        if (cancellation.isCancelled()) break;
+                        text += delta;
+
+                        // Update message content with partial response
+                        await ctx.runMutation(
+                            internal.aiHelpers.updateMessageContent,
+                            {
+                                messageId: messageId,
+                                content: await seal(text),
+                                isStreaming: true,
+                            }
+                        );
+                    }
+                } catch (error) {
+                    // Aborting the stream surfaces as an error - only keep real failures
+                    if (!cancellation.isCancelled()) streamError = error;
+                }
+
+                return {
+                    result,
+                    text,
+                    model,
+                    provider: modelProvider,
+                    error: streamError,
+                };
+            };
+
+            // Transient errors are retried with backoff before giving up on a
+            // model. Only failures before any text arrived are retried - a
+            // half-streamed answer is kept as it is.
+            let lastError: unknown;
+            const streamWithRetries = async (model: string) => {
+                for (let retry = 0; ; retry++) {
+                    const attempt = await streamWithModel(model);
+                    if (
+                        !attempt.error ||
+                        attempt.text ||
+                        cancellation.isCancelled()
+                    ) {
+                        return attempt;
+                    }
 
-                    console.log("✅ AI SDK STREAMING COMPLETE:", {
+                    lastError = attempt.error;
+                    if (!isTransientError(lastError) || retry >= MAX_RETRIES) {
+                        return undefined;
+                    }
+                    const delay = getRetryDelay(retry, lastError);
+                    console.warn("🔁 RETRYING GENERATION:", {
                         chatId: args.chatId,
-                        messageId: messageId,
-                        responseLength: result.text.length,
-                        responseTime,
-                        usage: result.usage,
-                        finishReason: result.finishReason,
-                        customSettings: {
-                            temperature: aiSettings.temperature,
-                            maxTokens: aiSettings.maxTokens,
-                        },
+                        model,
+                        retry: retry + 1,
+                        delay,
+                        statusCode: getErrorStatusCode(lastError),
                         timestamp: new Date().toISOString(),
                     });
-                },
-            });
+                    await sleep(delay);
+                }
+            };
+
+            let attempt: Awaited<ReturnType<typeof streamWithModel>> | undefined;
+            try {
+                for (const [index, candidate] of modelChain.entries()) {
+                    if (index > 0) {
+                        // Fallbacks count against the user's limits like any request
+                        const limitError = await reserveUsage(
+                            ctx,
+                            chat.userId,
+                            "chat",
+                            [candidate]
+                        );
+                        if (limitError) {
+                            lastError = new Error(limitError);
+                            continue;
+                        }
+                        console.log("↪️ FALLING BACK TO NEXT MODEL:", {
+                            chatId: args.chatId,
+                            from: modelChain[index - 1],
+                            to: candidate,
+                            error: handleAISDKError(lastError),
+                            timestamp: new Date().toISOString(),
+                        });
+                    }
 
-            let fullResponse = "";
+                    attempt = await streamWithRetries(candidate);
+                    if (attempt) break;
+                }
+            } finally {
+                cancellation.stop();
+            }
 
-            // Stream the response and update message incrementally
-            for await (const delta of result.textStream) {
-                fullResponse += delta;
+            if (!attempt) {
+                // Every model in the chain failed
+                const errorText = `Error generating response: ${handleAISDKError(lastError)}`;
+                await ctx.runMutation(internal.aiHelpers.updateMessageContent, {
+                    messageId: messageId,
+                    content: errorText,
+                    isStreaming: false,
+                    responseMetadata: {
+                        finishReason: "error",
+                        responseTime: Date.now() - startTime,
+                        model: args.model,
+                        provider,
+                        requestId: crypto.randomUUID(),
+                        attempts,
+                    },
+                });
 
-                // Update message content with partial response
+                return new Response(errorText, {
+                    status: getErrorStatusCode(lastError) === 429 ? 429 : 502,
+                    headers: {
+                        "Content-Type": "text/plain",
+                        "Access-Control-Allow-Origin": "*",
+                    },
+                });
+            }
+
+            if (cancellation.isCancelled() || attempt.error) {
+                // onFinish doesn't run for aborted or failed streams, so keep the partial content here
                 await ctx.runMutation(internal.aiHelpers.updateMessageContent, {
                     messageId: messageId,
-                    content: fullResponse,
-                    isStreaming: true,
+                    content: await seal(attempt.text),
+                    metadata,
+                    isStreaming: false,
+                    responseMetadata: {
+                        finishReason: cancellation.isCancelled()
+                            ? "cancelled"
+                            : "error",
+                        responseTime: Date.now() - startTime,
+                        model: attempt.model,
+                        provider: attempt.provider,
+                        requestId: crypto.randomUUID(),
+                        requestedModel:
+                            attempt.model !== args.model
+                                ? args.model
+                                : undefined,
+                        attempts,
+                    },
+                });
+
+                return new Response(attempt.text, {
+                    status: 200,
+                    headers: {
+                        "Content-Type": "text/plain",
+                        "Access-Control-Allow-Origin": "*",
+                    },
                 });
             }
 
             // Return streaming response for HTTP endpoint
-            return result.toTextStreamResponse({
+            return attempt.result.toTextStreamResponse({
                 headers: {
                     "Access-Control-Allow-Origin": "*",
                     "Access-Control-Allow-Methods": "POST, OPTIONS",
@@ -625,10 +1072,17 @@ export const generateStructuredOutput = internalAction({
             // Use custom AI settings if provided
             const settings = args.aiSettings || {};
 
+            // Abort the model stream when the user hits stop
+            const cancellation = createCancellationWatcher(
+                ctx,
+                args.messageId
+            );
+
             // Use AI SDK's streamObject for streaming structured output
             const result = streamObject({
                 model: modelInstance,
                 messages: convertedMessages,
+                abortSignal: cancellation.signal,
                 schema: args.schema,
                 temperature: settings.temperature || 0.7,
                 maxOutputTokens: settings.maxTokens,
@@ -641,21 +1095,46 @@ export const generateStructuredOutput = internalAction({
             let isProcessing = false;
 
             // Stream partial updates
-            for await (const partialResult of result.partialObjectStream) {
-                partialObject = partialResult;
+            try {
+                for await (const partialResult of result.partialObjectStream) {
+                    if (cancellation.isCancelled()) break;
+                    partialObject = partialResult;
 
-                // Update with streaming status
-                if (!isProcessing && partialObject.intro) {
-                    await ctx.runMutation(
-                        internal.aiHelpers.updateMessageContent,
-                        {
-                            messageId: args.messageId,
-                            content: `${partialObject.intro}\n\n⚡ Creating artifacts...`,
-                            isStreaming: true,
-                        }
-                    );
-                    isProcessing = true;
+                    // Update with streaming status
+                    if (!isProcessing && partialObject.intro) {
+                        await ctx.runMutation(
+                            internal.aiHelpers.updateMessageContent,
+                            {
+                                messageId: args.messageId,
+                                content: `${partialObject.intro}\n\n⚡ Creating artifacts...`,
+                                isStreaming: true,
+                            }
+                        );
+                        isProcessing = true;
+                    }
                 }
+            } catch (error) {
+                if (!cancellation.isCancelled()) throw error;
+            } finally {
+                cancellation.stop();
+            }
+
+            if (cancellation.isCancelled()) {
+                // Partial artifacts are incomplete, so only the intro is kept
+                await ctx.runMutation(internal.aiHelpers.updateMessageContent, {
+                    messageId: args.messageId,
+                    content: partialObject.intro || "",
+                    metadata: args.metadata,
+                    isStreaming: false,
+                    responseMetadata: {
+                        finishReason: "cancelled",
+                        responseTime: Date.now() - startTime,
+                        model: args.model,
+                        provider,
+                        requestId: crypto.randomUUID(),
+                    },
+                });
+                return null;
             }
 
             // Get final result - await the completion of streamObject
@@ -839,6 +1318,55 @@ export const generateMultiAIResponses = internalAction({
             timestamp: new Date().toISOString(),
         });
 
+        // Budgets and rate limits: every model is a provider call, so a
+        // comparison is refused as a whole rather than partially generated
+        const chat: any = await ctx.runQuery(internal.chats.getChatInternal, {
+            chatId: args.chatId,
+        });
+        if (!chat) throw new Error("Chat not found");
+
+        const limitError = await reserveUsage(
+            ctx,
+            chat.userId,
+            "multi_ai",
+            args.models
+        );
+        if (limitError) {
+            for (const [index, model] of args.models.entries()) {
+                await ctx.runMutation(internal.messages.updateMultiAIResponse, {
+                    messageId: args.messageId,
+                    responseId: args.responseIds[index],
+                    content: `⚠️ ${limitError}`,
+                    isComplete: true,
+                    metadata: {
+                        error: true,
+                        provider: getProviderFromModel(model),
+                        model,
+                        finishReason: "usage_limit",
+                    },
+                });
+            }
+            return;
+        }
+
+        // Assistant chats: restrict commands and pin the assistant's knowledge
+        const assistantContext = await ctx.runQuery(
+            internal.assistants.getChatAssistantContextInternal,
+            {
+                chatId: args.chatId,
+                commands: args.commands,
+            }
+        );
+        const commands = assistantContext
+            ? assistantContext.commands
+            : args.commands;
+        const referencedLibraryItems = [...(args.referencedLibraryItems || [])];
+        for (const item of assistantContext?.knowledge || []) {
+            if (!referencedLibraryItems.some((ref) => ref.id === item.id)) {
+                referencedLibraryItems.push(item);
+            }
+        }
+
         // Process attachments and library items (similar to generateStreamingResponse)
         const allProcessedAttachments: any[] = [];
 
@@ -859,15 +1387,12 @@ export const generateMultiAIResponses = internalAction({
             }
         }
 
-        if (
-            args.referencedLibraryItems &&
-            args.referencedLibraryItems.length > 0
-        ) {
+        if (referencedLibraryItems.length > 0) {
             console.log(
-                `🔗 Processing ${args.referencedLibraryItems.length} referenced library items...`
+                `🔗 Processing ${referencedLibraryItems.length} referenced library items...`
             );
 
-            for (const item of args.referencedLibraryItems) {
+            for (const item of referencedLibraryItems) {
                 try {
                     const processedItem = await processLibraryItemForAISDK(
                         item,
@@ -883,11 +1408,31 @@ export const generateMultiAIResponses = internalAction({
             }
         }
 
+        // Context window settings apply to every compared model
+        const aiSettings = await ctx.runQuery(
+            internal.aiHelpers.getCombinedAISettings,
+            {
+                chatId: args.chatId,
+                userId: chat.userId,
+            }
+        );
+
         // Check for special commands
-        const hasCanvas = args.commands?.includes("canvas");
-        const hasImageGen = args.commands?.includes("image");
-        const hasVideoGen = args.commands?.includes("video");
-        const hasSearch = args.commands?.includes("search");
+        const hasCanvas = commands?.includes("canvas");
+        const hasImageGen = commands?.includes("image");
+        const hasVideoGen = commands?.includes("video");
+        const hasSearch = commands?.includes("search");
+
+        // Run /search once and share the same numbered sources across models
+        let searchPromise: Promise<WebSearchResult[]> | null = null;
+        const getSearchResults = (query: string) => {
+            if (!hasSearch) return Promise.resolve([]);
+            searchPromise ??= runWebSearch(query);
+            return searchPromise;
+        };
+
+        // One stop request cancels every model generating into this message
+        const cancellation = createCancellationWatcher(ctx, args.messageId);
 
         // Generate responses from all models in parallel using AI SDK
         const responsePromises = args.models.map(async (model, index) => {
@@ -900,7 +1445,7 @@ export const generateMultiAIResponses = internalAction({
                     provider,
                     chatId: args.chatId,
                     messageId: args.messageId,
-                    commands: args.commands,
+                    commands,
                 });
 
                 const userApiKeys = await getUserApiKeys(ctx);
@@ -920,6 +1465,7 @@ export const generateMultiAIResponses = internalAction({
                     .filter((m: any) => m.role === "user")
                     .pop();
                 const content = lastUserMessage?.content || "";
+                const searchResults = await getSearchResults(content);
 
                 // Handle special commands for each model
                 if (
@@ -938,7 +1484,7 @@ export const generateMultiAIResponses = internalAction({
                         const response = `Here's your generated image:\n\n![Generated Image](${imageUrl})`;
 
                         await ctx.runMutation(
-                            api.messages.updateMultiAIResponse,
+                            internal.messages.updateMultiAIResponse,
                             {
                                 messageId: args.messageId,
                                 responseId,
@@ -960,7 +1506,7 @@ export const generateMultiAIResponses = internalAction({
                             error
                         );
                         await ctx.runMutation(
-                            api.messages.updateMultiAIResponse,
+                            internal.messages.updateMultiAIResponse,
                             {
                                 messageId: args.messageId,
                                 responseId,
@@ -992,7 +1538,7 @@ export const generateMultiAIResponses = internalAction({
                             : videoData.error || "Video generation failed";
 
                         await ctx.runMutation(
-                            api.messages.updateMultiAIResponse,
+                            internal.messages.updateMultiAIResponse,
                             {
                                 messageId: args.messageId,
                                 responseId,
@@ -1015,7 +1561,7 @@ export const generateMultiAIResponses = internalAction({
                             error
                         );
                         await ctx.runMutation(
-                            api.messages.updateMultiAIResponse,
+                            internal.messages.updateMultiAIResponse,
                             {
                                 messageId: args.messageId,
                                 responseId,
@@ -1040,7 +1586,11 @@ export const generateMultiAIResponses = internalAction({
                             artifacts: z.array(
                                 z.object({
                                     id: z.string(),
-                                    filename: z.string(),
+                                    filename: z
+                                        .string()
+                                        .describe(
+                                            "Path from the project root, e.g. src/App.jsx. Files of a multi-file project import each other with relative paths"
+                                        ),
                                     language: z.string(),
                                     content: z.string(),
                                     description: z.string(),
@@ -1052,12 +1602,27 @@ export const generateMultiAIResponses = internalAction({
                         });
 
                         let enhancedPrompt = content;
-                        if (hasSearch) {
+                        if (searchResults.length > 0) {
+                            enhancedPrompt = `${content}\n\n${buildSearchSystemPrompt(searchResults)}`;
+                        } else if (hasSearch) {
                             enhancedPrompt = `${content}\n\nNote: Use web search to find current information if needed for creating accurate and up-to-date artifacts.`;
                         }
 
+                        // Trimmed to this model's window like regular replies
+                        const contextMessages = await fitHistoryToContext(ctx, {
+                            chatId: args.chatId,
+                            userId: chat.userId,
+                            model,
+                            history: messages,
+                            aiSettings,
+                            reservedTokens: estimatePromptTokens(
+                                [{ content: enhancedPrompt }],
+                                model
+                            ),
+                            allowSummarize: false,
+                        });
                         const convertedMessages = [
-                            ...messages.slice(0, -1).map((m: any) => ({
+                            ...contextMessages.slice(0, -1).map((m: any) => ({
                                 role: m.role,
                                 content: m.content,
                             })),
@@ -1074,6 +1639,7 @@ export const generateMultiAIResponses = internalAction({
                         const result = await generateObject({
                             model: modelInstance,
                             messages: convertedMessages,
+                            abortSignal: cancellation.signal,
                             schema: canvasSchema,
                             temperature: 0.7,
                         });
@@ -1114,7 +1680,7 @@ export const generateMultiAIResponses = internalAction({
                         responseText += `\n\n${parsedOutput.summary || ""}`;
 
                         await ctx.runMutation(
-                            api.messages.updateMultiAIResponse,
+                            internal.messages.updateMultiAIResponse,
                             {
                                 messageId: args.messageId,
                                 responseId,
@@ -1133,12 +1699,30 @@ export const generateMultiAIResponses = internalAction({
                         );
                         return;
                     } catch (error) {
+                        if (cancellation.isCancelled()) {
+                            await ctx.runMutation(
+                                internal.messages.updateMultiAIResponse,
+                                {
+                                    messageId: args.messageId,
+                                    responseId,
+                                    content: "⏹️ Canvas generation stopped.",
+                                    isComplete: true,
+                                    metadata: {
+                                        provider,
+                                        model,
+                                        command: "canvas",
+                                        finishReason: "cancelled",
+                                    },
+                                }
+                            );
+                            return;
+                        }
                         console.error(
                             `Canvas generation failed for ${model}:`,
                             error
                         );
                         await ctx.runMutation(
-                            api.messages.updateMultiAIResponse,
+                            internal.messages.updateMultiAIResponse,
                             {
                                 messageId: args.messageId,
                                 responseId,
@@ -1153,12 +1737,33 @@ export const generateMultiAIResponses = internalAction({
                 }
 
                 // Regular text generation (default case)
-                const systemPromptMsg: any[] = [];
+                const systemPromptMsg: any[] =
+                    searchResults.length > 0
+                        ? [
+                              {
+                                  _id: "search-results",
+                                  role: "system" as const,
+                                  content: buildSearchSystemPrompt(searchResults),
+                              },
+                          ]
+                        : [];
                 const attachmentParts = attachmentObjectsToCanonicalParts(
                     allProcessedAttachments
                 );
+                const contextMessages = await fitHistoryToContext(ctx, {
+                    chatId: args.chatId,
+                    userId: chat.userId,
+                    model,
+                    history: messages,
+                    aiSettings,
+                    reservedTokens: estimatePromptTokens(
+                        systemPromptMsg,
+                        model
+                    ),
+                    allowSummarize: false,
+                });
                 const convertedMessages = buildModelMessages(
-                    [...systemPromptMsg, ...messages],
+                    [...systemPromptMsg, ...contextMessages],
                     { userAttachmentParts: attachmentParts }
                 );
                 const modelInstance = providerManager.getModel(
@@ -1167,33 +1772,72 @@ export const generateMultiAIResponses = internalAction({
                     userKey
                 );
 
-                // Generate text using AI SDK
-                const result = await generateText({
+                // Stream text using AI SDK so a stop request keeps the partial text
+                const result = streamText({
                     model: modelInstance,
                     messages: convertedMessages,
+                    abortSignal: cancellation.signal,
                     temperature: 0.7,
                 });
 
+                let text = "";
+                try {
+                    for await (const delta of result.textStream) {
+                        if (cancellation.isCancelled()) break;
+                        text += delta;
+                    }
+                } catch (error) {
+                    if (!cancellation.isCancelled()) throw error;
+                }
+
+                if (cancellation.isCancelled()) {
+                    await ctx.runMutation(internal.messages.updateMultiAIResponse, {
+                        messageId: args.messageId,
+                        responseId,
+                        // Empty responses count as pending, so mark the stop explicitly
+                        content: text || "⏹️ Generation stopped.",
+                        isComplete: true,
+                        metadata: {
+                            provider,
+                            model,
+                            finishReason: "cancelled",
+                            commands,
+                        },
+                    });
+                    return;
+                }
+
+                const finishReason = await result.finishReason;
+                const usage = await result.usage;
+
                 // Update the multi-AI response with the generated content
-                await ctx.runMutation(api.messages.updateMultiAIResponse, {
+                await ctx.runMutation(internal.messages.updateMultiAIResponse, {
                     messageId: args.messageId,
                     responseId,
-                    content: result.text,
+                    content: text,
                     isComplete: true,
                     metadata: {
                         provider,
                         model,
-                        finishReason: result.finishReason,
-                        usage: result.usage, // raw usage
-                        commands: args.commands,
+                        finishReason,
+                        usage, // raw usage
+                        commands,
+                        ...(searchResults.length > 0
+                            ? {
+                                  citations: extractCitations(
+                                      text,
+                                      searchResults
+                                  ),
+                              }
+                            : {}),
                     },
                 });
 
                 console.log(`✅ COMPLETED AI SDK RESPONSE FOR ${model}:`, {
                     responseId,
-                    contentLength: result.text.length,
+                    contentLength: text.length,
                     provider,
-                    commands: args.commands,
+                    commands,
                     timestamp: new Date().toISOString(),
                 });
             } catch (error) {
@@ -1204,7 +1848,7 @@ export const generateMultiAIResponses = internalAction({
                     timestamp: new Date().toISOString(),
                 });
 
-                await ctx.runMutation(api.messages.updateMultiAIResponse, {
+                await ctx.runMutation(internal.messages.updateMultiAIResponse, {
                     messageId: args.messageId,
                     responseId,
                     content: `Error generating response: ${error instanceof Error ? error.message : String(error)}`,
@@ -1215,7 +1859,11 @@ export const generateMultiAIResponses = internalAction({
         });
 
         // Wait for all responses to complete
-        await Promise.all(responsePromises);
+        try {
+            await Promise.all(responsePromises);
+        } finally {
+            cancellation.stop();
+        }
 
         console.log("🎉 MULTI-AI GENERATION COMPLETE WITH AI SDK:", {
             chatId: args.chatId,
@@ -1302,3 +1950,151 @@ export const markStreamingComplete = action({
         }
     },
 });
+
+const artifactEditSchema = z.object({
+    summary: z.string().describe("One sentence describing what was changed"),
+    edits: z.array(
+        z.object({
+            find: z
+                .string()
+                .describe(
+                    "Exact text copied from the current file, whitespace included, with enough surrounding lines to occur only once"
+                ),
+            replace: z.string().describe("Text that replaces `find`"),
+        })
+    ),
+});
+
+// "Edit with AI" from the Canvas: the model proposes targeted replacements for
+// the artifact (or the selected range), which are saved as a new revision
+export const editArtifactWithAI = action({
+    args: {
+        artifactId: v.string(),
+        instruction: v.string(),
+        selection: v.optional(
+            v.object({ start: v.number(), end: v.number() })
+        ),
+        model: v.optional(v.string()),
+    },
+    handler: async (
+        ctx,
+        args
+    ): Promise<
+        | { success: true; revision: number; changed: boolean; summary: string }
+        | { success: false; error: string }
+    > => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const artifact = await ctx.runQuery(
+            internal.artifacts.getArtifactInternal,
+            { artifactId: args.artifactId }
+        );
+        if (!artifact || artifact.userId !== userId) {
+            throw new Error("Artifact not found");
+        }
+
+        const instruction = args.instruction.trim();
+        if (!instruction) {
+            return { success: false, error: "Describe the change you want" };
+        }
+
+        const selection =
+            args.selection &&
+            args.selection.start < args.selection.end &&
+            args.selection.end <= artifact.content.length
+                ? args.selection
+                : undefined;
+
+        const preferences: any = await ctx.runQuery(
+            internal.preferences.getUserPreferencesInternal,
+            { userId }
+        );
+        const model =
+            args.model || preferences?.defaultModel || "gemini-2.0-flash";
+        const provider = getProviderFromModel(model);
+
+        const limitError = await reserveUsage(ctx, userId, "canvas_edit", [
+            model,
+        ]);
+        if (limitError) return { success: false, error: limitError };
+
+        const selectionPrompt = selection
+            ? `\n\nOnly change this selected part of the file (lines ${
+                  artifact.content.slice(0, selection.start).split("\n").length
+              }-${
+                  artifact.content.slice(0, selection.end).split("\n").length
+              }). Every \`find\` must come from inside it:\n<selection>\n${artifact.content.slice(
+                  selection.start,
+                  selection.end
+              )}\n</selection>`
+            : "";
+
+        console.log("✏️ AI ARTIFACT EDIT:", {
+            artifactId: args.artifactId,
+            model,
+            hasSelection: !!selection,
+            timestamp: new Date().toISOString(),
+        });
+
+        try {
+            const userApiKeys = await getUserApiKeys(ctx);
+            const config = PROVIDER_CONFIGS[provider];
+            const modelInstance = providerManager.getModel(
+                provider,
+                model,
+                userApiKeys[config.userKeyField as keyof typeof userApiKeys]
+            );
+
+            const result = await generateObject({
+                model: modelInstance,
+                schema: artifactEditSchema,
+                temperature: 0.2,
+                system: "You edit files in place. Return the smallest set of find/replace edits that carries out the instruction. Keep the file's style and leave everything else untouched.",
+                prompt: `File: ${artifact.filename} (${artifact.language})\n<file>\n${artifact.content}\n</file>${selectionPrompt}\n\nInstruction: ${instruction}`,
+            });
+
+            const usage = normalizeUsage(result.usage);
+            if (usage) {
+                await ctx.runMutation(internal.usageLimits.recordUsage, {
+                    userId,
+                    source: "canvas_edit",
+                    model,
+                    provider,
+                    tokens: usage.totalTokens ?? 0,
+                    cost: calculateCost(model, usage),
+                });
+            }
+
+            const { revision, changed } = await ctx.runMutation(
+                internal.artifacts.applyAIEdit,
+                {
+                    artifactId: args.artifactId,
+                    userId,
+                    baseUpdatedAt: artifact.updatedAt,
+                    instruction,
+                    edits: result.object.edits,
+                    selection,
+                }
+            );
+
+            return {
+                success: true,
+                revision,
+                changed,
+                summary: result.object.summary,
+            };
+        } catch (error) {
+            console.error("AI artifact edit failed:", error);
+            return {
+                success: false,
+                // Edits that don't apply come back as ConvexErrors with a
+                // message for the user
+                error:
+                    error instanceof ConvexError
+                        ? String(error.data)
+                        : handleAISDKError(error),
+            };
+        }
+    },
+});
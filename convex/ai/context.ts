@@ -0,0 +1,196 @@
+"use node";
+
+import { generateText } from "ai";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { calculateCost, normalizeUsage } from "../pricing";
+import {
+    estimateTokens,
+    getContextBudget,
+    getContextStrategy,
+    planContext,
+    SUMMARY_TARGET_RATIO,
+    type ContextMessage,
+} from "../contextWindow";
+import {
+    getProviderFromModel,
+    PROVIDER_CONFIGS,
+    providerManager,
+} from "./providers";
+import { reserveUsage } from "./helpers";
+
+const SUMMARY_SYSTEM_PROMPT =
+    "You maintain a running summary of a conversation so it can continue after older messages are dropped. Keep facts, decisions, names, numbers, code identifiers and open questions. Write compact prose or bullets, no preamble.";
+
+type HistoryMessage = ContextMessage & { _id: Id<"messages">; timestamp: number };
+
+function toTranscript(messages: HistoryMessage[]) {
+    return messages
+        .map((m) => `${m.role.toUpperCase()}: ${m.content}`)
+        .join("\n\n");
+}
+
+/**
+ * Trim chat history to the model's context window using the chat's context
+ * strategy. Under "summarize", history that no longer fits is folded into a
+ * rolling summary first (stored as a hidden system message for later turns);
+ * if that fails the request falls back to a sliding window.
+ */
+export async function fitHistoryToContext(
+    ctx: any,
+    args: {
+        chatId: Id<"chats">;
+        userId: Id<"users">;
+        model: string;
+        history: HistoryMessage[];
+        aiSettings: {
+            contextWindow?: number;
+            contextStrategy?: string;
+            maxTokens?: number;
+        };
+        // Tokens already spoken for by system and search prompts
+        reservedTokens?: number;
+        // Parallel multi-model requests share one summary instead of racing
+        allowSummarize?: boolean;
+        userApiKeys?: Record<string, string | undefined>;
+    }
+): Promise<any[]> {
+    const { model, history, aiSettings } = args;
+    const strategy = getContextStrategy(aiSettings.contextStrategy);
+    const budget =
+        getContextBudget(model, aiSettings).inputBudget -
+        (args.reservedTokens ?? 0);
+
+    let summary =
+        strategy === "summarize"
+            ? await ctx.runQuery(
+                  internal.contextWindow.getContextSummaryInternal,
+                  {
+                      chatId: args.chatId,
+                      messageIds: history.map((m) => m._id),
+                  }
+              )
+            : null;
+
+    let plan = planContext(history, { model, strategy, budget, summary });
+
+    if (
+        plan.dropped.length > 0 &&
+        strategy === "summarize" &&
+        args.allowSummarize !== false
+    ) {
+        // Summarize down to a fraction of the budget so the next turns fit too
+        const toSummarize = planContext(history, {
+            model,
+            strategy,
+            budget: budget * SUMMARY_TARGET_RATIO,
+            summary,
+        }).dropped;
+        const throughMessage = toSummarize[toSummarize.length - 1];
+
+        try {
+            // Over the limit, the request falls back to a sliding window
+            const limitError = await reserveUsage(
+                ctx,
+                args.userId,
+                "context_summary",
+                [model]
+            );
+            if (limitError) throw new Error(limitError);
+
+            const provider = getProviderFromModel(model);
+            const modelInstance = providerManager.getModel(
+                provider,
+                model,
+                args.userApiKeys?.[
+                    PROVIDER_CONFIGS[provider].userKeyField as string
+                ]
+            );
+
+            // The transcript has to fit in one request as well - keep its end
+            const maxChars = Math.max(budget, 1_000) * 3;
+            let transcript = toTranscript(toSummarize);
+            if (transcript.length > maxChars) {
+                transcript = `...${transcript.slice(-maxChars)}`;
+            }
+
+            const result = await generateText({
+                model: modelInstance,
+                system: SUMMARY_SYSTEM_PROMPT,
+                temperature: 0.2,
+                prompt: `${
+                    summary
+                        ? `Summary so far:\n${summary.content}\n\n`
+                        : ""
+                }Fold these messages into the summary:\n\n${transcript}`,
+            });
+
+            const usage = normalizeUsage(result.usage);
+            if (usage) {
+                await ctx.runMutation(internal.usageLimits.recordUsage, {
+                    userId: args.userId,
+                    source: "context_summary",
+                    model,
+                    provider,
+                    tokens: usage.totalTokens ?? 0,
+                    cost: calculateCost(model, usage),
+                });
+            }
+
+            const summarizedCount =
+                (summary?.summarizedCount ?? 0) + toSummarize.length;
+            await ctx.runMutation(internal.contextWindow.saveContextSummary, {
+                chatId: args.chatId,
+                content: result.text,
+                model,
+                throughMessageId: throughMessage._id,
+                summarizedCount,
+            });
+
+            summary = {
+                content: result.text,
+                coversUntil: throughMessage.timestamp,
+                summarizedCount,
+            };
+            plan = planContext(history, { model, strategy, budget, summary });
+        } catch (error) {
+            console.error("Context summarization failed:", error);
+        }
+    }
+
+    if (plan.dropped.length > 0 || plan.summary) {
+        console.log("✂️ CONTEXT TRIMMED:", {
+            chatId: args.chatId,
+            model,
+            strategy,
+            budget,
+            usedTokens: plan.usedTokens,
+            totalTokens: plan.totalTokens,
+            dropped: plan.dropped.length,
+            hasSummary: !!plan.summary,
+            timestamp: new Date().toISOString(),
+        });
+    }
+
+    const summaryMessage = plan.summary
+        ? [
+              {
+                  _id: "context-summary",
+                  role: "system" as const,
+                  content: `Summary of the earlier conversation:\n${plan.summary.content}`,
+              },
+          ]
+        : [];
+    return [...summaryMessage, ...plan.messages];
+}
+
+// Token estimate for extra prompt messages (system prompt, search results)
+export function estimatePromptTokens(
+    messages: { content: string }[],
+    model: string
+) {
+    return messages.reduce(
+        (sum, m) => sum + estimateTokens(m.content, model),
+        0
+    );
+}
@@ -0,0 +1,139 @@
+"use node";
+
+import { embedMany } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { reserveUsage } from "./helpers";
+import {
+    EMBEDDING_DIMENSIONS,
+    LOCAL_EMBEDDING_MODEL,
+    OPENAI_EMBEDDING_MODEL,
+} from "../embeddings";
+
+type ApiKeys = Record<string, string | undefined>;
+
+// Embeddings shared by the knowledge base and semantic chat search: OpenAI
+// text-embedding-3-small, or the local hashed embedding when no OpenAI key is
+// available (models and dimensions in convex/embeddings.ts).
+
+const EMBEDDING_PRICE_PER_MILLION = 0.02; // USD, text-embedding-3-small
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Provider keys for work that runs without a user session (scheduled actions)
+export async function getStoredApiKeys(
+    ctx: any,
+    userId: Id<"users">
+): Promise<ApiKeys> {
+    const preferences = await ctx.runQuery(
+        internal.preferences.getUserPreferencesInternal,
+        { userId }
+    );
+    return {
+        openaiApiKey: preferences?.apiKeys?.openaiApiKey,
+        googleApiKey: preferences?.apiKeys?.googleApiKey,
+    };
+}
+
+function getOpenAIApiKey(apiKeys: ApiKeys) {
+    return apiKeys.openaiApiKey || process.env.OPENAI_API_KEY;
+}
+
+export function getOpenAIEmbeddingModel(apiKeys: ApiKeys) {
+    const apiKey = getOpenAIApiKey(apiKeys);
+    if (!apiKey) {
+        throw new Error("Embeddings need an OpenAI API key");
+    }
+    return createOpenAI({ apiKey }).textEmbeddingModel(OPENAI_EMBEDDING_MODEL);
+}
+
+// Model used for a user's message embeddings. EMBEDDING_PROVIDER=local forces
+// the local embedding (tests and deployments without an OpenAI key).
+export function getSearchEmbeddingModel(apiKeys: ApiKeys) {
+    if (process.env.EMBEDDING_PROVIDER === "local") return LOCAL_EMBEDDING_MODEL;
+    return getOpenAIApiKey(apiKeys)
+        ? OPENAI_EMBEDDING_MODEL
+        : LOCAL_EMBEDDING_MODEL;
+}
+
+function hashToken(token: string) {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Deterministic embedding without a provider: words and character trigrams
+ * hashed into a signed bag of features, L2-normalized. It only captures
+ * shared vocabulary (including word fragments), not meaning.
+ */
+export function localEmbedding(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+    const addFeature = (feature: string, weight: number) => {
+        const hash = hashToken(feature);
+        vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    };
+    for (const word of words) {
+        addFeature(`w:${word}`, 1);
+        const padded = ` ${word} `;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+            addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+        }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+    return norm > 0 ? vector.map((x) => x / norm) : vector;
+}
+
+/**
+ * Embed texts with `model` (see getSearchEmbeddingModel). OpenAI requests are
+ * reserved against the user's limits first - a refused reservation throws
+ * with the user-facing message - and their usage is recorded under `source`.
+ */
+export async function embedTexts(
+    ctx: any,
+    args: {
+        userId: Id<"users">;
+        texts: string[];
+        model: string;
+        apiKeys: ApiKeys;
+        source: "knowledge_base" | "semantic_search";
+    }
+): Promise<number[][]> {
+    if (args.model === LOCAL_EMBEDDING_MODEL) {
+        return args.texts.map(localEmbedding);
+    }
+
+    const model = getOpenAIEmbeddingModel(args.apiKeys);
+    const embeddings: number[][] = [];
+    let tokens = 0;
+    for (let i = 0; i < args.texts.length; i += EMBEDDING_BATCH_SIZE) {
+        const limitError = await reserveUsage(ctx, args.userId, args.source, [
+            OPENAI_EMBEDDING_MODEL,
+        ]);
+        if (limitError) throw new Error(limitError);
+
+        const result = await embedMany({
+            model,
+            values: args.texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+        });
+        embeddings.push(...result.embeddings);
+        tokens += result.usage.tokens;
+    }
+
+    await ctx.runMutation(internal.usageLimits.recordUsage, {
+        userId: args.userId,
+        source: args.source,
+        model: OPENAI_EMBEDDING_MODEL,
+        provider: "openai",
+        tokens,
+        cost: (tokens * EMBEDDING_PRICE_PER_MILLION) / 1_000_000,
+    });
+    return embeddings;
+}
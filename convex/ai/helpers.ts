@@ -1,7 +1,11 @@
 "use node";
 
+import { ConvexError } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import { getProviderFromModel } from "./providers";
+import { getErrorStatusCode } from "./retry";
 
 // Helper function to get user API keys using AI SDK compatible format
 export async function getUserApiKeys(
@@ -471,6 +475,15 @@ export function validateModelForProvider(
 
 // Helper to handle AI SDK errors gracefully
 export function handleAISDKError(error: any): string {
+    const statusCode = getErrorStatusCode(error);
+    if (statusCode === 429) {
+        return `Rate limit exceeded. Please wait a moment and try again.`;
+    }
+
+    if (statusCode === 503 || statusCode === 529) {
+        return `The provider is temporarily overloaded or unavailable. Please try again shortly, or add fallback models in Settings.`;
+    }
+
     if (error?.name === "AI_InvalidModelError") {
         return `The model is not supported or unavailable. Please try a different model.`;
     }
@@ -636,3 +649,75 @@ export async function processLibraryItemForAISDK(
         throw new Error(`Unsupported library item type`);
     }
 }
+
+// Poll messages.isCancelled while a generation runs and abort the model call
+// once the user hits stop (see messages.cancelGeneration)
+export const CANCELLATION_POLL_INTERVAL_MS = 1000;
+
+export interface CancellationWatcher {
+    signal: AbortSignal;
+    isCancelled: () => boolean;
+    stop: () => void;
+}
+
+export function createCancellationWatcher(
+    ctx: any,
+    messageId: any
+): CancellationWatcher {
+    const controller = new AbortController();
+    let polling = false;
+
+    const interval = setInterval(() => {
+        if (polling || controller.signal.aborted) return;
+        polling = true;
+        ctx.runQuery(internal.aiHelpers.isGenerationCancelled, { messageId })
+            .then((cancelled: boolean) => {
+                if (cancelled && !controller.signal.aborted) {
+                    console.log("🛑 GENERATION CANCELLED:", {
+                        messageId,
+                        timestamp: new Date().toISOString(),
+                    });
+                    controller.abort();
+                }
+            })
+            .catch((error: unknown) => {
+                console.error("Failed to check cancellation:", error);
+            })
+            .finally(() => {
+                polling = false;
+            });
+    }, CANCELLATION_POLL_INTERVAL_MS);
+
+    return {
+        signal: controller.signal,
+        isCancelled: () => controller.signal.aborted,
+        stop: () => clearInterval(interval),
+    };
+}
+
+/**
+ * Reserve provider calls against the user's budgets and rate limits (see
+ * usageLimits.reserveRequests). Returns the user-facing message when a limit
+ * is hit, null when the calls may go ahead.
+ */
+export async function reserveUsage(
+    ctx: any,
+    userId: any,
+    source: Doc<"usageEvents">["source"],
+    models: string[]
+): Promise<string | null> {
+    try {
+        await ctx.runMutation(internal.usageLimits.reserveRequests, {
+            userId,
+            source,
+            requests: models.map((model) => ({
+                model,
+                provider: getProviderFromModel(model),
+            })),
+        });
+        return null;
+    } catch (error) {
+        if (error instanceof ConvexError) return String(error.data);
+        throw error;
+    }
+}
@@ -0,0 +1,360 @@
+"use node";
+
+import { generateText } from "ai";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { OPENAI_EMBEDDING_MODEL } from "../embeddings";
+import { calculateCost, normalizeUsage } from "../pricing";
+import { embedTexts } from "./embeddings";
+import { reserveUsage } from "./helpers";
+import { providerManager } from "./providers";
+import type { WebSearchResult } from "./webSearch";
+
+type ApiKeys = Record<string, string | undefined>;
+
+// The library item being indexed (knowledgeBase.getIndexingSourceInternal)
+export interface KnowledgeSource {
+    name: string;
+    originalName: string;
+    type: string;
+    mimeType: string;
+    pageCount?: number;
+}
+
+// Text of one PDF page, or of a whole text file (no page number)
+export interface ExtractedPage {
+    pageNumber?: number;
+    text: string;
+}
+
+// A retrieved passage, numbered and cited like a web search result
+export interface KnowledgeResult extends WebSearchResult {
+    page?: number;
+}
+
+// Pluggable text extraction - implement this to index a new kind of file
+export interface TextExtractor {
+    name: string;
+    canExtract(source: KnowledgeSource): boolean;
+    extract(
+        ctx: any,
+        userId: Id<"users">,
+        data: ArrayBuffer,
+        source: KnowledgeSource,
+        apiKeys: ApiKeys
+    ): Promise<ExtractedPage[]>;
+}
+
+// Number of passages injected into the prompt
+export const DEFAULT_KNOWLEDGE_RESULT_LIMIT = 6;
+export const MAX_KNOWLEDGE_CHUNKS = 500;
+
+const CHUNK_SIZE = 1500; // Characters
+const CHUNK_OVERLAP = 200;
+const PDF_PAGES_PER_REQUEST = 10;
+const MAX_PDF_PAGES = 500;
+// Vector search filters accept a bounded number of clauses
+const MAX_SEARCHED_ITEMS = 64;
+
+const PAGE_MARKER = /^=== Page (\d+) ===$/gm;
+const NO_MORE_PAGES = "NO_MORE_PAGES";
+
+async function recordKnowledgeUsage(
+    ctx: any,
+    userId: Id<"users">,
+    model: string,
+    provider: string,
+    tokens: number,
+    cost: number
+) {
+    await ctx.runMutation(internal.usageLimits.recordUsage, {
+        userId,
+        source: "knowledge_base",
+        model,
+        provider,
+        tokens,
+        cost,
+    });
+}
+
+// =============================================================================
+// Extraction
+// =============================================================================
+
+class PlainTextExtractor implements TextExtractor {
+    name = "plain-text";
+
+    canExtract(source: KnowledgeSource) {
+        return source.type !== "pdf" && source.mimeType !== "application/pdf";
+    }
+
+    async extract(
+        _ctx: any,
+        _userId: Id<"users">,
+        data: ArrayBuffer
+    ): Promise<ExtractedPage[]> {
+        return [{ text: new TextDecoder().decode(data) }];
+    }
+}
+
+// There's no PDF parser in the Convex runtime, so a multimodal model
+// transcribes the file a few pages per request
+class ModelPdfExtractor implements TextExtractor {
+    name = "model-pdf";
+
+    canExtract(source: KnowledgeSource) {
+        return source.type === "pdf" || source.mimeType === "application/pdf";
+    }
+
+    private pickModel(apiKeys: ApiKeys) {
+        if (
+            apiKeys.googleApiKey ||
+            process.env.GOOGLE_AI_API_KEY ||
+            process.env.GOOGLE_CLOUD_PROJECT
+        ) {
+            return {
+                provider: "google" as const,
+                model: "gemini-2.0-flash",
+                apiKey: apiKeys.googleApiKey,
+            };
+        }
+        return {
+            provider: "openai" as const,
+            model: "gpt-4o-mini",
+            apiKey: apiKeys.openaiApiKey,
+        };
+    }
+
+    async extract(
+        ctx: any,
+        userId: Id<"users">,
+        data: ArrayBuffer,
+        source: KnowledgeSource,
+        apiKeys: ApiKeys
+    ): Promise<ExtractedPage[]> {
+        const { provider, model, apiKey } = this.pickModel(apiKeys);
+        const modelInstance = providerManager.getModel(provider, model, apiKey);
+        const lastPage = Math.min(source.pageCount ?? MAX_PDF_PAGES, MAX_PDF_PAGES);
+        const pages: ExtractedPage[] = [];
+
+        for (let from = 1; from <= lastPage; from += PDF_PAGES_PER_REQUEST) {
+            const to = Math.min(from + PDF_PAGES_PER_REQUEST - 1, lastPage);
+            // Each request is checked against the user's limits - indexing
+            // stops (and fails) once one is reached
+            const limitError = await reserveUsage(
+                ctx,
+                userId,
+                "knowledge_base",
+                [model]
+            );
+            if (limitError) throw new Error(limitError);
+
+            const result = await generateText({
+                model: modelInstance,
+                temperature: 0,
+                messages: [
+                    {
+                        role: "user",
+                        content: [
+                            {
+                                type: "file",
+                                data: new Uint8Array(data),
+                                mediaType: "application/pdf",
+                                filename: source.originalName,
+                            },
+                            {
+                                type: "text",
+                                text: [
+                                    `Transcribe the text of pages ${from} to ${to} of this PDF.`,
+                                    "Start every page with a line of the form === Page N === using the page's position in the file, then its text.",
+                                    "Keep headings, lists and table rows on their own lines. Describe figures in one short sentence in brackets. Add no commentary.",
+                                    `If page ${from} is past the end of the document, reply with exactly ${NO_MORE_PAGES}.`,
+                                ].join("\n"),
+                            },
+                        ],
+                    },
+                ],
+            });
+
+            const usage = normalizeUsage(result.usage);
+            if (usage) {
+                await recordKnowledgeUsage(
+                    ctx,
+                    userId,
+                    model,
+                    provider,
+                    usage.totalTokens ?? 0,
+                    calculateCost(model, usage)
+                );
+            }
+
+            const batch = parsePageMarkers(result.text);
+            if (
+                batch.length === 0 &&
+                from === 1 &&
+                !result.text.includes(NO_MORE_PAGES)
+            ) {
+                // No page markers - keep the text, just without page numbers
+                return [{ text: result.text }];
+            }
+            pages.push(...batch.filter((page) => page.pageNumber! <= to));
+            // The model reports the end of the document by returning fewer pages
+            const lastReturned = batch[batch.length - 1]?.pageNumber ?? 0;
+            if (result.text.includes(NO_MORE_PAGES) || lastReturned < to) break;
+        }
+
+        return pages;
+    }
+}
+
+function parsePageMarkers(text: string): ExtractedPage[] {
+    const markers = [...text.matchAll(PAGE_MARKER)];
+    return markers.map((marker, index) => ({
+        pageNumber: parseInt(marker[1], 10),
+        text: text
+            .slice(
+                marker.index + marker[0].length,
+                markers[index + 1]?.index ?? text.length
+            )
+            .trim(),
+    }));
+}
+
+const textExtractors: TextExtractor[] = [
+    new ModelPdfExtractor(),
+    new PlainTextExtractor(),
+];
+
+export async function extractKnowledgeText(
+    ctx: any,
+    userId: Id<"users">,
+    data: ArrayBuffer,
+    source: KnowledgeSource,
+    apiKeys: ApiKeys
+): Promise<ExtractedPage[]> {
+    const extractor = textExtractors.find((candidate) =>
+        candidate.canExtract(source)
+    );
+    if (!extractor) throw new Error(`Can't extract text from ${source.name}`);
+    return await extractor.extract(ctx, userId, data, source, apiKeys);
+}
+
+// =============================================================================
+// Chunking
+// =============================================================================
+
+// Overlapping passages that never span pages, so each can be cited by page
+export function chunkPages(
+    pages: ExtractedPage[]
+): Array<{ text: string; pageNumber?: number }> {
+    const chunks: Array<{ text: string; pageNumber?: number }> = [];
+
+    for (const page of pages) {
+        const text = page.text.replace(/[ \t]+\n/g, "\n").trim();
+        let start = 0;
+        while (start < text.length) {
+            let end = Math.min(start + CHUNK_SIZE, text.length);
+            if (end < text.length) {
+                // Prefer to break at a paragraph, then at a sentence
+                const window = text.slice(start, end);
+                const breakAt = Math.max(
+                    window.lastIndexOf("\n\n"),
+                    window.lastIndexOf(". ")
+                );
+                if (breakAt > CHUNK_SIZE / 2) end = start + breakAt + 1;
+            }
+
+            const piece = text.slice(start, end).trim();
+            if (piece) chunks.push({ text: piece, pageNumber: page.pageNumber });
+            if (end >= text.length) break;
+            start = Math.max(end - CHUNK_OVERLAP, start + 1);
+        }
+    }
+
+    return chunks;
+}
+
+// =============================================================================
+// Retrieval
+// =============================================================================
+
+/**
+ * The passages of the given knowledge-base items most relevant to `query`.
+ * Must run in an action - vector search isn't available to queries.
+ */
+export async function retrieveKnowledge(
+    ctx: any,
+    args: {
+        userId: Id<"users">;
+        query: string;
+        attachmentIds: Id<"attachmentLibrary">[];
+        apiKeys: ApiKeys;
+        limit?: number;
+    }
+): Promise<KnowledgeResult[]> {
+    if (!args.query.trim() || args.attachmentIds.length === 0) return [];
+
+    const [vector] = await embedTexts(ctx, {
+        userId: args.userId,
+        texts: [args.query],
+        model: OPENAI_EMBEDDING_MODEL,
+        apiKeys: args.apiKeys,
+        source: "knowledge_base",
+    });
+
+    const attachmentIds = args.attachmentIds.slice(0, MAX_SEARCHED_ITEMS);
+    const hits = await ctx.vectorSearch("knowledgeChunks", "by_embedding", {
+        vector,
+        limit: args.limit ?? DEFAULT_KNOWLEDGE_RESULT_LIMIT,
+        filter: (q: any) =>
+            q.or(...attachmentIds.map((id) => q.eq("attachmentId", id))),
+    });
+    const chunks = await ctx.runQuery(
+        internal.knowledgeBase.getKnowledgeChunksInternal,
+        { chunkIds: hits.map((hit: { _id: Id<"knowledgeChunks"> }) => hit._id) }
+    );
+
+    return chunks.map(
+        (chunk: {
+            name: string;
+            url: string | null;
+            text: string;
+            pageNumber?: number;
+        }) => ({
+            title: chunk.name,
+            // Browsers' PDF viewers open at the cited page
+            url:
+                chunk.url && chunk.pageNumber
+                    ? `${chunk.url}#page=${chunk.pageNumber}`
+                    : (chunk.url ?? ""),
+            snippet: chunk.text,
+            source: chunk.pageNumber
+                ? `Library · p. ${chunk.pageNumber}`
+                : "Library",
+            page: chunk.pageNumber,
+        })
+    );
+}
+
+// Numbered after any web results so both can be cited in one answer
+export function buildKnowledgeSystemPrompt(
+    results: KnowledgeResult[],
+    firstNumber: number
+): string {
+    const passages = results
+        .map(
+            (result, index) =>
+                `[${firstNumber + index}] ${result.title}${
+                    result.page ? ` (page ${result.page})` : ""
+                }\n${result.snippet}`
+        )
+        .join("\n\n");
+
+    return [
+        "The following passages were retrieved from the user's knowledge base for their latest message.",
+        "Use them when they are relevant and cite them inline with their bracketed number, e.g. [1] or [2][3], placed right after the sentence they support.",
+        "Only cite numbers from this list and do not add a separate sources section; it is rendered automatically.",
+        "",
+        passages,
+    ].join("\n");
+}
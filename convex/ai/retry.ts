@@ -0,0 +1,88 @@
+"use node";
+
+import { APICallError, RetryError } from "ai";
+
+// Retry policy for provider calls. Transient failures (rate limits, overloaded
+// or unavailable upstreams, dropped connections) are retried with exponential
+// backoff; once a model keeps failing, generation moves on to the next model
+// in the user's fallback chain.
+
+export const MAX_RETRIES = 2;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 10_000;
+
+const TRANSIENT_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+const TRANSIENT_NETWORK_CODES = new Set([
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ETIMEDOUT",
+    "EAI_AGAIN",
+    "UND_ERR_SOCKET",
+    "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+// The AI SDK wraps exhausted retries - look at the error that caused it
+function unwrapError(error: unknown): unknown {
+    return RetryError.isInstance(error) ? error.lastError : error;
+}
+
+export function getErrorStatusCode(error: unknown): number | undefined {
+    const cause = unwrapError(error);
+    if (APICallError.isInstance(cause)) return cause.statusCode;
+    const status = (cause as any)?.statusCode ?? (cause as any)?.status;
+    return typeof status === "number" ? status : undefined;
+}
+
+export function isTransientError(error: unknown): boolean {
+    const cause = unwrapError(error);
+    const statusCode = getErrorStatusCode(cause);
+    if (statusCode !== undefined) return TRANSIENT_STATUS_CODES.has(statusCode);
+    if (APICallError.isInstance(cause)) return cause.isRetryable;
+
+    const code = (cause as any)?.code ?? (cause as any)?.cause?.code;
+    if (typeof code === "string" && TRANSIENT_NETWORK_CODES.has(code)) {
+        return true;
+    }
+
+    const message = cause instanceof Error ? cause.message.toLowerCase() : "";
+    return (
+        message.includes("overloaded") ||
+        message.includes("rate limit") ||
+        message.includes("fetch failed") ||
+        message.includes("socket hang up")
+    );
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): 1s, 2s, 4s... with jitter,
+ * or the provider's Retry-After when it asks for longer.
+ */
+export function getRetryDelay(attempt: number, error?: unknown): number {
+    const backoff = Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+    const jittered = backoff / 2 + Math.random() * (backoff / 2);
+
+    const cause = unwrapError(error);
+    const headers = APICallError.isInstance(cause)
+        ? cause.responseHeaders
+        : undefined;
+    const retryAfter = Number(headers?.["retry-after"]);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+        return Math.min(Math.max(jittered, retryAfter * 1000), MAX_DELAY_MS);
+    }
+    return jittered;
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Requested model first, then the user's fallbacks (without repeats)
+export function buildModelChain(
+    model: string,
+    fallbackModels: string[] = []
+): string[] {
+    return [model, ...fallbackModels].filter(
+        (candidate, index, chain) =>
+            !!candidate && chain.indexOf(candidate) === index
+    );
+}
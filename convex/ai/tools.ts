@@ -0,0 +1,420 @@
+"use node";
+
+import { tool } from "ai";
+import { z } from "zod";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+
+// Context handed to every tool execution (resolved once per generation)
+export interface ToolExecutionContext {
+    ctx: any;
+    userId: Id<"users">;
+    chatId: Id<"chats">;
+}
+
+// A single server-side tool: zod input schema + executor
+export interface ToolDefinition<INPUT = any, OUTPUT = any> {
+    name: string;
+    description: string;
+    inputSchema: z.ZodType<INPUT>;
+    execute: (input: INPUT, context: ToolExecutionContext) => Promise<OUTPUT>;
+}
+
+// Shape persisted on messages.metadata.toolInvocations
+export interface ToolInvocationRecord {
+    toolCallId: string;
+    toolName: string;
+    input: any;
+    output?: any;
+    state: "result" | "error";
+    error?: string;
+    step: number;
+}
+
+// Maximum number of LLM steps (tool call -> result -> continue) per generation
+export const MAX_TOOL_STEPS = 5;
+
+// =============================================================================
+// Calculator - small recursive descent parser (no eval)
+// =============================================================================
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    log: Math.log10,
+    ln: Math.log,
+    exp: Math.exp,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow,
+};
+
+const MATH_CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E,
+};
+
+export function evaluateExpression(expression: string): number {
+    const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z_]+|\*\*|[-+*/%^(),]/gi);
+    if (!tokens || tokens.join("") !== expression.replace(/\s+/g, "")) {
+        throw new Error(`Invalid characters in expression: ${expression}`);
+    }
+
+    let position = 0;
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+    const expect = (token: string) => {
+        if (next() !== token) throw new Error(`Expected "${token}"`);
+    };
+
+    // expression := term (("+" | "-") term)*
+    const parseExpression = (): number => {
+        let value = parseTerm();
+        while (peek() === "+" || peek() === "-") {
+            const operator = next();
+            const right = parseTerm();
+            value = operator === "+" ? value + right : value - right;
+        }
+        return value;
+    };
+
+    // term := power (("*" | "/" | "%") power)*
+    const parseTerm = (): number => {
+        let value = parsePower();
+        while (peek() === "*" || peek() === "/" || peek() === "%") {
+            const operator = next();
+            const right = parsePower();
+            if (operator === "*") value *= right;
+            else if (operator === "/") value /= right;
+            else value %= right;
+        }
+        return value;
+    };
+
+    // power := unary (("^" | "**") power)?
+    const parsePower = (): number => {
+        const base = parseUnary();
+        if (peek() === "^" || peek() === "**") {
+            next();
+            return Math.pow(base, parsePower());
+        }
+        return base;
+    };
+
+    // unary := ("-" | "+") unary | primary
+    const parseUnary = (): number => {
+        if (peek() === "-") {
+            next();
+            return -parseUnary();
+        }
+        if (peek() === "+") {
+            next();
+            return parseUnary();
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): number => {
+        const token = next();
+        if (token === undefined) throw new Error("Unexpected end of expression");
+
+        if (token === "(") {
+            const value = parseExpression();
+            expect(")");
+            return value;
+        }
+
+        if (/^[\d.]/.test(token)) return parseFloat(token);
+
+        const name = token.toLowerCase();
+        if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+
+        const fn = MATH_FUNCTIONS[name];
+        if (!fn) throw new Error(`Unknown identifier: ${token}`);
+
+        expect("(");
+        const args: number[] = [];
+        if (peek() !== ")") {
+            args.push(parseExpression());
+            while (peek() === ",") {
+                next();
+                args.push(parseExpression());
+            }
+        }
+        expect(")");
+        return fn(...args);
+    };
+
+    const result = parseExpression();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected token: ${tokens[position]}`);
+    }
+    if (!Number.isFinite(result)) {
+        throw new Error("Expression did not evaluate to a finite number");
+    }
+    return result;
+}
+
+const calculatorTool: ToolDefinition<{ expression: string }> = {
+    name: "calculator",
+    description:
+        "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and functions sqrt, abs, round, floor, ceil, sin, cos, tan, log, ln, exp, min, max, pow.",
+    inputSchema: z.object({
+        expression: z
+            .string()
+            .describe("The arithmetic expression to evaluate, e.g. (12.5 * 4) / 3"),
+    }),
+    execute: async ({ expression }) => {
+        return { expression, result: evaluateExpression(expression) };
+    },
+};
+
+// =============================================================================
+// Date math
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDateInput(value: string | undefined): Date {
+    if (!value || value.toLowerCase() === "now" || value.toLowerCase() === "today") {
+        return new Date();
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+    return date;
+}
+
+function addToDate(
+    date: Date,
+    amount: number,
+    unit: "minutes" | "hours" | "days" | "weeks" | "months" | "years"
+): Date {
+    const result = new Date(date.getTime());
+    switch (unit) {
+        case "minutes":
+            result.setUTCMinutes(result.getUTCMinutes() + amount);
+            break;
+        case "hours":
+            result.setUTCHours(result.getUTCHours() + amount);
+            break;
+        case "days":
+            result.setUTCDate(result.getUTCDate() + amount);
+            break;
+        case "weeks":
+            result.setUTCDate(result.getUTCDate() + amount * 7);
+            break;
+        case "months":
+            result.setUTCMonth(result.getUTCMonth() + amount);
+            break;
+        case "years":
+            result.setUTCFullYear(result.getUTCFullYear() + amount);
+            break;
+    }
+    return result;
+}
+
+const dateMathTool: ToolDefinition<{
+    operation: "now" | "add" | "subtract" | "difference" | "dayOfWeek";
+    date?: string;
+    otherDate?: string;
+    amount?: number;
+    unit?: "minutes" | "hours" | "days" | "weeks" | "months" | "years";
+}> = {
+    name: "dateMath",
+    description:
+        "Do calendar arithmetic in UTC: get the current date, add/subtract a duration, compute the difference between two dates, or get the day of week.",
+    inputSchema: z.object({
+        operation: z
+            .enum(["now", "add", "subtract", "difference", "dayOfWeek"])
+            .describe("The date operation to perform"),
+        date: z
+            .string()
+            .optional()
+            .describe("ISO 8601 date (defaults to now)"),
+        otherDate: z
+            .string()
+            .optional()
+            .describe("Second ISO 8601 date, required for difference"),
+        amount: z
+            .number()
+            .optional()
+            .describe("Duration amount for add/subtract"),
+        unit: z
+            .enum(["minutes", "hours", "days", "weeks", "months", "years"])
+            .optional()
+            .describe("Duration unit for add/subtract (defaults to days)"),
+    }),
+    execute: async ({ operation, date, otherDate, amount, unit }) => {
+        const base = parseDateInput(date);
+
+        switch (operation) {
+            case "now":
+                return { iso: new Date().toISOString() };
+            case "add":
+            case "subtract": {
+                if (amount === undefined) {
+                    throw new Error(`"amount" is required for ${operation}`);
+                }
+                const signed = operation === "add" ? amount : -amount;
+                const result = addToDate(base, signed, unit || "days");
+                return { from: base.toISOString(), iso: result.toISOString() };
+            }
+            case "difference": {
+                if (!otherDate) {
+                    throw new Error(`"otherDate" is required for difference`);
+                }
+                const other = parseDateInput(otherDate);
+                const diffMs = other.getTime() - base.getTime();
+                return {
+                    from: base.toISOString(),
+                    to: other.toISOString(),
+                    milliseconds: diffMs,
+                    hours: diffMs / (60 * 60 * 1000),
+                    days: diffMs / DAY_MS,
+                    weeks: diffMs / (7 * DAY_MS),
+                };
+            }
+            case "dayOfWeek":
+                return {
+                    iso: base.toISOString(),
+                    dayOfWeek: base.toLocaleDateString("en-US", {
+                        weekday: "long",
+                        timeZone: "UTC",
+                    }),
+                };
+        }
+    },
+};
+
+// =============================================================================
+// Library lookup
+// =============================================================================
+
+const libraryLookupTool: ToolDefinition<{
+    query: string;
+    type?: "attachment" | "artifact" | "media";
+    limit?: number;
+}> = {
+    name: "libraryLookup",
+    description:
+        "Search the user's library (uploaded attachments, canvas artifacts and generated media) by name, description or tag. Returns matching item summaries; artifacts include a content excerpt.",
+    inputSchema: z.object({
+        query: z.string().describe("Search text"),
+        type: z
+            .enum(["attachment", "artifact", "media"])
+            .optional()
+            .describe("Restrict to one library section"),
+        limit: z
+            .number()
+            .int()
+            .min(1)
+            .max(20)
+            .optional()
+            .describe("Maximum number of results (default 5)"),
+    }),
+    execute: async ({ query, type, limit }, { ctx, userId }) => {
+        const items = await ctx.runQuery(
+            internal.library.lookupLibraryItemsInternal,
+            {
+                userId,
+                query,
+                type,
+                limit: limit || 5,
+            }
+        );
+        return { query, count: items.length, items };
+    },
+};
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+export const TOOL_REGISTRY: Record<string, ToolDefinition> = {
+    [calculatorTool.name]: calculatorTool,
+    [dateMathTool.name]: dateMathTool,
+    [libraryLookupTool.name]: libraryLookupTool,
+};
+
+// Build the AI SDK tool set for the tools enabled on a chat
+export function buildToolSet(
+    enabledTools: string[] | undefined,
+    context: ToolExecutionContext
+): Record<string, any> | undefined {
+    if (!enabledTools || enabledTools.length === 0) return undefined;
+
+    const toolSet: Record<string, any> = {};
+    for (const name of enabledTools) {
+        const definition = TOOL_REGISTRY[name];
+        if (!definition) {
+            console.warn(`⚠️ Unknown tool "${name}" enabled on chat, skipping`);
+            continue;
+        }
+
+        toolSet[name] = tool({
+            description: definition.description,
+            inputSchema: definition.inputSchema,
+            execute: async (input: any) => {
+                console.log(`🛠️ EXECUTING TOOL ${name}:`, {
+                    chatId: context.chatId,
+                    input,
+                    timestamp: new Date().toISOString(),
+                });
+                return await definition.execute(input, context);
+            },
+        });
+    }
+
+    return Object.keys(toolSet).length > 0 ? toolSet : undefined;
+}
+
+// Flatten an AI SDK step's content into persisted tool invocation records
+export function collectToolInvocations(
+    step: { content: any[] },
+    stepIndex: number
+): ToolInvocationRecord[] {
+    const calls = new Map<string, ToolInvocationRecord>();
+
+    for (const part of step.content || []) {
+        if (part.type === "tool-call") {
+            calls.set(part.toolCallId, {
+                toolCallId: part.toolCallId,
+                toolName: part.toolName,
+                input: part.input,
+                state: "result",
+                step: stepIndex,
+            });
+        } else if (part.type === "tool-result") {
+            const existing = calls.get(part.toolCallId);
+            calls.set(part.toolCallId, {
+                toolCallId: part.toolCallId,
+                toolName: part.toolName,
+                input: existing?.input ?? part.input,
+                output: part.output,
+                state: "result",
+                step: stepIndex,
+            });
+        } else if (part.type === "tool-error") {
+            const existing = calls.get(part.toolCallId);
+            calls.set(part.toolCallId, {
+                toolCallId: part.toolCallId,
+                toolName: part.toolName,
+                input: existing?.input ?? part.input,
+                state: "error",
+                error:
+                    part.error instanceof Error
+                        ? part.error.message
+                        : String(part.error),
+                step: stepIndex,
+            });
+        }
+    }
+
+    return Array.from(calls.values());
+}
@@ -0,0 +1,266 @@
+"use node";
+
+// A single web search hit, normalized across providers
+export interface WebSearchResult {
+    title: string;
+    url: string;
+    snippet: string;
+    source: string; // Hostname or engine the result came from
+}
+
+// Pluggable search backend - implement this to add a new provider
+export interface WebSearchProvider {
+    name: string;
+    search(
+        query: string,
+        options: { limit: number }
+    ): Promise<WebSearchResult[]>;
+}
+
+// Shape persisted on messages.metadata.citations
+export interface CitationRecord {
+    number: number;
+    title: string;
+    url: string;
+    source: string;
+    startIndex?: number;
+    endIndex?: number;
+    citedText?: string;
+    page?: number; // Knowledge-base passages
+}
+
+// Number of search results injected into the prompt
+export const DEFAULT_SEARCH_RESULT_LIMIT = 6;
+
+const SEARCH_TIMEOUT_MS = 10_000;
+
+function getHostname(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, "");
+    } catch {
+        return url;
+    }
+}
+
+// =============================================================================
+// SearXNG (self-hosted metasearch) - https://docs.searxng.org/dev/search_api.html
+// Requires `json` to be listed under search.formats in the instance settings.yml
+// =============================================================================
+
+export class SearxngSearchProvider implements WebSearchProvider {
+    name = "searxng";
+
+    constructor(
+        private baseUrl: string,
+        private apiKey?: string
+    ) {}
+
+    async search(
+        query: string,
+        { limit }: { limit: number }
+    ): Promise<WebSearchResult[]> {
+        const url = new URL("/search", this.baseUrl);
+        url.searchParams.set("q", query);
+        url.searchParams.set("format", "json");
+        url.searchParams.set("safesearch", "1");
+
+        const response = await fetch(url, {
+            headers: {
+                Accept: "application/json",
+                ...(this.apiKey
+                    ? { Authorization: `Bearer ${this.apiKey}` }
+                    : {}),
+            },
+            signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+            throw new Error(
+                `SearXNG search failed: ${response.status} ${response.statusText}`
+            );
+        }
+
+        const data: any = await response.json();
+        const results: any[] = Array.isArray(data?.results) ? data.results : [];
+
+        return results
+            .filter((result) => result?.url && result?.title)
+            .slice(0, limit)
+            .map((result) => ({
+                title: String(result.title).trim(),
+                url: String(result.url),
+                snippet: String(result.content || "").trim(),
+                source: getHostname(String(result.url)),
+            }));
+    }
+}
+
+// =============================================================================
+// Registry - selected with WEB_SEARCH_PROVIDER (defaults to searxng)
+// =============================================================================
+
+const WEB_SEARCH_PROVIDERS: Record<string, () => WebSearchProvider | null> = {
+    searxng: () =>
+        process.env.SEARXNG_URL
+            ? new SearxngSearchProvider(
+                  process.env.SEARXNG_URL,
+                  process.env.SEARXNG_API_KEY
+              )
+            : null,
+};
+
+export function getWebSearchProvider(): WebSearchProvider | null {
+    const name = (process.env.WEB_SEARCH_PROVIDER || "searxng").toLowerCase();
+    const factory = WEB_SEARCH_PROVIDERS[name];
+    if (!factory) {
+        console.warn(`⚠️ Unknown web search provider "${name}"`);
+        return null;
+    }
+    return factory();
+}
+
+// Run a search with the configured provider; failures degrade to no results
+export async function runWebSearch(
+    query: string,
+    limit = DEFAULT_SEARCH_RESULT_LIMIT
+): Promise<WebSearchResult[]> {
+    const provider = getWebSearchProvider();
+    if (!provider) {
+        console.warn(
+            "⚠️ /search requested but no web search provider is configured (set SEARXNG_URL)"
+        );
+        return [];
+    }
+
+    const trimmedQuery = query.trim().slice(0, 400);
+    if (!trimmedQuery) return [];
+
+    try {
+        const results = await provider.search(trimmedQuery, { limit });
+        console.log(`🔎 WEB SEARCH (${provider.name}):`, {
+            query: trimmedQuery,
+            results: results.length,
+            timestamp: new Date().toISOString(),
+        });
+        return results;
+    } catch (error) {
+        console.error(`❌ Web search failed (${provider.name}):`, error);
+        return [];
+    }
+}
+
+// System prompt block listing numbered sources the model must cite as [n]
+export function buildSearchSystemPrompt(results: WebSearchResult[]): string {
+    const sources = results
+        .map(
+            (result, index) =>
+                `[${index + 1}] ${result.title}\nURL: ${result.url}\n${result.snippet}`
+        )
+        .join("\n\n");
+
+    return [
+        "You have access to the following web search results for the user's latest message.",
+        "Use them when they are relevant and cite them inline with their bracketed number, e.g. [1] or [2][3], placed right after the sentence they support.",
+        "Only cite numbers from this list and do not add a separate sources section; it is rendered automatically.",
+        "",
+        sources,
+    ].join("\n");
+}
+
+// Sentence (or clause) immediately preceding a citation marker
+function getCitedText(text: string, markerStart: number): string {
+    const before = text.slice(0, markerStart).trimEnd();
+    const boundary = Math.max(
+        before.lastIndexOf(". ", before.length - 2),
+        before.lastIndexOf("\n"),
+        before.lastIndexOf("! ", before.length - 2),
+        before.lastIndexOf("? ", before.length - 2)
+    );
+    return before.slice(boundary + 1).trim().slice(0, 300);
+}
+
+// [start, end) ranges of fenced code blocks and inline code spans, so bracket
+// indexing such as `arr[1]` or `matrix[0][2]` is not read as a citation
+function findCodeRanges(text: string): Array<[number, number]> {
+    const fences: Array<[number, number]> = [];
+    let open: { marker: string; start: number } | null = null;
+    let offset = 0;
+    for (const line of text.split("\n")) {
+        const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+        if (!open && marker) {
+            open = { marker, start: offset };
+        } else if (
+            open &&
+            marker &&
+            marker[0] === open.marker[0] &&
+            marker.length >= open.marker.length
+        ) {
+            fences.push([open.start, offset + line.length]);
+            open = null;
+        }
+        offset += line.length + 1;
+    }
+    // An unclosed fence (e.g. cut off mid-stream) runs to the end
+    if (open) fences.push([open.start, text.length]);
+
+    // Inline spans only count outside fenced blocks
+    const ranges = [...fences];
+    let segmentStart = 0;
+    for (const [fenceStart, fenceEnd] of [...fences, [text.length, text.length]]) {
+        const segment = text.slice(segmentStart, fenceStart);
+        const inlinePattern = /(`+)[\s\S]*?[^`]\1(?!`)/g;
+        let match: RegExpExecArray | null;
+        while ((match = inlinePattern.exec(segment)) !== null) {
+            const start = segmentStart + match.index;
+            ranges.push([start, start + match[0].length]);
+        }
+        segmentStart = fenceEnd;
+    }
+    return ranges;
+}
+
+// Turn [n] / [n, m] markers in the final text into numbered citations.
+// `results` may include knowledge-base passages, which carry a page.
+export function extractCitations(
+    text: string,
+    results: Array<WebSearchResult & { page?: number }>
+): CitationRecord[] {
+    if (results.length === 0) return [];
+
+    const citations: CitationRecord[] = [];
+    const codeRanges = findCodeRanges(text);
+    const markerPattern = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = markerPattern.exec(text)) !== null) {
+        const startIndex = match.index;
+        const endIndex = startIndex + match[0].length;
+
+        // Skip markdown links like [1](https://...)
+        if (text[endIndex] === "(") continue;
+        // Skip indexing inside code like `arr[1]`
+        if (codeRanges.some(([start, end]) => startIndex >= start && startIndex < end))
+            continue;
+
+        const numbers = match[1]
+            .split(",")
+            .map((value) => parseInt(value.trim(), 10))
+            .filter((number) => number >= 1 && number <= results.length);
+
+        for (const number of numbers) {
+            const result = results[number - 1];
+            citations.push({
+                number,
+                title: result.title,
+                url: result.url,
+                source: result.source,
+                startIndex,
+                endIndex,
+                citedText: getCitedText(text, startIndex),
+                ...(result.page !== undefined ? { page: result.page } : {}),
+            });
+        }
+    }
+
+    return citations;
+}
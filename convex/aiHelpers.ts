@@ -1,6 +1,10 @@
 import { v } from "convex/values";
 import { internalQuery, internalMutation } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { calculateCost, getModelProvider, normalizeUsage } from "./pricing";
+import { recordMessageUsage } from "./usageLimits";
+import { scheduleRollupRefresh } from "./analyticsRollups";
+import { scheduleMessageEmbedding } from "./semanticSearch";
 
 // Define types for AI settings
 interface AISettings {
@@ -12,6 +16,9 @@ interface AISettings {
     systemPrompt: string;
     responseMode: string;
     promptEnhancement: boolean;
+    enabledTools?: string[];
+    contextWindow?: number;
+    contextStrategy?: string;
 }
 
 // Get combined AI settings (per-chat + global preferences)
@@ -29,6 +36,9 @@ export const getCombinedAISettings = internalQuery({
         systemPrompt: v.string(),
         responseMode: v.string(),
         promptEnhancement: v.boolean(),
+        enabledTools: v.optional(v.array(v.string())),
+        contextWindow: v.optional(v.number()),
+        contextStrategy: v.optional(v.string()),
     }),
     handler: async (ctx, args): Promise<AISettings> => {
         const chat = await ctx.db.get(args.chatId);
@@ -57,16 +67,38 @@ export const getCombinedAISettings = internalQuery({
             ...(preferences?.aiSettings || {}),
         };
 
+        // Assistant the chat was started from sits between global and per-chat
+        const assistant = chat?.assistantId
+            ? await ctx.db.get(chat.assistantId)
+            : null;
+        const assistantSettings: AISettings =
+            assistant && assistant.userId === chat?.userId
+                ? {
+                      ...globalSettings,
+                      ...(assistant.aiSettings || {}),
+                      systemPrompt: assistant.instructions,
+                  }
+                : globalSettings;
+
         // Per-chat settings override global settings
         const finalSettings: AISettings = {
-            ...globalSettings,
+            ...assistantSettings,
             ...(chat?.aiSettings || {}),
         };
 
+        // A per-chat system prompt adds to the assistant's instructions
+        if (
+            assistantSettings !== globalSettings &&
+            chat?.aiSettings?.systemPrompt?.trim()
+        ) {
+            finalSettings.systemPrompt = `${assistantSettings.systemPrompt}\n\n${chat.aiSettings.systemPrompt}`;
+        }
+
         console.log("🎯 COMBINED AI SETTINGS:", {
             chatId: args.chatId,
             userId: args.userId,
             hasPerChatSettings: !!chat?.aiSettings,
+            assistantId: chat?.assistantId,
             hasGlobalSettings: !!preferences?.aiSettings,
             finalSettings: {
                 temperature: finalSettings.temperature,
@@ -81,6 +113,21 @@ export const getCombinedAISettings = internalQuery({
     },
 });
 
+// Models to fall back to, in order, when the requested one keeps failing
+export const getFallbackModels = internalQuery({
+    args: {
+        userId: v.id("users"),
+    },
+    returns: v.array(v.string()),
+    handler: async (ctx, args) => {
+        const preferences = await ctx.db
+            .query("preferences")
+            .withIndex("by_user", (q) => q.eq("userId", args.userId))
+            .first();
+        return preferences?.fallbackModels ?? [];
+    },
+});
+
 export const getChatHistory = internalQuery({
     args: {
         chatId: v.id("chats"),
@@ -161,6 +208,8 @@ export const updateMessageContent = internalMutation({
                 model: v.optional(v.string()),
                 provider: v.optional(v.string()),
                 requestId: v.optional(v.string()),
+                requestedModel: v.optional(v.string()),
+                attempts: v.optional(v.number()),
             })
         ),
     },
@@ -170,14 +219,45 @@ export const updateMessageContent = internalMutation({
 
         const updates: any = {};
 
+        // Store usage in the schema's shape and price it once, at completion
+        const usage = normalizeUsage(args.responseMetadata?.usage);
+        const responseMetadata = args.responseMetadata && {
+            ...args.responseMetadata,
+            usage,
+            cost: usage
+                ? calculateCost(
+                      args.responseMetadata.model ?? message.model,
+                      usage
+                  )
+                : undefined,
+        };
+
+        // Count the finished generation against the user's budgets
+        if (usage && responseMetadata) {
+            const model = responseMetadata.model ?? message.model ?? "unknown";
+            await recordMessageUsage(ctx, message, {
+                source: "chat",
+                model,
+                provider: responseMetadata.provider ?? getModelProvider(model),
+                tokens: usage.totalTokens ?? 0,
+                cost: responseMetadata.cost ?? 0,
+            });
+        }
+
         if (args.content !== undefined) updates.content = args.content;
         if (args.isStreaming !== undefined)
             updates.isStreaming = args.isStreaming;
+        // A finished generation no longer needs its stop request
+        if (args.isStreaming === false) {
+            updates.isCancelled = undefined;
+            await scheduleRollupRefresh(ctx, message);
+            await scheduleMessageEmbedding(ctx, args.messageId);
+        }
 
         // Enhanced metadata handling with response tracking and canvas artifacts
         if (
             args.metadata !== undefined ||
-            args.responseMetadata !== undefined
+            responseMetadata !== undefined
         ) {
             const existingMetadata = message.metadata || {};
             const newMetadata = {
@@ -186,16 +266,17 @@ export const updateMessageContent = internalMutation({
             };
 
             // Add response metadata if provided
-            if (args.responseMetadata) {
-                newMetadata.responseMetadata = args.responseMetadata;
+            if (responseMetadata) {
+                newMetadata.responseMetadata = responseMetadata;
 
                 console.log("📊 RESPONSE METADATA TRACKED:", {
                     messageId: args.messageId,
-                    usage: args.responseMetadata.usage,
-                    responseTime: args.responseMetadata.responseTime,
-                    model: args.responseMetadata.model,
-                    provider: args.responseMetadata.provider,
-                    finishReason: args.responseMetadata.finishReason,
+                    usage: responseMetadata.usage,
+                    cost: responseMetadata.cost,
+                    responseTime: responseMetadata.responseTime,
+                    model: responseMetadata.model,
+                    provider: responseMetadata.provider,
+                    finishReason: responseMetadata.finishReason,
                     timestamp: new Date().toISOString(),
                 });
             }
@@ -239,10 +320,10 @@ export const updateMessageContent = internalMutation({
                         ...v,
                         content: args.content, // Update the active version's content
                         // Update metadata if provided
-                        ...(args.responseMetadata && {
+                        ...(responseMetadata && {
                             metadata: {
                                 ...v.metadata,
-                                responseMetadata: args.responseMetadata,
+                                responseMetadata,
                             },
                         }),
                         // Add canvas-specific metadata to version
@@ -268,6 +349,16 @@ export const updateMessageContent = internalMutation({
     },
 });
 
+// Polled by running generations to honor messages.cancelGeneration
+export const isGenerationCancelled = internalQuery({
+    args: { messageId: v.id("messages") },
+    returns: v.boolean(),
+    handler: async (ctx, args) => {
+        const message = await ctx.db.get(args.messageId);
+        return !!message?.isCancelled;
+    },
+});
+
 export const getMessage = internalQuery({
     args: { messageId: v.id("messages") },
     handler: async (ctx, args) => {
@@ -281,3 +372,10 @@ export const getChat = internalQuery({
         return await ctx.db.get(args.chatId);
     },
 });
+
+export const getBranch = internalQuery({
+    args: { branchId: v.id("branches") },
+    handler: async (ctx, args) => {
+        return await ctx.db.get(args.branchId);
+    },
+});
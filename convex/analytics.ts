@@ -1,6 +1,75 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+    loadAllRollups,
+    loadRollups,
+    dayStartOf,
+    rollupChatMessageCounts,
+    rollupHourlyActivity,
+    rollupMessageCount,
+    MESSAGE_ROLES,
+    type AnalyticsRollup,
+    type MessageRole,
+} from "./analyticsRollups";
+import {
+    getUnlockedChatIds,
+    REDACTED_CHAT_TITLE,
+    unlockTokensArg,
+} from "./chatUnlock";
+
+// Message and spend figures come from the daily analytics_rollups (see
+// convex/analyticsRollups.ts) rather than scanning messages, so time ranges
+// resolve to whole UTC days.
+
+// Spend computed from stored token usage (see convex/pricing.ts)
+const costAnalyticsValidator = v.object({
+    totalCost: v.number(),
+    totalTokens: v.number(),
+    pricedResponses: v.number(),
+    averageCostPerResponse: v.number(),
+    costByModel: v.array(
+        v.object({
+            model: v.string(),
+            provider: v.string(),
+            cost: v.number(),
+            tokens: v.number(),
+            count: v.number(),
+            percentage: v.number(),
+        })
+    ),
+    costByProvider: v.array(
+        v.object({
+            provider: v.string(),
+            cost: v.number(),
+            tokens: v.number(),
+            percentage: v.number(),
+        })
+    ),
+    costByProject: v.array(
+        v.object({
+            projectName: v.string(),
+            cost: v.number(),
+            percentage: v.number(),
+        })
+    ),
+    topChats: v.array(
+        v.object({
+            chatId: v.id("chats"),
+            title: v.string(),
+            cost: v.number(),
+            responses: v.number(),
+        })
+    ),
+    spendTrend: v.array(
+        v.object({
+            period: v.string(),
+            cost: v.number(),
+            timestamp: v.number(),
+        })
+    ),
+});
 
 // Main analytics query that returns comprehensive insights
 export const getAnalytics = query({
@@ -188,6 +257,7 @@ export const getAnalytics = query({
             peakActivityDay: v.string(),
             totalActiveHours: v.number(),
         }),
+        costAnalytics: costAnalyticsValidator,
     }),
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
@@ -218,23 +288,15 @@ export const getAnalytics = query({
             .withIndex("by_user", (q) => q.eq("userId", userId))
             .collect();
 
-        // Get messages for analytics
-        const allMessages: any[] = [];
-        for (const chat of allChats) {
-            if (chat.activeBranchId) {
-                const branchMessages = await ctx.db
-                    .query("messages")
-                    .withIndex("by_branch_and_timestamp", (q) =>
-                        q.eq("branchId", chat.activeBranchId!)
-                    )
-                    .collect();
-                allMessages.push(...branchMessages);
-            }
-        }
-
-        // Filter messages by time range
-        const messages = allMessages.filter(
-            (msg) => msg.timestamp >= start && msg.timestamp <= end
+        // Message activity from the daily rollups
+        const allRollups = await loadAllRollups(ctx, userId);
+        const rollups = allRollups.filter(
+            (rollup) =>
+                rollup.dayStart >= dayStartOf(start) && rollup.dayStart <= end
+        );
+        const totalMessages = allRollups.reduce(
+            (sum, rollup) => sum + rollupMessageCount(rollup),
+            0
         );
 
         // Get library data
@@ -256,18 +318,17 @@ export const getAnalytics = query({
         // Calculate overview metrics
         const overview = {
             totalChats: allChats.length,
-            totalMessages: allMessages.length,
+            totalMessages,
             totalProjects: projects.length,
             totalAttachments: attachments.length,
             totalArtifacts: artifacts.length,
             totalMedia: media.length,
             averageMessagesPerChat:
                 allChats.length > 0
-                    ? Math.round((allMessages.length / allChats.length) * 100) /
-                      100
+                    ? Math.round((totalMessages / allChats.length) * 100) / 100
                     : 0,
-            mostActiveDay: getMostActiveDay(messages),
-            mostActiveHour: getMostActiveHour(messages),
+            mostActiveDay: getMostActiveDay(rollups),
+            mostActiveHour: getMostActiveHour(rollups),
         };
 
         // Calculate chat analytics
@@ -279,15 +340,16 @@ export const getAnalytics = query({
 
         // Calculate message analytics
         const messageAnalytics = calculateMessageAnalytics(
-            messages,
-            allMessages
+            rollups,
+            MESSAGE_ROLES,
+            args.timeRange
         );
 
         // Calculate project analytics
         const projectAnalytics = calculateProjectAnalytics(
             projects,
             allChats,
-            allMessages
+            rollupChatMessageCounts(allRollups)
         );
 
         // Calculate library analytics
@@ -304,7 +366,15 @@ export const getAnalytics = query({
         );
 
         // Calculate time analytics
-        const timeAnalytics = calculateTimeAnalytics(messages);
+        const timeAnalytics = calculateTimeAnalytics(rollups);
+
+        // Calculate spend analytics
+        const costAnalytics = calculateCostAnalytics(
+            rollupCostEntries(rollups, start),
+            allChats,
+            projects,
+            args.timeRange
+        );
 
         return {
             overview,
@@ -314,6 +384,7 @@ export const getAnalytics = query({
             libraryAnalytics,
             collaborationAnalytics,
             timeAnalytics,
+            costAnalytics,
         };
     },
 });
@@ -363,33 +434,21 @@ export const getAnalyticsOverview = query({
                     .collect(),
             ]);
 
-        // Get all messages
-        const allMessages = [];
-        for (const chat of allChats) {
-            if (chat.activeBranchId) {
-                const branchMessages = await ctx.db
-                    .query("messages")
-                    .withIndex("by_branch_and_timestamp", (q) =>
-                        q.eq("branchId", chat.activeBranchId!)
-                    )
-                    .collect();
-                allMessages.push(...branchMessages);
-            }
-        }
+        const allRollups = await loadAllRollups(ctx, userId);
 
         const thisWeekChats = allChats.filter(
             (chat) => chat.createdAt >= oneWeekAgo
         ).length;
-        const thisWeekMessages = allMessages.filter(
-            (msg) => msg.timestamp >= oneWeekAgo
-        ).length;
+        const thisWeekMessages = allRollups
+            .filter((rollup) => rollup.dayStart >= dayStartOf(oneWeekAgo))
+            .reduce((sum, rollup) => sum + rollupMessageCount(rollup), 0);
 
         // Calculate most used model
         const modelUsage = new Map<string, number>();
-        allMessages.forEach((msg) => {
-            if (msg.model) {
-                modelUsage.set(msg.model, (modelUsage.get(msg.model) || 0) + 1);
-            }
+        allRollups.forEach((rollup) => {
+            rollup.models.forEach(({ model, count }) => {
+                modelUsage.set(model, (modelUsage.get(model) || 0) + count);
+            });
         });
         allChats.forEach((chat) => {
             modelUsage.set(chat.model, (modelUsage.get(chat.model) || 0) + 1);
@@ -400,24 +459,16 @@ export const getAnalyticsOverview = query({
                 (a, b) => b[1] - a[1]
             )[0]?.[0] || "Unknown";
 
-        // Calculate average response time (simplified)
-        const responseTimes = [];
-        for (let i = 0; i < allMessages.length - 1; i++) {
-            const current = allMessages[i];
-            const next = allMessages[i + 1];
-            if (current.role === "user" && next.role === "assistant") {
-                responseTimes.push(next.timestamp - current.timestamp);
-            }
-        }
+        const responseTime = sumResponseTimes(allRollups);
         const averageResponseTime =
-            responseTimes.length > 0
-                ? responseTimes.reduce((a, b) => a + b, 0) /
-                  responseTimes.length
-                : 0;
+            responseTime.count > 0 ? responseTime.total / responseTime.count : 0;
 
         return {
             totalChats: allChats.length,
-            totalMessages: allMessages.length,
+            totalMessages: allRollups.reduce(
+                (sum, rollup) => sum + rollupMessageCount(rollup),
+                0
+            ),
             totalProjects: allProjects.length,
             totalLibraryItems:
                 attachments.length + artifacts.length + media.length,
@@ -627,6 +678,7 @@ export const getFilteredAnalytics = query({
             peakActivityDay: v.string(),
             totalActiveHours: v.number(),
         }),
+        costAnalytics: costAnalyticsValidator,
         availableOptions: v.object({
             messageTypes: v.array(v.string()),
             userGroups: v.array(v.string()),
@@ -693,21 +745,11 @@ export const getFilteredAnalytics = query({
             chats = chats.filter((chat) => !(chat as any).isDeleted);
         }
 
+        const allRollups = await loadAllRollups(ctx, userId);
+        const chatMessageCounts = rollupChatMessageCounts(allRollups);
+
         if (filters.minMessages && filters.minMessages > 0) {
             // Filter chats based on message count
-            const chatMessageCounts = new Map();
-            for (const chat of chats) {
-                if (chat.activeBranchId) {
-                    const messageCount = await ctx.db
-                        .query("messages")
-                        .withIndex("by_branch_and_timestamp", (q) =>
-                            q.eq("branchId", chat.activeBranchId!)
-                        )
-                        .collect()
-                        .then((messages) => messages.length);
-                    chatMessageCounts.set(chat._id, messageCount);
-                }
-            }
             chats = chats.filter(
                 (chat) =>
                     (chatMessageCounts.get(chat._id) || 0) >=
@@ -738,30 +780,21 @@ export const getFilteredAnalytics = query({
             });
         }
 
-        // Get messages for filtered chats
-        const allMessages = [];
-        for (const chat of allChats) {
-            if (chat.activeBranchId) {
-                const branchMessages = await ctx.db
-                    .query("messages")
-                    .withIndex("by_branch_and_timestamp", (q) =>
-                        q.eq("branchId", chat.activeBranchId!)
-                    )
-                    .collect();
-                allMessages.push(...branchMessages);
-            }
-        }
-
-        // Filter messages by time range and type
-        let messages = allMessages.filter(
-            (msg) => msg.timestamp >= start && msg.timestamp <= end
+        // Message activity in range, restricted to the selected roles
+        const rollups = allRollups.filter(
+            (rollup) =>
+                rollup.dayStart >= dayStartOf(start) && rollup.dayStart <= end
+        );
+        const roles =
+            filters.messageType && filters.messageType.length > 0
+                ? MESSAGE_ROLES.filter((role) =>
+                      filters.messageType!.includes(role)
+                  )
+                : MESSAGE_ROLES;
+        const totalMessages = rollups.reduce(
+            (sum, rollup) => sum + rollupMessageCount(rollup, roles),
+            0
         );
-
-        if (filters.messageType && filters.messageType.length > 0) {
-            messages = messages.filter((msg) =>
-                filters.messageType!.includes(msg.role)
-            );
-        }
 
         // Get library data
         const [attachments, artifacts, media] = await Promise.all([
@@ -782,17 +815,17 @@ export const getFilteredAnalytics = query({
         // Calculate overview metrics
         const overview = {
             totalChats: chats.length,
-            totalMessages: messages.length,
+            totalMessages,
             totalProjects: projects.length,
             totalAttachments: attachments.length,
             totalArtifacts: artifacts.length,
             totalMedia: media.length,
             averageMessagesPerChat:
                 chats.length > 0
-                    ? Math.round((messages.length / chats.length) * 100) / 100
+                    ? Math.round((totalMessages / chats.length) * 100) / 100
                     : 0,
-            mostActiveDay: getMostActiveDay(messages),
-            mostActiveHour: getMostActiveHour(messages),
+            mostActiveDay: getMostActiveDay(rollups, roles),
+            mostActiveHour: getMostActiveHour(rollups, roles),
         };
 
         // Calculate analytics with filtered data
@@ -802,13 +835,14 @@ export const getFilteredAnalytics = query({
             args.timeRange
         );
         const messageAnalytics = calculateMessageAnalytics(
-            messages,
-            allMessages
+            rollups,
+            roles,
+            args.timeRange
         );
         const projectAnalytics = calculateProjectAnalytics(
             projects,
             allChats,
-            allMessages
+            chatMessageCounts
         );
         const libraryAnalytics = calculateLibraryAnalytics(
             attachments,
@@ -819,7 +853,18 @@ export const getFilteredAnalytics = query({
             allChats,
             projects
         );
-        const timeAnalytics = calculateTimeAnalytics(messages);
+        const timeAnalytics = calculateTimeAnalytics(rollups, roles);
+        const costAnalytics = calculateCostAnalytics(
+            filterCostEntries(
+                rollupCostEntries(rollups, start),
+                allChats,
+                projects,
+                filters
+            ),
+            allChats,
+            projects,
+            args.timeRange
+        );
 
         // Generate available options for filters
         const availableOptions = {
@@ -839,6 +884,7 @@ export const getFilteredAnalytics = query({
             libraryAnalytics,
             collaborationAnalytics,
             timeAnalytics,
+            costAnalytics,
             availableOptions,
         };
     },
@@ -866,6 +912,7 @@ export const getAnalyticsDrilldown = query({
                 projects: v.optional(v.array(v.string())),
             })
         ),
+        unlockTokens: unlockTokensArg,
     },
     returns: v.object({
         metric: v.string(),
@@ -904,21 +951,16 @@ export const getAnalyticsDrilldown = query({
             )
             .collect();
 
-        const allMessages = [];
-        for (const chat of chats) {
-            if (chat.activeBranchId) {
-                const branchMessages = await ctx.db
-                    .query("messages")
-                    .withIndex("by_branch_and_timestamp", (q) =>
-                        q.eq("branchId", chat.activeBranchId!)
-                    )
-                    .collect();
-                allMessages.push(...branchMessages);
-            }
-        }
-
-        const messages = allMessages.filter(
-            (msg) => msg.timestamp >= start && msg.timestamp <= end
+        const rollups = await loadRollups(ctx, userId, start, end);
+        const roles =
+            filters?.messageType && filters.messageType.length > 0
+                ? MESSAGE_ROLES.filter((role) =>
+                      filters.messageType!.includes(role)
+                  )
+                : MESSAGE_ROLES;
+        const messageCount = rollups.reduce(
+            (sum, rollup) => sum + rollupMessageCount(rollup, roles),
+            0
         );
 
         // Calculate drilldown data based on metric
@@ -933,42 +975,38 @@ export const getAnalyticsDrilldown = query({
 
         switch (metric) {
             case "message_activity":
-                const hourlyActivity = new Array(24).fill(0);
-                messages.forEach((msg) => {
-                    const hour = new Date(msg.timestamp).getHours();
-                    hourlyActivity[hour]++;
-                });
+                const hourlyActivity = rollupHourlyActivity(rollups, roles);
                 data = hourlyActivity.map((count, hour) => ({ hour, count }));
-                summary.total = messages.length;
-                summary.average = Math.round(messages.length / 24);
+                summary.total = messageCount;
+                summary.average = Math.round(messageCount / 24);
                 breakdown = hourlyActivity
                     .map((count, hour) => ({
                         label: `${hour}:00`,
                         value: count,
-                        percentage: Math.round((count / messages.length) * 100),
+                        percentage: Math.round((count / messageCount) * 100),
                     }))
                     .filter((item) => item.value > 0);
                 break;
 
             case "model_usage":
                 const modelCounts = new Map<string, number>();
-                messages.forEach((msg) => {
-                    if (msg.model) {
+                rollups.forEach((rollup) => {
+                    rollup.models.forEach(({ model, count }) => {
                         modelCounts.set(
-                            msg.model,
-                            (modelCounts.get(msg.model) || 0) + 1
+                            model,
+                            (modelCounts.get(model) || 0) + count
                         );
-                    }
+                    });
                 });
                 data = Array.from(modelCounts.entries()).map(
                     ([model, count]) => ({ model, count })
                 );
-                summary.total = messages.length;
+                summary.total = messageCount;
                 breakdown = Array.from(modelCounts.entries()).map(
                     ([model, count]) => ({
                         label: model,
                         value: count,
-                        percentage: Math.round((count / messages.length) * 100),
+                        percentage: Math.round((count / messageCount) * 100),
                     })
                 );
                 break;
@@ -993,6 +1031,89 @@ export const getAnalyticsDrilldown = query({
                 );
                 break;
 
+            case "cost_by_model":
+            case "cost_by_provider":
+            case "cost_by_project":
+            case "cost_by_chat":
+            case "spend_over_time": {
+                const [userChats, projects, unlocked] = await Promise.all([
+                    ctx.db
+                        .query("chats")
+                        .withIndex("by_user", (q) => q.eq("userId", userId))
+                        .collect(),
+                    ctx.db
+                        .query("projects")
+                        .withIndex("by_user", (q) => q.eq("userId", userId))
+                        .collect(),
+                    getUnlockedChatIds(ctx, userId, args.unlockTokens),
+                ]);
+                // Locked protected chats show up under a placeholder title
+                const allChats = userChats.map((chat) =>
+                    chat.isPasswordProtected && !unlocked.has(chat._id)
+                        ? { ...chat, title: REDACTED_CHAT_TITLE }
+                        : chat
+                );
+                const costs = calculateCostAnalytics(
+                    filterCostEntries(
+                        rollupCostEntries(rollups, start),
+                        allChats,
+                        projects,
+                        filters ?? {}
+                    ),
+                    allChats,
+                    projects,
+                    args.timeRange,
+                    Infinity
+                );
+                const share = (cost: number) =>
+                    costs.totalCost > 0
+                        ? Math.round((cost / costs.totalCost) * 100)
+                        : 0;
+
+                summary.total = costs.totalCost;
+                summary.average = costs.averageCostPerResponse;
+
+                if (metric === "cost_by_model") {
+                    data = costs.costByModel;
+                    breakdown = costs.costByModel.map((item) => ({
+                        label: item.model,
+                        value: item.cost,
+                        percentage: item.percentage,
+                    }));
+                } else if (metric === "cost_by_provider") {
+                    data = costs.costByProvider;
+                    breakdown = costs.costByProvider.map((item) => ({
+                        label: item.provider,
+                        value: item.cost,
+                        percentage: item.percentage,
+                    }));
+                } else if (metric === "cost_by_project") {
+                    data = costs.costByProject;
+                    breakdown = costs.costByProject.map((item) => ({
+                        label: item.projectName,
+                        value: item.cost,
+                        percentage: item.percentage,
+                    }));
+                } else if (metric === "cost_by_chat") {
+                    data = costs.topChats;
+                    breakdown = costs.topChats.map((item) => ({
+                        label: item.title,
+                        value: item.cost,
+                        percentage: share(item.cost),
+                    }));
+                } else {
+                    data = costs.spendTrend;
+                    breakdown = costs.spendTrend
+                        .filter((item) => item.cost > 0)
+                        .map((item) => ({
+                            label: item.period,
+                            value: item.cost,
+                            percentage: share(item.cost),
+                        }));
+                }
+                break;
+            }
+
             default:
                 // Default case for unknown metrics
                 data = { error: `Unknown metric: ${metric}` };
@@ -1009,7 +1130,22 @@ export const getAnalyticsDrilldown = query({
 
 // Helper functions for analytics calculations
 
-function getMostActiveDay(messages: any[]): string {
+const HOUR_MS = 60 * 60 * 1000;
+
+function sumResponseTimes(rollups: AnalyticsRollup[]) {
+    return rollups.reduce(
+        (sum, rollup) => ({
+            total: sum.total + rollup.responseTimeTotal,
+            count: sum.count + rollup.responseTimeCount,
+        }),
+        { total: 0, count: 0 }
+    );
+}
+
+function getMostActiveDay(
+    rollups: AnalyticsRollup[],
+    roles: MessageRole[] = MESSAGE_ROLES
+): string {
     const dayActivity = new Map<string, number>();
     const days = [
         "Sunday",
@@ -1021,9 +1157,11 @@ function getMostActiveDay(messages: any[]): string {
         "Saturday",
     ];
 
-    messages.forEach((msg) => {
-        const day = days[new Date(msg.timestamp).getDay()];
-        dayActivity.set(day, (dayActivity.get(day) || 0) + 1);
+    rollups.forEach((rollup) => {
+        const count = rollupMessageCount(rollup, roles);
+        if (count === 0) return;
+        const day = days[new Date(rollup.dayStart).getUTCDay()];
+        dayActivity.set(day, (dayActivity.get(day) || 0) + count);
     });
 
     return (
@@ -1032,19 +1170,15 @@ function getMostActiveDay(messages: any[]): string {
     );
 }
 
-function getMostActiveHour(messages: any[]): number {
-    const hourActivity = new Map<number, number>();
+function getMostActiveHour(
+    rollups: AnalyticsRollup[],
+    roles: MessageRole[] = MESSAGE_ROLES
+): number {
+    const hourActivity = rollupHourlyActivity(rollups, roles)
+        .map((count, hour) => [hour, count] as const)
+        .filter(([, count]) => count > 0);
 
-    messages.forEach((msg) => {
-        const hour = new Date(msg.timestamp).getHours();
-        hourActivity.set(hour, (hourActivity.get(hour) || 0) + 1);
-    });
-
-    return (
-        Array.from(hourActivity.entries()).sort(
-            (a, b) => b[1] - a[1]
-        )[0]?.[0] || 14
-    );
+    return hourActivity.sort((a, b) => b[1] - a[1])[0]?.[0] ?? 14;
 }
 
 function calculateChatAnalytics(chats: any[], allChats: any[], timeRange: any) {
@@ -1111,67 +1245,111 @@ function calculateChatAnalytics(chats: any[], allChats: any[], timeRange: any) {
     };
 }
 
-function calculateMessageAnalytics(messages: any[], allMessages: any[]) {
+function calculateMessageAnalytics(
+    rollups: AnalyticsRollup[],
+    roles: MessageRole[],
+    timeRange: { start: number; end: number; granularity: string }
+) {
     const commandUsage = new Map<string, number>();
     const modelUsage = new Map<string, number>();
-    const responseTimes: number[] = [];
-
-    // Process all messages for statistics
-    allMessages.forEach((msg, index) => {
-        // Count commands
-        if (msg.commands && msg.commands.length > 0) {
-            msg.commands.forEach((cmd: string) => {
-                commandUsage.set(cmd, (commandUsage.get(cmd) || 0) + 1);
-            });
-        }
+    const combinations = new Map<string, { models: string[]; count: number }>();
 
-        // Count model usage
-        if (msg.model) {
-            modelUsage.set(msg.model, (modelUsage.get(msg.model) || 0) + 1);
-        }
+    let totalLength = 0;
+    let longestMessage = 0;
+    let fastestResponse: number | undefined;
+    let slowestResponse: number | undefined;
+    let multiAIMessages = 0;
+    let multiAIModels = 0;
+
+    rollups.forEach((rollup) => {
+        totalLength += rollup.totalLength;
+        longestMessage = Math.max(longestMessage, rollup.longestMessage);
+
+        rollup.commands.forEach(({ command, count }) => {
+            commandUsage.set(command, (commandUsage.get(command) || 0) + count);
+        });
+        rollup.models.forEach(({ model, count }) => {
+            modelUsage.set(model, (modelUsage.get(model) || 0) + count);
+        });
 
-        // Calculate response times
-        if (
-            index > 0 &&
-            msg.role === "assistant" &&
-            allMessages[index - 1].role === "user"
-        ) {
-            responseTimes.push(
-                msg.timestamp - allMessages[index - 1].timestamp
+        if (rollup.fastestResponse !== undefined) {
+            fastestResponse = Math.min(
+                fastestResponse ?? rollup.fastestResponse,
+                rollup.fastestResponse
             );
         }
+        if (rollup.slowestResponse !== undefined) {
+            slowestResponse = Math.max(
+                slowestResponse ?? rollup.slowestResponse,
+                rollup.slowestResponse
+            );
+        }
+
+        multiAIMessages += rollup.multiAIMessages;
+        multiAIModels += rollup.multiAIModels;
+        rollup.modelCombinations.forEach(({ models, count }) => {
+            const key = models.join("|");
+            const combination = combinations.get(key) ?? { models, count: 0 };
+            combination.count += count;
+            combinations.set(key, combination);
+        });
     });
 
-    const userMessages = allMessages.filter((m) => m.role === "user");
-    const assistantMessages = allMessages.filter((m) => m.role === "assistant");
-    const totalLength = allMessages.reduce(
-        (sum, msg) => sum + msg.content.length,
+    const allMessages = rollups.reduce(
+        (sum, rollup) => sum + rollupMessageCount(rollup),
         0
     );
-
-    const multiAIMessages = allMessages.filter(
-        (m) => m.metadata?.multiAIResponses
-    );
-    const averageModelsPerMessage =
-        multiAIMessages.length > 0
-            ? multiAIMessages.reduce(
-                  (sum, msg) =>
-                      sum +
-                      (msg.metadata?.multiAIResponses?.selectedModels?.length ||
-                          0),
+    const countRole = (role: MessageRole) =>
+        roles.includes(role)
+            ? rollups.reduce(
+                  (sum, rollup) => sum + rollupMessageCount(rollup, [role]),
                   0
-              ) / multiAIMessages.length
+              )
             : 0;
+    const responseTime = sumResponseTimes(rollups);
+
+    // Hourly buckets place each message in its trend period
+    const messageTrend = generatePeriods(
+        timeRange.start,
+        timeRange.end,
+        timeRange.granularity
+    ).map((period) => {
+        const inPeriod = (role: MessageRole) =>
+            roles.includes(role)
+                ? rollups.reduce(
+                      (sum, rollup) =>
+                          sum +
+                          rollup.hourlyActivity[role].reduce(
+                              (count, messages, hour) => {
+                                  const timestamp =
+                                      rollup.dayStart + hour * HOUR_MS;
+                                  return timestamp >= period.start &&
+                                      timestamp < period.end
+                                      ? count + messages
+                                      : count;
+                              },
+                              0
+                          ),
+                      0
+                  )
+                : 0;
+        return {
+            period: period.label,
+            userMessages: inPeriod("user"),
+            assistantMessages: inPeriod("assistant"),
+            timestamp: period.start,
+        };
+    });
 
     return {
-        totalMessages: allMessages.length,
-        userMessages: userMessages.length,
-        assistantMessages: assistantMessages.length,
-        averageMessageLength: Math.round(totalLength / allMessages.length) || 0,
-        longestMessage: Math.max(
-            ...allMessages.map((m) => m.content.length),
+        totalMessages: rollups.reduce(
+            (sum, rollup) => sum + rollupMessageCount(rollup, roles),
             0
         ),
+        userMessages: countRole("user"),
+        assistantMessages: countRole("assistant"),
+        averageMessageLength: Math.round(totalLength / allMessages) || 0,
+        longestMessage,
         commandUsage: Array.from(commandUsage.entries()).map(
             ([command, count]) => ({ command, count })
         ),
@@ -1179,33 +1357,28 @@ function calculateMessageAnalytics(messages: any[], allMessages: any[]) {
             .map(([model, count]) => ({
                 model,
                 count,
-                percentage: Math.round((count / allMessages.length) * 100),
+                percentage: Math.round((count / allMessages) * 100),
             }))
             .sort((a, b) => b.count - a.count),
-        messageTrend: [], // TODO: Implement trend calculation
+        messageTrend,
         responseTimeAnalytics: {
             averageResponseTime:
-                responseTimes.length > 0
-                    ? Math.round(
-                          responseTimes.reduce((a, b) => a + b, 0) /
-                              responseTimes.length /
-                              1000
-                      )
-                    : 0,
-            fastestResponse:
-                responseTimes.length > 0
-                    ? Math.round(Math.min(...responseTimes) / 1000)
-                    : 0,
-            slowestResponse:
-                responseTimes.length > 0
-                    ? Math.round(Math.max(...responseTimes) / 1000)
+                responseTime.count > 0
+                    ? Math.round(responseTime.total / responseTime.count / 1000)
                     : 0,
+            fastestResponse: Math.round((fastestResponse ?? 0) / 1000),
+            slowestResponse: Math.round((slowestResponse ?? 0) / 1000),
         },
         multiAIUsage: {
-            totalMultiAIMessages: multiAIMessages.length,
+            totalMultiAIMessages: multiAIMessages,
             averageModelsPerMessage:
-                Math.round(averageModelsPerMessage * 100) / 100,
-            mostUsedCombination: [], // TODO: Calculate most used model combinations
+                multiAIMessages > 0
+                    ? Math.round((multiAIModels / multiAIMessages) * 100) / 100
+                    : 0,
+            mostUsedCombination:
+                Array.from(combinations.values()).sort(
+                    (a, b) => b.count - a.count
+                )[0]?.models ?? [],
         },
     };
 }
@@ -1213,28 +1386,16 @@ function calculateMessageAnalytics(messages: any[], allMessages: any[]) {
 function calculateProjectAnalytics(
     projects: any[],
     allChats: any[],
-    allMessages: any[]
+    chatMessageCounts: Map<Id<"chats">, number>
 ) {
     const projectStats = projects.map((project) => {
         const projectChats = allChats.filter(
             (c) => c.projectId === project._id
         );
-        const projectMessages = projectChats.reduce((count, chat) => {
-            return (
-                count +
-                allMessages.filter((m) => {
-                    // Check if message belongs to this chat's active branch
-                    return allChats.some(
-                        (c) =>
-                            c._id === chat._id &&
-                            c.activeBranchId &&
-                            allMessages.some(
-                                (msg) => msg.branchId === c.activeBranchId
-                            )
-                    );
-                }).length
-            );
-        }, 0);
+        const projectMessages = projectChats.reduce(
+            (count, chat) => count + (chatMessageCounts.get(chat._id) || 0),
+            0
+        );
 
         return {
             projectName: project.name,
@@ -1346,10 +1507,13 @@ function calculateCollaborationAnalytics(allChats: any[], projects: any[]) {
     };
 }
 
-function calculateTimeAnalytics(messages: any[]) {
-    const activityByHour = new Array(24)
-        .fill(0)
-        .map((_, hour) => ({ hour, activity: 0 }));
+function calculateTimeAnalytics(
+    rollups: AnalyticsRollup[],
+    roles: MessageRole[] = MESSAGE_ROLES
+) {
+    const activityByHour = rollupHourlyActivity(rollups, roles).map(
+        (activity, hour) => ({ hour, activity })
+    );
     const activityByDay = new Map<string, number>();
     const days = [
         "Sunday",
@@ -1361,13 +1525,11 @@ function calculateTimeAnalytics(messages: any[]) {
         "Saturday",
     ];
 
-    messages.forEach((msg) => {
-        const date = new Date(msg.timestamp);
-        const hour = date.getHours();
-        const day = days[date.getDay()];
-
-        activityByHour[hour].activity++;
-        activityByDay.set(day, (activityByDay.get(day) || 0) + 1);
+    rollups.forEach((rollup) => {
+        const count = rollupMessageCount(rollup, roles);
+        if (count === 0) return;
+        const day = days[new Date(rollup.dayStart).getUTCDay()];
+        activityByDay.set(day, (activityByDay.get(day) || 0) + count);
     });
 
     const peakHour = activityByHour.reduce(
@@ -1477,3 +1639,185 @@ function formatPeriodLabel(timestamp: number, granularity: string): string {
             return date.toLocaleDateString();
     }
 }
+
+// Priced generations per day, chat and model. Days that began before the
+// range start are dated at the range start so they land in its first period.
+type ChatCostEntry = AnalyticsRollup["costs"][number] & { timestamp: number };
+
+function rollupCostEntries(
+    rollups: AnalyticsRollup[],
+    start: number
+): ChatCostEntry[] {
+    return rollups.flatMap((rollup) =>
+        rollup.costs.map((entry) => ({
+            ...entry,
+            timestamp: Math.max(rollup.dayStart, start),
+        }))
+    );
+}
+
+function filterCostEntries(
+    entries: ChatCostEntry[],
+    chats: Doc<"chats">[],
+    projects: Doc<"projects">[],
+    filters: { models?: string[]; projects?: string[] }
+): ChatCostEntry[] {
+    let filtered = entries;
+
+    if (filters.models && filters.models.length > 0) {
+        filtered = filtered.filter((entry) =>
+            filters.models!.includes(entry.model)
+        );
+    }
+
+    if (filters.projects && filters.projects.length > 0) {
+        const projectNames = new Map(projects.map((p) => [p._id, p.name]));
+        const chatProjects = new Map(
+            chats.map((chat) => [
+                chat._id,
+                chat.projectId ? projectNames.get(chat.projectId) : undefined,
+            ])
+        );
+        filtered = filtered.filter((entry) => {
+            const projectName = entry.chatId
+                ? chatProjects.get(entry.chatId)
+                : undefined;
+            return !!projectName && filters.projects!.includes(projectName);
+        });
+    }
+
+    return filtered;
+}
+
+function roundCost(cost: number): number {
+    return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function calculateCostAnalytics(
+    entries: ChatCostEntry[],
+    chats: Doc<"chats">[],
+    projects: Doc<"projects">[],
+    timeRange: { start: number; end: number; granularity: string },
+    chatLimit = 10
+) {
+    const totalCost = entries.reduce((sum, entry) => sum + entry.cost, 0);
+    const totalTokens = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+    const pricedResponses = entries.reduce(
+        (sum, entry) => sum + entry.count,
+        0
+    );
+    const percentage = (cost: number) =>
+        totalCost > 0 ? Math.round((cost / totalCost) * 100) : 0;
+
+    const chatsById = new Map(chats.map((chat) => [chat._id, chat]));
+    const projectNames = new Map(projects.map((p) => [p._id, p.name]));
+
+    const byModel = new Map<
+        string,
+        { provider: string; cost: number; tokens: number; count: number }
+    >();
+    const byProvider = new Map<string, { cost: number; tokens: number }>();
+    const byProject = new Map<string, number>();
+    const byChat = new Map<Id<"chats">, { cost: number; responses: number }>();
+
+    for (const entry of entries) {
+        const model = byModel.get(entry.model) ?? {
+            provider: entry.provider,
+            cost: 0,
+            tokens: 0,
+            count: 0,
+        };
+        model.cost += entry.cost;
+        model.tokens += entry.tokens;
+        model.count += entry.count;
+        byModel.set(entry.model, model);
+
+        const provider = byProvider.get(entry.provider) ?? {
+            cost: 0,
+            tokens: 0,
+        };
+        provider.cost += entry.cost;
+        provider.tokens += entry.tokens;
+        byProvider.set(entry.provider, provider);
+
+        const chat = entry.chatId ? chatsById.get(entry.chatId) : undefined;
+        const projectName =
+            (chat?.projectId && projectNames.get(chat.projectId)) ||
+            "No project";
+        byProject.set(
+            projectName,
+            (byProject.get(projectName) || 0) + entry.cost
+        );
+
+        if (entry.chatId) {
+            const chatCost = byChat.get(entry.chatId) ?? {
+                cost: 0,
+                responses: 0,
+            };
+            chatCost.cost += entry.cost;
+            chatCost.responses += entry.count;
+            byChat.set(entry.chatId, chatCost);
+        }
+    }
+
+    const spendTrend = generatePeriods(
+        timeRange.start,
+        timeRange.end,
+        timeRange.granularity
+    ).map((period) => ({
+        period: period.label,
+        cost: roundCost(
+            entries
+                .filter(
+                    (entry) =>
+                        entry.timestamp >= period.start &&
+                        entry.timestamp < period.end
+                )
+                .reduce((sum, entry) => sum + entry.cost, 0)
+        ),
+        timestamp: period.start,
+    }));
+
+    return {
+        totalCost: roundCost(totalCost),
+        totalTokens,
+        pricedResponses,
+        averageCostPerResponse:
+            pricedResponses > 0 ? roundCost(totalCost / pricedResponses) : 0,
+        costByModel: Array.from(byModel.entries())
+            .map(([model, item]) => ({
+                model,
+                provider: item.provider,
+                cost: roundCost(item.cost),
+                tokens: item.tokens,
+                count: item.count,
+                percentage: percentage(item.cost),
+            }))
+            .sort((a, b) => b.cost - a.cost),
+        costByProvider: Array.from(byProvider.entries())
+            .map(([provider, item]) => ({
+                provider,
+                cost: roundCost(item.cost),
+                tokens: item.tokens,
+                percentage: percentage(item.cost),
+            }))
+            .sort((a, b) => b.cost - a.cost),
+        costByProject: Array.from(byProject.entries())
+            .map(([projectName, cost]) => ({
+                projectName,
+                cost: roundCost(cost),
+                percentage: percentage(cost),
+            }))
+            .sort((a, b) => b.cost - a.cost),
+        topChats: Array.from(byChat.entries())
+            .map(([chatId, item]) => ({
+                chatId,
+                title: chatsById.get(chatId)?.title || "Deleted chat",
+                cost: roundCost(item.cost),
+                responses: item.responses,
+            }))
+            .sort((a, b) => b.cost - a.cost)
+            .slice(0, chatLimit),
+        spendTrend,
+    };
+}
@@ -0,0 +1,390 @@
+import {
+    internalMutation,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getMessageCostEntries } from "./pricing";
+
+// Daily per-user analytics aggregates (UTC days). A day's rollup is always
+// recomputed from that day's messages (via messages.by_user_timestamp), so
+// refreshing is idempotent: finished generations schedule a refresh of their
+// day, and a daily cron re-rolls days touched by recently created messages
+// (imports, forks, anything that bypasses generation).
+//
+// Rollups count every message the user owns, across all branches.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+const BACKFILL_BATCH_SIZE = 200;
+const DEFAULT_BACKFILL_WINDOW_MS = 2 * DAY_MS;
+
+export type MessageRole = "user" | "assistant" | "system";
+export const MESSAGE_ROLES: MessageRole[] = ["user", "assistant", "system"];
+
+export type AnalyticsRollup = Doc<"analytics_rollups">;
+
+export function dayStartOf(timestamp: number): number {
+    return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+function emptyHours(): number[] {
+    return new Array(24).fill(0);
+}
+
+function increment<K>(map: Map<K, number>, key: K, by = 1) {
+    map.set(key, (map.get(key) ?? 0) + by);
+}
+
+// Aggregate one day of messages into the rollup's fields
+function computeRollup(messages: Doc<"messages">[]) {
+    const counts: Record<MessageRole, number> = {
+        user: 0,
+        assistant: 0,
+        system: 0,
+    };
+    const hourlyActivity: Record<MessageRole, number[]> = {
+        user: emptyHours(),
+        assistant: emptyHours(),
+        system: emptyHours(),
+    };
+    const commands = new Map<string, number>();
+    const models = new Map<string, number>();
+    const combinations = new Map<string, number>();
+    const chats = new Map<Id<"chats">, number>();
+    const costs = new Map<
+        string,
+        {
+            chatId?: Id<"chats">;
+            model: string;
+            provider: string;
+            cost: number;
+            tokens: number;
+            count: number;
+        }
+    >();
+
+    let totalLength = 0;
+    let longestMessage = 0;
+    let responseTimeTotal = 0;
+    let responseTimeCount = 0;
+    let fastestResponse: number | undefined;
+    let slowestResponse: number | undefined;
+    let multiAIMessages = 0;
+    let multiAIModels = 0;
+    let totalTokens = 0;
+    let totalCost = 0;
+
+    for (const message of messages) {
+        counts[message.role]++;
+        hourlyActivity[message.role][new Date(message.timestamp).getUTCHours()]++;
+        totalLength += message.content.length;
+        longestMessage = Math.max(longestMessage, message.content.length);
+
+        for (const command of message.commands ?? []) {
+            increment(commands, command);
+        }
+        if (message.model) increment(models, message.model);
+        if (message.chatId) increment(chats, message.chatId);
+
+        if (message.role !== "assistant") continue;
+
+        const responseTime = message.metadata?.responseMetadata?.responseTime;
+        if (responseTime !== undefined && responseTime > 0) {
+            responseTimeTotal += responseTime;
+            responseTimeCount++;
+            fastestResponse = Math.min(fastestResponse ?? responseTime, responseTime);
+            slowestResponse = Math.max(slowestResponse ?? responseTime, responseTime);
+        }
+
+        const selectedModels =
+            message.metadata?.multiAIResponses?.selectedModels;
+        if (selectedModels && selectedModels.length > 0) {
+            multiAIMessages++;
+            multiAIModels += selectedModels.length;
+            increment(combinations, JSON.stringify([...selectedModels].sort()));
+        }
+
+        for (const entry of getMessageCostEntries(message)) {
+            const key = `${message.chatId ?? ""}|${entry.model}`;
+            const row = costs.get(key) ?? {
+                chatId: message.chatId,
+                model: entry.model,
+                provider: entry.provider,
+                cost: 0,
+                tokens: 0,
+                count: 0,
+            };
+            row.cost += entry.cost;
+            row.tokens += entry.tokens;
+            row.count++;
+            costs.set(key, row);
+            totalCost += entry.cost;
+            totalTokens += entry.tokens;
+        }
+    }
+
+    return {
+        userMessages: counts.user,
+        assistantMessages: counts.assistant,
+        systemMessages: counts.system,
+        totalLength,
+        longestMessage,
+        hourlyActivity,
+        responseTimeTotal,
+        responseTimeCount,
+        fastestResponse,
+        slowestResponse,
+        commands: Array.from(commands, ([command, count]) => ({
+            command,
+            count,
+        })),
+        models: Array.from(models, ([model, count]) => ({ model, count })),
+        multiAIMessages,
+        multiAIModels,
+        modelCombinations: Array.from(combinations, ([key, count]) => ({
+            models: JSON.parse(key) as string[],
+            count,
+        })),
+        chats: Array.from(chats, ([chatId, count]) => ({
+            chatId,
+            messages: count,
+        })),
+        costs: Array.from(costs.values()),
+        totalTokens,
+        totalCost,
+    };
+}
+
+/**
+ * Recompute one user's rollup for one UTC day from its messages. Days with
+ * no messages left lose their rollup.
+ */
+export const refreshDailyRollup = internalMutation({
+    args: {
+        userId: v.id("users"),
+        dayStart: v.number(),
+    },
+    returns: v.null(),
+    handler: async (ctx, { userId, dayStart }) => {
+        const messages = await ctx.db
+            .query("messages")
+            .withIndex("by_user_timestamp", (q) =>
+                q
+                    .eq("userId", userId)
+                    .gte("timestamp", dayStart)
+                    .lt("timestamp", dayStart + DAY_MS)
+            )
+            .collect();
+
+        const existing = await ctx.db
+            .query("analytics_rollups")
+            .withIndex("by_user_day", (q) =>
+                q.eq("userId", userId).eq("dayStart", dayStart)
+            )
+            .unique();
+
+        if (messages.length === 0) {
+            if (existing) await ctx.db.delete(existing._id);
+            return null;
+        }
+
+        const rollup = {
+            userId,
+            dayStart,
+            ...computeRollup(messages),
+            updatedAt: Date.now(),
+        };
+        if (existing) {
+            await ctx.db.replace(existing._id, rollup);
+        } else {
+            await ctx.db.insert("analytics_rollups", rollup);
+        }
+        return null;
+    },
+});
+
+/**
+ * Queue a refresh of the day a message belongs to. Called when a generation
+ * finishes (updateMessageContent / updateMultiAIResponse) and when messages
+ * are deleted.
+ */
+export async function scheduleRollupRefresh(
+    ctx: MutationCtx,
+    message: Doc<"messages">
+) {
+    let userId = message.userId;
+    if (!userId) {
+        const branch = await ctx.db.get(message.branchId);
+        const chat = branch ? await ctx.db.get(branch.chatId) : null;
+        userId = chat?.userId;
+    }
+    if (!userId) return;
+
+    await ctx.scheduler.runAfter(0, internal.analyticsRollups.refreshDailyRollup, {
+        userId,
+        dayStart: dayStartOf(message.timestamp),
+    });
+}
+
+/**
+ * For delete paths: returns a function to call with each message before it is
+ * deleted (the chat lookup needs it), refreshing every user and day once.
+ */
+export function createRollupRefresher(ctx: MutationCtx) {
+    const refreshed = new Set<string>();
+    return async (message: Doc<"messages">) => {
+        const key = `${message.userId ?? message.branchId}|${dayStartOf(message.timestamp)}`;
+        if (refreshed.has(key)) return;
+        refreshed.add(key);
+        await scheduleRollupRefresh(ctx, message);
+    };
+}
+
+/**
+ * Re-roll every day touched by messages created since `since` (default: the
+ * last two days, which is what the cron runs). For a full backfill:
+ *   npx convex run analyticsRollups:backfillAnalyticsRollups '{"since": 0}'
+ */
+export const backfillAnalyticsRollups = internalMutation({
+    args: {
+        since: v.optional(v.number()),
+        cursor: v.optional(v.union(v.string(), v.null())),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const since = args.since ?? Date.now() - DEFAULT_BACKFILL_WINDOW_MS;
+        const batch = await ctx.db
+            .query("messages")
+            .withIndex("by_creation_time", (q) => q.gt("_creationTime", since))
+            .paginate({
+                cursor: args.cursor ?? null,
+                numItems: BACKFILL_BATCH_SIZE,
+            });
+
+        const days = new Map<string, { userId: Id<"users">; dayStart: number }>();
+        for (const message of batch.page) {
+            let userId = message.userId;
+            if (!userId) {
+                // Messages from before the denormalized owner fields existed
+                const branch = await ctx.db.get(message.branchId);
+                const chat = branch ? await ctx.db.get(branch.chatId) : null;
+                if (!chat) continue;
+                await ctx.db.patch(message._id, {
+                    userId: chat.userId,
+                    chatId: chat._id,
+                });
+                userId = chat.userId;
+            }
+            const dayStart = dayStartOf(message.timestamp);
+            days.set(`${userId}|${dayStart}`, { userId, dayStart });
+        }
+
+        for (const day of days.values()) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.analyticsRollups.refreshDailyRollup,
+                day
+            );
+        }
+
+        console.log("📊 ANALYTICS ROLLUP BACKFILL BATCH:", {
+            scanned: batch.page.length,
+            days: days.size,
+            isDone: batch.isDone,
+            timestamp: new Date().toISOString(),
+        });
+
+        if (!batch.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.analyticsRollups.backfillAnalyticsRollups,
+                { since, cursor: batch.continueCursor }
+            );
+        }
+        return null;
+    },
+});
+
+export async function deleteAnalyticsRollups(
+    ctx: MutationCtx,
+    userId: Id<"users">
+) {
+    const rollups = await ctx.db
+        .query("analytics_rollups")
+        .withIndex("by_user_day", (q) => q.eq("userId", userId))
+        .collect();
+    for (const rollup of rollups) {
+        await ctx.db.delete(rollup._id);
+    }
+}
+
+// Rollups whose day overlaps [start, end]
+export async function loadRollups(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    start: number,
+    end: number
+): Promise<AnalyticsRollup[]> {
+    return await ctx.db
+        .query("analytics_rollups")
+        .withIndex("by_user_day", (q) =>
+            q
+                .eq("userId", userId)
+                .gte("dayStart", dayStartOf(start))
+                .lte("dayStart", end)
+        )
+        .collect();
+}
+
+export async function loadAllRollups(
+    ctx: QueryCtx,
+    userId: Id<"users">
+): Promise<AnalyticsRollup[]> {
+    return await ctx.db
+        .query("analytics_rollups")
+        .withIndex("by_user_day", (q) => q.eq("userId", userId))
+        .collect();
+}
+
+export function rollupMessageCount(
+    rollup: AnalyticsRollup,
+    roles: MessageRole[] = MESSAGE_ROLES
+): number {
+    const counts: Record<MessageRole, number> = {
+        user: rollup.userMessages,
+        assistant: rollup.assistantMessages,
+        system: rollup.systemMessages,
+    };
+    return roles.reduce((sum, role) => sum + counts[role], 0);
+}
+
+// Messages per UTC hour of day, summed over rollups
+export function rollupHourlyActivity(
+    rollups: AnalyticsRollup[],
+    roles: MessageRole[] = MESSAGE_ROLES
+): number[] {
+    const hours = emptyHours();
+    for (const rollup of rollups) {
+        for (const role of roles) {
+            rollup.hourlyActivity[role].forEach((count, hour) => {
+                hours[hour] += count;
+            });
+        }
+    }
+    return hours;
+}
+
+// Messages per chat, summed over rollups
+export function rollupChatMessageCounts(
+    rollups: AnalyticsRollup[]
+): Map<Id<"chats">, number> {
+    const counts = new Map<Id<"chats">, number>();
+    for (const rollup of rollups) {
+        for (const chat of rollup.chats) {
+            increment(counts, chat.chatId, chat.messages);
+        }
+    }
+    return counts;
+}
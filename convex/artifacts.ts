@@ -1,11 +1,243 @@
-import { v } from "convex/values";
+import { ConvexError, v } from "convex/values";
 import {
     mutation,
     query,
     internalQuery,
     internalMutation,
+    type MutationCtx,
+    type QueryCtx,
 } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { isChatLocked, unlockTokenArg } from "./chatUnlock";
+
+// Canvas autosaves a couple of seconds after typing stops - user edits this
+// soon after the previous user revision are folded into it
+const REVISION_MERGE_WINDOW_MS = 2 * 60 * 1000;
+
+const previewableLanguages = [
+    "html",
+    "css",
+    "javascript",
+    "typescript",
+    "react",
+    "vue",
+    "svelte",
+    "markdown",
+];
+
+type RevisionSource = Doc<"artifactRevisions">["source"];
+
+type RevisionInput = {
+    content: string;
+    source: RevisionSource;
+    messageId?: Id<"messages">;
+    restoredFrom?: number;
+    instruction?: string;
+};
+
+// A targeted replacement returned by the "edit with AI" model call
+export type ArtifactEdit = {
+    find: string;
+    replace: string;
+};
+
+/**
+ * Apply AI edits in order. Each `find` must match exactly once - inside the
+ * selected character range when one is given - so an edit can never land
+ * somewhere the model didn't mean.
+ */
+export function applyArtifactEdits(
+    content: string,
+    edits: ArtifactEdit[],
+    selection?: { start: number; end: number }
+): string {
+    let result = content;
+    const start = selection?.start ?? 0;
+    let end = selection?.end ?? content.length;
+
+    for (const edit of edits) {
+        if (!edit.find) throw new ConvexError("The AI returned an empty edit");
+        const scope = result.slice(start, end);
+        const index = scope.indexOf(edit.find);
+        if (index === -1) {
+            throw new ConvexError(
+                "The AI's edit doesn't match the current content. Try rephrasing the instruction."
+            );
+        }
+        if (scope.indexOf(edit.find, index + 1) !== -1) {
+            throw new ConvexError(
+                "The AI's edit matches more than one place. Select the part to change and try again."
+            );
+        }
+        const at = start + index;
+        result =
+            result.slice(0, at) +
+            edit.replace +
+            result.slice(at + edit.find.length);
+        end += edit.replace.length - edit.find.length;
+    }
+    return result;
+}
+
+async function insertArtifact(
+    ctx: MutationCtx,
+    fields: {
+        messageId: Id<"messages">;
+        chatId: Id<"chats">;
+        userId: Id<"users">;
+        artifactId: string;
+        filename: string;
+        language: string;
+        content: string;
+        description?: string;
+    }
+): Promise<Id<"artifacts">> {
+    const now = Date.now();
+    const artifactId = await ctx.db.insert("artifacts", {
+        ...fields,
+        originalContent: fields.content,
+        createdAt: now,
+        updatedAt: now,
+        editCount: 0,
+        currentRevision: 1,
+        isPreviewable: previewableLanguages.includes(
+            fields.language.toLowerCase()
+        ),
+    });
+    await ctx.db.insert("artifactRevisions", {
+        artifactId,
+        userId: fields.userId,
+        revision: 1,
+        content: fields.content,
+        source: "ai",
+        messageId: fields.messageId,
+        createdAt: now,
+        updatedAt: now,
+    });
+    return artifactId;
+}
+
+// History of an artifact saved before revisions existed: the AI original,
+// plus the current content when it was edited since
+function legacyRevisions(artifact: Doc<"artifacts">) {
+    const revisions: Array<RevisionInput & { revision: number; at: number }> =
+        [
+            {
+                revision: 1,
+                content: artifact.originalContent,
+                source: "ai",
+                messageId: artifact.messageId,
+                at: artifact.createdAt,
+            },
+        ];
+    if (artifact.content !== artifact.originalContent) {
+        revisions.push({
+            revision: 2,
+            content: artifact.content,
+            source: "user",
+            at: artifact.updatedAt,
+        });
+    }
+    return revisions;
+}
+
+async function getLatestRevision(ctx: QueryCtx, artifactId: Id<"artifacts">) {
+    return await ctx.db
+        .query("artifactRevisions")
+        .withIndex("by_artifact_revision", (q) => q.eq("artifactId", artifactId))
+        .order("desc")
+        .first();
+}
+
+/**
+ * Save `content` as the artifact's newest revision and make it current.
+ * Returns the revision number the content ended up in.
+ */
+async function addArtifactRevision(
+    ctx: MutationCtx,
+    artifact: Doc<"artifacts">,
+    input: RevisionInput
+): Promise<number> {
+    const now = Date.now();
+
+    let latest = await getLatestRevision(ctx, artifact._id);
+    if (artifact.currentRevision === undefined && !latest) {
+        for (const { at, ...revision } of legacyRevisions(artifact)) {
+            await ctx.db.insert("artifactRevisions", {
+                artifactId: artifact._id,
+                userId: artifact.userId,
+                ...revision,
+                createdAt: at,
+                updatedAt: at,
+            });
+        }
+        latest = await getLatestRevision(ctx, artifact._id);
+    }
+
+    if (latest && latest.content === input.content) {
+        // A legacy artifact's history is now stored - mark it as migrated
+        if (artifact.currentRevision === undefined) {
+            await ctx.db.patch(artifact._id, { currentRevision: latest.revision });
+        }
+        return latest.revision;
+    }
+
+    let revision: number;
+    if (
+        latest &&
+        input.source === "user" &&
+        latest.source === "user" &&
+        now - latest.updatedAt < REVISION_MERGE_WINDOW_MS
+    ) {
+        revision = latest.revision;
+        await ctx.db.patch(latest._id, {
+            content: input.content,
+            updatedAt: now,
+        });
+    } else {
+        revision = (latest?.revision ?? 0) + 1;
+        await ctx.db.insert("artifactRevisions", {
+            artifactId: artifact._id,
+            userId: artifact.userId,
+            revision,
+            ...input,
+            createdAt: now,
+            updatedAt: now,
+        });
+    }
+
+    await ctx.db.patch(artifact._id, {
+        content: input.content,
+        updatedAt: now,
+        editCount: (artifact.editCount || 0) + 1,
+        currentRevision: revision,
+    });
+    return revision;
+}
+
+async function getOwnedArtifact(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    artifactId: string
+) {
+    const artifact = await ctx.db
+        .query("artifacts")
+        .withIndex("by_artifact_id", (q) => q.eq("artifactId", artifactId))
+        .first();
+    return artifact && artifact.userId === userId ? artifact : null;
+}
+
+// Artifacts of a password protected chat are as private as its messages
+async function isArtifactChatLocked(
+    ctx: QueryCtx,
+    artifact: Doc<"artifacts">,
+    userId: Id<"users">,
+    unlockToken: string | undefined
+) {
+    const chat = await ctx.db.get(artifact.chatId);
+    return !chat || (await isChatLocked(ctx, chat, userId, unlockToken));
+}
 
 // Internal version for use in other functions - this is needed for AI generation
 export const getArtifactByIdInternal = internalQuery({
@@ -37,7 +269,8 @@ export const getArtifactInternal = internalQuery({
     },
 });
 
-// Internal version for creating artifacts
+// Internal version for creating artifacts. A canvas follow-up that
+// regenerates a file already in the chat adds a revision to it instead.
 export const createArtifactInternal = internalMutation({
     args: {
         messageId: v.id("messages"),
@@ -50,38 +283,27 @@ export const createArtifactInternal = internalMutation({
         description: v.optional(v.string()),
     },
     handler: async (ctx, args) => {
-        // Determine if the artifact is previewable
-        const previewableLanguages = [
-            "html",
-            "css",
-            "javascript",
-            "typescript",
-            "react",
-            "vue",
-            "svelte",
-            "markdown",
-        ];
-        const isPreviewable = previewableLanguages.includes(
-            args.language.toLowerCase()
-        );
+        const existing = await ctx.db
+            .query("artifacts")
+            .withIndex("by_chat", (q) => q.eq("chatId", args.chatId))
+            .filter((q) => q.eq(q.field("filename"), args.filename))
+            .first();
 
-        const now = Date.now();
+        if (!existing) return await insertArtifact(ctx, args);
 
-        return await ctx.db.insert("artifacts", {
+        await addArtifactRevision(ctx, existing, {
+            content: args.content,
+            source: "ai",
             messageId: args.messageId,
-            chatId: args.chatId,
-            userId: args.userId,
-            artifactId: args.artifactId,
-            filename: args.filename,
+        });
+        await ctx.db.patch(existing._id, {
             language: args.language,
-            content: args.content,
-            originalContent: args.content,
-            description: args.description,
-            createdAt: now,
-            updatedAt: now,
-            editCount: 0,
-            isPreviewable,
+            description: args.description ?? existing.description,
+            isPreviewable: previewableLanguages.includes(
+                args.language.toLowerCase()
+            ),
         });
+        return existing._id;
     },
 });
 
@@ -106,38 +328,7 @@ export const createArtifactPublic = mutation({
             throw new Error("Chat not found or access denied");
         }
 
-        // Determine if the artifact is previewable
-        const previewableLanguages = [
-            "html",
-            "css",
-            "javascript",
-            "typescript",
-            "react",
-            "vue",
-            "svelte",
-            "markdown",
-        ];
-        const isPreviewable = previewableLanguages.includes(
-            args.language.toLowerCase()
-        );
-
-        const now = Date.now();
-
-        return await ctx.db.insert("artifacts", {
-            messageId: args.messageId,
-            chatId: args.chatId,
-            userId: userId,
-            artifactId: args.artifactId,
-            filename: args.filename,
-            language: args.language,
-            content: args.content,
-            originalContent: args.content,
-            description: args.description,
-            createdAt: now,
-            updatedAt: now,
-            editCount: 0,
-            isPreviewable,
-        });
+        return await insertArtifact(ctx, { ...args, userId });
     },
 });
 
@@ -165,19 +356,163 @@ export const updateArtifact = mutation({
             throw new Error("Access denied");
         }
 
-        await ctx.db.patch(artifact._id, {
+        const revision = await addArtifactRevision(ctx, artifact, {
             content: args.content,
-            updatedAt: Date.now(),
-            editCount: (artifact.editCount || 0) + 1,
+            source: "user",
         });
 
-        return artifact._id;
+        return { artifactId: artifact._id, revision };
+    },
+});
+
+// Revision timeline of an artifact, newest first
+export const getArtifactRevisions = query({
+    args: { artifactId: v.string(), unlockToken: unlockTokenArg },
+    returns: v.array(
+        v.object({
+            revision: v.number(),
+            content: v.string(),
+            source: v.union(
+                v.literal("ai"),
+                v.literal("user"),
+                v.literal("restore")
+            ),
+            messageId: v.optional(v.id("messages")),
+            restoredFrom: v.optional(v.number()),
+            instruction: v.optional(v.string()),
+            createdAt: v.number(),
+            updatedAt: v.number(),
+        })
+    ),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return [];
+
+        const artifact = await getOwnedArtifact(ctx, userId, args.artifactId);
+        if (!artifact) return [];
+        if (await isArtifactChatLocked(ctx, artifact, userId, args.unlockToken)) {
+            return [];
+        }
+
+        // History starts with the first save after revisions were introduced
+        if (artifact.currentRevision === undefined) {
+            return legacyRevisions(artifact)
+                .map(({ at, ...revision }) => ({
+                    ...revision,
+                    createdAt: at,
+                    updatedAt: at,
+                }))
+                .reverse();
+        }
+
+        const revisions = await ctx.db
+            .query("artifactRevisions")
+            .withIndex("by_artifact_revision", (q) =>
+                q.eq("artifactId", artifact._id)
+            )
+            .order("desc")
+            .collect();
+
+        return revisions.map((revision) => ({
+            revision: revision.revision,
+            content: revision.content,
+            source: revision.source,
+            messageId: revision.messageId,
+            restoredFrom: revision.restoredFrom,
+            instruction: revision.instruction,
+            createdAt: revision.createdAt,
+            updatedAt: revision.updatedAt,
+        }));
+    },
+});
+
+// Bring back an earlier revision by saving it as the newest one
+export const restoreArtifactRevision = mutation({
+    args: {
+        artifactId: v.string(),
+        revision: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const artifact = await getOwnedArtifact(ctx, userId, args.artifactId);
+        if (!artifact) throw new Error("Artifact not found");
+
+        let content: string | undefined;
+        if (artifact.currentRevision === undefined) {
+            content = legacyRevisions(artifact).find(
+                (revision) => revision.revision === args.revision
+            )?.content;
+        } else {
+            const revision = await ctx.db
+                .query("artifactRevisions")
+                .withIndex("by_artifact_revision", (q) =>
+                    q
+                        .eq("artifactId", artifact._id)
+                        .eq("revision", args.revision)
+                )
+                .unique();
+            content = revision?.content;
+        }
+        if (content === undefined) throw new Error("Revision not found");
+
+        const revision = await addArtifactRevision(ctx, artifact, {
+            content,
+            source: "restore",
+            restoredFrom: args.revision,
+        });
+
+        return { artifactId: artifact._id, revision };
+    },
+});
+
+// Apply an "edit with AI" result as a new revision. The edits were written
+// against the content at `baseUpdatedAt`; anything saved since would shift
+// the selection, so the edit is rejected rather than misapplied.
+export const applyAIEdit = internalMutation({
+    args: {
+        artifactId: v.string(),
+        userId: v.id("users"),
+        baseUpdatedAt: v.number(),
+        instruction: v.string(),
+        edits: v.array(v.object({ find: v.string(), replace: v.string() })),
+        selection: v.optional(
+            v.object({ start: v.number(), end: v.number() })
+        ),
+    },
+    returns: v.object({ revision: v.number(), changed: v.boolean() }),
+    handler: async (ctx, args) => {
+        const artifact = await getOwnedArtifact(
+            ctx,
+            args.userId,
+            args.artifactId
+        );
+        if (!artifact) throw new Error("Artifact not found");
+        if (artifact.updatedAt !== args.baseUpdatedAt) {
+            throw new ConvexError(
+                "The artifact changed while the AI was editing it. Try again."
+            );
+        }
+
+        const content = applyArtifactEdits(
+            artifact.content,
+            args.edits,
+            args.selection
+        );
+        const revision = await addArtifactRevision(ctx, artifact, {
+            content,
+            source: "ai",
+            instruction: args.instruction,
+        });
+
+        return { revision, changed: content !== artifact.content };
     },
 });
 
 // Get artifacts for a chat
 export const getChatArtifacts = query({
-    args: { chatId: v.id("chats") },
+    args: { chatId: v.id("chats"), unlockToken: unlockTokenArg },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) return [];
@@ -187,18 +522,40 @@ export const getChatArtifacts = query({
         if (!chat || chat.userId !== userId) {
             return [];
         }
+        if (await isChatLocked(ctx, chat, userId, args.unlockToken)) return [];
 
-        return await ctx.db
+        const artifacts = await ctx.db
             .query("artifacts")
             .withIndex("by_chat_created", (q) => q.eq("chatId", args.chatId))
             .order("desc")
             .collect();
+
+        // Every message that generated a version of the file. A follow-up that
+        // regenerates some files of a project reuses them by filename, so
+        // Canvas links bundles through these rather than `messageId` alone.
+        return await Promise.all(
+            artifacts.map(async (artifact) => {
+                const revisions = await ctx.db
+                    .query("artifactRevisions")
+                    .withIndex("by_artifact_revision", (q) =>
+                        q.eq("artifactId", artifact._id)
+                    )
+                    .collect();
+                const generatedBy = new Set([artifact.messageId]);
+                for (const revision of revisions) {
+                    if (revision.source === "ai" && revision.messageId) {
+                        generatedBy.add(revision.messageId);
+                    }
+                }
+                return { ...artifact, generatedBy: [...generatedBy] };
+            })
+        );
     },
 });
 
 // Get a specific artifact
 export const getArtifact = query({
-    args: { artifactId: v.string() },
+    args: { artifactId: v.string(), unlockToken: unlockTokenArg },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) return null;
@@ -216,6 +573,9 @@ export const getArtifact = query({
         if (artifact.userId !== userId) {
             return null;
         }
+        if (await isArtifactChatLocked(ctx, artifact, userId, args.unlockToken)) {
+            return null;
+        }
 
         return artifact;
     },
@@ -242,6 +602,16 @@ export const deleteArtifact = mutation({
             throw new Error("Access denied");
         }
 
+        const revisions = await ctx.db
+            .query("artifactRevisions")
+            .withIndex("by_artifact_revision", (q) =>
+                q.eq("artifactId", artifact._id)
+            )
+            .collect();
+        for (const revision of revisions) {
+            await ctx.db.delete(revision._id);
+        }
+
         await ctx.db.delete(artifact._id);
         return artifact._id;
     },
@@ -249,11 +619,16 @@ export const deleteArtifact = mutation({
 
 // Get artifacts referenced in a message
 export const getMessageArtifacts = query({
-    args: { messageId: v.id("messages") },
+    args: { messageId: v.id("messages"), unlockToken: unlockTokenArg },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) return [];
 
+        const message = await ctx.db.get(args.messageId);
+        const chat = message?.chatId && (await ctx.db.get(message.chatId));
+        if (!chat || chat.userId !== userId) return [];
+        if (await isChatLocked(ctx, chat, userId, args.unlockToken)) return [];
+
         return await ctx.db
             .query("artifacts")
             .withIndex("by_message", (q) => q.eq("messageId", args.messageId))
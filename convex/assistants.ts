@@ -0,0 +1,479 @@
+import {
+    query,
+    mutation,
+    internalQuery,
+    type QueryCtx,
+} from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getOrCreateDefaultProject } from "./chats";
+
+// Custom assistants ("custom GPTs"): reusable instructions, model, AI settings,
+// pinned library knowledge and allowed / commands. Chats started from an
+// assistant keep a reference to it, so edits apply to existing chats too.
+
+const MAX_KNOWLEDGE_ITEMS = 20;
+
+const assistantAISettings = v.object({
+    temperature: v.optional(v.number()),
+    maxTokens: v.optional(v.number()),
+    responseMode: v.optional(
+        v.union(
+            v.literal("balanced"),
+            v.literal("concise"),
+            v.literal("detailed"),
+            v.literal("creative"),
+            v.literal("analytical"),
+            v.literal("friendly"),
+            v.literal("professional")
+        )
+    ),
+    topP: v.optional(v.number()),
+    frequencyPenalty: v.optional(v.number()),
+    presencePenalty: v.optional(v.number()),
+    enabledTools: v.optional(v.array(v.string())),
+});
+
+const knowledgeItem = v.object({
+    type: v.union(
+        v.literal("attachment"),
+        v.literal("artifact"),
+        v.literal("media")
+    ),
+    id: v.string(),
+    name: v.string(),
+    size: v.optional(v.number()),
+    mimeType: v.optional(v.string()),
+});
+
+const assistantFields = {
+    name: v.string(),
+    description: v.optional(v.string()),
+    avatar: v.optional(v.string()),
+    instructions: v.string(),
+    defaultModel: v.string(),
+    aiSettings: v.optional(assistantAISettings),
+    knowledge: v.optional(v.array(knowledgeItem)),
+    allowedCommands: v.optional(v.array(v.string())),
+};
+
+export type AssistantKnowledgeItem = Infer<typeof knowledgeItem>;
+
+// Commands are sent as "/search" from the input but checked as "search" in ai.ts
+function normalizeCommand(command: string): string {
+    return command.replace(/^\//, "").toLowerCase();
+}
+
+// Drop commands the assistant doesn't allow. Unset allowedCommands allows all.
+function filterAllowedCommands(
+    commands: string[] | undefined,
+    assistant: Pick<Doc<"assistants">, "allowedCommands"> | null
+): string[] | undefined {
+    if (!commands || !assistant?.allowedCommands) return commands;
+    const allowed = new Set(assistant.allowedCommands.map(normalizeCommand));
+    return commands.filter((command) => allowed.has(normalizeCommand(command)));
+}
+
+function validateAssistant(args: {
+    name: string;
+    instructions: string;
+    knowledge?: AssistantKnowledgeItem[];
+}) {
+    if (!args.name.trim()) throw new Error("Assistant name is required");
+    if (!args.instructions.trim()) {
+        throw new Error("Assistant instructions are required");
+    }
+    if ((args.knowledge?.length ?? 0) > MAX_KNOWLEDGE_ITEMS) {
+        throw new Error(
+            `Assistants can pin at most ${MAX_KNOWLEDGE_ITEMS} knowledge items`
+        );
+    }
+}
+
+// Knowledge is resolved at generation time, so only pin items the user owns
+async function assertOwnsKnowledge(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    knowledge: AssistantKnowledgeItem[] | undefined
+) {
+    for (const item of knowledge || []) {
+        let ownerId: Id<"users"> | undefined;
+        if (item.type === "artifact") {
+            const artifact = await ctx.db
+                .query("artifacts")
+                .withIndex("by_artifact_id", (q) => q.eq("artifactId", item.id))
+                .first();
+            ownerId = artifact?.userId;
+        } else {
+            const table =
+                item.type === "attachment" ? "attachmentLibrary" : "mediaLibrary";
+            const itemId = ctx.db.normalizeId(table, item.id);
+            const doc = itemId ? await ctx.db.get(itemId) : null;
+            ownerId = doc?.userId;
+        }
+        if (ownerId !== userId) {
+            throw new Error(`Library item not found: ${item.name}`);
+        }
+    }
+}
+
+export const listAssistants = query({
+    args: {},
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return [];
+
+        return await ctx.db
+            .query("assistants")
+            .withIndex("by_user_updated", (q) => q.eq("userId", userId))
+            .order("desc")
+            .collect();
+    },
+});
+
+export const getAssistant = query({
+    args: { assistantId: v.id("assistants") },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+
+        const assistant = await ctx.db.get(args.assistantId);
+        if (!assistant || assistant.userId !== userId) return null;
+
+        return assistant;
+    },
+});
+
+export const createAssistant = mutation({
+    args: assistantFields,
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        validateAssistant(args);
+        await assertOwnsKnowledge(ctx, userId, args.knowledge);
+
+        const now = Date.now();
+        const assistantId = await ctx.db.insert("assistants", {
+            userId,
+            ...args,
+            name: args.name.trim(),
+            createdAt: now,
+            updatedAt: now,
+        });
+
+        console.log("🤖 ASSISTANT CREATED:", {
+            assistantId,
+            userId,
+            knowledgeItems: args.knowledge?.length ?? 0,
+            timestamp: new Date().toISOString(),
+        });
+
+        return assistantId;
+    },
+});
+
+export const updateAssistant = mutation({
+    args: {
+        assistantId: v.id("assistants"),
+        ...assistantFields,
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const assistant = await ctx.db.get(args.assistantId);
+        if (!assistant || assistant.userId !== userId) {
+            throw new Error("Assistant not found");
+        }
+
+        validateAssistant(args);
+        await assertOwnsKnowledge(ctx, userId, args.knowledge);
+
+        const { assistantId, ...fields } = args;
+        // replace, not patch, so cleared optional fields are removed
+        await ctx.db.replace(assistantId, {
+            userId,
+            ...fields,
+            name: fields.name.trim(),
+            createdAt: assistant.createdAt,
+            updatedAt: Date.now(),
+            shareId: assistant.shareId,
+            isPublic: assistant.isPublic,
+            sharedAt: assistant.sharedAt,
+            viewCount: assistant.viewCount,
+            parentAssistantId: assistant.parentAssistantId,
+            forkedAt: assistant.forkedAt,
+        });
+    },
+});
+
+export const deleteAssistant = mutation({
+    args: { assistantId: v.id("assistants") },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const assistant = await ctx.db.get(args.assistantId);
+        if (!assistant || assistant.userId !== userId) {
+            throw new Error("Assistant not found");
+        }
+
+        // Existing chats keep their messages and fall back to normal settings
+        const chats = await ctx.db
+            .query("chats")
+            .withIndex("by_assistant", (q) =>
+                q.eq("assistantId", args.assistantId)
+            )
+            .collect();
+        for (const chat of chats) {
+            await ctx.db.patch(chat._id, { assistantId: undefined });
+        }
+
+        await ctx.db.delete(args.assistantId);
+
+        console.log("🗑️ ASSISTANT DELETED:", {
+            assistantId: args.assistantId,
+            detachedChats: chats.length,
+            timestamp: new Date().toISOString(),
+        });
+    },
+});
+
+/**
+ * Create a chat that uses the assistant's model, instructions and knowledge.
+ */
+export const startChatFromAssistant = mutation({
+    args: {
+        assistantId: v.id("assistants"),
+        projectId: v.optional(v.id("projects")),
+    },
+    handler: async (ctx, args): Promise<Id<"chats">> => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const assistant = await ctx.db.get(args.assistantId);
+        if (!assistant || assistant.userId !== userId) {
+            throw new Error("Assistant not found");
+        }
+
+        let projectId = args.projectId;
+        if (projectId) {
+            const project = await ctx.db.get(projectId);
+            if (!project || project.userId !== userId) {
+                throw new Error("Project not found");
+            }
+        } else {
+            projectId = await getOrCreateDefaultProject(ctx, userId);
+        }
+
+        // Same default password protection as createChat
+        const preferences = await ctx.runQuery(
+            internal.preferences.getUserPreferencesInternal,
+            { userId }
+        );
+        const passwordSettings = preferences?.passwordSettings;
+        const useDefaultPassword = !!(
+            passwordSettings?.useDefaultPassword &&
+            passwordSettings.defaultPasswordHash &&
+            passwordSettings.defaultPasswordSalt
+        );
+
+        const now = Date.now();
+        const chatId = await ctx.db.insert("chats", {
+            userId,
+            title: assistant.name,
+            model: assistant.defaultModel,
+            projectId,
+            createdAt: now,
+            updatedAt: now,
+            isStarred: false,
+            assistantId: assistant._id,
+            baseMessages: [],
+            activeMessages: [],
+            isPasswordProtected: useDefaultPassword,
+            passwordHash: useDefaultPassword
+                ? passwordSettings?.defaultPasswordHash
+                : undefined,
+            passwordSalt: useDefaultPassword
+                ? passwordSettings?.defaultPasswordSalt
+                : undefined,
+        });
+
+        const mainBranchId = await ctx.db.insert("branches", {
+            chatId,
+            fromMessageId: undefined,
+            messages: [],
+            isMain: true,
+            createdAt: now,
+            updatedAt: now,
+            branchName: "Main",
+            description: "Main conversation thread",
+        });
+
+        await ctx.db.patch(chatId, { activeBranchId: mainBranchId });
+
+        console.log("🤖 CHAT STARTED FROM ASSISTANT:", {
+            chatId,
+            assistantId: assistant._id,
+            model: assistant.defaultModel,
+            timestamp: new Date().toISOString(),
+        });
+
+        return chatId;
+    },
+});
+
+// Sharing - mirrors createChatShare / shareProject in sharing.ts
+export const shareAssistant = mutation({
+    args: { assistantId: v.id("assistants") },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const assistant = await ctx.db.get(args.assistantId);
+        if (!assistant || assistant.userId !== userId) {
+            throw new Error("Assistant not found");
+        }
+
+        if (assistant.shareId && assistant.isPublic) return assistant.shareId;
+
+        const shareId = crypto.randomUUID();
+        await ctx.db.patch(args.assistantId, {
+            shareId,
+            isPublic: true,
+            sharedAt: Date.now(),
+            viewCount: 0,
+            updatedAt: Date.now(),
+        });
+
+        return shareId;
+    },
+});
+
+export const revokeAssistantShare = mutation({
+    args: { assistantId: v.id("assistants") },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const assistant = await ctx.db.get(args.assistantId);
+        if (!assistant || assistant.userId !== userId) {
+            throw new Error("Assistant not found");
+        }
+
+        await ctx.db.patch(args.assistantId, {
+            isPublic: false,
+            shareId: undefined,
+            updatedAt: Date.now(),
+        });
+    },
+});
+
+/**
+ * Public view of a shared assistant. Knowledge items stay private to the
+ * owner's library, so only their names are exposed.
+ */
+export const getSharedAssistant = query({
+    args: { shareId: v.string() },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+
+        const assistant = await ctx.db
+            .query("assistants")
+            .withIndex("by_share_id", (q) => q.eq("shareId", args.shareId))
+            .unique();
+        if (!assistant || !assistant.isPublic) return null;
+
+        return {
+            _id: assistant._id,
+            name: assistant.name,
+            description: assistant.description,
+            avatar: assistant.avatar,
+            instructions: assistant.instructions,
+            defaultModel: assistant.defaultModel,
+            allowedCommands: assistant.allowedCommands,
+            knowledgeNames: (assistant.knowledge || []).map((item) => item.name),
+            viewCount: assistant.viewCount,
+            isOwner: assistant.userId === userId,
+        };
+    },
+});
+
+/**
+ * Copy a shared assistant into the caller's workspace. Knowledge is not
+ * copied - those items live in the original owner's library.
+ */
+export const forkAssistant = mutation({
+    args: { shareId: v.string() },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const original = await ctx.db
+            .query("assistants")
+            .withIndex("by_share_id", (q) => q.eq("shareId", args.shareId))
+            .unique();
+        if (!original || !original.isPublic) {
+            throw new Error("Share link not found or no longer public");
+        }
+
+        if (original.userId === userId) {
+            return { assistantId: original._id, action: "owner_access" };
+        }
+
+        const now = Date.now();
+        const assistantId = await ctx.db.insert("assistants", {
+            userId,
+            name: original.name,
+            description: original.description,
+            avatar: original.avatar,
+            instructions: original.instructions,
+            defaultModel: original.defaultModel,
+            aiSettings: original.aiSettings,
+            allowedCommands: original.allowedCommands,
+            createdAt: now,
+            updatedAt: now,
+            parentAssistantId: original._id,
+            forkedAt: now,
+        });
+
+        await ctx.db.patch(original._id, {
+            viewCount: (original.viewCount || 0) + 1,
+        });
+
+        console.log("🍴 ASSISTANT FORKED:", {
+            originalId: original._id,
+            assistantId,
+            userId,
+            timestamp: new Date().toISOString(),
+        });
+
+        return { assistantId, action: "forked" };
+    },
+});
+
+// Assistant context for AI generation (internal use): the commands it allows
+// out of the requested ones, and its pinned knowledge
+export const getChatAssistantContextInternal = internalQuery({
+    args: {
+        chatId: v.id("chats"),
+        commands: v.optional(v.array(v.string())),
+    },
+    handler: async (ctx, args) => {
+        const chat = await ctx.db.get(args.chatId);
+        if (!chat?.assistantId) return null;
+
+        const assistant = await ctx.db.get(chat.assistantId);
+        // Only the chat owner's assistants apply
+        if (!assistant || assistant.userId !== chat.userId) return null;
+
+        return {
+            assistantId: assistant._id,
+            commands: filterAllowedCommands(args.commands, assistant),
+            knowledge: assistant.knowledge || [],
+        };
+    },
+});
@@ -1,7 +1,19 @@
-import { mutation, query } from "./_generated/server";
+import {
+    mutation,
+    query,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
+import type { Doc, Id } from "./_generated/dataModel";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { dayStartOf, scheduleRollupRefresh } from "./analyticsRollups";
+import { isChatLocked, unlockTokenArg } from "./chatUnlock";
+import { isEncryptedContent } from "./chatEncryption";
+
+const MAX_BRANCH_ACTIVATION_DEPTH = 10;
+const BRANCH_PREVIEW_LENGTH = 80;
+const MAX_BRANCH_NAME_LENGTH = 60;
 
 // PHASE 3: FIXED - Branching Logic - Message Editing & Branch Creation
 
@@ -86,11 +98,19 @@ export const getChatBranches = query({
 export const getBranchWithMessages = query({
     args: {
         branchId: v.id("branches"),
+        unlockToken: unlockTokenArg,
     },
-    handler: async (ctx, { branchId }) => {
+    handler: async (ctx, { branchId, unlockToken }) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+
         const branch = await ctx.db.get(branchId);
         if (!branch) return null;
 
+        const chat = await ctx.db.get(branch.chatId);
+        if (!chat || (chat.userId !== userId && !chat.isPublic)) return null;
+        if (await isChatLocked(ctx, chat, userId, unlockToken)) return null;
+
         // Populate messages efficiently - join pattern to avoid repeated queries
         const messages = await Promise.all(
             branch.messages.map((messageId) => ctx.db.get(messageId))
@@ -115,10 +135,15 @@ export const getBranchWithMessages = query({
 export const getChatMessages = query({
     args: {
         chatId: v.id("chats"),
+        unlockToken: unlockTokenArg,
     },
-    handler: async (ctx, { chatId }) => {
+    handler: async (ctx, { chatId, unlockToken }) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return [];
+
         const chat = await ctx.db.get(chatId);
-        if (!chat) return [];
+        if (!chat || (chat.userId !== userId && !chat.isPublic)) return [];
+        if (await isChatLocked(ctx, chat, userId, unlockToken)) return [];
 
         // Get active branch
         const activeBranchId = chat.activeBranchId;
@@ -347,7 +372,7 @@ export const navigateToBranch = mutation({
  * PHASE 3 FIX: Improved BaseMessages Calculation Algorithm
  * Now consistently applied across all branch operations
  */
-async function updateBaseMessagesFromBranch(
+export async function updateBaseMessagesFromBranch(
     ctx: any,
     chatId: Id<"chats">,
     fromMessageId: Id<"messages">
@@ -391,7 +416,7 @@ async function updateBaseMessagesFromBranch(
  * PHASE 3 FIX: Consistent activeMessages update function
  * Called whenever baseMessages or active branch changes
  */
-async function updateActiveMessagesForChat(
+export async function updateActiveMessagesForChat(
     ctx: any,
     chatId: Id<"chats">
 ) {
@@ -421,6 +446,88 @@ async function updateActiveMessagesForChat(
     return activeMessages;
 }
 
+// Messages currently rendered for a chat: baseMessages + active branch messages
+export async function getVisibleMessageIds(
+    ctx: QueryCtx,
+    chat: Doc<"chats">
+): Promise<Id<"messages">[]> {
+    const baseMessages = chat.baseMessages || [];
+    const activeBranch = chat.activeBranchId
+        ? await ctx.db.get(chat.activeBranchId)
+        : null;
+    return [...baseMessages, ...(activeBranch?.messages || [])];
+}
+
+/**
+ * The branch a fork hangs off: the one (other than the fork's own siblings)
+ * holding the message it was forked from. Imported forks start with their
+ * own first message, so when no other branch holds it they attach to the root.
+ */
+export function findParentBranch(
+    branches: Doc<"branches">[],
+    branch: Doc<"branches">
+): Doc<"branches"> | undefined {
+    if (!branch.fromMessageId) return undefined;
+    const fromMessageId = branch.fromMessageId;
+    return (
+        branches.find(
+            (b) =>
+                b._id !== branch._id &&
+                b.fromMessageId !== fromMessageId &&
+                b.messages.includes(fromMessageId)
+        ) ?? branches.find((b) => !b.fromMessageId && b._id !== branch._id)
+    );
+}
+
+// Make a branch active, first activating whichever branch its fork point lives on
+export async function activateBranch(
+    ctx: MutationCtx,
+    chatId: Id<"chats">,
+    branch: Doc<"branches">,
+    depth = 0
+): Promise<void> {
+    if (depth > MAX_BRANCH_ACTIVATION_DEPTH) {
+        throw new Error("Branch nesting too deep");
+    }
+
+    const chat = await ctx.db.get(chatId);
+    if (!chat) throw new Error("Chat not found");
+    if (chat.activeBranchId === branch._id) return;
+
+    // The root branch carries the whole conversation itself
+    if (!branch.fromMessageId) {
+        await ctx.db.patch(chatId, {
+            activeBranchId: branch._id,
+            baseMessages: [],
+            updatedAt: Date.now(),
+        });
+        await updateActiveMessagesForChat(ctx, chatId);
+        return;
+    }
+
+    const fromMessageId = branch.fromMessageId;
+    const visibleIds = await getVisibleMessageIds(ctx, chat);
+    if (!visibleIds.includes(fromMessageId)) {
+        const branches = await ctx.db
+            .query("branches")
+            .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+            .collect();
+        const parentBranch = findParentBranch(branches, branch);
+        if (parentBranch) {
+            await activateBranch(ctx, chatId, parentBranch, depth + 1);
+        }
+    }
+
+    // Same steps as navigateToBranch
+    await updateBaseMessagesFromBranch(ctx, chatId, fromMessageId);
+    await ctx.db.patch(fromMessageId, { activeBranchId: branch._id });
+    await ctx.db.patch(chatId, {
+        activeBranchId: branch._id,
+        updatedAt: Date.now(),
+    });
+    await updateActiveMessagesForChat(ctx, chatId);
+}
+
 /**
  * Update active messages array efficiently
  * Called whenever baseMessages or active branch changes
@@ -580,3 +687,540 @@ export const handleMessageDeletion = mutation({
         }
     },
 });
+
+function previewText(content: string | undefined) {
+    if (!content) return undefined;
+    if (isEncryptedContent(content)) return "🔒 Encrypted message";
+    const text = content.replace(/\s+/g, " ").trim();
+    return text.length > BRANCH_PREVIEW_LENGTH
+        ? `${text.substring(0, BRANCH_PREVIEW_LENGTH)}...`
+        : text;
+}
+
+// Branch management is limited to the chat's owner
+async function getOwnedBranch(ctx: QueryCtx, branchId: Id<"branches">) {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const branch = await ctx.db.get(branchId);
+    if (!branch) throw new Error("Branch not found");
+
+    const chat = await ctx.db.get(branch.chatId);
+    if (!chat) throw new Error("Chat not found");
+    if (chat.userId !== userId) {
+        throw new Error("Unauthorized to manage branches of this chat");
+    }
+
+    return { branch, chat };
+}
+
+/**
+ * Every branch of a chat with its parent, for the conversation tree view.
+ * Forks are the branches sharing a fromMessageId; the client groups them
+ * under one branch-point node.
+ */
+export const getBranchTree = query({
+    args: {
+        chatId: v.id("chats"),
+        unlockToken: unlockTokenArg,
+    },
+    returns: v.union(
+        v.null(),
+        v.object({
+            activeBranchId: v.optional(v.id("branches")),
+            branches: v.array(
+                v.object({
+                    _id: v.id("branches"),
+                    parentId: v.optional(v.id("branches")),
+                    fromMessageId: v.optional(v.id("messages")),
+                    forkPreview: v.optional(v.string()),
+                    name: v.string(),
+                    description: v.optional(v.string()),
+                    isMain: v.boolean(),
+                    isRoot: v.boolean(),
+                    messageCount: v.number(),
+                    preview: v.optional(v.string()),
+                    createdAt: v.number(),
+                    updatedAt: v.number(),
+                })
+            ),
+        })
+    ),
+    handler: async (ctx, { chatId, unlockToken }) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+
+        const chat = await ctx.db.get(chatId);
+        if (!chat || (chat.userId !== userId && !chat.isPublic)) return null;
+        // The tree's shape stays visible, message previews do not
+        const locked = await isChatLocked(ctx, chat, userId, unlockToken);
+
+        const branches = (
+            await ctx.db
+                .query("branches")
+                .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+                .collect()
+        ).sort((a, b) => a.createdAt - b.createdAt);
+
+        const nodes = await Promise.all(
+            branches.map(async (branch) => {
+                const firstMessage =
+                    branch.messages[0] && !locked
+                        ? await ctx.db.get(branch.messages[0])
+                        : null;
+                const forkMessage =
+                    branch.fromMessageId && !locked
+                        ? await ctx.db.get(branch.fromMessageId)
+                        : null;
+
+                return {
+                    _id: branch._id,
+                    parentId: findParentBranch(branches, branch)?._id,
+                    fromMessageId: branch.fromMessageId,
+                    forkPreview: previewText(forkMessage?.content),
+                    name:
+                        branch.branchName ||
+                        (branch.fromMessageId ? "Branch" : "Main"),
+                    description: branch.description,
+                    isMain: branch.isMain,
+                    isRoot: !branch.fromMessageId,
+                    messageCount: branch.messages.length,
+                    preview: previewText(firstMessage?.content),
+                    createdAt: branch.createdAt,
+                    updatedAt: branch.updatedAt,
+                };
+            })
+        );
+
+        return { activeBranchId: chat.activeBranchId, branches: nodes };
+    },
+});
+
+/**
+ * Jump straight to any branch of the tree, activating the branches above it
+ * as needed
+ */
+export const switchToBranch = mutation({
+    args: {
+        branchId: v.id("branches"),
+    },
+    handler: async (ctx, { branchId }) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const branch = await ctx.db.get(branchId);
+        if (!branch) throw new Error("Branch not found");
+
+        const chat = await ctx.db.get(branch.chatId);
+        if (!chat) throw new Error("Chat not found");
+        if (chat.userId !== userId && !chat.isPublic) {
+            throw new Error("Unauthorized to navigate this chat");
+        }
+
+        await activateBranch(ctx, chat._id, branch);
+
+        return { switchedToBranch: branchId, branchName: branch.branchName };
+    },
+});
+
+/**
+ * Rename a branch or change its description
+ */
+export const updateBranchDetails = mutation({
+    args: {
+        branchId: v.id("branches"),
+        branchName: v.string(),
+        description: v.optional(v.string()),
+    },
+    handler: async (ctx, args) => {
+        const { branch } = await getOwnedBranch(ctx, args.branchId);
+
+        const branchName = args.branchName.trim();
+        if (!branchName) throw new Error("Branch name is required");
+        if (branchName.length > MAX_BRANCH_NAME_LENGTH) {
+            throw new Error(
+                `Branch name must be ${MAX_BRANCH_NAME_LENGTH} characters or less`
+            );
+        }
+
+        await ctx.db.patch(branch._id, {
+            branchName,
+            description: args.description?.trim() || undefined,
+            updatedAt: Date.now(),
+        });
+
+        return branch._id;
+    },
+});
+
+/**
+ * Delete a branch together with every branch forked from it and the messages
+ * only they contain. When the conversation is currently on one of them, it
+ * moves to a sibling fork first (or back to the parent branch).
+ */
+export const deleteBranch = mutation({
+    args: {
+        branchId: v.id("branches"),
+    },
+    handler: async (ctx, { branchId }) => {
+        const { branch, chat } = await getOwnedBranch(ctx, branchId);
+        if (!branch.fromMessageId) {
+            throw new Error("The root conversation can't be deleted");
+        }
+
+        const branches = await ctx.db
+            .query("branches")
+            .withIndex("by_chat", (q) => q.eq("chatId", chat._id))
+            .collect();
+
+        // The branch and everything below it
+        const doomed = new Set<Id<"branches">>([branch._id]);
+        let grew = true;
+        while (grew) {
+            grew = false;
+            for (const b of branches) {
+                const parent = findParentBranch(branches, b);
+                if (!doomed.has(b._id) && parent && doomed.has(parent._id)) {
+                    doomed.add(b._id);
+                    grew = true;
+                }
+            }
+        }
+        if (branches.some((b) => b.isMain && doomed.has(b._id))) {
+            throw new Error(
+                "Promote another branch to main before deleting this one"
+            );
+        }
+
+        const survivors = branches.filter((b) => !doomed.has(b._id));
+        if (chat.activeBranchId && doomed.has(chat.activeBranchId)) {
+            const target =
+                survivors.find(
+                    (b) => b.fromMessageId === branch.fromMessageId
+                ) ?? findParentBranch(branches, branch);
+            if (target) await activateBranch(ctx, chat._id, target);
+        }
+
+        // Fork messages also sit in the parent branch - keep those
+        const keptMessageIds = new Set(survivors.flatMap((b) => b.messages));
+        const deletedMessageIds = new Set(
+            branches
+                .filter((b) => doomed.has(b._id))
+                .flatMap((b) => b.messages)
+                .filter((messageId) => !keptMessageIds.has(messageId))
+        );
+
+        const forkMessage = await ctx.db.get(branch.fromMessageId);
+        if (forkMessage && !deletedMessageIds.has(forkMessage._id)) {
+            const remaining = (forkMessage.branches || []).filter(
+                (id) => !doomed.has(id)
+            );
+            await ctx.db.patch(forkMessage._id, {
+                branches: remaining,
+                activeBranchId:
+                    forkMessage.activeBranchId &&
+                    doomed.has(forkMessage.activeBranchId)
+                        ? remaining[0]
+                        : forkMessage.activeBranchId,
+            });
+        }
+
+        const refreshedDays = new Set<number>();
+        for (const messageId of deletedMessageIds) {
+            const message = await ctx.db.get(messageId);
+            if (!message) continue;
+            await ctx.db.delete(messageId);
+
+            // Keep the analytics rollups in step, once per affected day
+            const day = dayStartOf(message.timestamp);
+            if (!refreshedDays.has(day)) {
+                refreshedDays.add(day);
+                await scheduleRollupRefresh(ctx, message);
+            }
+        }
+        for (const id of doomed) {
+            await ctx.db.delete(id);
+        }
+
+        await updateActiveMessagesForChat(ctx, chat._id);
+
+        console.log("🌿 BRANCH DELETED:", {
+            chatId: chat._id,
+            branchId,
+            deletedBranches: doomed.size,
+            deletedMessages: deletedMessageIds.size,
+            timestamp: new Date().toISOString(),
+        });
+
+        return {
+            deletedBranches: doomed.size,
+            deletedMessages: deletedMessageIds.size,
+        };
+    },
+});
+
+/**
+ * Make a branch the chat's main branch and switch to it
+ */
+export const promoteBranchToMain = mutation({
+    args: {
+        branchId: v.id("branches"),
+    },
+    handler: async (ctx, { branchId }) => {
+        const { branch, chat } = await getOwnedBranch(ctx, branchId);
+        const now = Date.now();
+
+        if (!branch.isMain) {
+            const mainBranches = await ctx.db
+                .query("branches")
+                .withIndex("by_chat_main", (q) =>
+                    q.eq("chatId", chat._id).eq("isMain", true)
+                )
+                .collect();
+            for (const main of mainBranches) {
+                await ctx.db.patch(main._id, { isMain: false, updatedAt: now });
+            }
+            await ctx.db.patch(branch._id, { isMain: true, updatedAt: now });
+        }
+
+        await activateBranch(ctx, chat._id, branch);
+
+        return { mainBranchId: branch._id };
+    },
+});
+
+/**
+ * Messages a branch inherits from above its fork point: the parent branch's
+ * own history up to (not including) the message it was forked from
+ */
+export function getBranchPrefix(
+    branches: Doc<"branches">[],
+    branch: Doc<"branches">,
+    depth = 0
+): Id<"messages">[] {
+    if (!branch.fromMessageId || depth > MAX_BRANCH_ACTIVATION_DEPTH) {
+        return [];
+    }
+
+    const parent = findParentBranch(branches, branch);
+    if (!parent) return [];
+
+    const parentPath = [
+        ...getBranchPrefix(branches, parent, depth + 1),
+        ...parent.messages,
+    ];
+    const forkIndex = parentPath.indexOf(branch.fromMessageId);
+    return forkIndex === -1 ? parentPath : parentPath.slice(0, forkIndex);
+}
+
+type ComparedMessage = {
+    _id: Id<"messages">;
+    role: "user" | "assistant" | "system";
+    content: string;
+    model?: string;
+    timestamp: number;
+};
+
+// A turn starts at each user message and runs until the next one
+function groupIntoTurns(messages: ComparedMessage[]) {
+    const turns: ComparedMessage[][] = [];
+    for (const message of messages) {
+        if (message.role === "user" || turns.length === 0) turns.push([]);
+        turns[turns.length - 1].push(message);
+    }
+    return turns;
+}
+
+async function loadComparedMessages(
+    ctx: QueryCtx,
+    branch: Doc<"branches">
+): Promise<ComparedMessage[]> {
+    const messages = await Promise.all(
+        branch.messages.map((messageId) => ctx.db.get(messageId))
+    );
+    return messages
+        .filter((msg) => msg !== null)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map((msg) => ({
+            _id: msg._id,
+            role: msg.role,
+            content: msg.content,
+            model: msg.model,
+            timestamp: msg.timestamp,
+        }));
+}
+
+const comparedMessageValidator = v.object({
+    _id: v.id("messages"),
+    role: v.union(
+        v.literal("user"),
+        v.literal("assistant"),
+        v.literal("system")
+    ),
+    content: v.string(),
+    model: v.optional(v.string()),
+    timestamp: v.number(),
+});
+
+/**
+ * Two forks of the same message side by side, with their messages grouped
+ * into user turns and aligned turn by turn
+ */
+export const compareBranches = query({
+    args: {
+        leftBranchId: v.id("branches"),
+        rightBranchId: v.id("branches"),
+        unlockToken: unlockTokenArg,
+    },
+    returns: v.union(
+        v.null(),
+        v.object({
+            chatId: v.id("chats"),
+            forkPreview: v.optional(v.string()),
+            sharedMessageCount: v.number(),
+            left: v.object({
+                _id: v.id("branches"),
+                name: v.string(),
+                isActive: v.boolean(),
+            }),
+            right: v.object({
+                _id: v.id("branches"),
+                name: v.string(),
+                isActive: v.boolean(),
+            }),
+            turns: v.array(
+                v.object({
+                    left: v.array(comparedMessageValidator),
+                    right: v.array(comparedMessageValidator),
+                })
+            ),
+        })
+    ),
+    handler: async (ctx, { leftBranchId, rightBranchId, unlockToken }) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+
+        const left = await ctx.db.get(leftBranchId);
+        const right = await ctx.db.get(rightBranchId);
+        if (!left || !right) return null;
+
+        const chat = await ctx.db.get(left.chatId);
+        if (!chat || (chat.userId !== userId && !chat.isPublic)) return null;
+        if (await isChatLocked(ctx, chat, userId, unlockToken)) return null;
+
+        if (
+            right.chatId !== left.chatId ||
+            !left.fromMessageId ||
+            right.fromMessageId !== left.fromMessageId
+        ) {
+            throw new Error(
+                "Only branches forked from the same message can be compared"
+            );
+        }
+
+        const branches = await ctx.db
+            .query("branches")
+            .withIndex("by_chat", (q) => q.eq("chatId", chat._id))
+            .collect();
+        const forkMessage = await ctx.db.get(left.fromMessageId);
+
+        const leftTurns = groupIntoTurns(await loadComparedMessages(ctx, left));
+        const rightTurns = groupIntoTurns(
+            await loadComparedMessages(ctx, right)
+        );
+        const turns = Array.from(
+            { length: Math.max(leftTurns.length, rightTurns.length) },
+            (_, i) => ({ left: leftTurns[i] ?? [], right: rightTurns[i] ?? [] })
+        );
+
+        const describe = (branch: Doc<"branches">) => ({
+            _id: branch._id,
+            name: branch.branchName || "Branch",
+            isActive: chat.activeBranchId === branch._id,
+        });
+
+        return {
+            chatId: chat._id,
+            forkPreview: previewText(forkMessage?.content),
+            sharedMessageCount: getBranchPrefix(branches, left).length,
+            left: describe(left),
+            right: describe(right),
+            turns,
+        };
+    },
+});
+
+/**
+ * Copy messages from another branch of the same chat onto the end of a
+ * branch, keeping their relative order
+ */
+export const cherryPickMessages = mutation({
+    args: {
+        targetBranchId: v.id("branches"),
+        messageIds: v.array(v.id("messages")),
+    },
+    handler: async (ctx, { targetBranchId, messageIds }) => {
+        const { branch: target, chat } = await getOwnedBranch(
+            ctx,
+            targetBranchId
+        );
+        if (messageIds.length === 0) throw new Error("No messages selected");
+
+        const picked: Doc<"messages">[] = [];
+        for (const messageId of messageIds) {
+            const message = await ctx.db.get(messageId);
+            if (!message) throw new Error("Message not found");
+            const source = await ctx.db.get(message.branchId);
+            if (!source || source.chatId !== chat._id) {
+                throw new Error("Messages must come from the same chat");
+            }
+            if (target.messages.includes(messageId)) {
+                throw new Error("Message is already on this branch");
+            }
+            if (message.isStreaming) {
+                throw new Error("Wait for the response to finish first");
+            }
+            picked.push(message);
+        }
+        picked.sort((a, b) => a.timestamp - b.timestamp);
+
+        // Copies go after everything already on the branch
+        const lastMessage = target.messages.length
+            ? await ctx.db.get(target.messages[target.messages.length - 1])
+            : null;
+        let timestamp = Math.max(Date.now(), (lastMessage?.timestamp ?? 0) + 1);
+
+        const copiedIds: Id<"messages">[] = [];
+        for (const message of picked) {
+            const copyId = await ctx.db.insert("messages", {
+                branchId: target._id,
+                userId: chat.userId,
+                chatId: chat._id,
+                role: message.role,
+                content: message.content,
+                timestamp: timestamp++,
+                model: message.model,
+                attachments: message.attachments,
+                metadata: message.metadata,
+            });
+            copiedIds.push(copyId);
+        }
+
+        await ctx.db.patch(target._id, {
+            messages: [...target.messages, ...copiedIds],
+            updatedAt: Date.now(),
+        });
+        if (chat.activeBranchId === target._id) {
+            await updateActiveMessagesForChat(ctx, chat._id);
+        }
+
+        console.log("🍒 MESSAGES CHERRY-PICKED:", {
+            chatId: chat._id,
+            targetBranchId,
+            copied: copiedIds.length,
+            timestamp: new Date().toISOString(),
+        });
+
+        return { copiedMessageIds: copiedIds };
+    },
+});
@@ -0,0 +1,285 @@
+import { v, type Infer } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import type { QueryCtx } from "./_generated/server";
+import { encodeBase64, decodeBase64 } from "@oslojs/encoding";
+import { isChatLocked, unlockTokenArg } from "./chatUnlock";
+import { deleteContextSummaries } from "./contextWindow";
+import { deleteMessageEmbeddings } from "./semanticSearch";
+import {
+    ENCRYPTED_CONTENT_PREFIX,
+    IV_LENGTH,
+    KEY_CHECK_PLAINTEXT,
+    isEncryptedContent,
+} from "../src/lib/chatCrypto";
+
+// End-to-end encryption for password protected chats. The browser derives an
+// AES-GCM key from the chat password (PBKDF2, see src/lib/chatCrypto.ts) and
+// stores message text as an envelope: "e2ee:v1:<iv>:<ciphertext>", base64,
+// with the envelope constants shared from there.
+// The server never stores the key. While a chat is unlocked the client sends
+// the raw key with each AI request so the history can be decrypted for that
+// request and the reply sealed before it is written.
+//
+// Encrypted: message content, retry versions and edit history. Not
+// encrypted: artifacts, media prompts and tool results, so canvas, image,
+// video and server tools are off in encrypted chats.
+
+const UPDATE_BATCH_LIMIT = 100;
+
+export const chatEncryptionValidator = v.object({
+    version: v.literal(1),
+    kdf: v.literal("PBKDF2-SHA256"),
+    iterations: v.number(),
+    salt: v.string(), // base64
+    keyCheck: v.string(), // Envelope of a known string, to verify a derived key
+});
+export type ChatEncryption = Infer<typeof chatEncryptionValidator>;
+
+export { isEncryptedContent };
+
+export async function importChatKey(rawKey: string): Promise<CryptoKey> {
+    return await crypto.subtle.importKey(
+        "raw",
+        decodeBase64(rawKey),
+        { name: "AES-GCM" },
+        false,
+        ["encrypt", "decrypt"]
+    );
+}
+
+export async function encryptContent(key: CryptoKey, text: string) {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        new TextEncoder().encode(text)
+    );
+    return `${ENCRYPTED_CONTENT_PREFIX}${encodeBase64(iv)}:${encodeBase64(
+        new Uint8Array(ciphertext)
+    )}`;
+}
+
+// Plain text passes through unchanged - chats may mix both
+export async function decryptContent(key: CryptoKey, content: string) {
+    if (!isEncryptedContent(content)) return content;
+    const [iv, ciphertext] = content
+        .slice(ENCRYPTED_CONTENT_PREFIX.length)
+        .split(":");
+    const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: decodeBase64(iv) },
+        key,
+        decodeBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+}
+
+// Key check for a raw key sent by a client, before anything is sealed with it
+export async function verifyChatKey(
+    encryption: ChatEncryption,
+    rawKey: string
+): Promise<CryptoKey | null> {
+    try {
+        const key = await importChatKey(rawKey);
+        const check = await decryptContent(key, encryption.keyCheck);
+        return check === KEY_CHECK_PLAINTEXT ? key : null;
+    } catch {
+        return null;
+    }
+}
+
+// Owner of a protected chat holding a valid unlock token
+async function getUnlockedOwnedChat(
+    ctx: QueryCtx,
+    chatId: Id<"chats">,
+    unlockToken: string | undefined
+): Promise<Doc<"chats">> {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const chat = await ctx.db.get(chatId);
+    if (!chat || chat.userId !== userId) {
+        throw new Error("Chat not found or access denied");
+    }
+    if (!chat.isPasswordProtected) {
+        throw new Error("Chat is not password protected");
+    }
+    if (await isChatLocked(ctx, chat, userId, unlockToken)) {
+        throw new Error("Chat is locked");
+    }
+    return chat;
+}
+
+async function getAllChatMessages(ctx: QueryCtx, chatId: Id<"chats">) {
+    const branches = await ctx.db
+        .query("branches")
+        .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+        .collect();
+    const messages = new Map<Id<"messages">, Doc<"messages">>();
+    for (const branch of branches) {
+        const branchMessages = await ctx.db
+            .query("messages")
+            .withIndex("by_branch", (q) => q.eq("branchId", branch._id))
+            .collect();
+        for (const message of branchMessages) {
+            messages.set(message._id, message);
+        }
+    }
+    return [...messages.values()];
+}
+
+// Every stored text of every message in the chat (all branches), so the
+// client can encrypt or decrypt them in one pass
+export const getChatMessageTexts = query({
+    args: { chatId: v.id("chats"), unlockToken: unlockTokenArg },
+    returns: v.array(
+        v.object({
+            messageId: v.id("messages"),
+            content: v.string(),
+            versions: v.array(v.string()),
+            editHistory: v.array(v.string()),
+        })
+    ),
+    handler: async (ctx, args) => {
+        await getUnlockedOwnedChat(ctx, args.chatId, args.unlockToken);
+        const messages = await getAllChatMessages(ctx, args.chatId);
+        return messages.map((message) => ({
+            messageId: message._id,
+            content: message.content,
+            versions: (message.messageVersions || []).map((v) => v.content),
+            editHistory: (message.editHistory || []).map((e) => e.content),
+        }));
+    },
+});
+
+// Write back texts produced by getChatMessageTexts, same shape and order
+export const storeChatMessageTexts = mutation({
+    args: {
+        chatId: v.id("chats"),
+        unlockToken: unlockTokenArg,
+        updates: v.array(
+            v.object({
+                messageId: v.id("messages"),
+                content: v.string(),
+                versions: v.array(v.string()),
+                editHistory: v.array(v.string()),
+            })
+        ),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        await getUnlockedOwnedChat(ctx, args.chatId, args.unlockToken);
+        if (args.updates.length > UPDATE_BATCH_LIMIT) {
+            throw new Error(
+                `At most ${UPDATE_BATCH_LIMIT} messages can be updated at once`
+            );
+        }
+
+        for (const update of args.updates) {
+            const message = await ctx.db.get(update.messageId);
+            const branch = message && (await ctx.db.get(message.branchId));
+            if (!message || branch?.chatId !== args.chatId) {
+                throw new Error("Message does not belong to this chat");
+            }
+
+            await ctx.db.patch(update.messageId, {
+                content: update.content,
+                messageVersions: message.messageVersions?.map(
+                    (version, i) => ({
+                        ...version,
+                        content: update.versions[i] ?? version.content,
+                    })
+                ),
+                editHistory: message.editHistory?.map((entry, i) => ({
+                    ...entry,
+                    content: update.editHistory[i] ?? entry.content,
+                })),
+                // Snapshots would keep a plaintext copy around
+                streamingSnapshots: undefined,
+            });
+        }
+        return null;
+    },
+});
+
+/**
+ * Turn on end-to-end encryption for a protected chat. The client encrypts
+ * the existing messages right after with storeChatMessageTexts.
+ */
+export const enableChatEncryption = mutation({
+    args: {
+        chatId: v.id("chats"),
+        unlockToken: unlockTokenArg,
+        encryption: chatEncryptionValidator,
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const chat = await getUnlockedOwnedChat(
+            ctx,
+            args.chatId,
+            args.unlockToken
+        );
+        if (chat.encryption) {
+            throw new Error("Chat is already encrypted");
+        }
+
+        await ctx.db.patch(args.chatId, {
+            encryption: args.encryption,
+            updatedAt: Date.now(),
+        });
+        // Rolling summaries and search embeddings are derived from the plaintext
+        await deleteContextSummaries(ctx, args.chatId);
+        await deleteMessageEmbeddings(ctx, args.chatId);
+
+        console.log("🔐 CHAT ENCRYPTION ENABLED:", {
+            chatId: args.chatId,
+            timestamp: new Date().toISOString(),
+        });
+        return null;
+    },
+});
+
+/**
+ * Turn encryption back off. The client first writes every message back in
+ * plain text with storeChatMessageTexts; until then this refuses, so no
+ * message is left that nobody can decrypt.
+ */
+export const disableChatEncryption = mutation({
+    args: { chatId: v.id("chats"), unlockToken: unlockTokenArg },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const chat = await getUnlockedOwnedChat(
+            ctx,
+            args.chatId,
+            args.unlockToken
+        );
+        if (!chat.encryption) return null;
+
+        const messages = await getAllChatMessages(ctx, args.chatId);
+        const stillEncrypted = messages.some(
+            (message) =>
+                isEncryptedContent(message.content) ||
+                (message.messageVersions || []).some((version) =>
+                    isEncryptedContent(version.content)
+                ) ||
+                (message.editHistory || []).some((entry) =>
+                    isEncryptedContent(entry.content)
+                )
+        );
+        if (stillEncrypted) {
+            throw new Error("Some messages are still encrypted");
+        }
+
+        await ctx.db.patch(args.chatId, {
+            encryption: undefined,
+            updatedAt: Date.now(),
+        });
+
+        console.log("🔓 CHAT ENCRYPTION DISABLED:", {
+            chatId: args.chatId,
+            timestamp: new Date().toISOString(),
+        });
+        return null;
+    },
+});
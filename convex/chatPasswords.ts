@@ -0,0 +1,332 @@
+import { v } from "convex/values";
+import {
+    internalMutation,
+    query,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import bcrypt from "bcryptjs";
+import { sha256 } from "@oslojs/crypto/sha2";
+import { constantTimeEqual } from "@oslojs/crypto/subtle";
+import { encodeHexLowerCase } from "@oslojs/encoding";
+import { getUnlockedChatIds, redactLockedChat, unlockTokensArg } from "./chatUnlock";
+
+// Chat password hashing, brute-force lockouts and the password audit log.
+//
+// Passwords are hashed with bcrypt (the same KDF the default password in
+// Settings uses). Chats protected before that carry an iterated SHA-256 hash;
+// it is still accepted and replaced with bcrypt on the next successful unlock.
+
+const BCRYPT_ROUNDS = 10;
+const LEGACY_SHA256_ITERATIONS = 100000;
+
+// Lockouts start after the free attempts and double with every further
+// failure. Failures older than the window are forgotten.
+const CHAT_FREE_ATTEMPTS = 5;
+const USER_FREE_ATTEMPTS = 15; // Across all of a user's chats
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const AUDIT_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+const AUDIT_PAGE_SIZE = 50;
+const CLEANUP_BATCH_SIZE = 500;
+
+const auditEventValidator = v.union(
+    v.literal("unlock"),
+    v.literal("failed_attempt"),
+    v.literal("locked_out"),
+    v.literal("password_set"),
+    v.literal("password_changed"),
+    v.literal("password_removed")
+);
+type AuditEvent = Doc<"passwordAuditEvents">["event"];
+
+// =============================================================================
+// Hashing
+// =============================================================================
+
+export function hashChatPassword(password: string) {
+    const passwordSalt = bcrypt.genSaltSync(BCRYPT_ROUNDS);
+    return {
+        passwordHash: bcrypt.hashSync(password, passwordSalt),
+        passwordSalt,
+    };
+}
+
+function isBcryptHash(hash: string) {
+    return /^\$2[aby]\$/.test(hash);
+}
+
+// The pre-bcrypt scheme: SHA-256 of password + salt, iterated
+function legacyHashPassword(password: string, salt: string) {
+    let hash = new TextEncoder().encode(password + salt);
+    for (let i = 0; i < LEGACY_SHA256_ITERATIONS; i++) {
+        hash = sha256(hash);
+    }
+    return encodeHexLowerCase(hash);
+}
+
+/**
+ * Check a password against a chat. `needsRehash` is set when the chat still
+ * has a legacy hash, so the caller can upgrade it after a successful unlock.
+ */
+export function checkChatPassword(
+    password: string,
+    chat: Pick<Doc<"chats">, "passwordHash" | "passwordSalt">
+): { valid: boolean; needsRehash: boolean } {
+    if (!chat.passwordHash) return { valid: false, needsRehash: false };
+
+    if (isBcryptHash(chat.passwordHash)) {
+        return {
+            valid: bcrypt.compareSync(password, chat.passwordHash),
+            needsRehash: false,
+        };
+    }
+
+    if (!chat.passwordSalt) return { valid: false, needsRehash: false };
+    const encoder = new TextEncoder();
+    const valid = constantTimeEqual(
+        encoder.encode(legacyHashPassword(password, chat.passwordSalt)),
+        encoder.encode(chat.passwordHash)
+    );
+    return { valid, needsRehash: valid };
+}
+
+// =============================================================================
+// Attempt counters and lockouts
+// =============================================================================
+
+async function getAttemptCounter(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    chatId: Id<"chats"> | undefined
+) {
+    return await ctx.db
+        .query("passwordAttempts")
+        .withIndex("by_user_chat", (q) =>
+            q.eq("userId", userId).eq("chatId", chatId)
+        )
+        .unique();
+}
+
+// Until when the chat's password can't be tried, or null when it can
+export async function getPasswordLockout(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    chatId: Id<"chats">
+): Promise<number | null> {
+    const now = Date.now();
+    const counters = [
+        await getAttemptCounter(ctx, userId, chatId),
+        await getAttemptCounter(ctx, userId, undefined),
+    ];
+    const lockedUntil = Math.max(
+        ...counters.map((counter) => counter?.lockedUntil ?? 0)
+    );
+    return lockedUntil > now ? lockedUntil : null;
+}
+
+function lockoutFor(failedAttempts: number, freeAttempts: number) {
+    if (failedAttempts < freeAttempts) return undefined;
+    return Math.min(
+        BASE_LOCKOUT_MS * 2 ** (failedAttempts - freeAttempts),
+        MAX_LOCKOUT_MS
+    );
+}
+
+/**
+ * Count a wrong password against the chat and the user. Returns the new
+ * lockout end when this failure triggers one. The caller must not throw
+ * afterwards, or the count is rolled back with the mutation.
+ */
+export async function recordFailedPasswordAttempt(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    chatId: Id<"chats">
+): Promise<number | undefined> {
+    const now = Date.now();
+    let lockedUntil: number | undefined;
+
+    for (const [scope, freeAttempts] of [
+        [chatId, CHAT_FREE_ATTEMPTS],
+        [undefined, USER_FREE_ATTEMPTS],
+    ] as const) {
+        const counter = await getAttemptCounter(ctx, userId, scope);
+        const isStale =
+            !counter || counter.lastFailedAt < now - ATTEMPT_WINDOW_MS;
+        const failedAttempts = (isStale ? 0 : counter.failedAttempts) + 1;
+        const lockout = lockoutFor(failedAttempts, freeAttempts);
+        const scopeLockedUntil = lockout ? now + lockout : undefined;
+
+        if (counter) {
+            await ctx.db.patch(counter._id, {
+                failedAttempts,
+                lastFailedAt: now,
+                lockedUntil: scopeLockedUntil,
+            });
+        } else {
+            await ctx.db.insert("passwordAttempts", {
+                userId,
+                chatId: scope,
+                failedAttempts,
+                lastFailedAt: now,
+                lockedUntil: scopeLockedUntil,
+            });
+        }
+
+        if (scopeLockedUntil) {
+            lockedUntil = Math.max(lockedUntil ?? 0, scopeLockedUntil);
+        }
+    }
+
+    await logPasswordEvent(ctx, userId, chatId, "failed_attempt");
+    if (lockedUntil) {
+        await logPasswordEvent(ctx, userId, chatId, "locked_out", lockedUntil);
+        console.warn("🔒 CHAT PASSWORD LOCKOUT:", {
+            chatId,
+            userId,
+            lockedUntil: new Date(lockedUntil).toISOString(),
+            timestamp: new Date().toISOString(),
+        });
+    }
+    return lockedUntil;
+}
+
+// Only the chat's counter is reset - unlocking one chat doesn't buy more
+// guesses on the others
+export async function clearFailedPasswordAttempts(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    chatId: Id<"chats">
+) {
+    const counter = await getAttemptCounter(ctx, userId, chatId);
+    if (counter) await ctx.db.delete(counter._id);
+}
+
+export function formatLockoutError(lockedUntil: number) {
+    const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+    return `Too many password attempts - try again in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// =============================================================================
+// Audit log
+// =============================================================================
+
+export async function logPasswordEvent(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    chatId: Id<"chats">,
+    event: AuditEvent,
+    lockedUntil?: number
+) {
+    await ctx.db.insert("passwordAuditEvents", {
+        userId,
+        chatId,
+        event,
+        lockedUntil,
+        createdAt: Date.now(),
+    });
+}
+
+// Recent password activity across the user's chats, newest first
+export const listPasswordAuditEvents = query({
+    args: {
+        limit: v.optional(v.number()),
+        unlockTokens: unlockTokensArg,
+    },
+    returns: v.array(
+        v.object({
+            _id: v.id("passwordAuditEvents"),
+            chatId: v.id("chats"),
+            chatTitle: v.optional(v.string()), // Unset once the chat is deleted
+            event: auditEventValidator,
+            lockedUntil: v.optional(v.number()),
+            createdAt: v.number(),
+        })
+    ),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return [];
+
+        const events = await ctx.db
+            .query("passwordAuditEvents")
+            .withIndex("by_user_created", (q) => q.eq("userId", userId))
+            .order("desc")
+            .take(Math.min(args.limit ?? AUDIT_PAGE_SIZE, 200));
+
+        const unlocked = await getUnlockedChatIds(
+            ctx,
+            userId,
+            args.unlockTokens
+        );
+        const titles = new Map<Id<"chats">, string | undefined>();
+        for (const event of events) {
+            if (titles.has(event.chatId)) continue;
+            const chat = await ctx.db.get(event.chatId);
+            titles.set(
+                event.chatId,
+                chat ? redactLockedChat(chat, unlocked).title : undefined
+            );
+        }
+
+        return events.map((event) => ({
+            _id: event._id,
+            chatId: event.chatId,
+            chatTitle: titles.get(event.chatId),
+            event: event.event,
+            lockedUntil: event.lockedUntil,
+            createdAt: event.createdAt,
+        }));
+    },
+});
+
+// Drops audit events past retention and attempt counters past their window
+export const cleanupPasswordSecurityData = internalMutation({
+    args: {},
+    returns: v.null(),
+    handler: async (ctx) => {
+        const now = Date.now();
+
+        const oldEvents = await ctx.db
+            .query("passwordAuditEvents")
+            .withIndex("by_created_at", (q) =>
+                q.lt("createdAt", now - AUDIT_RETENTION_MS)
+            )
+            .take(CLEANUP_BATCH_SIZE);
+        for (const event of oldEvents) {
+            await ctx.db.delete(event._id);
+        }
+
+        const staleCounters = await ctx.db
+            .query("passwordAttempts")
+            .withIndex("by_last_failed_at", (q) =>
+                q.lt("lastFailedAt", now - ATTEMPT_WINDOW_MS)
+            )
+            .take(CLEANUP_BATCH_SIZE);
+        for (const counter of staleCounters) {
+            await ctx.db.delete(counter._id);
+        }
+
+        console.log("🧹 PASSWORD SECURITY CLEANUP:", {
+            auditEventsDeleted: oldEvents.length,
+            attemptCountersDeleted: staleCounters.length,
+            timestamp: new Date().toISOString(),
+        });
+
+        if (
+            oldEvents.length === CLEANUP_BATCH_SIZE ||
+            staleCounters.length === CLEANUP_BATCH_SIZE
+        ) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.chatPasswords.cleanupPasswordSecurityData,
+                {}
+            );
+        }
+        return null;
+    },
+});
@@ -0,0 +1,150 @@
+import { v } from "convex/values";
+import {
+    internalMutation,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { sha256 } from "@oslojs/crypto/sha2";
+import { encodeHexLowerCase } from "@oslojs/encoding";
+
+// Unlock tokens for password protected chats. verifyPasswordProtection issues
+// one after a correct password; every query returning protected content takes
+// it as `unlockToken` (single chat) or `unlockTokens` (search, analytics,
+// exports) and redacts the chat without a valid one.
+
+export const UNLOCK_TOKEN_TTL_MS = 30 * 60 * 1000; // Same as the old 30 minute session
+const CLEANUP_BATCH_SIZE = 500;
+
+export const REDACTED_CHAT_TITLE = "🔒 Protected chat";
+
+export const unlockTokenArg = v.optional(v.string());
+export const unlockTokensArg = v.optional(v.array(v.string()));
+
+function hashToken(token: string) {
+    return encodeHexLowerCase(sha256(new TextEncoder().encode(token)));
+}
+
+export async function issueUnlockToken(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    chatId: Id<"chats">
+): Promise<{ token: string; expiresAt: number }> {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    const token = encodeHexLowerCase(bytes);
+
+    const now = Date.now();
+    const expiresAt = now + UNLOCK_TOKEN_TTL_MS;
+    await ctx.db.insert("chatUnlockTokens", {
+        userId,
+        chatId,
+        tokenHash: hashToken(token),
+        createdAt: now,
+        expiresAt,
+    });
+
+    return { token, expiresAt };
+}
+
+// Called when a chat's password changes or is removed
+export async function revokeUnlockTokens(
+    ctx: MutationCtx,
+    chatId: Id<"chats">
+) {
+    const tokens = await ctx.db
+        .query("chatUnlockTokens")
+        .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+        .collect();
+    for (const token of tokens) {
+        await ctx.db.delete(token._id);
+    }
+}
+
+/**
+ * Chats unlocked by the given tokens. Expired tokens and tokens issued to
+ * another user are ignored.
+ */
+export async function getUnlockedChatIds(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    tokens: string[] | undefined
+): Promise<Set<Id<"chats">>> {
+    const unlocked = new Set<Id<"chats">>();
+    const now = Date.now();
+    for (const token of new Set(tokens ?? [])) {
+        const record = await ctx.db
+            .query("chatUnlockTokens")
+            .withIndex("by_token_hash", (q) =>
+                q.eq("tokenHash", hashToken(token))
+            )
+            .unique();
+        if (record && record.userId === userId && record.expiresAt > now) {
+            unlocked.add(record.chatId);
+        }
+    }
+    return unlocked;
+}
+
+// True when the chat is password protected and the token does not unlock it
+export async function isChatLocked(
+    ctx: QueryCtx,
+    chat: Doc<"chats">,
+    userId: Id<"users">,
+    token: string | undefined
+) {
+    if (!chat.isPasswordProtected) return false;
+    const unlocked = await getUnlockedChatIds(
+        ctx,
+        userId,
+        token ? [token] : []
+    );
+    return !unlocked.has(chat._id);
+}
+
+// Chat documents sent to clients never carry the password hash or salt
+export function withoutPasswordSecrets(chat: Doc<"chats">) {
+    const { passwordHash: _hash, passwordSalt: _salt, ...rest } = chat;
+    return rest;
+}
+
+// Protected chats in exports and drilldowns keep their place, not their title
+export function redactLockedChat(
+    chat: Doc<"chats">,
+    unlocked: Set<Id<"chats">>
+) {
+    const safe = withoutPasswordSecrets(chat);
+    return chat.isPasswordProtected && !unlocked.has(chat._id)
+        ? { ...safe, title: REDACTED_CHAT_TITLE, isLocked: true }
+        : { ...safe, isLocked: false };
+}
+
+export const cleanupExpiredUnlockTokens = internalMutation({
+    args: {},
+    returns: v.null(),
+    handler: async (ctx) => {
+        const expired = await ctx.db
+            .query("chatUnlockTokens")
+            .withIndex("by_expires_at", (q) => q.lt("expiresAt", Date.now()))
+            .take(CLEANUP_BATCH_SIZE);
+
+        for (const token of expired) {
+            await ctx.db.delete(token._id);
+        }
+
+        console.log("🧹 UNLOCK TOKENS CLEANUP:", {
+            deleted: expired.length,
+            timestamp: new Date().toISOString(),
+        });
+
+        if (expired.length === CLEANUP_BATCH_SIZE) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.chatUnlock.cleanupExpiredUnlockTokens,
+                {}
+            );
+        }
+        return null;
+    },
+});
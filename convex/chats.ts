@@ -1,52 +1,37 @@
 import { v } from "convex/values";
-import { query, mutation, internalQuery } from "./_generated/server";
+import { query, mutation, internalQuery, type MutationCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
-import { sha256 } from "@oslojs/crypto/sha2";
-import { encodeHexLowerCase } from "@oslojs/encoding";
-import { generateRandomString } from "@oslojs/crypto/random";
-import type { RandomReader } from "@oslojs/crypto/random";
 import type { Doc } from "./_generated/dataModel"; // added for strong typing
-
-// Oslo RandomReader for crypto operations
-const random: RandomReader = {
-    read(bytes: Uint8Array): void {
-        crypto.getRandomValues(bytes);
-    },
-};
-
-// Generate secure salt using oslo/crypto
-function generateSalt(): string {
-    const alphabet =
-        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-    return generateRandomString(random, alphabet, 32);
-}
-
-// Hash password using oslo/crypto SHA-256 with iterations
-function hashPassword(password: string, salt: string): string {
-    const passwordBytes = new TextEncoder().encode(password);
-    const saltBytes = new TextEncoder().encode(salt);
-
-    // Combine password and salt
-    const combined = new Uint8Array(passwordBytes.length + saltBytes.length);
-    combined.set(passwordBytes);
-    combined.set(saltBytes, passwordBytes.length);
-
-    // Apply multiple iterations of SHA-256 for security (PBKDF2-like)
-    let hash = combined;
-    for (let i = 0; i < 100000; i++) {
-        hash = sha256(hash);
-    }
-
-    return encodeHexLowerCase(hash);
-}
-
-// Verify password function using same hash algorithm
-async function verifyPassword(password: string, chat: any): Promise<boolean> {
-    const hashedInput = hashPassword(password, chat.passwordSalt);
-    return hashedInput === chat.passwordHash;
-}
+import { getBranchPrefix } from "./branches";
+import {
+    getUnlockedChatIds,
+    isChatLocked,
+    issueUnlockToken,
+    redactLockedChat,
+    revokeUnlockTokens,
+    unlockTokenArg,
+    unlockTokensArg,
+    withoutPasswordSecrets,
+} from "./chatUnlock";
+import { deleteContextSummaries } from "./contextWindow";
+import { deleteMessageEmbeddings } from "./semanticSearch";
+import {
+    createRollupRefresher,
+    deleteAnalyticsRollups,
+} from "./analyticsRollups";
+import { chatEncryptionValidator, isEncryptedContent } from "./chatEncryption";
+import {
+    checkChatPassword,
+    clearFailedPasswordAttempts,
+    formatLockoutError,
+    getPasswordLockout,
+    hashChatPassword,
+    logPasswordEvent,
+    recordFailedPasswordAttempt,
+} from "./chatPasswords";
+import { buildSnippet, highlightRanges, searchHighlight, searchSnippet } from "./search";
 
 // Internal version for use in other functions
 export const getChatInternal = internalQuery({
@@ -56,6 +41,69 @@ export const getChatInternal = internalQuery({
     },
 });
 
+// Resolve whether a user may post messages to a chat (HTTP chat endpoints).
+// chatId is an untrusted string from a request body, hence normalizeId.
+export const getChatAccessInternal = internalQuery({
+    args: {
+        chatId: v.string(),
+        userId: v.id("users"),
+        unlockToken: unlockTokenArg,
+    },
+    returns: v.object({
+        status: v.union(
+            v.literal("ok"),
+            v.literal("not_found"),
+            v.literal("forbidden"),
+            v.literal("locked")
+        ),
+        chatId: v.optional(v.id("chats")),
+        access: v.optional(
+            v.union(v.literal("owner"), v.literal("collaborator"))
+        ),
+        encryption: v.optional(chatEncryptionValidator),
+    }),
+    handler: async (ctx, args) => {
+        const chatId = ctx.db.normalizeId("chats", args.chatId);
+        const chat = chatId ? await ctx.db.get(chatId) : null;
+        if (!chat) return { status: "not_found" as const };
+
+        const isParticipant =
+            chat.userId === args.userId ||
+            (chat.isPublic && chat.shareMode === "collaboration");
+        // The model sees the whole history, so posting needs an unlock too
+        if (
+            isParticipant &&
+            (await isChatLocked(ctx, chat, args.userId, args.unlockToken))
+        ) {
+            return { status: "locked" as const };
+        }
+
+        if (chat.userId === args.userId) {
+            return {
+                status: "ok" as const,
+                chatId: chat._id,
+                access: "owner" as const,
+                encryption: chat.encryption,
+            };
+        }
+
+        // Collaborators join through a public collaboration share link
+        if (chat.isPublic && chat.shareMode === "collaboration") {
+            return {
+                status: "ok" as const,
+                chatId: chat._id,
+                access: "collaborator" as const,
+                encryption: chat.encryption,
+            };
+        }
+
+        // Don't reveal private chats to other users
+        return chat.isPublic
+            ? { status: "forbidden" as const }
+            : { status: "not_found" as const };
+    },
+});
+
 export const listChats = query({
     args: {},
     handler: async (ctx) => {
@@ -69,11 +117,13 @@ export const listChats = query({
                 protected: [],
             };
 
-        const allChats = await ctx.db
-            .query("chats")
-            .withIndex("by_user", (q) => q.eq("userId", userId))
-            .order("desc")
-            .collect();
+        const allChats = (
+            await ctx.db
+                .query("chats")
+                .withIndex("by_user", (q) => q.eq("userId", userId))
+                .order("desc")
+                .collect()
+        ).map(withoutPasswordSecrets);
 
         // Filter chats by category with protected chats section
         const archived = allChats.filter((chat) => chat.isArchived);
@@ -113,9 +163,11 @@ export const searchChats = query({
             .withIndex("by_user", (q) => q.eq("userId", userId))
             .collect();
 
-        return chats.filter((chat) =>
-            chat.title.toLowerCase().includes(args.query.toLowerCase())
-        );
+        return chats
+            .filter((chat) =>
+                chat.title.toLowerCase().includes(args.query.toLowerCase())
+            )
+            .map(withoutPasswordSecrets);
     },
 });
 
@@ -128,18 +180,19 @@ export const getChat = query({
         const chat = await ctx.db.get(args.chatId);
         if (!chat || (chat.userId !== userId && !chat.isPublic)) return null;
 
-        return chat;
+        return withoutPasswordSecrets(chat);
     },
 });
 
 export const getChatMessages = query({
-    args: { chatId: v.id("chats") },
+    args: { chatId: v.id("chats"), unlockToken: unlockTokenArg },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) return [];
 
         const chat = await ctx.db.get(args.chatId);
         if (!chat || (chat.userId !== userId && !chat.isPublic)) return [];
+        if (await isChatLocked(ctx, chat, userId, args.unlockToken)) return [];
 
         // NEW BRANCHING SYSTEM: Get messages from active branch
         // PHASE 2: Core message retrieval with efficient querying
@@ -168,6 +221,31 @@ export const getChatMessages = query({
     },
 });
 
+// The user's "General" project, created on first use
+export async function getOrCreateDefaultProject(
+    ctx: MutationCtx,
+    userId: Id<"users">
+): Promise<Id<"projects">> {
+    const defaultProject = await ctx.db
+        .query("projects")
+        .withIndex("by_default", (q) => q.eq("isDefault", true))
+        .filter((q) => q.eq(q.field("userId"), userId))
+        .first();
+    if (defaultProject) return defaultProject._id;
+
+    const now = Date.now();
+    return await ctx.db.insert("projects", {
+        userId,
+        name: "General",
+        description: "Default project for organizing your chats",
+        color: "#8b5cf6",
+        createdAt: now,
+        updatedAt: now,
+        isDefault: true,
+        path: "/general",
+    });
+}
+
 export const createChat = mutation({
     args: {
         title: v.string(),
@@ -179,31 +257,8 @@ export const createChat = mutation({
         if (!userId) throw new Error("Not authenticated");
 
         // Ensure user has a default "General" project
-        let defaultProjectId = args.projectId;
-        if (!defaultProjectId) {
-            const defaultProject = await ctx.db
-                .query("projects")
-                .withIndex("by_default", (q) => q.eq("isDefault", true))
-                .filter((q) => q.eq(q.field("userId"), userId))
-                .first();
-
-            if (!defaultProject) {
-                // Create default project if it doesn't exist
-                const now = Date.now();
-                defaultProjectId = await ctx.db.insert("projects", {
-                    userId,
-                    name: "General",
-                    description: "Default project for organizing your chats",
-                    color: "#8b5cf6",
-                    createdAt: now,
-                    updatedAt: now,
-                    isDefault: true,
-                    path: "/general",
-                });
-            } else {
-                defaultProjectId = defaultProject._id;
-            }
-        }
+        const defaultProjectId =
+            args.projectId ?? (await getOrCreateDefaultProject(ctx, userId));
 
         // Fetch user preferences for password protection
         const preferences = await ctx.runQuery(
@@ -411,6 +466,8 @@ export const branchChat = mutation({
         for (const message of messagesToCopy) {
             const newMessageId = await ctx.db.insert("messages", {
                 branchId: mainBranchId, // Messages belong to branches now
+                userId: userId,
+                chatId: newChatId,
                 role: message.role,
                 content: message.content,
                 timestamp: message.timestamp,
@@ -453,6 +510,7 @@ export const deleteChat = mutation({
 
         // FIX: Delete all messages through branches instead of old index
         // Delete all branches and their messages
+        const refreshRollup = createRollupRefresher(ctx);
         const branches = await ctx.db
             .query("branches")
             .withIndex("by_chat", (q) => q.eq("chatId", args.chatId))
@@ -461,17 +519,104 @@ export const deleteChat = mutation({
         for (const branch of branches) {
             // Delete all messages in this branch
             for (const messageId of branch.messages) {
+                const message = await ctx.db.get(messageId);
+                if (!message) continue;
+                await refreshRollup(message);
                 await ctx.db.delete(messageId);
             }
             // Delete the branch itself
             await ctx.db.delete(branch._id);
         }
 
+        await deleteContextSummaries(ctx, args.chatId);
+        await deleteMessageEmbeddings(ctx, args.chatId);
+
         // Delete the chat
         await ctx.db.delete(args.chatId);
     },
 });
 
+// New chat with a single main branch holding copies of the given messages
+async function copyMessagesIntoNewChat(
+    ctx: MutationCtx,
+    args: {
+        userId: Id<"users">;
+        sourceChat: Doc<"chats">;
+        title: string;
+        branchPoint: Id<"messages">;
+        messages: Doc<"messages">[];
+    }
+): Promise<Id<"chats">> {
+    const { userId, sourceChat } = args;
+    const now = Date.now();
+    const newChatId = await ctx.db.insert("chats", {
+        userId,
+        title: args.title,
+        model: sourceChat.model,
+        createdAt: now,
+        updatedAt: now,
+        parentChatId: sourceChat._id,
+        branchPoint: args.branchPoint,
+        // Copies of a protected chat stay behind the same password
+        isPasswordProtected: sourceChat.isPasswordProtected,
+        passwordHash: sourceChat.passwordHash,
+        passwordSalt: sourceChat.passwordSalt,
+        passwordHint: sourceChat.passwordHint,
+        // Copied messages stay sealed with the same key
+        encryption: sourceChat.encryption,
+        // NEW BRANCHING SYSTEM FIELDS
+        baseMessages: [],
+        activeMessages: [],
+    });
+
+    // PHASE 1: Create main branch for new chat
+    const mainBranchId = await ctx.db.insert("branches", {
+        chatId: newChatId,
+        fromMessageId: undefined,
+        messages: [],
+        isMain: true,
+        createdAt: now,
+        updatedAt: now,
+        branchName: "Main",
+        description: "Main conversation thread",
+    });
+
+    // Copy messages to new chat and branch
+    const copiedMessageIds = [];
+    for (const msg of args.messages) {
+        const newMessageId = await ctx.db.insert("messages", {
+            branchId: mainBranchId, // Messages belong to branches now
+            userId: userId,
+            chatId: newChatId,
+            role: msg.role,
+            content: msg.content,
+            timestamp: msg.timestamp,
+            model: msg.model,
+            attachments: msg.attachments,
+            metadata: msg.metadata,
+            parentMessageId: msg.parentMessageId,
+            editHistory: msg.editHistory,
+            branches: [mainBranchId],
+            activeBranchId: mainBranchId,
+        });
+        copiedMessageIds.push(newMessageId);
+    }
+
+    // Update branch with copied messages
+    await ctx.db.patch(mainBranchId, {
+        messages: copiedMessageIds,
+        updatedAt: now,
+    });
+
+    // Update chat with active branch and messages
+    await ctx.db.patch(newChatId, {
+        activeBranchId: mainBranchId,
+        activeMessages: copiedMessageIds,
+    });
+
+    return newChatId;
+}
+
 export const forkChatFromMessage = mutation({
     args: {
         messageId: v.id("messages"),
@@ -518,67 +663,100 @@ export const forkChatFromMessage = mutation({
             (msg) => msg.timestamp <= message.timestamp
         );
 
-        const now = Date.now();
-        // Create new forked chat
-        const newChatId = await ctx.db.insert("chats", {
+        const newChatId = await copyMessagesIntoNewChat(ctx, {
             userId,
+            sourceChat: originalChat,
             title: `Fork of ${originalChat.title}`,
-            model: originalChat.model,
-            createdAt: now,
-            updatedAt: now,
-            parentChatId: originalChat._id,
             branchPoint: args.messageId,
-            // NEW BRANCHING SYSTEM FIELDS
-            baseMessages: [],
-            activeMessages: [],
+            messages: messagesToCopy,
         });
 
-        // PHASE 1: Create main branch for new chat
-        const mainBranchId = await ctx.db.insert("branches", {
-            chatId: newChatId,
-            fromMessageId: undefined,
-            messages: [],
-            isMain: true,
-            createdAt: now,
-            updatedAt: now,
-            branchName: "Main",
-            description: "Main conversation thread",
-        });
+        return {
+            newChatId,
+            messageCount: messagesToCopy.length,
+        };
+    },
+});
 
-        // Copy messages to new chat and branch
-        const copiedMessageIds = [];
-        for (const msg of messagesToCopy) {
-            const newMessageId = await ctx.db.insert("messages", {
-                branchId: mainBranchId, // Messages belong to branches now
-                role: msg.role,
-                content: msg.content,
-                timestamp: msg.timestamp,
-                model: msg.model,
-                attachments: msg.attachments,
-                metadata: msg.metadata,
-                parentMessageId: msg.parentMessageId,
-                editHistory: msg.editHistory,
-                branches: [mainBranchId],
-                activeBranchId: mainBranchId,
-            });
-            copiedMessageIds.push(newMessageId);
+/**
+ * Start a new chat from a comparison of sibling branches: the history they
+ * share, followed by the selected messages in the order given
+ */
+export const createChatFromMergedBranches = mutation({
+    args: {
+        branchId: v.id("branches"),
+        messageIds: v.array(v.id("messages")),
+        title: v.optional(v.string()),
+    },
+    returns: v.object({
+        newChatId: v.id("chats"),
+        messageCount: v.number(),
+    }),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+        if (args.messageIds.length === 0) {
+            throw new Error("No messages selected");
         }
 
-        // Update branch with copied messages
-        await ctx.db.patch(mainBranchId, {
-            messages: copiedMessageIds,
-            updatedAt: now,
+        const branch = await ctx.db.get(args.branchId);
+        if (!branch?.fromMessageId) throw new Error("Branch not found");
+        const fromMessageId = branch.fromMessageId;
+
+        const originalChat = await ctx.db.get(branch.chatId);
+        if (
+            !originalChat ||
+            (originalChat.userId !== userId && !originalChat.isPublic)
+        ) {
+            throw new Error("Chat not found or unauthorized");
+        }
+
+        const branches = await ctx.db
+            .query("branches")
+            .withIndex("by_chat", (q) => q.eq("chatId", originalChat._id))
+            .collect();
+        const siblingMessageIds = new Set(
+            branches
+                .filter((b) => b.fromMessageId === fromMessageId)
+                .flatMap((b) => b.messages)
+        );
+
+        const shared = (
+            await Promise.all(
+                getBranchPrefix(branches, branch).map((id) => ctx.db.get(id))
+            )
+        ).filter((msg) => msg !== null);
+
+        const selected: Doc<"messages">[] = [];
+        for (const messageId of args.messageIds) {
+            if (!siblingMessageIds.has(messageId)) {
+                throw new Error("Messages must come from the compared branches");
+            }
+            const message = await ctx.db.get(messageId);
+            if (message) selected.push(message);
+        }
+
+        // Selected messages may interleave both branches - restamp them so
+        // the new chat keeps the chosen order
+        let timestamp = shared.length
+            ? shared[shared.length - 1].timestamp
+            : 0;
+        const merged = selected.map((msg) => {
+            timestamp = Math.max(msg.timestamp, timestamp + 1);
+            return { ...msg, timestamp };
         });
 
-        // Update chat with active branch and messages
-        await ctx.db.patch(newChatId, {
-            activeBranchId: mainBranchId,
-            activeMessages: copiedMessageIds,
+        const newChatId = await copyMessagesIntoNewChat(ctx, {
+            userId,
+            sourceChat: originalChat,
+            title: args.title?.trim() || `Merge of ${originalChat.title}`,
+            branchPoint: fromMessageId,
+            messages: [...shared, ...merged],
         });
 
         return {
             newChatId,
-            messageCount: messagesToCopy.length,
+            messageCount: shared.length + merged.length,
         };
     },
 });
@@ -596,25 +774,28 @@ export const getAllUserChats = query({
             .order("desc")
             .collect();
 
-        return chats;
+        return chats.map(withoutPasswordSecrets);
     },
 });
 
 export const getSelectedChatsData = query({
-    args: { chatIds: v.array(v.id("chats")) },
-    handler: async (ctx, { chatIds }) => {
+    args: { chatIds: v.array(v.id("chats")), unlockTokens: unlockTokensArg },
+    handler: async (ctx, { chatIds, unlockTokens }) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) throw new Error("Not authenticated");
 
+        const unlocked = await getUnlockedChatIds(ctx, userId, unlockTokens);
         const chatsData = [];
 
         for (const chatId of chatIds) {
-            const chat = await ctx.db.get(chatId);
-            if (!chat || (chat.userId !== userId && !chat.isPublic)) continue;
+            const rawChat = await ctx.db.get(chatId);
+            if (!rawChat || (rawChat.userId !== userId && !rawChat.isPublic))
+                continue;
+            const chat = redactLockedChat(rawChat, unlocked);
 
             // FIX: Get messages through branches instead of old chat index
             const activeBranchId = chat.activeBranchId;
-            if (!activeBranchId) {
+            if (!activeBranchId || chat.isLocked) {
                 chatsData.push({
                     chat,
                     messages: [],
@@ -704,9 +885,14 @@ export const deleteAllUserChats = mutation({
                 await ctx.db.delete(branch._id);
             }
 
+            await deleteContextSummaries(ctx, chat._id);
+            await deleteMessageEmbeddings(ctx, chat._id);
             await ctx.db.delete(chat._id);
         }
 
+        // Rollups only summarize these messages, so they go too
+        await deleteAnalyticsRollups(ctx, userId);
+
         return { deletedChats: chats.length };
     },
 });
@@ -740,9 +926,14 @@ export const deleteUserAccount = mutation({
                 await ctx.db.delete(branch._id);
             }
 
+            await deleteContextSummaries(ctx, chat._id);
+            await deleteMessageEmbeddings(ctx, chat._id);
             await ctx.db.delete(chat._id);
         }
 
+        // Rollups only summarize these messages, so they go too
+        await deleteAnalyticsRollups(ctx, userId);
+
         // Delete user preferences
         const preferences = await ctx.db
             .query("preferences")
@@ -1008,6 +1199,7 @@ export const cleanupExpiredTemporaryChats = mutation({
         );
 
         let cleanedUp = 0;
+        const refreshRollup = createRollupRefresher(ctx);
         for (const chat of expiredChats) {
             // Delete all branches and their messages
             const branches = await ctx.db
@@ -1018,12 +1210,18 @@ export const cleanupExpiredTemporaryChats = mutation({
             for (const branch of branches) {
                 // Delete all messages in this branch
                 for (const messageId of branch.messages) {
+                    const message = await ctx.db.get(messageId);
+                    if (!message) continue;
+                    await refreshRollup(message);
                     await ctx.db.delete(messageId);
                 }
                 // Delete the branch itself
                 await ctx.db.delete(branch._id);
             }
 
+            await deleteContextSummaries(ctx, chat._id);
+            await deleteMessageEmbeddings(ctx, chat._id);
+
             // Delete the chat
             await ctx.db.delete(chat._id);
             cleanedUp++;
@@ -1059,6 +1257,7 @@ export const updateChatAISettings = mutation({
                 topP: v.optional(v.number()),
                 frequencyPenalty: v.optional(v.number()),
                 presencePenalty: v.optional(v.number()),
+                enabledTools: v.optional(v.array(v.string())),
             })
         ),
     },
@@ -1095,18 +1294,27 @@ export const setPasswordProtection = mutation({
         if (!chat || chat.userId !== userId) {
             throw new Error("Chat not found or access denied");
         }
-
-        // Generate salt and hash password using Node.js crypto
-        const salt = generateSalt();
-        const hash = hashPassword(args.password, salt);
+        // The message key is derived from the current password
+        if (chat.encryption) {
+            throw new Error(
+                "Turn off message encryption before changing the password"
+            );
+        }
 
         await ctx.db.patch(args.chatId, {
             isPasswordProtected: true,
-            passwordHash: hash,
-            passwordSalt: salt,
+            ...hashChatPassword(args.password),
             passwordHint: args.hint,
             updatedAt: Date.now(),
         });
+        // Tokens issued for the old password no longer unlock the chat
+        await revokeUnlockTokens(ctx, args.chatId);
+        await logPasswordEvent(
+            ctx,
+            userId,
+            args.chatId,
+            chat.isPasswordProtected ? "password_changed" : "password_set"
+        );
 
         return { success: true };
     },
@@ -1133,11 +1341,31 @@ export const removePasswordProtection = mutation({
         ) {
             throw new Error("Chat is not password protected");
         }
+        if (chat.encryption) {
+            throw new Error(
+                "Turn off message encryption before removing the password"
+            );
+        }
 
-        // Verify current password
-        const isValid = await verifyPassword(args.currentPassword, chat);
-        if (!isValid) {
-            throw new Error("Invalid password");
+        const lockedUntil = await getPasswordLockout(ctx, userId, args.chatId);
+        if (lockedUntil) {
+            return { success: false, error: formatLockoutError(lockedUntil) };
+        }
+
+        // Verify current password. Failures are returned rather than thrown
+        // so the attempt counters aren't rolled back.
+        if (!checkChatPassword(args.currentPassword, chat).valid) {
+            const newLockout = await recordFailedPasswordAttempt(
+                ctx,
+                userId,
+                args.chatId
+            );
+            return {
+                success: false,
+                error: newLockout
+                    ? formatLockoutError(newLockout)
+                    : "Invalid password",
+            };
         }
 
         await ctx.db.patch(args.chatId, {
@@ -1148,6 +1376,9 @@ export const removePasswordProtection = mutation({
             lastPasswordVerified: undefined,
             updatedAt: Date.now(),
         });
+        await revokeUnlockTokens(ctx, args.chatId);
+        await clearFailedPasswordAttempts(ctx, userId, args.chatId);
+        await logPasswordEvent(ctx, userId, args.chatId, "password_removed");
 
         return { success: true };
     },
@@ -1175,17 +1406,44 @@ export const verifyPasswordProtection = mutation({
             return { success: true, verified: true }; // Not password protected
         }
 
-        // Verify password
-        const isValid = await verifyPassword(args.password, chat);
+        const lockedUntil = await getPasswordLockout(ctx, userId, args.chatId);
+        if (lockedUntil) {
+            return { success: true, verified: false, lockedUntil };
+        }
 
-        if (isValid) {
-            // Update last verified time for session tracking
-            await ctx.db.patch(args.chatId, {
-                lastPasswordVerified: Date.now(),
-            });
+        // Verify password
+        const { valid, needsRehash } = checkChatPassword(args.password, chat);
+        if (!valid) {
+            const newLockout = await recordFailedPasswordAttempt(
+                ctx,
+                userId,
+                args.chatId
+            );
+            return { success: true, verified: false, lockedUntil: newLockout };
         }
 
-        return { success: true, verified: isValid };
+        // Update last verified time for session tracking; legacy SHA-256
+        // hashes are upgraded now that we have the password
+        await ctx.db.patch(args.chatId, {
+            lastPasswordVerified: Date.now(),
+            ...(needsRehash ? hashChatPassword(args.password) : {}),
+        });
+        await clearFailedPasswordAttempts(ctx, userId, args.chatId);
+        await logPasswordEvent(ctx, userId, args.chatId, "unlock");
+
+        // Protected queries take this token instead of trusting the client
+        const { token, expiresAt } = await issueUnlockToken(
+            ctx,
+            userId,
+            args.chatId
+        );
+
+        return {
+            success: true,
+            verified: true,
+            unlockToken: token,
+            unlockExpiresAt: expiresAt,
+        };
     },
 });
 
@@ -1193,6 +1451,7 @@ export const verifyPasswordProtection = mutation({
 export const checkPasswordStatus = query({
     args: {
         chatId: v.id("chats"),
+        unlockToken: unlockTokenArg,
     },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
@@ -1203,16 +1462,24 @@ export const checkPasswordStatus = query({
             throw new Error("Chat not found or access denied");
         }
 
-        const needsVerification =
-            chat.isPasswordProtected &&
-            (!chat.lastPasswordVerified ||
-                Date.now() - chat.lastPasswordVerified > 30 * 60 * 1000); // 30 minutes session
+        // Unlocking is per client - only a valid unlock token counts
+        const needsVerification = await isChatLocked(
+            ctx,
+            chat,
+            userId,
+            args.unlockToken
+        );
 
         return {
             isPasswordProtected: chat.isPasswordProtected || false,
             needsVerification,
             passwordHint: chat.passwordHint,
             lastVerified: chat.lastPasswordVerified,
+            lockedUntil:
+                (await getPasswordLockout(ctx, userId, args.chatId)) ??
+                undefined,
+            // Public KDF parameters, so the client can derive the message key
+            encryption: chat.encryption,
         };
     },
 });
@@ -1234,6 +1501,12 @@ export const setPasswordProtectionEnhanced = mutation({
             throw new Error("Chat not found or access denied");
         }
 
+        if (chat.encryption) {
+            throw new Error(
+                "Turn off message encryption before changing the password"
+            );
+        }
+
         let hash: string;
         let salt: string;
 
@@ -1257,8 +1530,9 @@ export const setPasswordProtectionEnhanced = mutation({
             salt = currentPrefs.passwordSettings.defaultPasswordSalt;
         } else if (args.password) {
             // Use provided password
-            salt = generateSalt();
-            hash = hashPassword(args.password, salt);
+            ({ passwordHash: hash, passwordSalt: salt } = hashChatPassword(
+                args.password
+            ));
         } else {
             throw new Error(
                 "Either provide a password or enable useDefaultPassword"
@@ -1272,11 +1546,22 @@ export const setPasswordProtectionEnhanced = mutation({
             passwordHint: args.hint,
             updatedAt: Date.now(),
         });
+        await revokeUnlockTokens(ctx, args.chatId);
+        await logPasswordEvent(
+            ctx,
+            userId,
+            args.chatId,
+            chat.isPasswordProtected ? "password_changed" : "password_set"
+        );
 
         return { success: true };
     },
 });
 
+// Candidate hits fetched per requested result - chats are filtered after the search
+const SEARCH_CANDIDATES_PER_RESULT = 4;
+const MAX_SEARCH_RESULTS = 100;
+
 export const advancedSearch = query({
     args: {
         query: v.string(),
@@ -1293,187 +1578,290 @@ export const advancedSearch = query({
             maxMessages: v.number(),
         }),
         tab: v.string(),
+        limit: v.optional(v.number()), // Grows with "Load more"
+        unlockTokens: unlockTokensArg,
+        // "hybrid" blends in semanticMatches from semanticSearchActions.semanticSearch
+        mode: v.optional(v.union(v.literal("keyword"), v.literal("hybrid"))),
+        semanticMatches: v.optional(
+            v.array(
+                v.object({
+                    messageId: v.id("messages"),
+                    score: v.number(),
+                })
+            )
+        ),
     },
-    returns: v.array(
-        v.object({
-            _id: v.id("chats"),
-            title: v.string(),
-            model: v.string(),
-            updatedAt: v.number(),
-            isStarred: v.optional(v.boolean()),
-            isArchived: v.optional(v.boolean()),
-            isShared: v.optional(v.boolean()),
-            isTemporary: v.optional(v.boolean()),
-            messageCount: v.number(),
-            matchedContent: v.optional(v.string()),
-            matchedAttachments: v.optional(v.array(v.string())),
-            score: v.number(),
-        })
-    ),
-    handler: async (ctx, { query: searchQuery, filters, tab }) => {
+    returns: v.object({
+        results: v.array(
+            v.object({
+                _id: v.id("chats"),
+                title: v.string(),
+                titleHighlights: v.array(searchHighlight),
+                model: v.string(),
+                updatedAt: v.number(),
+                isStarred: v.optional(v.boolean()),
+                isArchived: v.optional(v.boolean()),
+                isShared: v.optional(v.boolean()),
+                isTemporary: v.optional(v.boolean()),
+                messageCount: v.number(),
+                matchedSnippet: v.optional(searchSnippet),
+                matchedMessageId: v.optional(v.id("messages")),
+                matchedBranchId: v.optional(v.id("branches")),
+                matchedMessageCount: v.number(),
+                matchedAttachments: v.optional(v.array(v.string())),
+                semanticMatch: v.optional(v.boolean()),
+                score: v.number(),
+            })
+        ),
+        hasMore: v.boolean(),
+    }),
+    handler: async (
+        ctx,
+        {
+            query: searchQuery,
+            filters,
+            tab,
+            limit,
+            unlockTokens,
+            mode,
+            semanticMatches,
+        }
+    ) => {
+        const empty = { results: [], hasMore: false };
         const userId = await getAuthUserId(ctx);
-        if (!userId) return [];
-        const qLower = searchQuery.trim().toLowerCase();
-        if (!qLower) return [];
+        if (!userId) return empty;
+        const q = searchQuery.trim();
+        if (!q) return empty;
+        const qLower = q.toLowerCase();
+        const resultLimit = Math.min(Math.max(1, limit ?? 20), MAX_SEARCH_RESULTS);
+        const candidateLimit = resultLimit * SEARCH_CANDIDATES_PER_RESULT;
+
+        // Shared chats belong to other users - their messages are searched per chat
+        let sharedIds = new Set<Id<"chats">>();
+        if (filters.includeShared) {
+            const userDoc = await ctx.db.get(userId);
+            sharedIds = new Set(userDoc?.sharedChats || []);
+        }
 
-        // Load user chats
-        const userChats: Doc<"chats">[] = await ctx.db
+        type Hit = {
+            titleRank?: number;
+            contentRank?: number;
+            message?: Doc<"messages">;
+            semanticRank?: number;
+            semanticMessage?: Doc<"messages">;
+            matchedMessageCount: number;
+            matchedAttachments: string[];
+        };
+        const hits = new Map<Id<"chats">, Hit>();
+        const hitFor = (chatId: Id<"chats">) => {
+            let hit = hits.get(chatId);
+            if (!hit) {
+                hit = { matchedMessageCount: 0, matchedAttachments: [] };
+                hits.set(chatId, hit);
+            }
+            return hit;
+        };
+
+        // Title hits - equality filters narrow the index scan for the tab
+        const titleHits = await ctx.db
             .query("chats")
-            .withIndex("by_user", (q) => q.eq("userId", userId))
-            .order("desc")
-            .collect();
+            .withSearchIndex("search_title", (search) => {
+                let filtered = search.search("title", q).eq("userId", userId);
+                if (filters.modelFilter !== "all") {
+                    filtered = filtered.eq("model", filters.modelFilter);
+                }
+                if (tab === "starred") filtered = filtered.eq("isStarred", true);
+                if (tab === "archived") filtered = filtered.eq("isArchived", true);
+                if (tab === "temporary") filtered = filtered.eq("isTemporary", true);
+                return filtered;
+            })
+            .take(candidateLimit);
+        titleHits.forEach((chat, rank) => {
+            hitFor(chat._id).titleRank = rank;
+        });
 
-        // Load shared chats if requested
-        let sharedChats: Doc<"chats">[] = [];
-        if (filters.includeShared) {
-            const userDoc = await ctx.db.get(userId);
-            const sharedIds = userDoc?.sharedChats || [];
-            if (sharedIds.length) {
-                const loaded = await Promise.all(
-                    sharedIds.map((id) => ctx.db.get(id))
-                );
-                sharedChats = loaded.filter((c): c is Doc<"chats"> => !!c);
+        // The title index is scoped to the owner, so shared chats are matched
+        // here and ranked after the user's own titles
+        let sharedTitleRank = titleHits.length;
+        for (const chatId of sharedIds) {
+            const chat = await ctx.db.get(chatId);
+            if (!chat?.title.toLowerCase().includes(qLower)) continue;
+            const hit = hitFor(chatId);
+            if (hit.titleRank === undefined) hit.titleRank = sharedTitleRank++;
+        }
+
+        // Content hits, grouped by chat (best-ranked message wins the snippet)
+        let contentHitCount = 0;
+        if (filters.includeContent) {
+            const contentHits = await ctx.db
+                .query("messages")
+                .withSearchIndex("search_content", (search) =>
+                    search.search("content", q).eq("userId", userId)
+                )
+                .take(candidateLimit);
+            contentHitCount = contentHits.length;
+
+            const sharedHits: Doc<"messages">[] = [];
+            for (const chatId of sharedIds) {
+                const chatHits = await ctx.db
+                    .query("messages")
+                    .withSearchIndex("search_content", (search) =>
+                        search.search("content", q).eq("chatId", chatId)
+                    )
+                    .take(SEARCH_CANDIDATES_PER_RESULT);
+                sharedHits.push(...chatHits);
+            }
+
+            [...contentHits, ...sharedHits].forEach((message, rank) => {
+                if (!message.chatId) return;
+                const hit = hitFor(message.chatId);
+                hit.matchedMessageCount++;
+                if (hit.contentRank === undefined) {
+                    hit.contentRank = rank;
+                    hit.message = message;
+                }
+            });
+        }
+
+        // Messages close in meaning, best first - the vector search ran in an
+        // action, so only the user's own, unencrypted messages are trusted here
+        if (mode === "hybrid" && filters.includeContent && semanticMatches) {
+            let rank = 0;
+            for (const match of semanticMatches.slice(0, candidateLimit)) {
+                const message = await ctx.db.get(match.messageId);
+                if (
+                    !message?.chatId ||
+                    message.userId !== userId ||
+                    isEncryptedContent(message.content)
+                )
+                    continue;
+                const hit = hitFor(message.chatId);
+                if (hit.semanticRank === undefined) {
+                    hit.semanticRank = rank;
+                    hit.semanticMessage = message;
+                }
+                rank++;
             }
         }
 
-        // Merge & dedupe
-        const chatMap: Record<string, Doc<"chats">> = {};
-        for (const c of [...userChats, ...sharedChats]) chatMap[c._id] = c;
-        let chats: Doc<"chats">[] = Object.values(chatMap);
+        // Attachment names come from the library, which tracks the chats using them
+        if (filters.includeAttachments) {
+            const attachments = await ctx.db
+                .query("attachmentLibrary")
+                .withIndex("by_user", (idx) => idx.eq("userId", userId))
+                .collect();
+            for (const attachment of attachments) {
+                const name = attachment.displayName || attachment.originalName;
+                if (!name.toLowerCase().includes(qLower)) continue;
+                for (const chatId of attachment.usedInChats || []) {
+                    const hit = hitFor(chatId);
+                    if (hit.matchedAttachments.length < 5) {
+                        hit.matchedAttachments.push(name);
+                    }
+                }
+            }
+        }
 
-        // High-level tab filters
-        chats = chats.filter((c) => {
+        const startTs = (() => {
+            const now = Date.now();
+            const day = 24 * 60 * 60 * 1000;
+            switch (filters.dateRange) {
+                case "today":
+                    return new Date(new Date().toDateString()).getTime();
+                case "week":
+                    return now - 7 * day;
+                case "month":
+                    return now - 30 * day;
+                case "year":
+                    return now - 365 * day;
+                default:
+                    return 0;
+            }
+        })();
+
+        const matchesFilters = (c: Doc<"chats">) => {
+            if (c.userId !== userId && !sharedIds.has(c._id)) return false;
             if (!filters.includeArchived && c.isArchived) return false;
             if (!filters.includeStarred && c.isStarred) return false;
             if (!filters.includeTemporary && c.isTemporary) return false;
             if (!filters.includeShared && c.isPublic) return false;
+            if (
+                filters.modelFilter !== "all" &&
+                c.model !== filters.modelFilter
+            )
+                return false;
+            if (c.updatedAt < startTs) return false;
             switch (tab) {
                 case "starred":
-                    if (!c.isStarred) return false;
-                    break;
+                    return !!c.isStarred;
                 case "regular":
-                    if (
+                    return !(
                         c.isStarred ||
                         c.isArchived ||
                         c.isPublic ||
                         c.isTemporary
-                    )
-                        return false;
-                    break;
+                    );
                 case "archived":
-                    if (!c.isArchived) return false;
-                    break;
+                    return !!c.isArchived;
                 case "shared":
-                    if (!c.isPublic) return false;
-                    break;
+                    return !!c.isPublic;
                 case "temporary":
-                    if (!c.isTemporary) return false;
-                    break;
+                    return !!c.isTemporary;
             }
             return true;
-        });
-
-        // Model filter
-        if (filters.modelFilter !== "all") {
-            chats = chats.filter((c) => c.model === filters.modelFilter);
-        }
-
-        // Date range filter
-        if (filters.dateRange !== "all") {
-            const now = Date.now();
-            const day = 24 * 60 * 60 * 1000;
-            const startTs = (() => {
-                switch (filters.dateRange) {
-                    case "today":
-                        return new Date(new Date().toDateString()).getTime();
-                    case "week":
-                        return now - 7 * day;
-                    case "month":
-                        return now - 30 * day;
-                    case "year":
-                        return now - 365 * day;
-                    default:
-                        return 0;
-                }
-            })();
-            chats = chats.filter((c) => c.updatedAt >= startTs);
-        }
+        };
 
-        const results: Array<{
-            _id: Id<"chats">;
-            title: string;
-            model: string;
-            updatedAt: number;
-            isStarred?: boolean;
-            isArchived?: boolean;
-            isShared?: boolean;
-            isTemporary?: boolean;
-            messageCount: number;
-            matchedContent?: string;
-            matchedAttachments?: string[];
-            score: number;
-        }> = [];
+        const unlocked = await getUnlockedChatIds(ctx, userId, unlockTokens);
 
+        const results = [];
         const now = Date.now();
-        for (const chat of chats) {
-            // Collect message ids from base + active branch
-            const baseIds = (chat.baseMessages || []) as Id<"messages">[];
-            let branchIds: Id<"messages">[] = [];
+        for (const [chatId, hit] of hits) {
+            const chat = await ctx.db.get(chatId);
+            if (!chat || !matchesFilters(chat)) continue;
+
+            // Locked chats only match on title and attachments - no content
+            if (chat.isPasswordProtected && !unlocked.has(chatId)) {
+                hit.contentRank = undefined;
+                hit.message = undefined;
+                hit.semanticRank = undefined;
+                hit.semanticMessage = undefined;
+                hit.matchedMessageCount = 0;
+                if (
+                    hit.titleRank === undefined &&
+                    hit.matchedAttachments.length === 0
+                )
+                    continue;
+            }
+
+            // Visible messages = base + active branch
+            let messageCount = (chat.baseMessages || []).length;
             if (chat.activeBranchId) {
                 const branch = await ctx.db.get(chat.activeBranchId);
-                branchIds = (branch?.messages || []) as Id<"messages">[];
+                messageCount += (branch?.messages || []).length;
             }
-            const allMessageIds = [...baseIds, ...branchIds];
-            const messageCount = allMessageIds.length;
             if (
                 messageCount < filters.minMessages ||
                 messageCount > filters.maxMessages
             )
                 continue;
 
-            let matchedContent: string | undefined;
-            const matchedAttachments: string[] = [];
-            let contentHitBoost = 0;
-            let attachmentHitBoost = 0;
-
-            if (filters.includeContent || filters.includeAttachments) {
-                const messages = await Promise.all(
-                    allMessageIds.map((id) => ctx.db.get(id))
-                );
-                for (const m of messages) {
-                    const msg = m;
-                    if (!msg) continue;
-                    if (!matchedContent && filters.includeContent) {
-                        const text = (msg.content || "").toLowerCase();
-                        const idx = text.indexOf(qLower);
-                        if (idx !== -1) {
-                            const start = Math.max(0, idx - 60);
-                            const end = Math.min(msg.content.length, idx + 100);
-                            matchedContent = msg.content.slice(start, end);
-                            contentHitBoost = 30;
-                        }
-                    }
-                    if (filters.includeAttachments && msg.attachments) {
-                        for (const att of msg.attachments) {
-                            if (
-                                att.name.toLowerCase().includes(qLower) &&
-                                matchedAttachments.length < 5
-                            ) {
-                                matchedAttachments.push(att.name);
-                                attachmentHitBoost += 5;
-                            }
-                        }
-                    }
-                    if (matchedContent && matchedAttachments.length >= 5) break;
-                }
-            }
-
-            const titleMatches = chat.title.toLowerCase().includes(qLower);
-            const includeByContent =
-                !!matchedContent || matchedAttachments.length > 0;
-            if (!titleMatches && !includeByContent) continue;
-
-            const titleBoost = titleMatches ? 50 : 0;
+            // Search order is the relevance ranking - earlier hits score higher
+            const titleBoost =
+                hit.titleRank !== undefined
+                    ? 50 - Math.min(25, hit.titleRank)
+                    : 0;
+            const contentBoost =
+                hit.contentRank !== undefined
+                    ? 30 -
+                      Math.min(20, hit.contentRank / 2) +
+                      Math.min(10, (hit.matchedMessageCount - 1) * 2)
+                    : 0;
+            // Below an exact title match, on par with a keyword content match
+            const semanticBoost =
+                hit.semanticRank !== undefined
+                    ? 35 - Math.min(25, hit.semanticRank)
+                    : 0;
+            const attachmentBoost = hit.matchedAttachments.length * 5;
             const recencyDays = (now - chat.updatedAt) / (24 * 60 * 60 * 1000);
             const recencyBoost = Math.max(0, 20 - recencyDays);
             const sizePenalty =
@@ -1482,14 +1870,17 @@ export const advancedSearch = query({
                     : 0;
             const score =
                 titleBoost +
-                contentHitBoost +
-                attachmentHitBoost +
+                contentBoost +
+                semanticBoost +
+                attachmentBoost +
                 recencyBoost -
                 sizePenalty;
+            const snippetMessage = hit.message ?? hit.semanticMessage;
 
             results.push({
                 _id: chat._id,
                 title: chat.title,
+                titleHighlights: highlightRanges(chat.title, q),
                 model: chat.model,
                 updatedAt: chat.updatedAt,
                 isStarred: chat.isStarred,
@@ -1497,10 +1888,17 @@ export const advancedSearch = query({
                 isShared: !!chat.isPublic,
                 isTemporary: chat.isTemporary || false,
                 messageCount,
-                matchedContent,
-                matchedAttachments: matchedAttachments.length
-                    ? matchedAttachments
+                // Keyword matches give the better snippet - they can be highlighted
+                matchedSnippet: snippetMessage
+                    ? buildSnippet(snippetMessage.content, q)
                     : undefined,
+                matchedMessageId: snippetMessage?._id,
+                matchedBranchId: snippetMessage?.branchId,
+                matchedMessageCount: hit.matchedMessageCount,
+                matchedAttachments: hit.matchedAttachments.length
+                    ? hit.matchedAttachments
+                    : undefined,
+                semanticMatch: hit.semanticRank !== undefined || undefined,
                 score: Number(score.toFixed(2)),
             });
         }
@@ -1508,6 +1906,13 @@ export const advancedSearch = query({
         results.sort((a, b) =>
             b.score !== a.score ? b.score - a.score : b.updatedAt - a.updatedAt
         );
-        return results;
+
+        // A full candidate batch means the indexes may hold more matches
+        const hasMore =
+            results.length > resultLimit ||
+            titleHits.length === candidateLimit ||
+            contentHitCount === candidateLimit;
+
+        return { results: results.slice(0, resultLimit), hasMore };
     },
 });
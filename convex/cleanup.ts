@@ -1,6 +1,9 @@
 import { v } from "convex/values";
 import { internalMutation, internalQuery } from "./_generated/server";
 import { internal } from "./_generated/api";
+import { deleteContextSummaries } from "./contextWindow";
+import { deleteMessageEmbeddings } from "./semanticSearch";
+import { createRollupRefresher } from "./analyticsRollups";
 
 // Internal query to find chats that need auto-archiving or auto-deletion
 export const findChatsForCleanup = internalQuery({
@@ -80,6 +83,7 @@ export const performCleanupTask = internalMutation({
                 return { success: true, action: "archived", reason };
             } else if (type === "delete") {
                 // Delete all branches and messages for this chat
+                const refreshRollup = createRollupRefresher(ctx);
                 const branches = await ctx.db
                     .query("branches")
                     .withIndex("by_chat", (q) => q.eq("chatId", chatId))
@@ -88,12 +92,18 @@ export const performCleanupTask = internalMutation({
                 for (const branch of branches) {
                     // Delete all messages in this branch
                     for (const messageId of branch.messages) {
+                        const message = await ctx.db.get(messageId);
+                        if (!message) continue;
+                        await refreshRollup(message);
                         await ctx.db.delete(messageId);
                     }
                     // Delete the branch itself
                     await ctx.db.delete(branch._id);
                 }
 
+                await deleteContextSummaries(ctx, chatId);
+                await deleteMessageEmbeddings(ctx, chatId);
+
                 // Delete the chat itself
                 await ctx.db.delete(chatId);
                 return { success: true, action: "deleted", reason };
@@ -123,7 +133,8 @@ export const cleanupExpiredTemporaryChats = internalMutation({
             .collect();
 
         let deletedCount = 0;
-        
+        const refreshRollup = createRollupRefresher(ctx);
+
         for (const chat of expiredChats) {
             // Check if user has auto-cleanup enabled
             const userPrefs = await ctx.db
@@ -141,12 +152,18 @@ export const cleanupExpiredTemporaryChats = internalMutation({
                 for (const branch of branches) {
                     // Delete all messages in this branch
                     for (const messageId of branch.messages) {
+                        const message = await ctx.db.get(messageId);
+                        if (!message) continue;
+                        await refreshRollup(message);
                         await ctx.db.delete(messageId);
                     }
                     // Delete the branch itself
                     await ctx.db.delete(branch._id);
                 }
 
+                await deleteContextSummaries(ctx, chat._id);
+                await deleteMessageEmbeddings(ctx, chat._id);
+
                 // Delete the chat itself
                 await ctx.db.delete(chat._id);
                 deletedCount++;
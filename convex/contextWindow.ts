@@ -0,0 +1,362 @@
+import { v } from "convex/values";
+import {
+    internalMutation,
+    internalQuery,
+    query,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getModelProvider } from "./pricing";
+import { PROVIDER_CONFIGS } from "../src/lib/modelConfig";
+
+// Context window sizes (tokens) from ModelInfo.contextLength in
+// src/lib/modelConfig.ts
+export const MODEL_CONTEXT_LENGTHS: Record<string, number> = {};
+for (const provider of Object.values(PROVIDER_CONFIGS)) {
+    for (const model of provider.models) {
+        if (model.contextLength) {
+            MODEL_CONTEXT_LENGTHS[model.id] = model.contextLength;
+        }
+    }
+}
+
+export type ContextStrategy = "sliding_window" | "pinned" | "summarize";
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = "sliding_window";
+const DEFAULT_CONTEXT_LENGTH = 32_000;
+// Room left for the reply when maxTokens isn't set
+const DEFAULT_OUTPUT_RESERVE = 4_096;
+// Summaries shrink history to this share of the budget, so the next few
+// turns fit without summarizing again
+export const SUMMARY_TARGET_RATIO = 0.5;
+
+// No tokenizers are bundled, so counts are estimated from each model
+// family's typical characters per token
+const CHARS_PER_TOKEN: Record<string, number> = {
+    openai: 4,
+    google: 4,
+    anthropic: 3.5,
+    deepseek: 3.5,
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.8;
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and separators
+const ATTACHMENT_TOKENS = 800; // Rough cost of an image or file part
+
+function getTokenizerFamily(model: string) {
+    // OpenRouter ids carry the upstream vendor as a prefix
+    const vendor = model.includes("/") ? model.split("/")[0] : undefined;
+    if (vendor) return vendor === "x-ai" ? "openai" : vendor;
+    return getModelProvider(model);
+}
+
+export function estimateTokens(text: string, model: string): number {
+    const charsPerToken =
+        CHARS_PER_TOKEN[getTokenizerFamily(model)] ?? DEFAULT_CHARS_PER_TOKEN;
+    return Math.ceil(text.length / charsPerToken);
+}
+
+// Just the fields context planning needs from a stored message
+export type ContextMessage = {
+    _id: string;
+    role: "user" | "assistant" | "system";
+    content: string;
+    timestamp?: number;
+    isPinned?: boolean;
+    attachments?: unknown[];
+};
+
+export function estimateMessageTokens(
+    message: ContextMessage,
+    model: string
+): number {
+    return (
+        estimateTokens(message.content, model) +
+        MESSAGE_OVERHEAD_TOKENS +
+        (message.attachments?.length ?? 0) * ATTACHMENT_TOKENS
+    );
+}
+
+/**
+ * Tokens available for the prompt: the smaller of the model's context and the
+ * user's configured window, minus what the reply may use
+ */
+export function getContextBudget(
+    model: string,
+    settings: { contextWindow?: number; maxTokens?: number }
+) {
+    const modelLimit = MODEL_CONTEXT_LENGTHS[model] ?? DEFAULT_CONTEXT_LENGTH;
+    const limit = settings.contextWindow
+        ? Math.min(settings.contextWindow, modelLimit)
+        : modelLimit;
+    const outputReserve = Math.min(
+        settings.maxTokens ?? DEFAULT_OUTPUT_RESERVE,
+        Math.floor(limit / 2)
+    );
+    return { limit, inputBudget: limit - outputReserve };
+}
+
+export function getContextStrategy(value: string | undefined): ContextStrategy {
+    return value === "pinned" || value === "summarize"
+        ? value
+        : DEFAULT_CONTEXT_STRATEGY;
+}
+
+/**
+ * Choose which history messages go to the model. The newest message always
+ * goes; older ones are added newest-first until the budget runs out. The
+ * pinned strategy reserves room for pinned messages first, and under the
+ * summarize strategy everything the summary covers is replaced by it.
+ */
+export function planContext<T extends ContextMessage>(
+    history: T[],
+    options: {
+        model: string;
+        strategy: ContextStrategy;
+        budget: number;
+        summary?: { content: string; coversUntil: number } | null;
+    }
+) {
+    const { model, strategy, budget } = options;
+    const summary = strategy === "summarize" ? options.summary : undefined;
+
+    const candidates = summary
+        ? history.filter((m) => (m.timestamp ?? Infinity) > summary.coversUntil)
+        : history;
+    const summaryTokens = summary
+        ? estimateTokens(summary.content, model) + MESSAGE_OVERHEAD_TOKENS
+        : 0;
+
+    const tokensOf = new Map(
+        candidates.map((m) => [m._id, estimateMessageTokens(m, model)])
+    );
+    const totalTokens =
+        [...tokensOf.values()].reduce((sum, n) => sum + n, 0) + summaryTokens;
+
+    const kept = new Set<string>();
+    let usedTokens = summaryTokens;
+    const keep = (message: T, force = false) => {
+        const tokens = tokensOf.get(message._id) ?? 0;
+        if (!force && usedTokens + tokens > budget) return false;
+        kept.add(message._id);
+        usedTokens += tokens;
+        return true;
+    };
+
+    const newest = candidates[candidates.length - 1];
+    if (newest) keep(newest, true);
+    if (strategy === "pinned") {
+        for (const message of candidates) {
+            if (message.isPinned && !kept.has(message._id)) keep(message, true);
+        }
+    }
+    for (let i = candidates.length - 2; i >= 0; i--) {
+        if (kept.has(candidates[i]._id)) continue;
+        if (!keep(candidates[i])) break;
+    }
+
+    return {
+        messages: candidates.filter((m) => kept.has(m._id)),
+        dropped: candidates.filter((m) => !kept.has(m._id)),
+        summary,
+        usedTokens,
+        totalTokens,
+    };
+}
+
+// Summaries aren't in any branch, so deleting a chat has to remove them too
+export async function deleteContextSummaries(
+    ctx: MutationCtx,
+    chatId: Id<"chats">
+) {
+    const summaries = await ctx.db
+        .query("messages")
+        .withIndex("by_context_summary", (q) =>
+            q.eq("contextSummary.chatId", chatId)
+        )
+        .collect();
+    for (const summary of summaries) {
+        await ctx.db.delete(summary._id);
+    }
+}
+
+/**
+ * Latest rolling summary that still belongs to this history - summaries
+ * made on another branch end at a message this history doesn't contain
+ */
+async function findContextSummary(
+    ctx: QueryCtx,
+    chatId: Id<"chats">,
+    historyIds: Id<"messages">[]
+): Promise<Doc<"messages"> | null> {
+    const inHistory = new Set<string>(historyIds);
+    const summaries = await ctx.db
+        .query("messages")
+        .withIndex("by_context_summary", (q) =>
+            q.eq("contextSummary.chatId", chatId)
+        )
+        .order("desc")
+        .collect();
+    return (
+        summaries.find(
+            (m) =>
+                m.contextSummary &&
+                inHistory.has(m.contextSummary.throughMessageId)
+        ) ?? null
+    );
+}
+
+export const getContextSummaryInternal = internalQuery({
+    args: {
+        chatId: v.id("chats"),
+        messageIds: v.array(v.id("messages")),
+    },
+    returns: v.union(
+        v.null(),
+        v.object({
+            content: v.string(),
+            coversUntil: v.number(),
+            summarizedCount: v.number(),
+        })
+    ),
+    handler: async (ctx, args) => {
+        const summary = await findContextSummary(
+            ctx,
+            args.chatId,
+            args.messageIds
+        );
+        if (!summary?.contextSummary) return null;
+        return {
+            content: summary.content,
+            coversUntil: summary.contextSummary.coversUntil,
+            summarizedCount: summary.contextSummary.summarizedCount,
+        };
+    },
+});
+
+/**
+ * Context usage for the chat's current history, for the meter in the chat
+ * header. Mirrors what the next request would send, minus system prompts.
+ */
+export const getContextUsage = query({
+    args: {
+        chatId: v.id("chats"),
+        model: v.string(),
+    },
+    returns: v.union(
+        v.null(),
+        v.object({
+            strategy: v.string(),
+            limit: v.number(),
+            inputBudget: v.number(),
+            usedTokens: v.number(),
+            totalTokens: v.number(),
+            includedMessages: v.number(),
+            droppedMessages: v.number(),
+            summarizedMessages: v.number(),
+        })
+    ),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+
+        const chat = await ctx.db.get(args.chatId);
+        if (!chat || (chat.userId !== userId && !chat.isPublic)) return null;
+        if (!chat.activeBranchId) return null;
+
+        const activeBranch = await ctx.db.get(chat.activeBranchId);
+        const messageIds = [
+            ...(chat.baseMessages || []),
+            ...(activeBranch?.messages || []),
+        ];
+        const history = (
+            await Promise.all(messageIds.map((id) => ctx.db.get(id)))
+        )
+            .filter((msg) => msg !== null)
+            .filter((msg) => !msg.isStreaming && msg.content.trim() !== "")
+            .sort((a, b) => a.timestamp - b.timestamp);
+
+        const preferences = await ctx.db
+            .query("preferences")
+            .withIndex("by_user", (q) => q.eq("userId", chat.userId))
+            .first();
+        const settings = {
+            ...preferences?.aiSettings,
+            ...chat.aiSettings,
+        };
+        const strategy = getContextStrategy(settings.contextStrategy);
+        const { limit, inputBudget } = getContextBudget(args.model, settings);
+
+        const summary =
+            strategy === "summarize"
+                ? await findContextSummary(ctx, chat._id, messageIds)
+                : null;
+        const plan = planContext(history, {
+            model: args.model,
+            strategy,
+            budget: inputBudget,
+            summary: summary?.contextSummary
+                ? {
+                      content: summary.content,
+                      coversUntil: summary.contextSummary.coversUntil,
+                  }
+                : null,
+        });
+
+        return {
+            strategy,
+            limit,
+            inputBudget,
+            usedTokens: plan.usedTokens,
+            totalTokens: plan.totalTokens,
+            includedMessages: plan.messages.length,
+            droppedMessages: plan.dropped.length,
+            summarizedMessages: summary?.contextSummary?.summarizedCount ?? 0,
+        };
+    },
+});
+
+/**
+ * Store a rolling summary as a hidden system message. It stays out of the
+ * branch message lists and search, so chat views, shares and exports never
+ * see it.
+ */
+export const saveContextSummary = internalMutation({
+    args: {
+        chatId: v.id("chats"),
+        content: v.string(),
+        model: v.string(),
+        throughMessageId: v.id("messages"),
+        summarizedCount: v.number(),
+    },
+    returns: v.id("messages"),
+    handler: async (ctx, args): Promise<Id<"messages">> => {
+        const chat = await ctx.db.get(args.chatId);
+        if (!chat?.activeBranchId) throw new Error("Chat not found");
+        const throughMessage = await ctx.db.get(args.throughMessageId);
+        if (!throughMessage) throw new Error("Message not found");
+
+        const messageId = await ctx.db.insert("messages", {
+            branchId: chat.activeBranchId,
+            role: "system",
+            content: args.content,
+            timestamp: Date.now(),
+            model: args.model,
+            contextSummary: {
+                chatId: chat._id,
+                throughMessageId: args.throughMessageId,
+                coversUntil: throughMessage.timestamp,
+                summarizedCount: args.summarizedCount,
+            },
+        });
+
+        console.log("🧠 CONTEXT SUMMARY SAVED:", {
+            chatId: args.chatId,
+            summarizedCount: args.summarizedCount,
+            timestamp: new Date().toISOString(),
+        });
+
+        return messageId;
+    },
+});
@@ -19,4 +19,36 @@ crons.interval(
     {}
 );
 
+// Usage limits: drop ledger entries older than the longest budget period
+crons.cron(
+    "usage-events-cleanup",
+    "30 2 * * *", // Daily at 2:30 AM UTC
+    internal.usageLimits.cleanupUsageEvents,
+    {}
+);
+
+// Analytics: re-roll daily rollups touched by messages from the last two days
+crons.cron(
+    "analytics-rollups-backfill",
+    "0 3 * * *", // Daily at 3:00 AM UTC
+    internal.analyticsRollups.backfillAnalyticsRollups,
+    {}
+);
+
+// Password protected chats: drop expired unlock tokens
+crons.interval(
+    "chat-unlock-tokens-cleanup",
+    { hours: 1 },
+    internal.chatUnlock.cleanupExpiredUnlockTokens,
+    {}
+);
+
+// Chat passwords: drop old audit events and expired attempt counters
+crons.cron(
+    "password-security-cleanup",
+    "45 2 * * *", // Daily at 2:45 AM UTC
+    internal.chatPasswords.cleanupPasswordSecurityData,
+    {}
+);
+
 export default crons;
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { query, mutation, type QueryCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { activateBranch, getVisibleMessageIds } from "./branches";
+import { isChatLocked, unlockTokenArg } from "./chatUnlock";
+
+// Message deep links: /chat/:chatId#m=:messageId&b=:branchId (b is optional)
+//
+// A link can point at a message that is not currently visible - it may live on
+// an inactive branch, or (for forked read-only shares) be the original message
+// in the parent chat. Resolution maps the link onto a message in the viewer's
+// chat and the branch that has to be active for it to render.
+//
+// Password protected chats resolve as "locked" until the viewer unlocks them,
+// so a link can neither reveal message details nor switch branches.
+
+const PREVIEW_LENGTH = 280;
+
+const linkStatus = v.union(
+    v.literal("ok"),
+    v.literal("not_found"),
+    v.literal("forbidden"),
+    v.literal("locked")
+);
+
+type LinkResolution =
+    | { status: "not_found" | "forbidden" | "locked" }
+    | {
+          status: "ok";
+          chat: Doc<"chats">;
+          message: Doc<"messages">;
+          branchId: Id<"branches"> | null; // null when already visible
+          position: number | null;
+      };
+
+// Map a parent-chat message onto its copy in a fork (copies keep timestamp + role)
+async function findForkedCopy(
+    ctx: QueryCtx,
+    chatId: Id<"chats">,
+    original: Doc<"messages">
+): Promise<Doc<"messages"> | null> {
+    const branches = await ctx.db
+        .query("branches")
+        .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+        .collect();
+    const messageIds = new Set(branches.flatMap((branch) => branch.messages));
+
+    for (const messageId of messageIds) {
+        const message = await ctx.db.get(messageId);
+        if (
+            message &&
+            message.timestamp === original.timestamp &&
+            message.role === original.role
+        ) {
+            return message;
+        }
+    }
+    return null;
+}
+
+async function resolveLink(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    args: {
+        chatId: string;
+        messageId: string;
+        branchId?: string;
+        unlockToken?: string;
+    }
+): Promise<LinkResolution> {
+    const chatId = ctx.db.normalizeId("chats", args.chatId);
+    const requestedMessageId = ctx.db.normalizeId("messages", args.messageId);
+    if (!chatId || !requestedMessageId) return { status: "not_found" };
+
+    const chat = await ctx.db.get(chatId);
+    if (!chat) return { status: "not_found" };
+
+    const isOwner = chat.userId === userId;
+    const isCollaborator =
+        chat.isPublic === true && chat.shareMode === "collaboration";
+    if (!isOwner && !isCollaborator) {
+        return { status: chat.isPublic ? "forbidden" : "not_found" };
+    }
+    if (await isChatLocked(ctx, chat, userId, args.unlockToken)) {
+        return { status: "locked" };
+    }
+
+    let message = await ctx.db.get(requestedMessageId);
+    if (!message) return { status: "not_found" };
+
+    // Messages belong to branches, so the branch tells us which chat owns it
+    const messageBranch = await ctx.db.get(message.branchId);
+    const messageChatId = messageBranch?.chatId;
+
+    if (messageChatId !== chat._id) {
+        // Links copied from the original chat still work inside a fork
+        if (!chat.parentChatId || messageChatId !== chat.parentChatId) {
+            return { status: "not_found" };
+        }
+        const copy = await findForkedCopy(ctx, chat._id, message);
+        if (!copy) return { status: "not_found" };
+        message = copy;
+    }
+
+    const visibleIds = await getVisibleMessageIds(ctx, chat);
+    const visibleIndex = visibleIds.indexOf(message._id);
+    if (visibleIndex !== -1) {
+        return {
+            status: "ok",
+            chat,
+            message,
+            branchId: null,
+            position: visibleIndex,
+        };
+    }
+
+    // Not visible - find a branch that contains it
+    const branches = await ctx.db
+        .query("branches")
+        .withIndex("by_chat", (q) => q.eq("chatId", chat._id))
+        .collect();
+    const candidates = branches.filter((branch) =>
+        branch.messages.includes(message._id)
+    );
+    if (candidates.length === 0) return { status: "not_found" };
+
+    const preferredBranchId = args.branchId
+        ? ctx.db.normalizeId("branches", args.branchId)
+        : null;
+    const branch =
+        candidates.find((b) => b._id === preferredBranchId) ??
+        candidates.find((b) => b._id === message.branchId) ??
+        candidates[0];
+
+    return {
+        status: "ok",
+        chat,
+        message,
+        branchId: branch._id,
+        position: null,
+    };
+}
+
+/**
+ * Resolve a deep link without changing anything.
+ * needsBranchSwitch tells the client to call openMessageLink.
+ */
+export const resolveMessageLink = query({
+    args: {
+        chatId: v.string(),
+        messageId: v.string(),
+        branchId: v.optional(v.string()),
+        unlockToken: unlockTokenArg,
+    },
+    returns: v.object({
+        status: linkStatus,
+        messageId: v.optional(v.id("messages")),
+        branchId: v.optional(v.id("branches")),
+        needsBranchSwitch: v.optional(v.boolean()),
+        position: v.optional(v.number()),
+    }),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return { status: "not_found" as const };
+
+        const resolution = await resolveLink(ctx, userId, args);
+        if (resolution.status !== "ok") return { status: resolution.status };
+
+        return {
+            status: "ok" as const,
+            messageId: resolution.message._id,
+            branchId: resolution.branchId ?? resolution.chat.activeBranchId,
+            needsBranchSwitch: resolution.branchId !== null,
+            position: resolution.position ?? undefined,
+        };
+    },
+});
+
+/**
+ * Resolve a deep link and switch the chat to the branch holding the message.
+ * The returned messageId may differ from the requested one inside forks.
+ */
+export const openMessageLink = mutation({
+    args: {
+        chatId: v.string(),
+        messageId: v.string(),
+        branchId: v.optional(v.string()),
+        unlockToken: unlockTokenArg,
+    },
+    returns: v.object({
+        status: linkStatus,
+        messageId: v.optional(v.id("messages")),
+        branchId: v.optional(v.id("branches")),
+        switched: v.optional(v.boolean()),
+        position: v.optional(v.number()),
+    }),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const resolution = await resolveLink(ctx, userId, args);
+        if (resolution.status !== "ok") return { status: resolution.status };
+
+        const { chat, message } = resolution;
+        if (resolution.branchId === null) {
+            return {
+                status: "ok" as const,
+                messageId: message._id,
+                branchId: chat.activeBranchId,
+                switched: false,
+                position: resolution.position ?? undefined,
+            };
+        }
+
+        const branch = await ctx.db.get(resolution.branchId);
+        if (!branch) return { status: "not_found" as const };
+
+        await activateBranch(ctx, chat._id, branch);
+
+        const updatedChat = await ctx.db.get(chat._id);
+        const visibleIds = updatedChat
+            ? await getVisibleMessageIds(ctx, updatedChat)
+            : [];
+        const position = visibleIds.indexOf(message._id);
+
+        console.log("🔗 DEEP LINK BRANCH SWITCH:", {
+            chatId: chat._id,
+            messageId: message._id,
+            branchId: branch._id,
+            visible: position !== -1,
+            timestamp: new Date().toISOString(),
+        });
+
+        return {
+            status: "ok" as const,
+            messageId: message._id,
+            branchId: branch._id,
+            switched: true,
+            position: position === -1 ? undefined : position,
+        };
+    },
+});
+
+/**
+ * Preview of a linked message on a share page, before the viewer joins or forks.
+ * Password-protected chats never expose content here.
+ */
+export const getSharedMessagePreview = query({
+    args: {
+        shareId: v.string(),
+        messageId: v.string(),
+    },
+    returns: v.object({
+        status: v.union(
+            v.literal("ok"),
+            v.literal("not_found"),
+            v.literal("password_required")
+        ),
+        shareMode: v.optional(
+            v.union(v.literal("read-only"), v.literal("collaboration"))
+        ),
+        role: v.optional(v.string()),
+        excerpt: v.optional(v.string()),
+    }),
+    handler: async (ctx, args) => {
+        const chat = await ctx.db
+            .query("chats")
+            .withIndex("by_share_id", (q) => q.eq("shareId", args.shareId))
+            .unique();
+        if (!chat || !chat.isPublic) return { status: "not_found" as const };
+
+        const shareMode = chat.shareMode ?? "read-only";
+        if (chat.isPasswordProtected) {
+            return { status: "password_required" as const, shareMode };
+        }
+
+        const messageId = ctx.db.normalizeId("messages", args.messageId);
+        if (!messageId) return { status: "not_found" as const, shareMode };
+
+        // Only messages in the shared (active) view are previewable
+        const visibleIds = await getVisibleMessageIds(ctx, chat);
+        if (!visibleIds.includes(messageId)) {
+            return { status: "not_found" as const, shareMode };
+        }
+
+        const message = await ctx.db.get(messageId);
+        if (!message) return { status: "not_found" as const, shareMode };
+
+        const content = message.content.trim();
+        return {
+            status: "ok" as const,
+            shareMode,
+            role: message.role,
+            excerpt:
+                content.length > PREVIEW_LENGTH
+                    ? `${content.slice(0, PREVIEW_LENGTH)}…`
+                    : content,
+        };
+    },
+});
@@ -0,0 +1,9 @@
+// Embedding models shared by the knowledge base and semantic chat search.
+// Kept out of convex/ai/embeddings.ts (a Node module) so schema.ts and the
+// queries and mutations can use them too.
+
+export const OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+// Hashed embedding used when no OpenAI key is available
+export const LOCAL_EMBEDDING_MODEL = "local-hash-v1";
+// Both models' vector size - the vectorIndex definitions in schema.ts use it
+export const EMBEDDING_DIMENSIONS = 1536;
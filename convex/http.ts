@@ -1,8 +1,10 @@
 import { auth } from "./auth";
 import router from "./router";
-import { httpAction } from "./_generated/server";
+import { httpAction, type ActionCtx } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { encryptContent, verifyChatKey } from "./chatEncryption";
 
 // =============================================================================
 // AI SDK MIGRATION - PHASE 3: SSE API Endpoints
@@ -17,6 +19,99 @@ const http = router;
 
 auth.addHttpRoutes(http);
 
+// CORS headers shared by the AI chat endpoints
+const chatCorsHeaders = {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+// Structured JSON error for the AI chat endpoints: { error: { code, message } }
+function jsonError(status: number, code: string, message: string): Response {
+    return new Response(JSON.stringify({ error: { code, message } }), {
+        status,
+        headers: { "Content-Type": "application/json", ...chatCorsHeaders },
+    });
+}
+
+// Validate the Convex auth bearer token and the caller's access to the chat
+// (owner, or collaborator on a collaboration share), plus an unlock token for
+// password protected chats and the message key for encrypted ones. Returns an
+// error Response when the request must be rejected.
+async function authorizeChatRequest(
+    ctx: ActionCtx,
+    req: Request,
+    chatId: unknown,
+    unlockToken: unknown,
+    chatKey: unknown
+): Promise<
+    | {
+          userId: Id<"users">;
+          chatId: Id<"chats">;
+          // Set for encrypted chats; only lives for this request
+          encryptionKey?: { raw: string; key: CryptoKey };
+      }
+    | Response
+> {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+        return jsonError(401, "unauthenticated", "Missing bearer token");
+    }
+
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+        return jsonError(401, "unauthenticated", "Invalid or expired token");
+    }
+
+    if (typeof chatId !== "string" || !chatId) {
+        return jsonError(400, "invalid_request", "chatId is required");
+    }
+
+    const access = await ctx.runQuery(internal.chats.getChatAccessInternal, {
+        chatId,
+        userId,
+        unlockToken: typeof unlockToken === "string" ? unlockToken : undefined,
+    });
+
+    if (access.status === "forbidden") {
+        return jsonError(
+            403,
+            "forbidden",
+            "You don't have permission to post to this chat"
+        );
+    }
+    if (access.status === "locked") {
+        return jsonError(
+            423,
+            "chat_locked",
+            "This chat is password protected - unlock it first"
+        );
+    }
+    if (access.status === "not_found" || !access.chatId) {
+        return jsonError(404, "chat_not_found", "Chat not found");
+    }
+
+    if (!access.encryption) {
+        return { userId, chatId: access.chatId };
+    }
+    const key =
+        typeof chatKey === "string"
+            ? await verifyChatKey(access.encryption, chatKey)
+            : null;
+    if (!key || typeof chatKey !== "string") {
+        return jsonError(
+            423,
+            "chat_key_required",
+            "This chat is encrypted - unlock it to send its key"
+        );
+    }
+    return {
+        userId,
+        chatId: access.chatId,
+        encryptionKey: { raw: chatKey, key },
+    };
+}
+
 // Generate temporary token for AssemblyAI real-time transcription
 http.route({
     path: "/api/assemblyai-token",
@@ -380,10 +475,25 @@ http.route({
     path: "/api/chat",
     method: "POST",
     handler: httpAction(async (ctx, req) => {
+        let body: any;
+        try {
+            body = await req.json();
+        } catch {
+            return jsonError(400, "invalid_request", "Invalid JSON body");
+        }
+
+        const authorization = await authorizeChatRequest(
+            ctx,
+            req,
+            body?.chatId,
+            body?.unlockToken,
+            body?.chatKey
+        );
+        if (authorization instanceof Response) return authorization;
+        const { chatId, encryptionKey } = authorization;
+
         try {
-            const body = await req.json();
             const {
-                chatId,
                 model = "gemini-2.0-flash",
                 attachments = [],
                 commands = [],
@@ -394,14 +504,23 @@ http.route({
             const lastMessage = messages[messages.length - 1];
 
             if (!lastMessage || lastMessage.role !== "user") {
-                throw new Error("Last message must be from user");
+                return jsonError(
+                    400,
+                    "invalid_request",
+                    "Last message must be from user"
+                );
             }
 
-            // Add user message first
+            // Add user message first, sealed for encrypted chats
             await ctx.runMutation(internal.messages.addMessageInternal, {
                 chatId,
                 role: "user",
-                content: lastMessage.content,
+                content: encryptionKey
+                    ? await encryptContent(
+                          encryptionKey.key,
+                          lastMessage.content
+                      )
+                    : lastMessage.content,
                 attachments,
                 commands,
                 referencedLibraryItems,
@@ -416,19 +535,14 @@ http.route({
                     attachments,
                     commands,
                     referencedLibraryItems,
+                    chatKey: encryptionKey?.raw,
                 }
             );
 
             return result;
         } catch (error) {
             console.error("Error in chat endpoint:", error);
-            return new Response(
-                JSON.stringify({ error: "Internal server error" }),
-                {
-                    status: 500,
-                    headers: { "Content-Type": "application/json" },
-                }
-            );
+            return jsonError(500, "internal_error", "Internal server error");
         }
     }),
 });
@@ -438,10 +552,35 @@ http.route({
     path: "/api/multi-chat",
     method: "POST",
     handler: httpAction(async (ctx, req): Promise<Response> => {
+        let body: any;
+        try {
+            body = await req.json();
+        } catch {
+            return jsonError(400, "invalid_request", "Invalid JSON body");
+        }
+
+        const authorization = await authorizeChatRequest(
+            ctx,
+            req,
+            body?.chatId,
+            body?.unlockToken,
+            body?.chatKey
+        );
+        if (authorization instanceof Response) return authorization;
+        const { chatId, encryptionKey } = authorization;
+
+        // Multi-AI responses are stored in plain text, so encrypted chats
+        // stick to one model
+        if (encryptionKey) {
+            return jsonError(
+                400,
+                "encryption_unsupported",
+                "Multi-AI responses are not available in encrypted chats"
+            );
+        }
+
         try {
-            const body = await req.json();
             const {
-                chatId,
                 models = ["gemini-2.0-flash", "gpt-4o"],
                 attachments = [],
                 commands = [],
@@ -452,7 +591,11 @@ http.route({
             const lastMessage = messages[messages.length - 1];
 
             if (!lastMessage || lastMessage.role !== "user") {
-                throw new Error("Last message must be from user");
+                return jsonError(
+                    400,
+                    "invalid_request",
+                    "Last message must be from user"
+                );
             }
 
             // Add user message first
@@ -516,13 +659,7 @@ http.route({
             );
         } catch (error) {
             console.error("Error in multi-chat endpoint:", error);
-            return new Response(
-                JSON.stringify({ error: "Internal server error" }),
-                {
-                    status: 500,
-                    headers: { "Content-Type": "application/json" },
-                }
-            );
+            return jsonError(500, "internal_error", "Internal server error");
         }
     }),
 });
@@ -0,0 +1,398 @@
+import { query, mutation, type MutationCtx, type QueryCtx } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getOrCreateDefaultProject } from "./chats";
+
+// Conversation import from ChatGPT / Claude archives and our own exports.
+//
+// Files are parsed in the browser (src/lib/chatImport.ts) into a message tree.
+// The linear part of the tree becomes the main branch; every fork (ChatGPT
+// regenerations and edits) becomes one branch per alternative, with the
+// sibling messages sharing the same `branches` list so MessageBranchNavigator
+// can switch between them.
+
+const MAX_MESSAGES_PER_CONVERSATION = 2000;
+
+const importSource = v.union(
+    v.literal("chatgpt"),
+    v.literal("claude"),
+    v.literal("3tee")
+);
+
+const importedMessage = v.object({
+    externalId: v.string(),
+    parentExternalId: v.optional(v.string()),
+    role: v.union(
+        v.literal("user"),
+        v.literal("assistant"),
+        v.literal("system")
+    ),
+    content: v.string(),
+    timestamp: v.number(),
+    model: v.optional(v.string()),
+});
+
+const importedConversation = v.object({
+    source: importSource,
+    externalId: v.string(),
+    title: v.string(),
+    model: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    messages: v.array(importedMessage),
+    currentExternalId: v.optional(v.string()),
+});
+
+type ImportedConversation = Infer<typeof importedConversation>;
+type ImportedMessage = Infer<typeof importedMessage>;
+
+async function isAlreadyImported(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    source: ImportedConversation["source"],
+    externalId: string
+): Promise<boolean> {
+    const existing = await ctx.db
+        .query("chats")
+        .withIndex("by_user_import", (q) =>
+            q
+                .eq("userId", userId)
+                .eq("importSource", source)
+                .eq("importExternalId", externalId)
+        )
+        .first();
+    if (existing) return true;
+
+    // Our own exports carry the original chat id - re-importing into the
+    // same account would just duplicate a chat that is still there
+    if (source === "3tee") {
+        const chatId = ctx.db.normalizeId("chats", externalId);
+        const chat = chatId ? await ctx.db.get(chatId) : null;
+        if (chat && chat.userId === userId) return true;
+    }
+
+    return false;
+}
+
+// Insert one conversation tree as chat + branches + messages
+async function insertConversation(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    projectId: Id<"projects">,
+    conversation: ImportedConversation,
+    defaultPassword: { passwordHash: string; passwordSalt: string } | null
+): Promise<Id<"chats">> {
+    const now = Date.now();
+    const messagesById = new Map<string, ImportedMessage>();
+    for (const message of conversation.messages) {
+        messagesById.set(message.externalId, message);
+    }
+
+    // children in chronological order; unknown parents become roots
+    const children = new Map<string | undefined, ImportedMessage[]>();
+    for (const message of conversation.messages) {
+        const parentId =
+            message.parentExternalId && messagesById.has(message.parentExternalId)
+                ? message.parentExternalId
+                : undefined;
+        const siblings = children.get(parentId) ?? [];
+        siblings.push(message);
+        children.set(parentId, siblings);
+    }
+    for (const siblings of children.values()) {
+        siblings.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    // Path that was active in the source app (defaults to the latest alternative).
+    // Parent walks stop at a repeated id - malformed exports can hold cycles.
+    const activePath = new Set<string>();
+    let cursor = conversation.currentExternalId
+        ? messagesById.get(conversation.currentExternalId)
+        : undefined;
+    while (cursor && !activePath.has(cursor.externalId)) {
+        activePath.add(cursor.externalId);
+        cursor = cursor.parentExternalId
+            ? messagesById.get(cursor.parentExternalId)
+            : undefined;
+    }
+    const pickActiveChild = (siblings: ImportedMessage[]) =>
+        siblings.find((message) => activePath.has(message.externalId)) ??
+        siblings[siblings.length - 1];
+
+    const chatId = await ctx.db.insert("chats", {
+        userId,
+        title: conversation.title.slice(0, 200) || "Imported Chat",
+        model: conversation.model || "gemini-2.0-flash",
+        projectId,
+        createdAt: conversation.createdAt,
+        updatedAt: Math.max(conversation.updatedAt, conversation.createdAt),
+        isStarred: false,
+        baseMessages: [],
+        activeMessages: [],
+        importSource: conversation.source,
+        importExternalId: conversation.externalId,
+        importedAt: now,
+        // Same default protection as chats created in the app
+        isPasswordProtected: !!defaultPassword,
+        passwordHash: defaultPassword?.passwordHash,
+        passwordSalt: defaultPassword?.passwordSalt,
+    });
+
+    const mainBranchId = await ctx.db.insert("branches", {
+        chatId,
+        fromMessageId: undefined,
+        messages: [],
+        isMain: true,
+        createdAt: now,
+        updatedAt: now,
+        branchName: "Main",
+        description: "Main conversation thread",
+    });
+
+    const messageIds = new Map<string, Id<"messages">>();
+    const branchOf = new Map<string, Id<"branches">>();
+    let activeLeaf: ImportedMessage | undefined;
+
+    // Walk a run of single-child messages into one branch, then split at the fork
+    const insertSegment = async (
+        branchId: Id<"branches">,
+        start: ImportedMessage,
+        previousTimestamp: number,
+        isActive: boolean
+    ): Promise<void> => {
+        const segment: Id<"messages">[] = [];
+        let message: ImportedMessage | undefined = start;
+        let timestamp = previousTimestamp;
+
+        while (message) {
+            // Keep timestamps increasing along a path - messages render sorted by them
+            timestamp = Math.max(message.timestamp, timestamp + 1);
+            const messageId = await ctx.db.insert("messages", {
+                branchId,
+                userId: userId,
+                chatId: chatId,
+                role: message.role,
+                content: message.content,
+                timestamp,
+                model: message.model,
+                branches: [branchId],
+                activeBranchId: branchId,
+            });
+            segment.push(messageId);
+            messageIds.set(message.externalId, messageId);
+            branchOf.set(message.externalId, branchId);
+            if (isActive) activeLeaf = message;
+
+            // Duplicate ids can make a message its own descendant - each id
+            // is inserted once
+            const next: ImportedMessage[] = (
+                children.get(message.externalId) ?? []
+            ).filter((child) => !messageIds.has(child.externalId));
+            if (next.length > 1) {
+                await ctx.db.patch(branchId, { messages: segment });
+                await insertFork(next, timestamp, isActive);
+                return;
+            }
+            message = next[0];
+        }
+
+        await ctx.db.patch(branchId, { messages: segment });
+    };
+
+    // One branch per alternative; siblings share the branch list
+    const insertFork = async (
+        siblings: ImportedMessage[],
+        previousTimestamp: number,
+        isActive: boolean
+    ): Promise<void> => {
+        const activeChild = pickActiveChild(siblings);
+        const branchIds: Id<"branches">[] = [];
+
+        for (const [index, sibling] of siblings.entries()) {
+            const branchId = await ctx.db.insert("branches", {
+                chatId,
+                messages: [],
+                isMain: false,
+                createdAt: now,
+                updatedAt: now,
+                branchName: `Branch ${index + 1}`,
+                description: "Imported alternate",
+            });
+            branchIds.push(branchId);
+            await insertSegment(
+                branchId,
+                sibling,
+                previousTimestamp,
+                isActive && sibling === activeChild
+            );
+        }
+
+        const firstSiblingId = messageIds.get(siblings[0].externalId)!;
+        const activeBranchId = branchIds[siblings.indexOf(activeChild)];
+        for (const branchId of branchIds) {
+            await ctx.db.patch(branchId, { fromMessageId: firstSiblingId });
+        }
+        for (const sibling of siblings) {
+            await ctx.db.patch(messageIds.get(sibling.externalId)!, {
+                branches: branchIds,
+                activeBranchId,
+            });
+        }
+    };
+
+    const roots = children.get(undefined) ?? [];
+    if (roots.length === 1) {
+        await insertSegment(mainBranchId, roots[0], 0, true);
+    } else if (roots.length > 1) {
+        await insertFork(roots, 0, true);
+    }
+
+    // Visible messages = active path; the branch holding its leaf is active
+    const activeMessages: Id<"messages">[] = [];
+    const activeIds = new Set<string>();
+    for (
+        let node = activeLeaf;
+        node &&
+        messageIds.has(node.externalId) &&
+        !activeIds.has(node.externalId);
+        node = node.parentExternalId
+            ? messagesById.get(node.parentExternalId)
+            : undefined
+    ) {
+        activeIds.add(node.externalId);
+        activeMessages.unshift(messageIds.get(node.externalId)!);
+    }
+    const activeBranchId = activeLeaf
+        ? branchOf.get(activeLeaf.externalId)!
+        : mainBranchId;
+    const activeBranch = await ctx.db.get(activeBranchId);
+    const activeBranchMessages = new Set(activeBranch?.messages ?? []);
+
+    await ctx.db.patch(chatId, {
+        activeBranchId,
+        baseMessages: activeMessages.filter(
+            (messageId) => !activeBranchMessages.has(messageId)
+        ),
+        activeMessages,
+    });
+
+    return chatId;
+}
+
+/**
+ * Which of these conversations were already imported (or still exist, for
+ * our own exports). Used by the preview step to flag duplicates.
+ */
+export const findDuplicateImports = query({
+    args: {
+        conversations: v.array(
+            v.object({ source: importSource, externalId: v.string() })
+        ),
+    },
+    returns: v.array(v.string()),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return [];
+
+        const duplicates: string[] = [];
+        for (const { source, externalId } of args.conversations) {
+            if (await isAlreadyImported(ctx, userId, source, externalId)) {
+                duplicates.push(externalId);
+            }
+        }
+        return duplicates;
+    },
+});
+
+/**
+ * Import parsed conversations. Duplicates are skipped, so re-running an
+ * import of the same archive is safe. Call in batches for large archives.
+ */
+export const importConversations = mutation({
+    args: {
+        conversations: v.array(importedConversation),
+        projectId: v.optional(v.id("projects")),
+    },
+    returns: v.object({
+        imported: v.array(
+            v.object({ externalId: v.string(), chatId: v.id("chats") })
+        ),
+        skipped: v.array(v.string()),
+    }),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        let projectId: Id<"projects">;
+        if (args.projectId) {
+            const project = await ctx.db.get(args.projectId);
+            if (!project || project.userId !== userId) {
+                throw new Error("Project not found");
+            }
+            projectId = project._id;
+        } else {
+            projectId = await getOrCreateDefaultProject(ctx, userId);
+        }
+
+        const preferences = await ctx.runQuery(
+            internal.preferences.getUserPreferencesInternal,
+            { userId }
+        );
+        const passwordSettings = preferences?.passwordSettings;
+        const defaultPassword =
+            passwordSettings?.useDefaultPassword &&
+            passwordSettings.defaultPasswordHash &&
+            passwordSettings.defaultPasswordSalt
+                ? {
+                      passwordHash: passwordSettings.defaultPasswordHash,
+                      passwordSalt: passwordSettings.defaultPasswordSalt,
+                  }
+                : null;
+
+        const imported: { externalId: string; chatId: Id<"chats"> }[] = [];
+        const skipped: string[] = [];
+
+        for (const conversation of args.conversations) {
+            if (conversation.messages.length === 0) {
+                skipped.push(conversation.externalId);
+                continue;
+            }
+            if (conversation.messages.length > MAX_MESSAGES_PER_CONVERSATION) {
+                throw new Error(
+                    `"${conversation.title}" has more than ${MAX_MESSAGES_PER_CONVERSATION} messages`
+                );
+            }
+            if (
+                await isAlreadyImported(
+                    ctx,
+                    userId,
+                    conversation.source,
+                    conversation.externalId
+                )
+            ) {
+                skipped.push(conversation.externalId);
+                continue;
+            }
+
+            const chatId = await insertConversation(
+                ctx,
+                userId,
+                projectId,
+                conversation,
+                defaultPassword
+            );
+            imported.push({ externalId: conversation.externalId, chatId });
+        }
+
+        console.log("📥 CONVERSATIONS IMPORTED:", {
+            userId,
+            imported: imported.length,
+            skipped: skipped.length,
+            timestamp: new Date().toISOString(),
+        });
+
+        return { imported, skipped };
+    },
+});
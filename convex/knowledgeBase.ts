@@ -0,0 +1,383 @@
+import { v } from "convex/values";
+import {
+    internalMutation,
+    internalQuery,
+    mutation,
+    type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { OPENAI_EMBEDDING_MODEL } from "./embeddings";
+
+// Knowledge-base mode for attachment library items.
+//
+// Enabling it extracts the item's text, splits it into passages and embeds
+// them into knowledgeChunks (knowledgeBaseActions.indexKnowledgeBaseItem).
+// Chats that reference the item - or belong to one of its projects - then get
+// the top-k passages for the latest message instead of the whole file, cited
+// by page (see convex/ai/knowledgeBase.ts).
+
+// A run that hasn't finished by then is presumed dead and may be restarted
+const STALE_INDEXING_MS = 15 * 60 * 1000;
+const MAX_PROJECTS_PER_ITEM = 20;
+const MAX_CHUNKS_PER_BATCH = 50;
+
+const TEXT_EXTENSIONS = [".txt", ".md", ".markdown", ".csv", ".json", ".html"];
+
+// PDFs are transcribed by a model, text files are read as-is
+export function canIndexAttachment(
+    item: Pick<Doc<"attachmentLibrary">, "type" | "mimeType" | "originalName">
+) {
+    if (item.type === "pdf" || item.mimeType === "application/pdf") return true;
+    const name = item.originalName.toLowerCase();
+    return (
+        item.mimeType.startsWith("text/") ||
+        item.mimeType === "application/json" ||
+        TEXT_EXTENSIONS.some((extension) => name.endsWith(extension))
+    );
+}
+
+async function getOwnedAttachment(
+    ctx: MutationCtx,
+    attachmentId: Id<"attachmentLibrary">
+) {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) throw new Error("Not authenticated");
+
+    const attachment = await ctx.db.get(attachmentId);
+    if (!attachment || attachment.userId !== userId) {
+        throw new Error("Attachment not found or unauthorized");
+    }
+    return attachment;
+}
+
+export async function deleteKnowledgeChunks(
+    ctx: MutationCtx,
+    attachmentId: Id<"attachmentLibrary">
+) {
+    const chunks = await ctx.db
+        .query("knowledgeChunks")
+        .withIndex("by_attachment", (q) => q.eq("attachmentId", attachmentId))
+        .collect();
+    for (const chunk of chunks) {
+        await ctx.db.delete(chunk._id);
+    }
+    return chunks.length;
+}
+
+// The run identified by startedAt is still the item's current one
+function isCurrentRun(
+    attachment: Doc<"attachmentLibrary"> | null,
+    startedAt: number
+): attachment is Doc<"attachmentLibrary"> & {
+    knowledgeBase: NonNullable<Doc<"attachmentLibrary">["knowledgeBase"]>;
+} {
+    return (
+        attachment?.knowledgeBase?.status === "indexing" &&
+        attachment.knowledgeBase.startedAt === startedAt
+    );
+}
+
+// =============================================================================
+// Library controls
+// =============================================================================
+
+// Turns knowledge-base mode on, or re-indexes an item that already has it
+export const enableKnowledgeBase = mutation({
+    args: { attachmentId: v.id("attachmentLibrary") },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const attachment = await getOwnedAttachment(ctx, args.attachmentId);
+        if (!canIndexAttachment(attachment)) {
+            throw new Error(
+                "Only PDFs and text files can be added to the knowledge base"
+            );
+        }
+
+        const now = Date.now();
+        const current = attachment.knowledgeBase;
+        if (
+            current?.status === "indexing" &&
+            current.startedAt > now - STALE_INDEXING_MS
+        ) {
+            throw new Error("This file is already being indexed");
+        }
+
+        await deleteKnowledgeChunks(ctx, args.attachmentId);
+        await ctx.db.patch(args.attachmentId, {
+            knowledgeBase: {
+                status: "indexing",
+                embeddingModel: OPENAI_EMBEDDING_MODEL,
+                startedAt: now,
+                projectIds: current?.projectIds,
+            },
+            updatedAt: now,
+        });
+        await ctx.scheduler.runAfter(
+            0,
+            internal.knowledgeBaseActions.indexKnowledgeBaseItem,
+            { attachmentId: args.attachmentId, startedAt: now }
+        );
+
+        console.log("📚 KNOWLEDGE BASE INDEXING QUEUED:", {
+            attachmentId: args.attachmentId,
+            reindex: !!current,
+            timestamp: new Date().toISOString(),
+        });
+        return null;
+    },
+});
+
+// Back to attaching the whole file; the embedded passages are dropped
+export const disableKnowledgeBase = mutation({
+    args: { attachmentId: v.id("attachmentLibrary") },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        await getOwnedAttachment(ctx, args.attachmentId);
+        await deleteKnowledgeChunks(ctx, args.attachmentId);
+        await ctx.db.patch(args.attachmentId, {
+            knowledgeBase: undefined,
+            updatedAt: Date.now(),
+        });
+        return null;
+    },
+});
+
+export const setKnowledgeBaseProjects = mutation({
+    args: {
+        attachmentId: v.id("attachmentLibrary"),
+        projectIds: v.array(v.id("projects")),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const attachment = await getOwnedAttachment(ctx, args.attachmentId);
+        if (!attachment.knowledgeBase) {
+            throw new Error("Add the file to the knowledge base first");
+        }
+
+        const projectIds = [...new Set(args.projectIds)];
+        if (projectIds.length > MAX_PROJECTS_PER_ITEM) {
+            throw new Error(
+                `A file can be shared with at most ${MAX_PROJECTS_PER_ITEM} projects`
+            );
+        }
+        for (const projectId of projectIds) {
+            const project = await ctx.db.get(projectId);
+            if (!project || project.userId !== attachment.userId) {
+                throw new Error("Project not found or unauthorized");
+            }
+        }
+
+        await ctx.db.patch(args.attachmentId, {
+            knowledgeBase: { ...attachment.knowledgeBase, projectIds },
+            updatedAt: Date.now(),
+        });
+        return null;
+    },
+});
+
+// =============================================================================
+// Indexing (knowledgeBaseActions.indexKnowledgeBaseItem)
+// =============================================================================
+
+export const getIndexingSourceInternal = internalQuery({
+    args: {
+        attachmentId: v.id("attachmentLibrary"),
+        startedAt: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const attachment = await ctx.db.get(args.attachmentId);
+        if (!isCurrentRun(attachment, args.startedAt)) return null;
+
+        return {
+            userId: attachment.userId,
+            storageId: attachment.storageId,
+            name: attachment.displayName || attachment.originalName,
+            originalName: attachment.originalName,
+            type: attachment.type,
+            mimeType: attachment.mimeType,
+            pageCount: attachment.metadata?.pageCount,
+        };
+    },
+});
+
+// Returns false once the run was superseded or cancelled - stop indexing then
+export const storeKnowledgeChunks = internalMutation({
+    args: {
+        attachmentId: v.id("attachmentLibrary"),
+        startedAt: v.number(),
+        chunks: v.array(
+            v.object({
+                chunkIndex: v.number(),
+                text: v.string(),
+                pageNumber: v.optional(v.number()),
+                embedding: v.array(v.float64()),
+            })
+        ),
+    },
+    returns: v.boolean(),
+    handler: async (ctx, args) => {
+        const attachment = await ctx.db.get(args.attachmentId);
+        if (!isCurrentRun(attachment, args.startedAt)) return false;
+        if (args.chunks.length > MAX_CHUNKS_PER_BATCH) {
+            throw new Error(
+                `At most ${MAX_CHUNKS_PER_BATCH} chunks can be stored at once`
+            );
+        }
+
+        const now = Date.now();
+        for (const chunk of args.chunks) {
+            await ctx.db.insert("knowledgeChunks", {
+                userId: attachment.userId,
+                attachmentId: args.attachmentId,
+                ...chunk,
+                createdAt: now,
+            });
+        }
+        return true;
+    },
+});
+
+export const finishKnowledgeIndexing = internalMutation({
+    args: {
+        attachmentId: v.id("attachmentLibrary"),
+        startedAt: v.number(),
+        chunkCount: v.number(),
+        pageCount: v.optional(v.number()),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const attachment = await ctx.db.get(args.attachmentId);
+        if (!isCurrentRun(attachment, args.startedAt)) return null;
+
+        await ctx.db.patch(args.attachmentId, {
+            knowledgeBase: {
+                ...attachment.knowledgeBase,
+                status: "ready",
+                chunkCount: args.chunkCount,
+                pageCount: args.pageCount,
+                error: undefined,
+                indexedAt: Date.now(),
+            },
+        });
+        return null;
+    },
+});
+
+export const failKnowledgeIndexing = internalMutation({
+    args: {
+        attachmentId: v.id("attachmentLibrary"),
+        startedAt: v.number(),
+        error: v.string(),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const attachment = await ctx.db.get(args.attachmentId);
+        if (!isCurrentRun(attachment, args.startedAt)) return null;
+
+        // Partial passages would make answers silently incomplete
+        await deleteKnowledgeChunks(ctx, args.attachmentId);
+        await ctx.db.patch(args.attachmentId, {
+            knowledgeBase: {
+                ...attachment.knowledgeBase,
+                status: "failed",
+                chunkCount: undefined,
+                error: args.error.slice(0, 500),
+            },
+        });
+        return null;
+    },
+});
+
+// =============================================================================
+// Retrieval (convex/ai/knowledgeBase.ts)
+// =============================================================================
+
+/**
+ * Indexed items a request may search: the referenced library items that are
+ * in knowledge-base mode, plus the ones shared with the chat's project.
+ */
+export const getKnowledgeSourcesInternal = internalQuery({
+    args: {
+        userId: v.id("users"),
+        attachmentIds: v.array(v.string()),
+        projectId: v.optional(v.id("projects")),
+    },
+    returns: v.array(
+        v.object({
+            attachmentId: v.id("attachmentLibrary"),
+            name: v.string(),
+        })
+    ),
+    handler: async (ctx, args) => {
+        const sources = new Map<Id<"attachmentLibrary">, string>();
+        const addIfReady = (attachment: Doc<"attachmentLibrary"> | null) => {
+            if (
+                attachment &&
+                attachment.userId === args.userId &&
+                attachment.knowledgeBase?.status === "ready"
+            ) {
+                sources.set(
+                    attachment._id,
+                    attachment.displayName || attachment.originalName
+                );
+            }
+        };
+
+        for (const id of args.attachmentIds) {
+            const attachmentId = ctx.db.normalizeId("attachmentLibrary", id);
+            if (attachmentId) addIfReady(await ctx.db.get(attachmentId));
+        }
+
+        if (args.projectId) {
+            const projectId = args.projectId;
+            const attachments = await ctx.db
+                .query("attachmentLibrary")
+                .withIndex("by_user", (q) => q.eq("userId", args.userId))
+                .collect();
+            for (const attachment of attachments) {
+                if (attachment.knowledgeBase?.projectIds?.includes(projectId)) {
+                    addIfReady(attachment);
+                }
+            }
+        }
+
+        return [...sources].map(([attachmentId, name]) => ({
+            attachmentId,
+            name,
+        }));
+    },
+});
+
+// Vector search hits resolved to their text, in the order given
+export const getKnowledgeChunksInternal = internalQuery({
+    args: { chunkIds: v.array(v.id("knowledgeChunks")) },
+    handler: async (ctx, args) => {
+        const urls = new Map<Id<"attachmentLibrary">, string | null>();
+        const results = [];
+
+        for (const chunkId of args.chunkIds) {
+            const chunk = await ctx.db.get(chunkId);
+            if (!chunk) continue;
+            const attachment = await ctx.db.get(chunk.attachmentId);
+            if (!attachment) continue;
+
+            if (!urls.has(attachment._id)) {
+                urls.set(
+                    attachment._id,
+                    await ctx.storage.getUrl(attachment.storageId)
+                );
+            }
+            results.push({
+                chunkId,
+                attachmentId: attachment._id,
+                name: attachment.displayName || attachment.originalName,
+                url: urls.get(attachment._id) ?? null,
+                text: chunk.text,
+                pageNumber: chunk.pageNumber,
+            });
+        }
+        return results;
+    },
+});
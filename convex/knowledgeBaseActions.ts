@@ -0,0 +1,111 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import {
+    chunkPages,
+    extractKnowledgeText,
+    MAX_KNOWLEDGE_CHUNKS,
+} from "./ai/knowledgeBase";
+import { embedTexts, getStoredApiKeys } from "./ai/embeddings";
+import { OPENAI_EMBEDDING_MODEL } from "./embeddings";
+
+// Matches the per-call limit of knowledgeBase.storeKnowledgeChunks
+const STORE_BATCH_SIZE = 50;
+
+// Extracts, chunks and embeds one library item (knowledgeBase.enableKnowledgeBase)
+export const indexKnowledgeBaseItem = internalAction({
+    args: {
+        attachmentId: v.id("attachmentLibrary"),
+        startedAt: v.number(),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const startTime = Date.now();
+        const source = await ctx.runQuery(
+            internal.knowledgeBase.getIndexingSourceInternal,
+            args
+        );
+        if (!source) return null; // Disabled or restarted meanwhile
+
+        try {
+            // Scheduled without a user session - look the keys up directly
+            const apiKeys = await getStoredApiKeys(ctx, source.userId);
+
+            const file = await ctx.storage.get(source.storageId);
+            if (!file) throw new Error("File not found in storage");
+
+            const pages = await extractKnowledgeText(
+                ctx,
+                source.userId,
+                await file.arrayBuffer(),
+                source,
+                apiKeys
+            );
+            const chunks = chunkPages(pages);
+            if (chunks.length === 0) {
+                throw new Error("No text could be extracted from this file");
+            }
+            if (chunks.length > MAX_KNOWLEDGE_CHUNKS) {
+                throw new Error(
+                    `This file is too large for the knowledge base (over ${MAX_KNOWLEDGE_CHUNKS} passages)`
+                );
+            }
+
+            const embeddings = await embedTexts(ctx, {
+                userId: source.userId,
+                texts: chunks.map((chunk) => chunk.text),
+                model: OPENAI_EMBEDDING_MODEL,
+                apiKeys,
+                source: "knowledge_base",
+            });
+
+            for (let i = 0; i < chunks.length; i += STORE_BATCH_SIZE) {
+                const stillCurrent = await ctx.runMutation(
+                    internal.knowledgeBase.storeKnowledgeChunks,
+                    {
+                        ...args,
+                        chunks: chunks
+                            .slice(i, i + STORE_BATCH_SIZE)
+                            .map((chunk, offset) => ({
+                                ...chunk,
+                                chunkIndex: i + offset,
+                                embedding: embeddings[i + offset],
+                            })),
+                    }
+                );
+                if (!stillCurrent) return null;
+            }
+
+            const pageNumbers = chunks
+                .map((chunk) => chunk.pageNumber ?? 0)
+                .filter((page) => page > 0);
+            await ctx.runMutation(internal.knowledgeBase.finishKnowledgeIndexing, {
+                ...args,
+                chunkCount: chunks.length,
+                pageCount:
+                    pageNumbers.length > 0 ? Math.max(...pageNumbers) : undefined,
+            });
+
+            console.log("📚 KNOWLEDGE BASE INDEXED:", {
+                attachmentId: args.attachmentId,
+                pages: pages.length,
+                chunks: chunks.length,
+                duration: Date.now() - startTime,
+                timestamp: new Date().toISOString(),
+            });
+        } catch (error) {
+            console.error("❌ KNOWLEDGE BASE INDEXING FAILED:", {
+                attachmentId: args.attachmentId,
+                error: error instanceof Error ? error.message : String(error),
+                timestamp: new Date().toISOString(),
+            });
+            await ctx.runMutation(internal.knowledgeBase.failKnowledgeIndexing, {
+                ...args,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+        return null;
+    },
+});
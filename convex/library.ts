@@ -1,7 +1,8 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalQuery } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { Id } from "./_generated/dataModel";
+import { deleteKnowledgeChunks } from "./knowledgeBase";
 
 // ========================
 // ATTACHMENT LIBRARY MANAGEMENT
@@ -197,6 +198,7 @@ export const deleteAttachmentLibraryItem = mutation({
 
         // Delete the storage file
         await ctx.storage.delete(attachment.storageId);
+        await deleteKnowledgeChunks(ctx, args.attachmentId);
 
         // Delete the library entry
         await ctx.db.delete(args.attachmentId);
@@ -1046,3 +1048,120 @@ export const getMediaLibraryItem = query({
         return media;
     },
 });
+
+// Library lookup for the server-side "libraryLookup" AI tool (internal use)
+export const lookupLibraryItemsInternal = internalQuery({
+    args: {
+        userId: v.id("users"),
+        query: v.string(),
+        type: v.optional(
+            v.union(
+                v.literal("attachment"),
+                v.literal("artifact"),
+                v.literal("media")
+            )
+        ),
+        limit: v.number(),
+    },
+    handler: async (ctx, args) => {
+        const searchLower = args.query.toLowerCase().trim();
+        const matches = (...fields: Array<string | undefined>) =>
+            !searchLower ||
+            fields.some((field) => field?.toLowerCase().includes(searchLower));
+
+        const results: Array<{
+            type: "attachment" | "artifact" | "media";
+            id: string;
+            name: string;
+            description?: string;
+            tags?: string[];
+            updatedAt: number;
+            [key: string]: any;
+        }> = [];
+
+        if (!args.type || args.type === "attachment") {
+            const attachments = await ctx.db
+                .query("attachmentLibrary")
+                .withIndex("by_user", (q) => q.eq("userId", args.userId))
+                .collect();
+            for (const attachment of attachments) {
+                const name = attachment.displayName || attachment.originalName;
+                if (
+                    matches(name, attachment.description, ...(attachment.tags || []))
+                ) {
+                    results.push({
+                        type: "attachment",
+                        id: attachment._id,
+                        name,
+                        description: attachment.description,
+                        tags: attachment.tags,
+                        mimeType: attachment.mimeType,
+                        size: attachment.size,
+                        pageCount: attachment.metadata?.pageCount,
+                        updatedAt: attachment.updatedAt,
+                    });
+                }
+            }
+        }
+
+        if (!args.type || args.type === "artifact") {
+            const artifacts = await ctx.db
+                .query("artifacts")
+                .withIndex("by_user", (q) => q.eq("userId", args.userId))
+                .collect();
+            for (const artifact of artifacts) {
+                if (
+                    matches(
+                        artifact.filename,
+                        artifact.description,
+                        artifact.content,
+                        ...(artifact.tags || [])
+                    )
+                ) {
+                    results.push({
+                        type: "artifact",
+                        id: artifact.artifactId,
+                        name: artifact.filename,
+                        description: artifact.description,
+                        tags: artifact.tags,
+                        language: artifact.language,
+                        excerpt: artifact.content.slice(0, 500),
+                        updatedAt: artifact.updatedAt,
+                    });
+                }
+            }
+        }
+
+        if (!args.type || args.type === "media") {
+            const media = await ctx.db
+                .query("mediaLibrary")
+                .withIndex("by_user", (q) => q.eq("userId", args.userId))
+                .collect();
+            for (const item of media) {
+                if (
+                    matches(
+                        item.title,
+                        item.description,
+                        item.prompt,
+                        ...(item.tags || [])
+                    )
+                ) {
+                    results.push({
+                        type: "media",
+                        id: item._id,
+                        name: item.title,
+                        description: item.description,
+                        tags: item.tags,
+                        mediaType: item.type,
+                        prompt: item.prompt,
+                        updatedAt: item.updatedAt,
+                    });
+                }
+            }
+        }
+
+        return results
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .slice(0, args.limit);
+    },
+});
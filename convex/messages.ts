@@ -10,6 +10,15 @@ import {
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { api, internal } from "./_generated/api";
 import { decryptApiKey } from "./preferences";
+import { calculateCost, getModelProvider, normalizeUsage } from "./pricing";
+import { recordMessageUsage } from "./usageLimits";
+import {
+    createRollupRefresher,
+    scheduleRollupRefresh,
+} from "./analyticsRollups";
+import { isChatLocked, unlockTokenArg } from "./chatUnlock";
+import { isEncryptedContent } from "./chatEncryption";
+import { scheduleMessageEmbedding } from "./semanticSearch";
 import { ConvexError } from "convex/values";
 
 // Helper function to get user ID with proper error handling
@@ -95,6 +104,8 @@ export const addMessageInternal = internalMutation({
         // Create the message - now belongs to a branch, not directly to chat
         const messageId = await ctx.db.insert("messages", {
             branchId: activeBranchId,
+            userId: chat.userId,
+            chatId: chat._id,
             role: args.role,
             content: args.content,
             timestamp: Date.now(),
@@ -107,6 +118,7 @@ export const addMessageInternal = internalMutation({
             branches: [activeBranchId],
             activeBranchId: activeBranchId,
         });
+        if (!args.isStreaming) await scheduleMessageEmbedding(ctx, messageId);
 
         // Add message to the active branch's messages array
         const updatedMessages = [...(activeBranch.messages || []), messageId];
@@ -128,7 +140,8 @@ export const addMessageInternal = internalMutation({
         if (
             chat.title === "New Chat" &&
             args.role === "user" &&
-            args.content.trim()
+            args.content.trim() &&
+            !isEncryptedContent(args.content) // Never titled from ciphertext
         ) {
             // Get user preferences to determine title generation method
             const preferences = await ctx.runQuery(
@@ -228,6 +241,8 @@ export const addMessage = mutation({
         // Create the message - now belongs to a branch, not directly to chat
         const messageId = await ctx.db.insert("messages", {
             branchId: activeBranchId,
+            userId: chat.userId,
+            chatId: chat._id,
             role: args.role,
             content: args.content,
             timestamp: Date.now(),
@@ -240,6 +255,7 @@ export const addMessage = mutation({
             branches: [activeBranchId],
             activeBranchId: activeBranchId,
         });
+        if (!args.isStreaming) await scheduleMessageEmbedding(ctx, messageId);
 
         // Add message to the active branch's messages array
         const updatedMessages = [...(activeBranch.messages || []), messageId];
@@ -261,7 +277,8 @@ export const addMessage = mutation({
         if (
             chat.title === "New Chat" &&
             args.role === "user" &&
-            args.content.trim()
+            args.content.trim() &&
+            !isEncryptedContent(args.content) // Never titled from ciphertext
         ) {
             // Get user preferences to determine title generation method
             const preferences = await ctx.runQuery(
@@ -452,6 +469,46 @@ export const updateMessage = mutation({
             isStreaming: args.isStreaming,
             editHistory,
         });
+        if (!args.isStreaming) {
+            await scheduleMessageEmbedding(ctx, args.messageId);
+        }
+    },
+});
+
+// Stop an in-flight generation - the running action polls this flag, aborts
+// the model stream and keeps the partial content with finishReason "cancelled"
+export const cancelGeneration = mutation({
+    args: {
+        messageId: v.id("messages"),
+    },
+    returns: v.boolean(),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const message = await ctx.db.get(args.messageId);
+        if (!message) throw new Error("Message not found");
+
+        const branch = await ctx.db.get(message.branchId);
+        if (!branch) throw new Error("Branch not found");
+
+        const chat = await ctx.db.get(branch.chatId);
+        if (!chat || chat.userId !== userId) {
+            throw new Error("Unauthorized");
+        }
+
+        // Nothing to cancel once the generation has finished
+        if (!message.isStreaming) return false;
+
+        await ctx.db.patch(args.messageId, { isCancelled: true });
+
+        console.log("🛑 GENERATION CANCEL REQUESTED:", {
+            messageId: args.messageId,
+            chatId: branch.chatId,
+            timestamp: new Date().toISOString(),
+        });
+
+        return true;
     },
 });
 
@@ -470,7 +527,7 @@ export const retryMessage = action({
         }
 
         // NEW BRANCHING SYSTEM: Get chat through branch relationship
-        const branch = await ctx.runQuery(api.branches.getBranchWithMessages, {
+        const branch = await ctx.runQuery(internal.aiHelpers.getBranch, {
             branchId: message.branchId,
         });
         if (!branch) throw new Error("Branch not found");
@@ -615,6 +672,9 @@ export const deleteMessage = mutation({
             throw new Error("Unauthorized");
         }
 
+        // Deleted messages must drop out of the analytics rollups
+        const refreshRollup = createRollupRefresher(ctx);
+
         // PHASE 5 FIX: Enhanced orphaned branch cleanup
         // Get all branches associated with this message for cleanup
         const messageBranches = message.branches || [];
@@ -682,6 +742,7 @@ export const deleteMessage = mutation({
                     updatedAt: Date.now(),
                 });
 
+                await refreshRollup(nextMessage);
                 await ctx.db.delete(nextMessage._id);
             }
         }
@@ -732,6 +793,7 @@ export const deleteMessage = mutation({
             }
         }
 
+        await refreshRollup(message);
         await ctx.db.delete(args.messageId);
 
         console.log("✅ MESSAGE DELETION COMPLETE WITH CLEANUP:", {
@@ -783,6 +845,8 @@ export const createMessageVersion = mutation({
                 timestamp: message.timestamp,
                 isActive: false, // Make original inactive
                 metadata: null,
+                // Keep the original response's usage so spend analytics still counts it
+                responseMetadata: message.metadata?.responseMetadata,
             });
         }
 
@@ -873,6 +937,7 @@ export const switchMessageVersion = mutation({
             model: targetVersion.model,
             messageVersions: updatedVersions,
         });
+        await scheduleMessageEmbedding(ctx, args.messageId);
 
         return targetVersion;
     },
@@ -881,11 +946,24 @@ export const switchMessageVersion = mutation({
 export const getMessageVersions = query({
     args: {
         messageId: v.id("messages"),
+        unlockToken: unlockTokenArg,
     },
     handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
         const message = await ctx.db.get(args.messageId);
         if (!message) throw new Error("Message not found");
 
+        const branch = await ctx.db.get(message.branchId);
+        const chat = branch && (await ctx.db.get(branch.chatId));
+        if (!chat || (chat.userId !== userId && !chat.isPublic)) {
+            throw new Error("Message not found");
+        }
+        if (await isChatLocked(ctx, chat, userId, args.unlockToken)) {
+            return { versions: [], currentVersionIndex: -1, totalVersions: 0 };
+        }
+
         const versions = message.messageVersions || [];
         const currentVersionIndex = versions.findIndex((v) => v.isActive);
 
@@ -963,9 +1041,11 @@ export const deleteAllMessagesFromHere = mutation({
 
         // Delete the messages
         let deletedCount = 0;
+        const refreshRollup = createRollupRefresher(ctx);
         for (const msgToDelete of messagesToDelete) {
             try {
                 await ctx.db.delete(msgToDelete._id);
+                await refreshRollup(msgToDelete);
                 deletedCount++;
             } catch (error) {
                 console.error(
@@ -1043,6 +1123,7 @@ export const editAssistantMessage = mutation({
             editHistory,
             isStreaming: false, // Ensure it's not streaming after edit
         });
+        await scheduleMessageEmbedding(ctx, args.messageId);
 
         return {
             success: true,
@@ -1052,6 +1133,35 @@ export const editAssistantMessage = mutation({
     },
 });
 
+// Pinned messages stay in the model's context under the "pinned" strategy
+export const setMessagePinned = mutation({
+    args: {
+        messageId: v.id("messages"),
+        isPinned: v.boolean(),
+    },
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const message = await ctx.db.get(args.messageId);
+        if (!message) throw new Error("Message not found");
+
+        const branch = await ctx.db.get(message.branchId);
+        if (!branch) throw new Error("Branch not found");
+
+        const chat = await ctx.db.get(branch.chatId);
+        if (!chat || chat.userId !== userId) {
+            throw new Error("Unauthorized");
+        }
+
+        await ctx.db.patch(args.messageId, {
+            isPinned: args.isPinned || undefined,
+        });
+
+        return { messageId: args.messageId, isPinned: args.isPinned };
+    },
+});
+
 export const enhancePrompt = action({
     args: {
         originalPrompt: v.string(),
@@ -1123,6 +1233,25 @@ Provide an enhanced version that:
 
 Return only the enhanced prompt without explanations.`;
 
+        const model = "gemini-2.0-flash"; // Use a fast model for prompt enhancement
+        const provider = getModelProvider(model);
+
+        // Budgets and rate limits are checked before calling the provider
+        try {
+            await ctx.runMutation(internal.usageLimits.reserveRequests, {
+                userId,
+                source: "enhance",
+                requests: [{ model, provider }],
+            });
+        } catch (error) {
+            if (!(error instanceof ConvexError)) throw error;
+            return {
+                enhancedPrompt: args.originalPrompt,
+                wasEnhanced: false,
+                error: String(error.data),
+            };
+        }
+
         try {
             // Call AI generation to enhance the prompt
             const result: any = await ctx.runAction(
@@ -1134,12 +1263,24 @@ Return only the enhanced prompt without explanations.`;
                             content: enhancementPrompt,
                         },
                     ],
-                    model: "gemini-2.0-flash", // Use a fast model for prompt enhancement
+                    model,
                     temperature: 0.3, // Lower temperature for consistent enhancement
                     // maxTokens: 500,
                 }
             );
 
+            const usage = normalizeUsage(result.usage);
+            if (usage) {
+                await ctx.runMutation(internal.usageLimits.recordUsage, {
+                    userId,
+                    source: "enhance",
+                    model,
+                    provider,
+                    tokens: usage.totalTokens ?? 0,
+                    cost: calculateCost(model, usage),
+                });
+            }
+
             return {
                 enhancedPrompt: result.content || args.originalPrompt,
                 wasEnhanced: true,
@@ -1295,8 +1436,9 @@ export const initializeMultiAIMessage = mutation({
     },
 });
 
-// Update specific multi-AI response (called by streaming infrastructure)
-export const updateMultiAIResponse = mutation({
+// Update specific multi-AI response (called by ai.generateMultiAIResponses) -
+// internal, since it records usage against the chat owner's budgets
+export const updateMultiAIResponse = internalMutation({
     args: {
         messageId: v.id("messages"),
         responseId: v.string(),
@@ -1311,8 +1453,10 @@ export const updateMultiAIResponse = mutation({
         }
 
         const multiAI = message.metadata.multiAIResponses;
+        const usage = normalizeUsage(args.metadata?.usage);
         const updatedResponses = multiAI.responses.map((response) => {
             if (response.responseId === args.responseId) {
+                // Price completed responses with their own model's rates
                 return {
                     ...response,
                     content: args.content,
@@ -1320,11 +1464,35 @@ export const updateMultiAIResponse = mutation({
                         ? Date.now()
                         : response.timestamp,
                     metadata: args.metadata || response.metadata,
+                    ...(usage && {
+                        responseMetadata: {
+                            usage,
+                            cost: calculateCost(response.model, usage),
+                            finishReason: args.metadata?.finishReason,
+                            model: response.model,
+                            provider: args.metadata?.provider,
+                        },
+                    }),
                 };
             }
             return response;
         });
 
+        // Count the finished response against the user's budgets
+        const updated = updatedResponses.find(
+            (response) => response.responseId === args.responseId
+        );
+        if (usage && updated) {
+            await recordMessageUsage(ctx, message, {
+                source: "multi_ai",
+                model: updated.model,
+                provider:
+                    args.metadata?.provider ?? getModelProvider(updated.model),
+                tokens: usage.totalTokens ?? 0,
+                cost: calculateCost(updated.model, usage),
+            });
+        }
+
         // Update primary response content if this is the primary response
         const primaryResponse = updatedResponses.find((r) => r.isPrimary);
         const messageContent = primaryResponse
@@ -1333,10 +1501,12 @@ export const updateMultiAIResponse = mutation({
 
         // Check if all responses are complete
         const allComplete = updatedResponses.every((r) => r.content.length > 0);
+        if (allComplete) await scheduleRollupRefresh(ctx, message);
 
         await ctx.db.patch(args.messageId, {
             content: messageContent,
             isStreaming: !allComplete,
+            ...(allComplete ? { isCancelled: undefined } : {}),
             metadata: {
                 ...message.metadata,
                 multiAIResponses: {
@@ -1345,6 +1515,7 @@ export const updateMultiAIResponse = mutation({
                 },
             },
         });
+        if (allComplete) await scheduleMessageEmbedding(ctx, args.messageId);
     },
 });
 
@@ -1391,6 +1562,7 @@ export const updatePrimaryResponse = mutation({
                 },
             },
         });
+        await scheduleMessageEmbedding(ctx, args.messageId);
 
         return { success: true };
     },
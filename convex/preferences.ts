@@ -6,12 +6,21 @@ import {
     internalMutation,
 } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { deleteContextSummaries } from "./contextWindow";
+import {
+    getUnlockedChatIds,
+    redactLockedChat,
+    unlockTokensArg,
+} from "./chatUnlock";
 import { sha256 } from "@oslojs/crypto/sha2";
 import { hmac } from "@oslojs/crypto/hmac";
 import { SHA256 } from "@oslojs/crypto/sha2";
 import { encodeBase64, decodeBase64 } from "@oslojs/encoding";
 import { generateRandomString } from "@oslojs/crypto/random";
 import type { RandomReader } from "@oslojs/crypto/random";
+import { deleteAnalyticsRollups } from "./analyticsRollups";
+import { deleteMessageEmbeddings } from "./semanticSearch";
+import { deleteUsageHistory } from "./usageLimits";
 
 // Oslo RandomReader for crypto operations
 const random: RandomReader = {
@@ -175,6 +184,7 @@ export const getUserPreferencesInternal = internalQuery({
         return (
             preferences || {
                 defaultModel: "gemini-2.0-flash",
+                fallbackModels: [] as string[],
                 theme: "dark",
                 chatTitleGeneration: "first-message", // Add default value
                 apiKeys: {},
@@ -256,6 +266,7 @@ export const getUserPreferences = query({
         return (
             preferences || {
                 defaultModel: "gemini-2.0-flash",
+                fallbackModels: [] as string[],
                 theme: "dark",
                 chatTitleGeneration: "first-message", // Add default value
                 apiKeys: {},
@@ -325,6 +336,7 @@ export const getUserPreferences = query({
 export const updatePreferences = mutation({
     args: {
         defaultModel: v.optional(v.string()),
+        fallbackModels: v.optional(v.array(v.string())),
         theme: v.optional(
             v.union(v.literal("light"), v.literal("dark"), v.literal("system"))
         ),
@@ -406,6 +418,13 @@ export const updatePreferences = mutation({
                 ),
                 promptEnhancement: v.optional(v.boolean()),
                 contextWindow: v.optional(v.number()),
+                contextStrategy: v.optional(
+                    v.union(
+                        v.literal("sliding_window"),
+                        v.literal("pinned"),
+                        v.literal("summarize")
+                    )
+                ),
                 topP: v.optional(v.number()),
                 frequencyPenalty: v.optional(v.number()),
                 presencePenalty: v.optional(v.number()),
@@ -523,9 +542,14 @@ export const deleteAllUserChats = mutation({
                 await ctx.db.delete(branch._id);
             }
 
+            await deleteContextSummaries(ctx, chat._id);
+            await deleteMessageEmbeddings(ctx, chat._id);
             await ctx.db.delete(chat._id);
         }
 
+        // Rollups only summarize these messages, so they go too
+        await deleteAnalyticsRollups(ctx, userId);
+
         return { deletedChats: chats.length };
     },
 });
@@ -559,6 +583,8 @@ export const deleteUserAccount = mutation({
                 await ctx.db.delete(branch._id);
             }
 
+            await deleteContextSummaries(ctx, chat._id);
+            await deleteMessageEmbeddings(ctx, chat._id);
             await ctx.db.delete(chat._id);
         }
 
@@ -572,6 +598,10 @@ export const deleteUserAccount = mutation({
             await ctx.db.delete(preferences._id);
         }
 
+        await deleteAnalyticsRollups(ctx, userId);
+
+        await deleteUsageHistory(ctx, userId);
+
         // Delete the user record itself (name, email, profile data)
         const user = await ctx.db.get(userId);
         if (user) {
@@ -615,25 +645,32 @@ export const getAllUserChats = query({
 
 // Add getSelectedChatsData function for export functionality
 export const getSelectedChatsData = query({
-    args: { chatIds: v.array(v.id("chats")) },
+    args: { chatIds: v.array(v.id("chats")), unlockTokens: unlockTokensArg },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) throw new Error("Not authenticated");
 
+        // Locked protected chats are exported without their messages
+        const unlocked = await getUnlockedChatIds(
+            ctx,
+            userId,
+            args.unlockTokens
+        );
         const chatsData = [];
         
         for (const chatId of args.chatIds) {
-            const chat = await ctx.db.get(chatId);
+            const rawChat = await ctx.db.get(chatId);
             
             // Verify user owns this chat
-            if (!chat || chat.userId !== userId) {
+            if (!rawChat || rawChat.userId !== userId) {
                 continue; // Skip chats the user doesn't own
             }
+            const chat = redactLockedChat(rawChat, unlocked);
 
             // Get all messages for this chat through the active branch
             let messages: any[] = [];
             
-            if (chat.activeBranchId) {
+            if (chat.activeBranchId && !chat.isLocked) {
                 const activeBranch = await ctx.db.get(chat.activeBranchId);
                 if (activeBranch) {
                     messages = await Promise.all(
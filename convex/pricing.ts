@@ -0,0 +1,143 @@
+import type { Doc } from "./_generated/dataModel";
+import { PROVIDER_CONFIGS } from "../src/lib/modelConfig";
+
+// Token prices (USD per 1M tokens) come from ModelInfo.pricing in
+// src/lib/modelConfig.ts, the same list the model picker shows
+type ModelPricing = {
+    provider: string;
+    input: number;
+    output: number;
+};
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {};
+for (const provider of Object.values(PROVIDER_CONFIGS)) {
+    for (const model of provider.models) {
+        const { input, output } = model.pricing ?? {};
+        if (input === undefined || output === undefined) continue;
+        MODEL_PRICING[model.id] = { provider: provider.id, input, output };
+    }
+}
+
+export type TokenUsage = {
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+};
+
+export type CostSource = "response" | "version" | "multi_ai";
+
+export type CostEntry = {
+    source: CostSource;
+    model: string;
+    provider: string;
+    cost: number; // USD
+    tokens: number;
+    timestamp: number;
+};
+
+/**
+ * AI SDK v5 reports inputTokens/outputTokens while older responses stored
+ * promptTokens/completionTokens - normalize to the schema's field names.
+ */
+export function normalizeUsage(usage: any): TokenUsage | undefined {
+    if (!usage || typeof usage !== "object") return undefined;
+
+    const promptTokens = usage.promptTokens ?? usage.inputTokens;
+    const completionTokens = usage.completionTokens ?? usage.outputTokens;
+    if (promptTokens === undefined && completionTokens === undefined) {
+        return undefined;
+    }
+
+    return {
+        promptTokens,
+        completionTokens,
+        totalTokens:
+            usage.totalTokens ?? (promptTokens ?? 0) + (completionTokens ?? 0),
+    };
+}
+
+// Dollar cost of one generation; unknown models are free rather than guessed
+export function calculateCost(
+    model: string | undefined,
+    usage: TokenUsage | undefined
+): number {
+    const pricing = model ? MODEL_PRICING[model] : undefined;
+    if (!pricing || !usage) return 0;
+
+    return (
+        ((usage.promptTokens ?? 0) * pricing.input +
+            (usage.completionTokens ?? 0) * pricing.output) /
+        1_000_000
+    );
+}
+
+export function getModelProvider(model: string): string {
+    return MODEL_PRICING[model]?.provider ?? "unknown";
+}
+
+/**
+ * Every billed generation stored on a message: the response itself (or each
+ * retried version when it has been retried) plus all multi-AI responses.
+ * Costs priced at generation time win over today's price list.
+ */
+export function getMessageCostEntries(message: Doc<"messages">): CostEntry[] {
+    const entries: CostEntry[] = [];
+
+    const add = (
+        source: CostSource,
+        fallbackModel: string | undefined,
+        responseMetadata: any,
+        timestamp: number
+    ) => {
+        const usage = normalizeUsage(responseMetadata?.usage);
+        if (!usage && responseMetadata?.cost === undefined) return;
+
+        const model = responseMetadata?.model ?? fallbackModel ?? "unknown";
+        entries.push({
+            source,
+            model,
+            provider: responseMetadata?.provider ?? getModelProvider(model),
+            cost: responseMetadata?.cost ?? calculateCost(model, usage),
+            tokens: usage?.totalTokens ?? 0,
+            timestamp,
+        });
+    };
+
+    const versions = message.messageVersions ?? [];
+    if (versions.length > 0) {
+        for (const version of versions) {
+            // The active version mirrors the message-level metadata
+            const responseMetadata =
+                version.responseMetadata ??
+                version.metadata?.responseMetadata ??
+                (version.isActive
+                    ? message.metadata?.responseMetadata
+                    : undefined);
+            add(
+                "version",
+                version.model ?? message.model,
+                responseMetadata,
+                version.timestamp
+            );
+        }
+    } else {
+        add(
+            "response",
+            message.model,
+            message.metadata?.responseMetadata,
+            message.timestamp
+        );
+    }
+
+    const multiAIResponses = message.metadata?.multiAIResponses?.responses ?? [];
+    for (const response of multiAIResponses) {
+        add(
+            "multi_ai",
+            response.model,
+            response.responseMetadata ?? response.metadata,
+            response.timestamp
+        );
+    }
+
+    return entries;
+}
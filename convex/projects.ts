@@ -1,6 +1,11 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+    getUnlockedChatIds,
+    redactLockedChat,
+    unlockTokensArg,
+} from "./chatUnlock";
 
 // Create default "General" project for new users
 export const createDefaultProject = mutation({
@@ -439,6 +444,8 @@ export const forkProject = mutation({
             for (const message of validMessages) {
                 const newMessageId = await ctx.db.insert("messages", {
                     branchId: mainBranchId, // Messages belong to branches now
+                    userId: userId,
+                    chatId: forkedChatId,
                     role: message.role,
                     content: message.content,
                     timestamp: message.timestamp,
@@ -530,7 +537,7 @@ export const moveChatToProject = mutation({
 
 // Enhanced backend functions for project and workspace export
 export const getProjectWithAllChats = query({
-    args: { projectId: v.id("projects") },
+    args: { projectId: v.id("projects"), unlockTokens: unlockTokensArg },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) throw new Error("Not authenticated");
@@ -540,18 +547,27 @@ export const getProjectWithAllChats = query({
             throw new Error("Project not found");
         }
 
-        // Get all chats in this project
-        const chats = await ctx.db
-            .query("chats")
-            .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-            .collect();
+        // Get all chats in this project - locked protected chats without messages
+        const unlocked = await getUnlockedChatIds(
+            ctx,
+            userId,
+            args.unlockTokens
+        );
+        const chats = (
+            await ctx.db
+                .query("chats")
+                .withIndex("by_project", (q) =>
+                    q.eq("projectId", args.projectId)
+                )
+                .collect()
+        ).map((chat) => redactLockedChat(chat, unlocked));
 
         // Get messages for each chat using new branching system
         const chatsWithMessages = [];
         for (const chat of chats) {
             // FIX: Get messages through branches instead of old index
             const activeBranchId = chat.activeBranchId;
-            if (!activeBranchId) {
+            if (!activeBranchId || chat.isLocked) {
                 chatsWithMessages.push({
                     chat,
                     messages: [],
@@ -618,8 +634,8 @@ export const getProjectWithAllChats = query({
 });
 
 export const getFullWorkspaceExport = query({
-    args: {},
-    handler: async (ctx) => {
+    args: { unlockTokens: unlockTokensArg },
+    handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
         if (!userId) throw new Error("Not authenticated");
 
@@ -629,11 +645,18 @@ export const getFullWorkspaceExport = query({
             .withIndex("by_user", (q) => q.eq("userId", userId))
             .collect();
 
-        // Get all chats
-        const chats = await ctx.db
-            .query("chats")
-            .withIndex("by_user", (q) => q.eq("userId", userId))
-            .collect();
+        // Get all chats - locked protected chats are exported without messages
+        const unlocked = await getUnlockedChatIds(
+            ctx,
+            userId,
+            args.unlockTokens
+        );
+        const chats = (
+            await ctx.db
+                .query("chats")
+                .withIndex("by_user", (q) => q.eq("userId", userId))
+                .collect()
+        ).map((chat) => redactLockedChat(chat, unlocked));
 
         // Get all messages for all chats using new branching system
         const allMessages = [];
@@ -642,7 +665,7 @@ export const getFullWorkspaceExport = query({
         for (const chat of chats) {
             // FIX: Get messages through branches instead of old index
             const activeBranchId = chat.activeBranchId;
-            if (!activeBranchId) {
+            if (!activeBranchId || chat.isLocked) {
                 chatsWithMessages.push({
                     chat,
                     messages: [],
@@ -1,6 +1,7 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
+import { EMBEDDING_DIMENSIONS } from "./embeddings";
 
 const applicationTables = {
     // Extended users table with shared content arrays
@@ -64,6 +65,7 @@ const applicationTables = {
                 topP: v.optional(v.number()),
                 frequencyPenalty: v.optional(v.number()),
                 presencePenalty: v.optional(v.number()),
+                enabledTools: v.optional(v.array(v.string())), // Server-side tools (see convex/ai/tools.ts)
             })
         ),
 
@@ -73,11 +75,35 @@ const applicationTables = {
         passwordSalt: v.optional(v.string()), // Salt for password hashing
         passwordHint: v.optional(v.string()), // Optional hint for password
         lastPasswordVerified: v.optional(v.number()), // Last time password was verified (session tracking)
+        // Messages encrypted in the browser with a key derived from the password (see convex/chatEncryption.ts)
+        encryption: v.optional(
+            v.object({
+                version: v.literal(1),
+                kdf: v.literal("PBKDF2-SHA256"),
+                iterations: v.number(),
+                salt: v.string(),
+                keyCheck: v.string(),
+            })
+        ),
 
         // NEW BRANCHING SYSTEM FIELDS - Phase 1
         activeBranchId: v.optional(v.id("branches")), // Current active branch
         baseMessages: v.optional(v.array(v.id("messages"))), // Shared conversation history
         activeMessages: v.optional(v.array(v.id("messages"))), // Computed: baseMessages + activeBranch.messages
+
+        // Imported from another tool (see convex/imports.ts)
+        importSource: v.optional(
+            v.union(
+                v.literal("chatgpt"),
+                v.literal("claude"),
+                v.literal("3tee")
+            )
+        ),
+        importExternalId: v.optional(v.string()), // Conversation id in the source archive
+        importedAt: v.optional(v.number()),
+
+        // Started from a custom assistant (see convex/assistants.ts)
+        assistantId: v.optional(v.id("assistants")),
     })
         .index("by_user", ["userId"])
         .index("by_user_and_starred", ["userId", "isStarred"])
@@ -86,7 +112,74 @@ const applicationTables = {
         .index("by_project", ["projectId"])
         .index("by_share_id", ["shareId"])
         .index("by_public", ["isPublic"])
-        .index("by_active_branch", ["activeBranchId"]), // New index for efficient branch queries
+        .index("by_active_branch", ["activeBranchId"]) // New index for efficient branch queries
+        .index("by_user_import", ["userId", "importSource", "importExternalId"]) // Duplicate detection on re-import
+        .index("by_assistant", ["assistantId"])
+        .searchIndex("search_title", {
+            searchField: "title",
+            filterFields: ["userId", "model", "isArchived", "isStarred", "isTemporary"],
+        }),
+
+    // Custom assistants ("custom GPTs") - Phase 5
+    assistants: defineTable({
+        userId: v.id("users"),
+        name: v.string(),
+        description: v.optional(v.string()),
+        avatar: v.optional(v.string()), // Emoji shown in place of the model icon
+        instructions: v.string(), // System prompt for every chat started from it
+        defaultModel: v.string(),
+        aiSettings: v.optional(
+            v.object({
+                temperature: v.optional(v.number()),
+                maxTokens: v.optional(v.number()),
+                responseMode: v.optional(
+                    v.union(
+                        v.literal("balanced"),
+                        v.literal("concise"),
+                        v.literal("detailed"),
+                        v.literal("creative"),
+                        v.literal("analytical"),
+                        v.literal("friendly"),
+                        v.literal("professional")
+                    )
+                ),
+                topP: v.optional(v.number()),
+                frequencyPenalty: v.optional(v.number()),
+                presencePenalty: v.optional(v.number()),
+                enabledTools: v.optional(v.array(v.string())),
+            })
+        ),
+        // Pinned library items sent as context with every message
+        knowledge: v.optional(
+            v.array(
+                v.object({
+                    type: v.union(
+                        v.literal("attachment"),
+                        v.literal("artifact"),
+                        v.literal("media")
+                    ),
+                    id: v.string(),
+                    name: v.string(),
+                    size: v.optional(v.number()),
+                    mimeType: v.optional(v.string()),
+                })
+            )
+        ),
+        allowedCommands: v.optional(v.array(v.string())), // e.g. ["/search"]; unset allows all
+        createdAt: v.number(),
+        updatedAt: v.number(),
+        // Sharing support (same shareId pattern as chats/projects)
+        shareId: v.optional(v.string()),
+        isPublic: v.optional(v.boolean()),
+        sharedAt: v.optional(v.number()),
+        viewCount: v.optional(v.number()),
+        // Forking support
+        parentAssistantId: v.optional(v.id("assistants")),
+        forkedAt: v.optional(v.number()),
+    })
+        .index("by_user", ["userId"])
+        .index("by_user_updated", ["userId", "updatedAt"])
+        .index("by_share_id", ["shareId"]),
 
     // NEW BRANCHES TABLE - Phase 1
     branches: defineTable({
@@ -139,6 +232,9 @@ const applicationTables = {
     messages: defineTable({
         // Messages now belong to branches, not directly to chats
         branchId: v.id("branches"), // Required field - messages belong to branches
+        // Denormalized from branch -> chat so search can filter without joins
+        userId: v.optional(v.id("users")), // Owner of the chat
+        chatId: v.optional(v.id("chats")),
         role: v.union(
             v.literal("user"),
             v.literal("assistant"),
@@ -160,9 +256,24 @@ const applicationTables = {
         timestamp: v.number(),
         model: v.optional(v.string()),
         isStreaming: v.optional(v.boolean()),
+        isCancelled: v.optional(v.boolean()), // Stop requested by the user while streaming
         // Simple resumable streaming support
         streamPosition: v.optional(v.number()), // Total characters streamed by backend
         parentMessageId: v.optional(v.id("messages")),
+        // Always sent to the model under the "pinned" context strategy
+        isPinned: v.optional(v.boolean()),
+        // Hidden system message holding a rolling summary of the history up
+        // to and including throughMessageId. Kept out of branch message
+        // lists and search (no top-level userId/chatId); see
+        // convex/contextWindow.ts
+        contextSummary: v.optional(
+            v.object({
+                chatId: v.id("chats"),
+                throughMessageId: v.id("messages"),
+                coversUntil: v.number(), // Timestamp of throughMessageId
+                summarizedCount: v.number(),
+            })
+        ),
 
         // NEW BRANCHING SYSTEM FIELDS - Phase 1
         branches: v.optional(v.array(v.id("branches"))), // Array of branch IDs this message appears in
@@ -194,6 +305,7 @@ const applicationTables = {
                             model: v.optional(v.string()),
                             provider: v.optional(v.string()),
                             requestId: v.optional(v.string()),
+                            cost: v.optional(v.number()), // USD, priced when the response finished
                         })
                     ),
                 })
@@ -254,6 +366,7 @@ const applicationTables = {
                             startIndex: v.optional(v.number()),
                             endIndex: v.optional(v.number()),
                             citedText: v.optional(v.string()),
+                            page: v.optional(v.number()), // Knowledge-base sources
                         })
                     )
                 ),
@@ -308,6 +421,7 @@ const applicationTables = {
                                         model: v.optional(v.string()),
                                         provider: v.optional(v.string()),
                                         requestId: v.optional(v.string()),
+                                        cost: v.optional(v.number()), // USD, priced when the response finished
                                     })
                                 ),
                             })
@@ -315,6 +429,23 @@ const applicationTables = {
                         primaryResponseId: v.optional(v.string()), // ID of the currently selected primary response
                     })
                 ),
+                // Tool calling - each tool call and its result, in step order
+                toolInvocations: v.optional(
+                    v.array(
+                        v.object({
+                            toolCallId: v.string(),
+                            toolName: v.string(),
+                            input: v.any(),
+                            output: v.optional(v.any()),
+                            state: v.union(
+                                v.literal("result"),
+                                v.literal("error")
+                            ),
+                            error: v.optional(v.string()),
+                            step: v.number(),
+                        })
+                    )
+                ),
                 // Add response metadata tracking at the message level
                 responseMetadata: v.optional(
                     v.object({
@@ -330,6 +461,9 @@ const applicationTables = {
                         model: v.optional(v.string()),
                         provider: v.optional(v.string()),
                         requestId: v.optional(v.string()),
+                        cost: v.optional(v.number()), // USD, priced when the response finished
+                        requestedModel: v.optional(v.string()), // Set when a fallback model answered
+                        attempts: v.optional(v.number()), // Provider calls, including retries and fallbacks
                     })
                 ),
             })
@@ -351,11 +485,41 @@ const applicationTables = {
         .index("by_parent", ["parentMessageId"])
         .index("by_contributor", ["contributorId"])
         .index("by_stream_session", ["streamSession.sessionId"])
-        .index("by_active_branch", ["activeBranchId"]), // Index for branch navigation
+        .index("by_active_branch", ["activeBranchId"]) // Index for branch navigation
+        .index("by_user_timestamp", ["userId", "timestamp"]) // Spend analytics
+        .index("by_context_summary", [
+            "contextSummary.chatId",
+            "contextSummary.coversUntil",
+        ])
+        .searchIndex("search_content", {
+            searchField: "content",
+            filterFields: ["userId", "chatId", "role", "model"],
+        }),
+
+    // Message vectors for semantic chat search (see semanticSearch.ts)
+    messageEmbeddings: defineTable({
+        messageId: v.id("messages"),
+        userId: v.id("users"),
+        chatId: v.id("chats"),
+        model: v.string(), // Vectors of different models aren't comparable
+        // `${userId}|${model}` - vector search filters can't combine two fields
+        scope: v.string(),
+        embedding: v.array(v.float64()),
+        createdAt: v.number(),
+    })
+        .index("by_message", ["messageId"])
+        .index("by_chat", ["chatId"])
+        .vectorIndex("by_embedding", {
+            vectorField: "embedding",
+            dimensions: EMBEDDING_DIMENSIONS,
+            filterFields: ["scope"],
+        }),
 
     preferences: defineTable({
         userId: v.id("users"),
         defaultModel: v.optional(v.string()),
+        // Tried in order when the requested model keeps failing
+        fallbackModels: v.optional(v.array(v.string())),
         theme: v.optional(
             v.union(v.literal("light"), v.literal("dark"), v.literal("system"))
         ),
@@ -826,6 +990,14 @@ const applicationTables = {
                 ), // Response style mode
                 promptEnhancement: v.optional(v.boolean()), // 1-click prompt enhancement
                 contextWindow: v.optional(v.number()), // Context window size
+                // How history is trimmed to fit the context window
+                contextStrategy: v.optional(
+                    v.union(
+                        v.literal("sliding_window"),
+                        v.literal("pinned"),
+                        v.literal("summarize")
+                    )
+                ),
                 topP: v.optional(v.number()), // Nucleus sampling (0.0 to 1.0)
                 frequencyPenalty: v.optional(v.number()), // Frequency penalty (0.0 to 2.0)
                 presencePenalty: v.optional(v.number()), // Presence penalty (0.0 to 2.0)
@@ -842,8 +1014,59 @@ const applicationTables = {
                 sessionTimeoutEnabled: v.optional(v.boolean()), // Whether to enable session timeout (default true)
             })
         ),
+
+        // Spending budgets and request rate limits, checked before every provider call
+        usageLimits: v.optional(
+            v.object({
+                budgets: v.array(
+                    v.object({
+                        provider: v.optional(v.string()), // Unset = all providers
+                        period: v.union(
+                            v.literal("daily"),
+                            v.literal("monthly")
+                        ), // Calendar day / month in UTC
+                        unit: v.union(v.literal("usd"), v.literal("tokens")),
+                        limit: v.number(),
+                    })
+                ),
+                requestsPerMinute: v.optional(v.number()),
+                requestsPerHour: v.optional(v.number()),
+            })
+        ),
     }).index("by_user", ["userId"]),
 
+    // Request log behind the usage rate limits: one row per provider call,
+    // kept for a day (convex/usageLimits.ts)
+    usageEvents: defineTable({
+        userId: v.id("users"),
+        source: v.union(
+            v.literal("chat"),
+            v.literal("multi_ai"),
+            v.literal("enhance"),
+            v.literal("canvas_edit"),
+            v.literal("context_summary"),
+            v.literal("knowledge_base"),
+            v.literal("semantic_search")
+        ),
+        model: v.string(),
+        provider: v.string(),
+        timestamp: v.number(),
+    })
+        .index("by_user_timestamp", ["userId", "timestamp"])
+        .index("by_timestamp", ["timestamp"]),
+
+    // Running spend per user, UTC day and provider that the usage budgets
+    // sum over - a month is at most a few dozen rows per user
+    usageTotals: defineTable({
+        userId: v.id("users"),
+        dayStart: v.number(), // UTC midnight
+        provider: v.string(),
+        tokens: v.number(),
+        cost: v.number(), // USD
+    })
+        .index("by_user_day", ["userId", "dayStart", "provider"])
+        .index("by_day", ["dayStart"]),
+
     // Enhanced artifacts table with provider file tracking
     artifacts: defineTable({
         messageId: v.id("messages"),
@@ -858,6 +1081,7 @@ const applicationTables = {
         createdAt: v.number(),
         updatedAt: v.number(),
         editCount: v.optional(v.number()),
+        currentRevision: v.optional(v.number()), // Latest artifactRevisions.revision (unset = history not started)
         isPreviewable: v.optional(v.boolean()), // Can be previewed (HTML/JS/React/Markdown)
 
         // LIBRARY MANAGEMENT - New fields for library functionality
@@ -888,6 +1112,24 @@ const applicationTables = {
         .index("by_user_updated", ["userId", "updatedAt"])
         .index("by_reference_count", ["referenceCount"]),
 
+    // Every saved state of an artifact, numbered from 1 (the original)
+    artifactRevisions: defineTable({
+        artifactId: v.id("artifacts"),
+        userId: v.id("users"),
+        revision: v.number(),
+        content: v.string(),
+        source: v.union(
+            v.literal("ai"), // Generated or regenerated by a canvas response
+            v.literal("user"), // Edited in the Canvas
+            v.literal("restore") // Copy of an earlier revision
+        ),
+        messageId: v.optional(v.id("messages")), // Response that produced an "ai" revision
+        restoredFrom: v.optional(v.number()),
+        instruction: v.optional(v.string()), // What the user asked for in an "edit with AI"
+        createdAt: v.number(),
+        updatedAt: v.number(), // Later than createdAt when quick edits were merged in
+    }).index("by_artifact_revision", ["artifactId", "revision"]),
+
     // NEW: Attachment Library table for managing uploaded files
     attachmentLibrary: defineTable({
         userId: v.id("users"),
@@ -933,6 +1175,27 @@ const applicationTables = {
                 wordCount: v.optional(v.number()),
             })
         ),
+
+        // Knowledge-base mode: the file is chunked and embedded into
+        // knowledgeChunks, and chats get its most relevant passages instead
+        // of the whole file
+        knowledgeBase: v.optional(
+            v.object({
+                status: v.union(
+                    v.literal("indexing"),
+                    v.literal("ready"),
+                    v.literal("failed")
+                ),
+                embeddingModel: v.string(),
+                chunkCount: v.optional(v.number()),
+                pageCount: v.optional(v.number()),
+                error: v.optional(v.string()),
+                startedAt: v.number(),
+                indexedAt: v.optional(v.number()),
+                // Chats in these projects search the item without referencing it
+                projectIds: v.optional(v.array(v.id("projects"))),
+            })
+        ),
     })
         .index("by_user", ["userId"])
         .index("by_user_favorited", ["userId", "isFavorited"])
@@ -942,6 +1205,23 @@ const applicationTables = {
         .index("by_last_used", ["lastUsedAt"])
         .index("by_storage_id", ["storageId"]),
 
+    // Embedded passages of knowledge-base library items (see knowledgeBase.ts)
+    knowledgeChunks: defineTable({
+        userId: v.id("users"),
+        attachmentId: v.id("attachmentLibrary"),
+        chunkIndex: v.number(),
+        text: v.string(),
+        pageNumber: v.optional(v.number()), // PDFs only
+        embedding: v.array(v.float64()),
+        createdAt: v.number(),
+    })
+        .index("by_attachment", ["attachmentId", "chunkIndex"])
+        .vectorIndex("by_embedding", {
+            vectorField: "embedding",
+            dimensions: EMBEDDING_DIMENSIONS,
+            filterFields: ["userId", "attachmentId"],
+        }),
+
     // NEW: Media Library table for AI-generated content
     mediaLibrary: defineTable({
         userId: v.id("users"),
@@ -1007,6 +1287,54 @@ const applicationTables = {
         .index("by_source_chat", ["sourceChatId"])
         .index("by_reference_count", ["referenceCount"]),
 
+    // Daily per-user analytics aggregates (UTC days), maintained by
+    // convex/analyticsRollups.ts so dashboards don't scan messages
+    analytics_rollups: defineTable({
+        userId: v.id("users"),
+        dayStart: v.number(), // UTC midnight
+        userMessages: v.number(),
+        assistantMessages: v.number(),
+        systemMessages: v.number(),
+        totalLength: v.number(), // Characters across all messages
+        longestMessage: v.number(),
+        // Messages per UTC hour (24 buckets) by role
+        hourlyActivity: v.object({
+            user: v.array(v.number()),
+            assistant: v.array(v.number()),
+            system: v.array(v.number()),
+        }),
+        responseTimeTotal: v.number(), // in milliseconds
+        responseTimeCount: v.number(),
+        fastestResponse: v.optional(v.number()),
+        slowestResponse: v.optional(v.number()),
+        commands: v.array(
+            v.object({ command: v.string(), count: v.number() })
+        ),
+        models: v.array(v.object({ model: v.string(), count: v.number() })),
+        multiAIMessages: v.number(),
+        multiAIModels: v.number(), // Selected models summed over multi-AI messages
+        modelCombinations: v.array(
+            v.object({ models: v.array(v.string()), count: v.number() })
+        ),
+        chats: v.array(
+            v.object({ chatId: v.id("chats"), messages: v.number() })
+        ),
+        // Priced generations grouped by chat and model
+        costs: v.array(
+            v.object({
+                chatId: v.optional(v.id("chats")),
+                model: v.string(),
+                provider: v.string(),
+                cost: v.number(), // USD
+                tokens: v.number(),
+                count: v.number(),
+            })
+        ),
+        totalTokens: v.number(),
+        totalCost: v.number(), // USD
+        updatedAt: v.number(),
+    }).index("by_user_day", ["userId", "dayStart"]),
+
     // NEW: Analytics Sharing table
     analytics_shares: defineTable({
         id: v.string(), // Share ID (UUID)
@@ -1063,6 +1391,64 @@ const applicationTables = {
         .index("by_status", ["status"])
         .index("by_content_type", ["contentType"])
         .index("by_expires_at", ["expiresAt"]),
+
+    // Device details for @convex-dev/auth sessions (authSessions), used by
+    // the "Active Sessions" settings panel for remote sign out
+    sessionMetadata: defineTable({
+        sessionId: v.id("authSessions"),
+        userId: v.id("users"),
+        deviceInfo: v.string(), // Raw user agent
+        deviceName: v.string(), // Friendly name derived from the user agent
+        ipAddress: v.optional(v.string()),
+        lastActivity: v.number(),
+        createdAt: v.number(),
+    })
+        .index("by_session", ["sessionId"])
+        .index("by_user", ["userId"]),
+
+    // Short-lived unlock tokens for password protected chats, issued by
+    // chats.verifyPasswordProtection (see convex/chatUnlock.ts). Only the
+    // SHA-256 of the token is stored.
+    chatUnlockTokens: defineTable({
+        userId: v.id("users"),
+        chatId: v.id("chats"),
+        tokenHash: v.string(),
+        createdAt: v.number(),
+        expiresAt: v.number(),
+    })
+        .index("by_token_hash", ["tokenHash"])
+        .index("by_chat", ["chatId"])
+        .index("by_expires_at", ["expiresAt"]),
+
+    // Failed chat password attempts (see convex/chatPasswords.ts). One row
+    // per chat, plus one per user with no chatId counting across all chats.
+    passwordAttempts: defineTable({
+        userId: v.id("users"),
+        chatId: v.optional(v.id("chats")),
+        failedAttempts: v.number(),
+        lastFailedAt: v.number(),
+        lockedUntil: v.optional(v.number()),
+    })
+        .index("by_user_chat", ["userId", "chatId"])
+        .index("by_last_failed_at", ["lastFailedAt"]),
+
+    // Chat password activity, reviewable in Settings > Security
+    passwordAuditEvents: defineTable({
+        userId: v.id("users"),
+        chatId: v.id("chats"),
+        event: v.union(
+            v.literal("unlock"),
+            v.literal("failed_attempt"),
+            v.literal("locked_out"),
+            v.literal("password_set"),
+            v.literal("password_changed"),
+            v.literal("password_removed")
+        ),
+        lockedUntil: v.optional(v.number()), // locked_out only
+        createdAt: v.number(),
+    })
+        .index("by_user_created", ["userId", "createdAt"])
+        .index("by_created_at", ["createdAt"]),
 };
 
 export default defineSchema({
@@ -1,160 +1,294 @@
-import { query } from "./_generated/server";
-import { v } from "convex/values";
+import { query, internalMutation } from "./_generated/server";
+import { v, type Infer } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
-import type { Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import {
+  getUnlockedChatIds,
+  isChatLocked,
+  unlockTokenArg,
+  unlockTokensArg,
+} from "./chatUnlock";
 
-// Phase 3: Message-level search within a single chat (active branch + base messages)
+// Full-text search over the `search_content` (messages) and `search_title`
+// (chats) search indexes. Convex returns hits in relevance order, so that
+// order is the ranking. Search filters only support equality - timestamp
+// ranges are applied to each page after the search.
+
+const SNIPPET_RADIUS = 80;
+const BACKFILL_BATCH_SIZE = 200;
+
+export const searchHighlight = v.object({
+  start: v.number(),
+  end: v.number(),
+});
+
+export const searchSnippet = v.object({
+  text: v.string(),
+  highlights: v.array(searchHighlight), // Offsets into `text`
+});
+
+export type SearchHighlight = Infer<typeof searchHighlight>;
+export type SearchSnippet = Infer<typeof searchSnippet>;
+
+const messageRole = v.union(
+  v.literal("user"),
+  v.literal("assistant"),
+  v.literal("system")
+);
+
+function searchTerms(searchQuery: string): string[] {
+  return searchQuery
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Ranges of `text` matching the query terms at the start of a word (the
+ * search index matches whole terms, and the last term as a prefix).
+ */
+export function highlightRanges(
+  text: string,
+  searchQuery: string
+): SearchHighlight[] {
+  const terms = searchTerms(searchQuery).sort((a, b) => b.length - a.length);
+  if (!terms.length) return [];
+
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})`,
+    "giu"
+  );
+  const ranges: SearchHighlight[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    ranges.push({ start, end: start + match[0].length });
+  }
+  return ranges;
+}
+
+/**
+ * Window of `content` around the first hit, with highlight offsets relative
+ * to the returned text. Falls back to the start of the content.
+ */
+export function buildSnippet(
+  content: string,
+  searchQuery: string,
+  radius: number = SNIPPET_RADIUS
+): SearchSnippet {
+  const ranges = highlightRanges(content, searchQuery);
+  const anchor = ranges[0]?.start ?? 0;
+
+  let start = Math.max(0, anchor - radius);
+  if (start > 0) {
+    // Don't cut the first word in half
+    const space = content.indexOf(" ", start);
+    if (space !== -1 && space < anchor) start = space + 1;
+  }
+  const end = Math.min(content.length, start + radius * 2);
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < content.length ? "…" : "";
+  const text = prefix + content.slice(start, end) + suffix;
+
+  const highlights = ranges
+    .filter((range) => range.start >= start && range.start < end)
+    .map((range) => ({
+      start: range.start - start + prefix.length,
+      end: Math.min(range.end, end) - start + prefix.length,
+    }));
+
+  return { text, highlights };
+}
+
+function timestampInRange(
+  timestamp: number,
+  since: number | undefined,
+  until: number | undefined
+) {
+  return (
+    (since === undefined || timestamp >= since) &&
+    (until === undefined || timestamp <= until)
+  );
+}
+
+// Phase 3: Message-level search within a single chat (all branches, ranked)
 export const searchMessagesInChat = query({
   args: {
     chatId: v.id("chats"),
     query: v.string(),
-    limit: v.optional(v.number()),
+    role: v.optional(messageRole),
+    paginationOpts: paginationOptsValidator,
+    unlockToken: unlockTokenArg,
   },
-  returns: v.array(
-    v.object({
-      messageId: v.id("messages"),
-      chatId: v.id("chats"),
-      role: v.string(),
-      timestamp: v.number(),
-      snippet: v.string(),
-      fullMatch: v.boolean(),
-    })
-  ),
-  handler: async (ctx, { chatId, query: searchQuery, limit }) => {
+  returns: v.object({
+    page: v.array(
+      v.object({
+        messageId: v.id("messages"),
+        chatId: v.id("chats"),
+        branchId: v.id("branches"),
+        role: v.string(),
+        timestamp: v.number(),
+        snippet: searchSnippet,
+        fullMatch: v.boolean(),
+      })
+    ),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+  }),
+  handler: async (
+    ctx,
+    { chatId, query: searchQuery, role, paginationOpts, unlockToken }
+  ) => {
+    const empty = { page: [], isDone: true, continueCursor: "" };
     const userId = await getAuthUserId(ctx);
-    if (!userId) return [];
+    if (!userId) return empty;
     const q = searchQuery.trim();
-    if (!q) return [];
-    const qLower = q.toLowerCase();
+    if (!q) return empty;
 
     const chat = await ctx.db.get(chatId);
-    if (!chat || (chat.userId !== userId && !chat.isPublic)) return [];
-
-    // Collect message ids from base + active branch
-    const baseIds = (chat.baseMessages || []) as Id<"messages">[];
-    let branchIds: Id<"messages">[] = [];
-    if (chat.activeBranchId) {
-      const branch = await ctx.db.get(chat.activeBranchId);
-      if (branch) branchIds = (branch.messages || []) as Id<"messages">[];
-    }
-    const allIds = [...baseIds, ...branchIds];
-
-    const messages = await Promise.all(allIds.map((id) => ctx.db.get(id)));
-    const results: Array<{
-      messageId: Id<"messages">;
-      chatId: Id<"chats">;
-      role: string;
-      timestamp: number;
-      snippet: string;
-      fullMatch: boolean;
-    }> = [];
-
-    for (const m of messages) {
-      if (!m) continue;
-      const content: string = (m as any).content || "";
-      const lower = content.toLowerCase();
-      const idx = lower.indexOf(qLower);
-      if (idx !== -1) {
-        const start = Math.max(0, idx - 60);
-        const end = Math.min(content.length, idx + q.length + 60);
-        const snippet = content.slice(start, end);
-        results.push({
-          messageId: (m as any)._id,
-          chatId: chat._id,
-          role: (m as any).role || "user",
-          timestamp: (m as any).timestamp || (m as any)._creationTime,
-          snippet,
-          fullMatch: content.trim().length === q.trim().length,
-        });
-      }
-      if (limit && results.length >= limit) break;
-    }
+    if (!chat || (chat.userId !== userId && !chat.isPublic)) return empty;
+    if (await isChatLocked(ctx, chat, userId, unlockToken)) return empty;
+
+    const results = await ctx.db
+      .query("messages")
+      .withSearchIndex("search_content", (search) => {
+        const filtered = search.search("content", q).eq("chatId", chatId);
+        return role ? filtered.eq("role", role) : filtered;
+      })
+      .paginate(paginationOpts);
 
-    // Sort by timestamp asc, then earliest match
-    results.sort((a, b) => a.timestamp - b.timestamp);
-    return results;
+    return {
+      page: results.page.map((m) => ({
+        messageId: m._id,
+        chatId,
+        branchId: m.branchId,
+        role: m.role,
+        timestamp: m.timestamp,
+        snippet: buildSnippet(m.content, q),
+        fullMatch: m.content.trim().toLowerCase() === q.toLowerCase(),
+      })),
+      isDone: results.isDone,
+      continueCursor: results.continueCursor,
+    };
   },
 });
 
-// Phase 3: Global user message search across all own chats (active branches only)
+// Phase 3: Global user message search across all own chats (ranked, paginated)
 export const searchUserMessages = query({
   args: {
     query: v.string(),
-    limit: v.optional(v.number()),
+    role: v.optional(messageRole),
+    model: v.optional(v.string()),
+    since: v.optional(v.number()),
+    until: v.optional(v.number()),
+    paginationOpts: paginationOptsValidator,
+    unlockTokens: unlockTokensArg,
   },
-  returns: v.array(
-    v.object({
-      messageId: v.id("messages"),
-      chatId: v.id("chats"),
-      chatTitle: v.string(),
-      role: v.string(),
-      timestamp: v.number(),
-      snippet: v.string(),
-      score: v.number(),
-    })
-  ),
-  handler: async (ctx, { query: searchQuery, limit }) => {
+  returns: v.object({
+    page: v.array(
+      v.object({
+        messageId: v.id("messages"),
+        chatId: v.id("chats"),
+        branchId: v.id("branches"),
+        chatTitle: v.string(),
+        role: v.string(),
+        model: v.optional(v.string()),
+        timestamp: v.number(),
+        snippet: searchSnippet,
+      })
+    ),
+    isDone: v.boolean(),
+    continueCursor: v.string(),
+  }),
+  handler: async (ctx, args) => {
+    const empty = { page: [], isDone: true, continueCursor: "" };
     const userId = await getAuthUserId(ctx);
-    if (!userId) return [];
-    const q = searchQuery.trim();
-    if (!q) return [];
-    const qLower = q.toLowerCase();
-    const max = limit ?? 50;
-
-    const chats = await ctx.db
-      .query("chats")
-      .withIndex("by_user", (q) => q.eq("userId", userId))
-      .order("desc")
-      .collect();
-
-    const results: Array<{
-      messageId: Id<"messages">;
-      chatId: Id<"chats">;
-      chatTitle: string;
-      role: string;
-      timestamp: number;
-      snippet: string;
-      score: number;
-    }> = [];
-
-    for (const chat of chats) {
-      const baseIds = (chat.baseMessages || []) as Id<"messages">[];
-      let branchIds: Id<"messages">[] = [];
-      if (chat.activeBranchId) {
-        const branch = await ctx.db.get(chat.activeBranchId);
-        if (branch) branchIds = (branch.messages || []) as Id<"messages">[];
-      }
-      const allIds = [...baseIds, ...branchIds];
-      if (!allIds.length) continue;
-
-      const messages = await Promise.all(allIds.map((id) => ctx.db.get(id)));
-      for (const m of messages) {
-        if (!m) continue;
-        const content: string = (m as any).content || "";
-        const lower = content.toLowerCase();
-        const idx = lower.indexOf(qLower);
-        if (idx !== -1) {
-          const start = Math.max(0, idx - 60);
-          const end = Math.min(content.length, idx + q.length + 60);
-          const snippet = content.slice(start, end);
-          const distanceFromEnd = content.length - (idx + q.length);
-          const score = 100 - Math.min(90, idx) - Math.min(10, Math.log10(allIds.length + 1) * 4) - Math.min(20, distanceFromEnd / 10);
-          results.push({
-            messageId: (m as any)._id,
-            chatId: chat._id,
-            chatTitle: chat.title,
-            role: (m as any).role || "user",
-            timestamp: (m as any).timestamp || (m as any)._creationTime,
-            snippet,
-            score: Number(score.toFixed(2)),
-          });
-        }
-        if (results.length >= max) break;
-      }
-      if (results.length >= max) break;
+    if (!userId) return empty;
+    const q = args.query.trim();
+    if (!q) return empty;
+
+    const results = await ctx.db
+      .query("messages")
+      .withSearchIndex("search_content", (search) => {
+        let filtered = search.search("content", q).eq("userId", userId);
+        if (args.role) filtered = filtered.eq("role", args.role);
+        if (args.model) filtered = filtered.eq("model", args.model);
+        return filtered;
+      })
+      .paginate(args.paginationOpts);
+
+    // Hits in locked password protected chats are left out of the page
+    const unlocked = await getUnlockedChatIds(ctx, userId, args.unlockTokens);
+
+    const page = [];
+    for (const m of results.page) {
+      if (!m.chatId) continue;
+      if (!timestampInRange(m.timestamp, args.since, args.until)) continue;
+      const chat = await ctx.db.get(m.chatId);
+      if (!chat || chat.userId !== userId) continue;
+      if (chat.isPasswordProtected && !unlocked.has(chat._id)) continue;
+      page.push({
+        messageId: m._id,
+        chatId: chat._id,
+        branchId: m.branchId,
+        chatTitle: chat.title,
+        role: m.role,
+        model: m.model,
+        timestamp: m.timestamp,
+        snippet: buildSnippet(m.content, q),
+      });
     }
 
-    results.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
-    return results;
+    return {
+      page,
+      isDone: results.isDone,
+      continueCursor: results.continueCursor,
+    };
+  },
+});
+
+/**
+ * Fill in the denormalized `userId` / `chatId` on messages created before the
+ * search index existed. Walks the table in batches and reschedules itself:
+ *   npx convex run search:backfillMessageSearchFields
+ */
+export const backfillMessageSearchFields = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  returns: v.null(),
+  handler: async (ctx, { cursor }) => {
+    const batch = await ctx.db
+      .query("messages")
+      .paginate({ cursor: cursor ?? null, numItems: BACKFILL_BATCH_SIZE });
+
+    let updated = 0;
+    for (const message of batch.page) {
+      if (message.userId && message.chatId) continue;
+      const branch = await ctx.db.get(message.branchId);
+      const chat = branch ? await ctx.db.get(branch.chatId) : null;
+      if (!chat) continue;
+      await ctx.db.patch(message._id, { userId: chat.userId, chatId: chat._id });
+      updated++;
+    }
+
+    console.log("🔎 SEARCH BACKFILL BATCH:", {
+      scanned: batch.page.length,
+      updated,
+      isDone: batch.isDone,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillMessageSearchFields, {
+        cursor: batch.continueCursor,
+      });
+    }
+    return null;
   },
 });
@@ -0,0 +1,185 @@
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+    internalMutation,
+    internalQuery,
+    mutation,
+    type MutationCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { isEncryptedContent } from "./chatEncryption";
+
+// Semantic chat search. Finished messages are embedded in the background
+// (semanticSearchActions.embedMessage) into messageEmbeddings; the search
+// action embeds the query and hands the nearest messages to
+// chats.advancedSearch, which blends them with its keyword ranking.
+//
+// Encrypted messages are never embedded - a vector of the plaintext would
+// leak what the encryption hides.
+
+// Roughly the embedding model's input limit; the start of a message is enough
+export const MAX_EMBEDDED_CHARS = 8000;
+const BACKFILL_BATCH_SIZE = 50;
+
+// Vector filters match one field, so owner and model are combined
+export function embeddingScope(userId: Id<"users">, model: string) {
+    return `${userId}|${model}`;
+}
+
+function isEmbeddable(message: Doc<"messages">) {
+    return (
+        message.role !== "system" &&
+        !message.isStreaming &&
+        !!message.userId &&
+        !!message.chatId &&
+        message.content.trim().length > 0 &&
+        !isEncryptedContent(message.content)
+    );
+}
+
+// Call when a message's content is final (sent, generated or edited)
+export async function scheduleMessageEmbedding(
+    ctx: MutationCtx,
+    messageId: Id<"messages">
+) {
+    await ctx.scheduler.runAfter(
+        0,
+        internal.semanticSearchActions.embedMessage,
+        { messageId }
+    );
+}
+
+// Call when a chat is deleted or encrypted
+export async function deleteMessageEmbeddings(
+    ctx: MutationCtx,
+    chatId: Id<"chats">
+) {
+    const embeddings = await ctx.db
+        .query("messageEmbeddings")
+        .withIndex("by_chat", (q) => q.eq("chatId", chatId))
+        .collect();
+    for (const embedding of embeddings) {
+        await ctx.db.delete(embedding._id);
+    }
+}
+
+export const getMessageForEmbeddingInternal = internalQuery({
+    args: { messageId: v.id("messages") },
+    handler: async (ctx, args) => {
+        const message = await ctx.db.get(args.messageId);
+        if (!message || !isEmbeddable(message)) return null;
+        return {
+            userId: message.userId!,
+            chatId: message.chatId!,
+            content: message.content.slice(0, MAX_EMBEDDED_CHARS),
+        };
+    },
+});
+
+// Upserts the message's vector; the content it was computed from may have
+// changed since, in which case the later scheduled run overwrites it
+export const storeMessageEmbedding = internalMutation({
+    args: {
+        messageId: v.id("messages"),
+        model: v.string(),
+        embedding: v.array(v.float64()),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const message = await ctx.db.get(args.messageId);
+        const existing = await ctx.db
+            .query("messageEmbeddings")
+            .withIndex("by_message", (q) => q.eq("messageId", args.messageId))
+            .unique();
+        if (!message || !isEmbeddable(message)) {
+            if (existing) await ctx.db.delete(existing._id);
+            return null;
+        }
+
+        const fields = {
+            messageId: args.messageId,
+            userId: message.userId!,
+            chatId: message.chatId!,
+            model: args.model,
+            scope: embeddingScope(message.userId!, args.model),
+            embedding: args.embedding,
+            createdAt: Date.now(),
+        };
+        if (existing) {
+            await ctx.db.replace(existing._id, fields);
+        } else {
+            await ctx.db.insert("messageEmbeddings", fields);
+        }
+        return null;
+    },
+});
+
+// A page of the user's messages that have no vector from `model` yet
+export const listMessagesToEmbedInternal = internalQuery({
+    args: {
+        userId: v.id("users"),
+        model: v.string(),
+        cursor: v.union(v.string(), v.null()),
+    },
+    handler: async (ctx, args) => {
+        const batch = await ctx.db
+            .query("messages")
+            .withIndex("by_user_timestamp", (q) => q.eq("userId", args.userId))
+            .paginate({ cursor: args.cursor, numItems: BACKFILL_BATCH_SIZE });
+
+        const messages = [];
+        for (const message of batch.page) {
+            if (!isEmbeddable(message)) continue;
+            const existing = await ctx.db
+                .query("messageEmbeddings")
+                .withIndex("by_message", (q) => q.eq("messageId", message._id))
+                .unique();
+            if (existing?.model === args.model) continue;
+            messages.push({
+                messageId: message._id,
+                content: message.content.slice(0, MAX_EMBEDDED_CHARS),
+            });
+        }
+
+        return {
+            messages,
+            continueCursor: batch.continueCursor,
+            isDone: batch.isDone,
+        };
+    },
+});
+
+// Message ids for vector search hits, in order. Null for messages deleted or
+// encrypted since they were embedded.
+export const getEmbeddedMessageIdsInternal = internalQuery({
+    args: { embeddingIds: v.array(v.id("messageEmbeddings")) },
+    handler: async (ctx, args) => {
+        return await Promise.all(
+            args.embeddingIds.map(async (id) => {
+                const embedding = await ctx.db.get(id);
+                if (!embedding) return null;
+                const message = await ctx.db.get(embedding.messageId);
+                return message && isEmbeddable(message) ? message._id : null;
+            })
+        );
+    },
+});
+
+// Embeds the user's existing messages so older chats are found by meaning.
+// Already-embedded messages are skipped, so calling it again is cheap.
+export const indexPastMessages = mutation({
+    args: {},
+    returns: v.null(),
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        await ctx.scheduler.runAfter(
+            0,
+            internal.semanticSearchActions.backfillMessageEmbeddings,
+            { userId }
+        );
+        return null;
+    },
+});
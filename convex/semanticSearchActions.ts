@@ -0,0 +1,172 @@
+"use node";
+
+import { v } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { action, internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import {
+    embedTexts,
+    getSearchEmbeddingModel,
+    getStoredApiKeys,
+} from "./ai/embeddings";
+import { embeddingScope } from "./semanticSearch";
+
+const DEFAULT_SEMANTIC_LIMIT = 50;
+const MAX_SEMANTIC_LIMIT = 256; // Convex vector search maximum
+// Nearest neighbours are always returned; below this they're noise
+const MIN_SEMANTIC_SCORE = 0.2;
+
+// Embeds one finished message (semanticSearch.scheduleMessageEmbedding)
+export const embedMessage = internalAction({
+    args: { messageId: v.id("messages") },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const message = await ctx.runQuery(
+            internal.semanticSearch.getMessageForEmbeddingInternal,
+            args
+        );
+        if (!message) return null;
+
+        try {
+            const apiKeys = await getStoredApiKeys(ctx, message.userId);
+            const model = getSearchEmbeddingModel(apiKeys);
+            const [embedding] = await embedTexts(ctx, {
+                userId: message.userId,
+                texts: [message.content],
+                model,
+                apiKeys,
+                source: "semantic_search",
+            });
+            await ctx.runMutation(internal.semanticSearch.storeMessageEmbedding, {
+                messageId: args.messageId,
+                model,
+                embedding,
+            });
+        } catch (error) {
+            // Search still finds the message by keyword
+            console.error("❌ MESSAGE EMBEDDING FAILED:", {
+                messageId: args.messageId,
+                error: error instanceof Error ? error.message : String(error),
+                timestamp: new Date().toISOString(),
+            });
+        }
+        return null;
+    },
+});
+
+// Embeds messages sent before semantic search existed (or before the user's
+// embedding model changed), one page per run
+export const backfillMessageEmbeddings = internalAction({
+    args: {
+        userId: v.id("users"),
+        cursor: v.optional(v.string()),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const apiKeys = await getStoredApiKeys(ctx, args.userId);
+        const model = getSearchEmbeddingModel(apiKeys);
+        const batch = await ctx.runQuery(
+            internal.semanticSearch.listMessagesToEmbedInternal,
+            { userId: args.userId, model, cursor: args.cursor ?? null }
+        );
+
+        if (batch.messages.length > 0) {
+            try {
+                const embeddings = await embedTexts(ctx, {
+                    userId: args.userId,
+                    texts: batch.messages.map((message) => message.content),
+                    model,
+                    apiKeys,
+                    source: "semantic_search",
+                });
+                for (let i = 0; i < batch.messages.length; i++) {
+                    await ctx.runMutation(
+                        internal.semanticSearch.storeMessageEmbedding,
+                        {
+                            messageId: batch.messages[i].messageId,
+                            model,
+                            embedding: embeddings[i],
+                        }
+                    );
+                }
+            } catch (error) {
+                console.error("❌ MESSAGE EMBEDDING BACKFILL FAILED:", {
+                    userId: args.userId,
+                    error: error instanceof Error ? error.message : String(error),
+                    timestamp: new Date().toISOString(),
+                });
+                return null;
+            }
+        }
+
+        if (!batch.isDone) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.semanticSearchActions.backfillMessageEmbeddings,
+                { userId: args.userId, cursor: batch.continueCursor }
+            );
+        } else {
+            console.log("🧭 MESSAGE EMBEDDINGS UP TO DATE:", {
+                userId: args.userId,
+                model,
+                timestamp: new Date().toISOString(),
+            });
+        }
+        return null;
+    },
+});
+
+/**
+ * The user's messages closest in meaning to `query`, best first. Pass the
+ * result to chats.advancedSearch as `semanticMatches` - vector search is only
+ * available to actions, so ranking happens in the query.
+ */
+export const semanticSearch = action({
+    args: {
+        query: v.string(),
+        limit: v.optional(v.number()),
+    },
+    returns: v.array(
+        v.object({
+            messageId: v.id("messages"),
+            score: v.number(),
+        })
+    ),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const query = args.query.trim();
+        if (!query) return [];
+
+        const apiKeys = await getStoredApiKeys(ctx, userId);
+        const model = getSearchEmbeddingModel(apiKeys);
+        const [vector] = await embedTexts(ctx, {
+            userId,
+            texts: [query],
+            model,
+            apiKeys,
+            source: "semantic_search",
+        });
+
+        const scope = embeddingScope(userId, model);
+        const hits = await ctx.vectorSearch("messageEmbeddings", "by_embedding", {
+            vector,
+            limit: Math.min(args.limit ?? DEFAULT_SEMANTIC_LIMIT, MAX_SEMANTIC_LIMIT),
+            filter: (q) => q.eq("scope", scope),
+        });
+        const relevant = hits.filter((hit) => hit._score >= MIN_SEMANTIC_SCORE);
+        const messageIds: Array<Id<"messages"> | null> = await ctx.runQuery(
+            internal.semanticSearch.getEmbeddedMessageIdsInternal,
+            { embeddingIds: relevant.map((hit) => hit._id) }
+        );
+
+        const matches = [];
+        for (let i = 0; i < relevant.length; i++) {
+            const messageId = messageIds[i];
+            if (messageId) matches.push({ messageId, score: relevant[i]._score });
+        }
+        return matches;
+    },
+});
@@ -0,0 +1,275 @@
+import { query, mutation, type MutationCtx } from "./_generated/server";
+import { v } from "convex/values";
+import { getAuthUserId, getAuthSessionId } from "@convex-dev/auth/server";
+import type { Id } from "./_generated/dataModel";
+
+// Sessions are the @convex-dev/auth `authSessions` rows; device details live in
+// our own `sessionMetadata` table keyed by sessionId.
+//
+// Revoking a session deletes its refresh tokens so the device can no longer
+// renew its JWT. The access token it already holds stays valid until it expires.
+
+const MAX_DEVICE_INFO_LENGTH = 512;
+const MAX_DEVICE_NAME_LENGTH = 100;
+
+async function revokeSession(ctx: MutationCtx, sessionId: Id<"authSessions">) {
+    const refreshTokens = await ctx.db
+        .query("authRefreshTokens")
+        .withIndex("sessionId", (q) => q.eq("sessionId", sessionId))
+        .collect();
+    for (const token of refreshTokens) {
+        await ctx.db.delete(token._id);
+    }
+
+    const metadata = await ctx.db
+        .query("sessionMetadata")
+        .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+        .unique();
+    if (metadata) {
+        await ctx.db.delete(metadata._id);
+    }
+
+    await ctx.db.delete(sessionId);
+}
+
+// Revoke every active session for a user, optionally keeping one
+async function revokeUserSessions(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    exceptSessionId: Id<"authSessions"> | null
+) {
+    const sessions = await ctx.db
+        .query("authSessions")
+        .withIndex("userId", (q) => q.eq("userId", userId))
+        .collect();
+
+    let signedOutSessions = 0;
+    for (const session of sessions) {
+        if (session._id === exceptSessionId) continue;
+        await revokeSession(ctx, session._id);
+        signedOutSessions++;
+    }
+    return signedOutSessions;
+}
+
+export const getUserSessions = query({
+    args: {},
+    returns: v.array(
+        v.object({
+            sessionId: v.id("authSessions"),
+            deviceInfo: v.string(),
+            deviceName: v.string(),
+            ipAddress: v.optional(v.string()),
+            lastActivity: v.number(),
+            createdAt: v.number(),
+            expirationTime: v.number(),
+            isCurrentSession: v.boolean(),
+        })
+    ),
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return [];
+        const currentSessionId = await getAuthSessionId(ctx);
+
+        const now = Date.now();
+        const sessions = await ctx.db
+            .query("authSessions")
+            .withIndex("userId", (q) => q.eq("userId", userId))
+            .collect();
+
+        const results = await Promise.all(
+            sessions
+                .filter((session) => session.expirationTime > now)
+                .map(async (session) => {
+                    const metadata = await ctx.db
+                        .query("sessionMetadata")
+                        .withIndex("by_session", (q) =>
+                            q.eq("sessionId", session._id)
+                        )
+                        .unique();
+
+                    // Without recorded activity, fall back to the latest token refresh
+                    const latestRefreshToken = metadata
+                        ? null
+                        : await ctx.db
+                              .query("authRefreshTokens")
+                              .withIndex("sessionId", (q) =>
+                                  q.eq("sessionId", session._id)
+                              )
+                              .order("desc")
+                              .first();
+
+                    return {
+                        sessionId: session._id,
+                        deviceInfo: metadata?.deviceInfo ?? "Unknown",
+                        deviceName: metadata?.deviceName ?? "Unknown Device",
+                        ipAddress: metadata?.ipAddress,
+                        lastActivity:
+                            metadata?.lastActivity ??
+                            latestRefreshToken?._creationTime ??
+                            session._creationTime,
+                        createdAt: session._creationTime,
+                        expirationTime: session.expirationTime,
+                        isCurrentSession: session._id === currentSessionId,
+                    };
+                })
+        );
+
+        // Current session first, then most recently active
+        return results.sort((a, b) => {
+            if (a.isCurrentSession !== b.isCurrentSession) {
+                return a.isCurrentSession ? -1 : 1;
+            }
+            return b.lastActivity - a.lastActivity;
+        });
+    },
+});
+
+// Record device details for the current session (called once per app load)
+export const storeSessionMetadata = mutation({
+    args: {
+        deviceInfo: v.string(),
+        deviceName: v.string(),
+        ipAddress: v.optional(v.string()),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+        const sessionId = await getAuthSessionId(ctx);
+        if (!sessionId) throw new Error("No active session");
+
+        const deviceInfo = args.deviceInfo.slice(0, MAX_DEVICE_INFO_LENGTH);
+        const deviceName = args.deviceName.slice(0, MAX_DEVICE_NAME_LENGTH);
+        const now = Date.now();
+
+        const existing = await ctx.db
+            .query("sessionMetadata")
+            .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+            .unique();
+
+        if (existing) {
+            await ctx.db.patch(existing._id, {
+                deviceInfo,
+                deviceName,
+                ipAddress: args.ipAddress,
+                lastActivity: now,
+            });
+        } else {
+            await ctx.db.insert("sessionMetadata", {
+                sessionId,
+                userId,
+                deviceInfo,
+                deviceName,
+                ipAddress: args.ipAddress,
+                lastActivity: now,
+                createdAt: now,
+            });
+        }
+
+        return null;
+    },
+});
+
+export const updateSessionActivity = mutation({
+    args: {},
+    returns: v.null(),
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+        const sessionId = await getAuthSessionId(ctx);
+        if (!sessionId) return null;
+
+        const existing = await ctx.db
+            .query("sessionMetadata")
+            .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+            .unique();
+
+        const now = Date.now();
+        if (existing) {
+            await ctx.db.patch(existing._id, { lastActivity: now });
+        } else {
+            await ctx.db.insert("sessionMetadata", {
+                sessionId,
+                userId,
+                deviceInfo: "Unknown",
+                deviceName: "Unknown Device",
+                lastActivity: now,
+                createdAt: now,
+            });
+        }
+
+        return null;
+    },
+});
+
+export const signOutSession = mutation({
+    args: {
+        sessionId: v.id("authSessions"),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const session = await ctx.db.get(args.sessionId);
+        if (!session || session.userId !== userId) {
+            throw new Error("Session not found");
+        }
+
+        await revokeSession(ctx, args.sessionId);
+
+        console.log("🔐 SESSION SIGNED OUT:", {
+            userId,
+            sessionId: args.sessionId,
+            timestamp: new Date().toISOString(),
+        });
+
+        return null;
+    },
+});
+
+export const signOutAllOtherSessions = mutation({
+    args: {},
+    returns: v.object({ signedOutSessions: v.number() }),
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+        const currentSessionId = await getAuthSessionId(ctx);
+        if (!currentSessionId) throw new Error("No active session");
+
+        const signedOutSessions = await revokeUserSessions(
+            ctx,
+            userId,
+            currentSessionId
+        );
+
+        console.log("🔐 SIGNED OUT OTHER SESSIONS:", {
+            userId,
+            signedOutSessions,
+            timestamp: new Date().toISOString(),
+        });
+
+        return { signedOutSessions };
+    },
+});
+
+// Includes the current session - the client should also call signOut()
+export const signOutAllSessions = mutation({
+    args: {},
+    returns: v.object({ signedOutSessions: v.number() }),
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        const signedOutSessions = await revokeUserSessions(ctx, userId, null);
+
+        console.log("🔐 SIGNED OUT ALL SESSIONS:", {
+            userId,
+            signedOutSessions,
+            timestamp: new Date().toISOString(),
+        });
+
+        return { signedOutSessions };
+    },
+});
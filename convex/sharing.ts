@@ -1,7 +1,53 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
+import {
+    query,
+    mutation,
+    internalMutation,
+    type QueryCtx,
+} from "./_generated/server";
 import { internal } from "./_generated/api";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import {
+    getUnlockedChatIds,
+    redactLockedChat,
+    unlockTokensArg,
+    withoutPasswordSecrets,
+} from "./chatUnlock";
+
+// Share links only carry a share id, so clients pass every unlock token they
+// hold (`unlockTokens`). Password protected chats expose no messages and can't
+// be forked without one; unlock tokens are only issued to a chat's owner.
+
+async function getUnlockedSharedChatIds(
+    ctx: QueryCtx,
+    unlockTokens: string[] | undefined
+): Promise<Set<Id<"chats">>> {
+    const userId = await getAuthUserId(ctx);
+    return userId
+        ? await getUnlockedChatIds(ctx, userId, unlockTokens)
+        : new Set();
+}
+
+function assertChatsUnlocked(
+    chats: Doc<"chats">[],
+    unlocked: Set<Id<"chats">>
+) {
+    if (chats.some((chat) => chat.isPasswordProtected && !unlocked.has(chat._id))) {
+        throw new Error("Unlock the password protected chat before forking it");
+    }
+}
+
+// Forks of a protected chat stay behind the same password and encryption
+function copiedProtectionFields(chat: Doc<"chats">) {
+    return {
+        isPasswordProtected: chat.isPasswordProtected,
+        passwordHash: chat.passwordHash,
+        passwordSalt: chat.passwordSalt,
+        passwordHint: chat.passwordHint,
+        encryption: chat.encryption,
+    };
+}
 
 // Enhanced chat sharing with collaboration modes
 export const createChatShare = mutation({
@@ -57,21 +103,36 @@ export const updateChatShareMode = mutation({
 });
 
 export const getSharedChat = query({
-    args: { shareId: v.string() },
+    args: { shareId: v.string(), unlockTokens: unlockTokensArg },
     handler: async (ctx, args) => {
-        const chat = await ctx.db
+        const rawChat = await ctx.db
             .query("chats")
             .withIndex("by_share_id", (q) => q.eq("shareId", args.shareId))
             .first();
 
-        if (!chat || !chat.isPublic) return null;
+        if (!rawChat || !rawChat.isPublic) return null;
+        const chat = withoutPasswordSecrets(rawChat);
+
+        if (rawChat.isPasswordProtected) {
+            const unlocked = await getUnlockedSharedChatIds(
+                ctx,
+                args.unlockTokens
+            );
+            if (!unlocked.has(rawChat._id)) {
+                return {
+                    status: "password_required" as const,
+                    chat,
+                    messages: [],
+                };
+            }
+        }
 
         // FIX: Get messages through branches instead of old index
         const activeBranchId = chat.activeBranchId;
-        if (!activeBranchId) return { chat, messages: [] };
+        if (!activeBranchId) return { status: "ok" as const, chat, messages: [] };
 
         const activeBranch = await ctx.db.get(activeBranchId);
-        if (!activeBranch) return { chat, messages: [] };
+        if (!activeBranch) return { status: "ok" as const, chat, messages: [] };
 
         // Get messages from baseMessages + activeBranch.messages
         const baseMessageIds = chat.baseMessages || [];
@@ -87,6 +148,7 @@ export const getSharedChat = query({
             .sort((a, b) => a.timestamp - b.timestamp);
 
         return {
+            status: "ok" as const,
             chat,
             messages: validMessages,
         };
@@ -94,7 +156,7 @@ export const getSharedChat = query({
 });
 
 export const getSharedProject = query({
-    args: { shareId: v.string() },
+    args: { shareId: v.string(), unlockTokens: unlockTokensArg },
     handler: async (ctx, args) => {
         const project = await ctx.db
             .query("projects")
@@ -110,9 +172,21 @@ export const getSharedProject = query({
             .order("desc")
             .collect();
 
+        const unlocked = await getUnlockedSharedChatIds(ctx, args.unlockTokens);
+
         // Get messages for each chat using new branching system
         const chatsWithMessages = [];
-        for (const chat of chats) {
+        for (const rawChat of chats) {
+            // Locked protected chats keep their place, not their title or messages
+            const chat = redactLockedChat(rawChat, unlocked);
+            if (chat.isLocked) {
+                chatsWithMessages.push({
+                    ...chat,
+                    messages: [],
+                });
+                continue;
+            }
+
             // FIX: Get messages through branches instead of old index
             const activeBranchId = chat.activeBranchId;
             if (!activeBranchId) {
@@ -319,6 +393,9 @@ export const forkProject = internalMutation({
     args: {
         projectId: v.id("projects"),
         newName: v.optional(v.string()),
+        // The viewer forking the share, whose tokens unlock protected chats
+        userId: v.id("users"),
+        unlockTokens: unlockTokensArg,
     },
     handler: async (ctx, args) => {
         const originalProject = await ctx.db.get(args.projectId);
@@ -326,6 +403,15 @@ export const forkProject = internalMutation({
             throw new Error("Project not found");
         }
 
+        const chats = await ctx.db
+            .query("chats")
+            .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+            .collect();
+        assertChatsUnlocked(
+            chats,
+            await getUnlockedChatIds(ctx, args.userId, args.unlockTokens)
+        );
+
         // Create new forked project
         const now = Date.now();
         const forkedProjectId = await ctx.db.insert("projects", {
@@ -341,11 +427,6 @@ export const forkProject = internalMutation({
         });
 
         // Fork all chats in the project
-        const chats = await ctx.db
-            .query("chats")
-            .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-            .collect();
-
         let totalMessages = 0;
 
         for (const chat of chats) {
@@ -358,6 +439,7 @@ export const forkProject = internalMutation({
                 updatedAt: now,
                 isStarred: false,
                 parentChatId: chat._id,
+                ...copiedProtectionFields(chat),
                 // NEW BRANCHING SYSTEM FIELDS
                 baseMessages: [],
                 activeMessages: [],
@@ -402,6 +484,8 @@ export const forkProject = internalMutation({
             for (const message of validMessages) {
                 const newMessageId = await ctx.db.insert("messages", {
                     branchId: mainBranchId, // Messages belong to branches now
+                    userId: originalProject.userId,
+                    chatId: forkedChatId,
                     role: message.role,
                     content: message.content,
                     timestamp: message.timestamp,
@@ -440,6 +524,7 @@ export const forkProjectPublic = mutation({
     args: {
         projectId: v.id("projects"),
         newName: v.optional(v.string()),
+        unlockTokens: unlockTokensArg,
     },
     handler: async (ctx, args) => {
         const userId = await getAuthUserId(ctx);
@@ -450,6 +535,15 @@ export const forkProjectPublic = mutation({
             throw new Error("Project not found");
         }
 
+        const chats = await ctx.db
+            .query("chats")
+            .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
+            .collect();
+        assertChatsUnlocked(
+            chats,
+            await getUnlockedChatIds(ctx, userId, args.unlockTokens)
+        );
+
         // Create new forked project
         const now = Date.now();
         const forkedProjectId = await ctx.db.insert("projects", {
@@ -465,11 +559,6 @@ export const forkProjectPublic = mutation({
         });
 
         // Fork all chats in the project
-        const chats = await ctx.db
-            .query("chats")
-            .withIndex("by_project", (q) => q.eq("projectId", args.projectId))
-            .collect();
-
         let totalMessages = 0;
 
         for (const chat of chats) {
@@ -482,6 +571,7 @@ export const forkProjectPublic = mutation({
                 updatedAt: now,
                 isStarred: false,
                 parentChatId: chat._id,
+                ...copiedProtectionFields(chat),
                 // NEW BRANCHING SYSTEM FIELDS
                 baseMessages: [],
                 activeMessages: [],
@@ -526,6 +616,8 @@ export const forkProjectPublic = mutation({
             for (const message of validMessages) {
                 const newMessageId = await ctx.db.insert("messages", {
                     branchId: mainBranchId, // Messages belong to branches now
+                    userId: userId,
+                    chatId: forkedChatId,
                     role: message.role,
                     content: message.content,
                     timestamp: message.timestamp,
@@ -566,6 +658,7 @@ export const handleShareLinkAccess = mutation({
     args: {
         shareId: v.string(),
         type: v.union(v.literal("chat"), v.literal("project")),
+        unlockTokens: unlockTokensArg,
     },
     handler: async (
         ctx,
@@ -591,6 +684,10 @@ export const handleShareLinkAccess = mutation({
 
             // Handle based on share mode
             if (chat.shareMode === "read-only") {
+                assertChatsUnlocked(
+                    [chat],
+                    await getUnlockedChatIds(ctx, userId, args.unlockTokens)
+                );
                 // Auto-fork for read-only shares
                 const forkedChatId = await forkChatForUser(
                     ctx,
@@ -628,6 +725,8 @@ export const handleShareLinkAccess = mutation({
                 } = await ctx.runMutation(internal.sharing.forkProject, {
                     projectId: project._id,
                     newName: `Fork of ${project.name}`,
+                    userId,
+                    unlockTokens: args.unlockTokens,
                 });
                 return { projectId: forkedProject.projectId, action: "forked" };
             } else if (project.shareMode === "collaboration") {
@@ -655,6 +754,7 @@ async function forkChatForUser(ctx: any, originalChatId: any, userId: any) {
         createdAt: now,
         updatedAt: now,
         parentChatId: originalChatId,
+        ...copiedProtectionFields(originalChat),
         // NEW BRANCHING SYSTEM FIELDS
         baseMessages: [],
         activeMessages: [],
@@ -709,6 +809,8 @@ async function forkChatForUser(ctx: any, originalChatId: any, userId: any) {
     for (const message of validMessages) {
         const newMessageId = await ctx.db.insert("messages", {
             branchId: mainBranchId, // Messages belong to branches now
+            userId: userId,
+            chatId: forkedChatId,
             role: message.role,
             content: message.content,
             timestamp: message.timestamp,
@@ -1419,204 +1521,3 @@ export const cleanupExpiredAnalyticsShares = mutation({
         return { deletedCount };
     },
 });
-
-// Get Analytics Data for Sharing (Real Implementation)
-export const getAnalyticsDataForSharing = query({
-    args: {
-        timeRange: v.string(), // "7d", "30d", "90d", "1y"
-        contentType: v.union(
-            v.literal("overview"),
-            v.literal("chart"),
-            v.literal("dataset"),
-            v.literal("dashboard")
-        ),
-        includeChartImages: v.optional(v.boolean()),
-    },
-    returns: v.any(),
-    handler: async (ctx, args) => {
-        const userId = await getAuthUserId(ctx);
-        if (!userId) throw new Error("Not authenticated");
-
-        const now = Date.now();
-        let timeRangeMs: number;
-
-        switch (args.timeRange) {
-            case "7d":
-                timeRangeMs = 7 * 24 * 60 * 60 * 1000;
-                break;
-            case "30d":
-                timeRangeMs = 30 * 24 * 60 * 60 * 1000;
-                break;
-            case "90d":
-                timeRangeMs = 90 * 24 * 60 * 60 * 1000;
-                break;
-            case "1y":
-                timeRangeMs = 365 * 24 * 60 * 60 * 1000;
-                break;
-            default:
-                timeRangeMs = 7 * 24 * 60 * 60 * 1000;
-        }
-
-        const startTime = now - timeRangeMs;
-
-        try {
-            // Get user's chats in time range
-            const chats = await ctx.db
-                .query("chats")
-                .withIndex("by_user", (q) => q.eq("userId", userId))
-                .filter((q) => q.gte(q.field("createdAt"), startTime))
-                .collect();
-
-            // Get user's projects
-            const projects = await ctx.db
-                .query("projects")
-                .withIndex("by_user", (q) => q.eq("userId", userId))
-                .collect();
-
-            // Get messages in time range
-            const allMessages: any[] = [];
-            for (const chat of chats) {
-                if (chat.activeBranchId) {
-                    const activeBranch = await ctx.db.get(chat.activeBranchId);
-                    if (activeBranch) {
-                        const messages = await Promise.all(
-                            activeBranch.messages.map((msgId) =>
-                                ctx.db.get(msgId)
-                            )
-                        );
-                        allMessages.push(
-                            ...messages.filter(
-                                (msg) => msg && msg.timestamp >= startTime
-                            )
-                        );
-                    }
-                }
-            }
-
-            // Process data based on content type
-            switch (args.contentType) {
-                case "overview":
-                    return {
-                        overview: {
-                            totalChats: chats.length,
-                            totalMessages: allMessages.length,
-                            totalProjects: projects.length,
-                            averageMessagesPerChat:
-                                chats.length > 0
-                                    ? Math.round(
-                                          allMessages.length / chats.length
-                                      )
-                                    : 0,
-                        },
-                        timeRange: args.timeRange,
-                        generatedAt: now,
-                    };
-
-                case "chart":
-                    // Group messages by date for chart data
-                    const messagesByDate: Record<string, number> = {};
-                    for (const msg of allMessages) {
-                        if (msg) {
-                            const date = new Date(msg.timestamp)
-                                .toISOString()
-                                .split("T")[0];
-                            messagesByDate[date] =
-                                (messagesByDate[date] || 0) + 1;
-                        }
-                    }
-
-                    return {
-                        chartData: {
-                            labels: Object.keys(messagesByDate).sort(),
-                            datasets: [
-                                {
-                                    label: "Messages per Day",
-                                    data: Object.keys(messagesByDate)
-                                        .sort()
-                                        .map((date) => messagesByDate[date]),
-                                },
-                            ],
-                        },
-                        chartType: "line",
-                        timeRange: args.timeRange,
-                        generatedAt: now,
-                    };
-
-                case "dataset":
-                    return {
-                        data: chats.map((chat) => ({
-                            id: chat._id,
-                            title: chat.title,
-                            model: chat.model,
-                            createdAt: new Date(chat.createdAt).toISOString(),
-                            messageCount: allMessages.filter(
-                                (msg) =>
-                                    msg &&
-                                    msg.branchId &&
-                                    chat.activeBranchId === msg.branchId
-                            ).length,
-                            isStarred: chat.isStarred || false,
-                            projectName:
-                                projects.find((p) => p._id === chat.projectId)
-                                    ?.name || "No Project",
-                        })),
-                        totalRows: chats.length,
-                        timeRange: args.timeRange,
-                        generatedAt: now,
-                    };
-
-                case "dashboard":
-                    // Initialize messagesByDate for dashboard
-                    const dashboardMessagesByDate: Record<string, number> = {};
-                    for (const msg of allMessages) {
-                        if (msg) {
-                            const date = new Date(msg.timestamp)
-                                .toISOString()
-                                .split("T")[0];
-                            dashboardMessagesByDate[date] =
-                                (dashboardMessagesByDate[date] || 0) + 1;
-                        }
-                    }
-
-                    return {
-                        overview: {
-                            totalChats: chats.length,
-                            totalMessages: allMessages.length,
-                            totalProjects: projects.length,
-                        },
-                        charts: [
-                            {
-                                id: "messages-over-time",
-                                title: "Messages Over Time",
-                                type: "line",
-                                data: dashboardMessagesByDate,
-                            },
-                            {
-                                id: "chats-by-model",
-                                title: "Chats by Model",
-                                type: "pie",
-                                data: chats.reduce(
-                                    (acc, chat) => {
-                                        acc[chat.model] =
-                                            (acc[chat.model] || 0) + 1;
-                                        return acc;
-                                    },
-                                    {} as Record<string, number>
-                                ),
-                            },
-                        ],
-                        timeRange: args.timeRange,
-                        generatedAt: now,
-                    };
-
-                default:
-                    throw new Error(
-                        `Unsupported content type: ${args.contentType}`
-                    );
-            }
-        } catch (error) {
-            console.error("Error generating analytics data:", error);
-            throw new Error("Failed to generate analytics data");
-        }
-    },
-});
@@ -0,0 +1,513 @@
+import {
+    query,
+    mutation,
+    internalMutation,
+    type MutationCtx,
+    type QueryCtx,
+} from "./_generated/server";
+import { v, ConvexError } from "convex/values";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+
+// Spending budgets and request rate limits for users generating with their
+// own keys. Every provider call reserves a request first, which is checked
+// against the rate limits and budgets and logged in usageEvents; completed
+// generations add their tokens and cost to the day's usageTotals row for the
+// budgets to sum over.
+//
+// Budgets are checked before a call, so the call that crosses a budget still
+// completes - the next one is refused. Background work (knowledge base
+// indexing, message embeddings) only counts against the budgets, so a large
+// index or backfill can't rate limit the user's next chat message.
+
+export const BUDGET_WARNING_RATIO = 0.8;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const EVENT_RETENTION_MS = 24 * HOUR; // Rate limits look back an hour at most
+const TOTALS_RETENTION_DAYS = 35; // Longest budget period plus a few days
+const CLEANUP_BATCH_SIZE = 500;
+const MAX_COUNTED_REQUESTS = 1000;
+
+const PROVIDER_NAMES: Record<string, string> = {
+    openai: "OpenAI",
+    anthropic: "Anthropic",
+    google: "Google",
+    deepseek: "DeepSeek",
+    openrouter: "OpenRouter",
+    together: "Together",
+};
+
+const usageBudget = v.object({
+    provider: v.optional(v.string()),
+    period: v.union(v.literal("daily"), v.literal("monthly")),
+    unit: v.union(v.literal("usd"), v.literal("tokens")),
+    limit: v.number(),
+});
+
+const usageSource = v.union(
+    v.literal("chat"),
+    v.literal("multi_ai"),
+    v.literal("enhance"),
+    v.literal("canvas_edit"),
+    v.literal("context_summary"),
+    v.literal("knowledge_base"),
+    v.literal("semantic_search")
+);
+
+const budgetStatus = v.object({
+    provider: v.optional(v.string()),
+    period: v.union(v.literal("daily"), v.literal("monthly")),
+    unit: v.union(v.literal("usd"), v.literal("tokens")),
+    limit: v.number(),
+    used: v.number(),
+    ratio: v.number(),
+    resetsAt: v.number(),
+});
+
+type UsageLimits = NonNullable<Doc<"preferences">["usageLimits"]>;
+type UsageBudget = UsageLimits["budgets"][number];
+type UsageSource = Doc<"usageEvents">["source"];
+
+const BACKGROUND_SOURCES: UsageSource[] = ["knowledge_base", "semantic_search"];
+
+function periodWindow(period: UsageBudget["period"], now: number) {
+    const date = new Date(now);
+    if (period === "daily") {
+        const start = Date.UTC(
+            date.getUTCFullYear(),
+            date.getUTCMonth(),
+            date.getUTCDate()
+        );
+        return { start, resetsAt: start + 24 * HOUR };
+    }
+    return {
+        start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+        resetsAt: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+    };
+}
+
+function providerName(provider: string) {
+    return PROVIDER_NAMES[provider] ?? provider;
+}
+
+function formatAmount(unit: UsageBudget["unit"], amount: number) {
+    return unit === "usd"
+        ? `$${amount.toFixed(2)}`
+        : `${Math.round(amount).toLocaleString("en-US")} tokens`;
+}
+
+async function getUsageLimits(
+    ctx: QueryCtx,
+    userId: Id<"users">
+): Promise<UsageLimits | undefined> {
+    const preferences = await ctx.db
+        .query("preferences")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .first();
+    return preferences?.usageLimits;
+}
+
+// The user's oldest requests within the window, up to `limit` of them
+async function loadRecentRequests(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    window: number,
+    limit: number,
+    now: number
+): Promise<Doc<"usageEvents">[]> {
+    return await ctx.db
+        .query("usageEvents")
+        .withIndex("by_user_timestamp", (q) =>
+            q.eq("userId", userId).gt("timestamp", now - window)
+        )
+        .take(limit);
+}
+
+// Daily totals for the current month, which covers every budget period
+async function loadUsageTotals(
+    ctx: QueryCtx,
+    userId: Id<"users">,
+    now: number
+): Promise<Doc<"usageTotals">[]> {
+    return await ctx.db
+        .query("usageTotals")
+        .withIndex("by_user_day", (q) =>
+            q
+                .eq("userId", userId)
+                .gte("dayStart", periodWindow("monthly", now).start)
+        )
+        .collect();
+}
+
+async function addUsageTotal(
+    ctx: MutationCtx,
+    userId: Id<"users">,
+    usage: { provider: string; tokens: number; cost: number }
+) {
+    const dayStart = periodWindow("daily", Date.now()).start;
+    const existing = await ctx.db
+        .query("usageTotals")
+        .withIndex("by_user_day", (q) =>
+            q
+                .eq("userId", userId)
+                .eq("dayStart", dayStart)
+                .eq("provider", usage.provider)
+        )
+        .unique();
+    if (existing) {
+        await ctx.db.patch(existing._id, {
+            tokens: existing.tokens + usage.tokens,
+            cost: existing.cost + usage.cost,
+        });
+    } else {
+        await ctx.db.insert("usageTotals", {
+            userId,
+            dayStart,
+            provider: usage.provider,
+            tokens: usage.tokens,
+            cost: usage.cost,
+        });
+    }
+}
+
+function getBudgetStatuses(
+    budgets: UsageBudget[],
+    totals: Doc<"usageTotals">[],
+    now: number
+) {
+    return budgets.map((budget) => {
+        const { start, resetsAt } = periodWindow(budget.period, now);
+        let used = 0;
+        for (const total of totals) {
+            if (total.dayStart < start) continue;
+            if (budget.provider && total.provider !== budget.provider) continue;
+            used += budget.unit === "usd" ? total.cost : total.tokens;
+        }
+        return {
+            ...budget,
+            used,
+            ratio: budget.limit > 0 ? used / budget.limit : 0,
+            resetsAt,
+        };
+    });
+}
+
+/**
+ * Record a completed generation for the budgets. Called where responses are
+ * priced (updateMessageContent / updateMultiAIResponse), so the owner comes
+ * from the message.
+ */
+export async function recordMessageUsage(
+    ctx: MutationCtx,
+    message: Doc<"messages">,
+    usage: {
+        source: UsageSource;
+        model: string;
+        provider: string;
+        tokens: number;
+        cost: number;
+    }
+) {
+    let userId = message.userId;
+    if (!userId) {
+        const branch = await ctx.db.get(message.branchId);
+        const chat = branch ? await ctx.db.get(branch.chatId) : null;
+        userId = chat?.userId;
+    }
+    if (!userId) return;
+
+    await addUsageTotal(ctx, userId, usage);
+}
+
+// Called when a user deletes their account
+export async function deleteUsageHistory(
+    ctx: MutationCtx,
+    userId: Id<"users">
+) {
+    const events = await ctx.db
+        .query("usageEvents")
+        .withIndex("by_user_timestamp", (q) => q.eq("userId", userId))
+        .collect();
+    for (const event of events) {
+        await ctx.db.delete(event._id);
+    }
+    const totals = await ctx.db
+        .query("usageTotals")
+        .withIndex("by_user_day", (q) => q.eq("userId", userId))
+        .collect();
+    for (const total of totals) {
+        await ctx.db.delete(total._id);
+    }
+}
+
+/**
+ * Check rate limits and budgets for the provider calls about to be made and
+ * reserve them. Throws a ConvexError with a user-facing message when a limit
+ * is hit - callers surface it instead of calling the provider.
+ */
+export const reserveRequests = internalMutation({
+    args: {
+        userId: v.id("users"),
+        source: usageSource,
+        requests: v.array(
+            v.object({
+                model: v.string(),
+                provider: v.string(),
+            })
+        ),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const now = Date.now();
+        const limits = await getUsageLimits(ctx, args.userId);
+        const isBackground = BACKGROUND_SOURCES.includes(args.source);
+
+        if (limits) {
+            const rateLimits = isBackground
+                ? []
+                : [
+                      { limit: limits.requestsPerMinute, window: MINUTE, label: "minute" },
+                      { limit: limits.requestsPerHour, window: HOUR, label: "hour" },
+                  ];
+            for (const { limit, window, label } of rateLimits) {
+                if (!limit) continue;
+                const recent = await loadRecentRequests(
+                    ctx,
+                    args.userId,
+                    window,
+                    limit,
+                    now
+                );
+                if (recent.length + args.requests.length > limit) {
+                    const oldest = recent[0]?.timestamp ?? now;
+                    const retryIn = Math.max(
+                        1,
+                        Math.ceil((oldest + window - now) / 1000)
+                    );
+                    console.log("🚦 RATE LIMIT HIT:", {
+                        userId: args.userId,
+                        source: args.source,
+                        limit,
+                        window: label,
+                        timestamp: new Date().toISOString(),
+                    });
+                    throw new ConvexError(
+                        `Rate limit reached: ${limit} request${limit !== 1 ? "s" : ""} per ${label}` +
+                            (args.requests.length > 1
+                                ? ` (this needs ${args.requests.length})`
+                                : "") +
+                            `. Try again in ${retryIn}s.`
+                    );
+                }
+            }
+
+            const providers = new Set(
+                args.requests.map((request) => request.provider)
+            );
+            const statuses = getBudgetStatuses(
+                limits.budgets.filter(
+                    (budget) =>
+                        !budget.provider || providers.has(budget.provider)
+                ),
+                await loadUsageTotals(ctx, args.userId, now),
+                now
+            );
+            const exceeded = statuses.find(
+                (status) => status.used >= status.limit
+            );
+            if (exceeded) {
+                console.log("💸 USAGE BUDGET EXCEEDED:", {
+                    userId: args.userId,
+                    source: args.source,
+                    provider: exceeded.provider ?? "all",
+                    period: exceeded.period,
+                    used: exceeded.used,
+                    limit: exceeded.limit,
+                    timestamp: new Date().toISOString(),
+                });
+                const scope = exceeded.provider
+                    ? `${providerName(exceeded.provider)} `
+                    : "";
+                const period =
+                    exceeded.period === "daily" ? "Daily" : "Monthly";
+                const resets =
+                    exceeded.period === "daily"
+                        ? "at 00:00 UTC"
+                        : "on the 1st (UTC)";
+                throw new ConvexError(
+                    `${period} ${scope}budget reached: ${formatAmount(exceeded.unit, exceeded.used)} of ${formatAmount(exceeded.unit, exceeded.limit)} used. ` +
+                        `It resets ${resets}, or raise it in Settings → Account → Usage Limits.`
+                );
+            }
+        }
+
+        // Recorded even without limits so newly set rate limits apply at once
+        if (isBackground) return null;
+        for (const request of args.requests) {
+            await ctx.db.insert("usageEvents", {
+                userId: args.userId,
+                source: args.source,
+                model: request.model,
+                provider: request.provider,
+                timestamp: now,
+            });
+        }
+        return null;
+    },
+});
+
+// Usage of generations that don't produce a message (prompt enhancement)
+export const recordUsage = internalMutation({
+    args: {
+        userId: v.id("users"),
+        source: usageSource,
+        model: v.string(),
+        provider: v.string(),
+        tokens: v.number(),
+        cost: v.number(),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        await addUsageTotal(ctx, args.userId, args);
+        return null;
+    },
+});
+
+// Current limits with period-to-date usage, for settings and the 80% warning
+export const getUsageLimitStatus = query({
+    args: {},
+    returns: v.union(
+        v.null(),
+        v.object({
+            budgets: v.array(budgetStatus),
+            requestsPerMinute: v.optional(v.number()),
+            requestsPerHour: v.optional(v.number()),
+            requestsLastHour: v.number(),
+            warningRatio: v.number(),
+        })
+    ),
+    handler: async (ctx) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) return null;
+
+        const limits = await getUsageLimits(ctx, userId);
+        if (!limits) return null;
+
+        const now = Date.now();
+        const totals = await loadUsageTotals(ctx, userId, now);
+        // Counting stops at the hourly limit - past it the exact number doesn't matter
+        const requestsLastHour = await loadRecentRequests(
+            ctx,
+            userId,
+            HOUR,
+            limits.requestsPerHour ?? MAX_COUNTED_REQUESTS,
+            now
+        );
+
+        return {
+            budgets: getBudgetStatuses(limits.budgets, totals, now),
+            requestsPerMinute: limits.requestsPerMinute,
+            requestsPerHour: limits.requestsPerHour,
+            requestsLastHour: requestsLastHour.length,
+            warningRatio: BUDGET_WARNING_RATIO,
+        };
+    },
+});
+
+export const updateUsageLimits = mutation({
+    args: {
+        budgets: v.array(usageBudget),
+        requestsPerMinute: v.optional(v.number()),
+        requestsPerHour: v.optional(v.number()),
+    },
+    returns: v.null(),
+    handler: async (ctx, args) => {
+        const userId = await getAuthUserId(ctx);
+        if (!userId) throw new Error("Not authenticated");
+
+        for (const budget of args.budgets) {
+            if (!(budget.limit > 0)) {
+                throw new Error("Budget limits must be greater than zero");
+            }
+        }
+        for (const limit of [args.requestsPerMinute, args.requestsPerHour]) {
+            if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+                throw new Error("Rate limits must be positive whole numbers");
+            }
+        }
+
+        const usageLimits = {
+            budgets: args.budgets,
+            requestsPerMinute: args.requestsPerMinute,
+            requestsPerHour: args.requestsPerHour,
+        };
+
+        const existing = await ctx.db
+            .query("preferences")
+            .withIndex("by_user", (q) => q.eq("userId", userId))
+            .first();
+        if (existing) {
+            await ctx.db.patch(existing._id, { usageLimits });
+        } else {
+            await ctx.db.insert("preferences", { userId, usageLimits });
+        }
+
+        console.log("🚦 USAGE LIMITS UPDATED:", {
+            userId,
+            budgets: args.budgets.length,
+            requestsPerMinute: args.requestsPerMinute,
+            requestsPerHour: args.requestsPerHour,
+            timestamp: new Date().toISOString(),
+        });
+        return null;
+    },
+});
+
+// Drop requests older than the rate limits and totals older than any budget
+// period can reach
+export const cleanupUsageEvents = internalMutation({
+    args: {},
+    returns: v.null(),
+    handler: async (ctx) => {
+        const now = Date.now();
+        const expired = await ctx.db
+            .query("usageEvents")
+            .withIndex("by_timestamp", (q) =>
+                q.lt("timestamp", now - EVENT_RETENTION_MS)
+            )
+            .take(CLEANUP_BATCH_SIZE);
+        const expiredTotals = await ctx.db
+            .query("usageTotals")
+            .withIndex("by_day", (q) =>
+                q.lt("dayStart", now - TOTALS_RETENTION_DAYS * 24 * HOUR)
+            )
+            .take(CLEANUP_BATCH_SIZE);
+
+        for (const event of expired) {
+            await ctx.db.delete(event._id);
+        }
+        for (const total of expiredTotals) {
+            await ctx.db.delete(total._id);
+        }
+
+        console.log("🧹 USAGE EVENTS CLEANUP:", {
+            deleted: expired.length,
+            deletedTotals: expiredTotals.length,
+            timestamp: new Date().toISOString(),
+        });
+
+        if (
+            expired.length === CLEANUP_BATCH_SIZE ||
+            expiredTotals.length === CLEANUP_BATCH_SIZE
+        ) {
+            await ctx.scheduler.runAfter(
+                0,
+                internal.usageLimits.cleanupUsageEvents,
+                {}
+            );
+        }
+        return null;
+    },
+});
@@ -1,6 +1,10 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
+import { deleteContextSummaries } from "./contextWindow";
+import { deleteAnalyticsRollups } from "./analyticsRollups";
+import { deleteMessageEmbeddings } from "./semanticSearch";
+import { deleteUsageHistory } from "./usageLimits";
 
 export const getCurrentUser = query({
   args: {},
@@ -63,9 +67,15 @@ export const deleteAccount = mutation({
         await ctx.db.delete(branch._id);
       }
       
+      await deleteContextSummaries(ctx, chat._id);
+      await deleteMessageEmbeddings(ctx, chat._id);
       await ctx.db.delete(chat._id);
     }
 
+    // Rollups only summarize these messages, so they go too
+    await deleteAnalyticsRollups(ctx, userId);
+    await deleteUsageHistory(ctx, userId);
+
     // Delete user preferences
     const preferences = await ctx.db
       .query("preferences")
@@ -46,6 +46,10 @@ function App() {
                                         path="/share/project/:shareId"
                                         element={<ChatInterface />}
                                     />
+                                    <Route
+                                        path="/share/assistant/:shareId"
+                                        element={<ChatInterface />}
+                                    />
                                     {/* Fallback to home */}
                                     <Route
                                         path="*"
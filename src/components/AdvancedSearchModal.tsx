@@ -1,5 +1,5 @@
-import { useState, useEffect, useMemo } from "react";
-import { useQuery } from "convex/react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
@@ -19,9 +19,18 @@ import {
     Calendar,
     X,
     ChevronDown,
-    ChevronUp
+    ChevronUp,
+    Sparkles
 } from "lucide-react";
 import { Id } from "../../convex/_generated/dataModel";
+import { useUnlockTokens } from "../hooks/useChatUnlock";
+
+type SearchHighlight = { start: number; end: number };
+
+const SEARCH_PAGE_SIZE = 20;
+const SEMANTIC_SEARCH_DELAY = 400; // ms - each semantic search embeds the query
+
+type SemanticMatch = { messageId: Id<"messages">; score: number };
 
 interface AdvancedSearchModalProps {
     open: boolean;
@@ -55,25 +64,96 @@ const defaultFilters: SearchFilters = {
     maxMessages: 1000,
 };
 
+// Render text with the server-provided highlight ranges wrapped in <mark>
+function HighlightedText({ text, highlights }: { text: string; highlights: SearchHighlight[] }) {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    highlights.forEach((range, index) => {
+        if (range.start < cursor) return;
+        if (range.start > cursor) parts.push(text.slice(cursor, range.start));
+        parts.push(
+            <mark key={index} className="bg-purple-500/40 text-purple-50 rounded px-0.5">
+                {text.slice(range.start, range.end)}
+            </mark>
+        );
+        cursor = range.end;
+    });
+    if (cursor < text.length) parts.push(text.slice(cursor));
+    return <>{parts}</>;
+}
+
 export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: AdvancedSearchModalProps) {
     const [searchQuery, setSearchQuery] = useState("");
     const [activeTab, setActiveTab] = useState("all");
     const [filters, setFilters] = useState<SearchFilters>(defaultFilters);
     const [showAdvancedFilters, setShowAdvancedFilters] = useState(false);
+    const [limit, setLimit] = useState(SEARCH_PAGE_SIZE);
+    const [matchByMeaning, setMatchByMeaning] = useState(false);
+    const [semantic, setSemantic] = useState<{ query: string; matches: SemanticMatch[] } | null>(null);
+    const pastMessagesIndexed = useRef(false);
+
+    const semanticSearch = useAction(api.semanticSearchActions.semanticSearch);
+    const indexPastMessages = useMutation(api.semanticSearch.indexPastMessages);
 
     // Queries for different data types
     const allChats = useQuery(api.chats.listChats);
     const sharedContent = useQuery(api.sharing.getUserSharedContent);
     
-    // Advanced search query - will need to implement in backend
-    const searchResults = useQuery(
+    // Ranked search over the title / content search indexes
+    const unlockTokens = useUnlockTokens();
+    const hybrid = matchByMeaning && filters.includeContent;
+    const search = useQuery(
         api.chats.advancedSearch,
         searchQuery.trim() ? {
             query: searchQuery.trim(),
             filters: filters,
-            tab: activeTab
+            tab: activeTab,
+            limit,
+            unlockTokens,
+            mode: hybrid ? "hybrid" : "keyword",
+            // Keyword results show until the semantic ones for this query arrive
+            semanticMatches: hybrid && semantic?.query === searchQuery.trim() ? semantic.matches : undefined,
         } : "skip"
     );
+    const searchResults = search?.results;
+
+    // Messages close in meaning come from a vector search action, then get
+    // ranked together with the keyword hits by advancedSearch
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (!hybrid || !query) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            semanticSearch({ query })
+                .then((matches) => {
+                    if (!cancelled) setSemantic({ query, matches });
+                })
+                .catch((error) => {
+                    // Keyword search keeps working without it
+                    console.error("Semantic search failed:", error);
+                });
+        }, SEMANTIC_SEARCH_DELAY);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [hybrid, searchQuery, semanticSearch]);
+
+    const handleMatchByMeaningChange = (checked: boolean) => {
+        setMatchByMeaning(checked);
+        // Catch up on messages sent before semantic search was available
+        if (checked && !pastMessagesIndexed.current) {
+            pastMessagesIndexed.current = true;
+            indexPastMessages().catch((error) => {
+                console.error("Failed to index past messages:", error);
+            });
+        }
+    };
+
+    // Start from the first page whenever the search changes
+    useEffect(() => {
+        setLimit(SEARCH_PAGE_SIZE);
+    }, [searchQuery, filters, activeTab, matchByMeaning]);
 
     // Filter available models for dropdown
     const availableModels = useMemo(() => {
@@ -92,6 +172,8 @@ export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: Advanc
             setActiveTab("all");
             setFilters(defaultFilters);
             setShowAdvancedFilters(false);
+            setMatchByMeaning(false);
+            setSemantic(null);
         }
     }, [open]);
 
@@ -116,8 +198,16 @@ export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: Advanc
         return count;
     };
 
-    const handleSelectChat = (chatId: Id<"chats">) => {
+    const handleSelectChat = (
+        chatId: Id<"chats">,
+        messageId?: Id<"messages">,
+        branchId?: Id<"branches">
+    ) => {
         onSelectChat(chatId);
+        if (messageId) {
+            // Message deep link - MessageList switches branch and scrolls to it
+            window.location.hash = branchId ? `m=${messageId}&b=${branchId}` : `m=${messageId}`;
+        }
         onOpenChange(false);
     };
 
@@ -146,14 +236,14 @@ export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: Advanc
                 {results.map((result: any) => (
                     <div
                         key={result._id}
-                        onClick={() => handleSelectChat(result._id)}
+                        onClick={() => handleSelectChat(result._id, result.matchedMessageId, result.matchedBranchId)}
                         className="p-4 rounded-lg bg-purple-600/10 border border-purple-600/20 hover:bg-purple-600/20 cursor-pointer transition-colors group"
                     >
                         <div className="flex items-start justify-between">
                             <div className="flex-1 min-w-0">
                                 <div className="flex items-center gap-2 mb-1">
                                     <h3 className="font-medium text-purple-100 truncate">
-                                        {result.title}
+                                        <HighlightedText text={result.title} highlights={result.titleHighlights} />
                                     </h3>
                                     <div className="flex items-center gap-1">
                                         {result.isStarred && <Star className="w-3 h-3 text-yellow-400 fill-current" />}
@@ -172,10 +262,25 @@ export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: Advanc
                                     <span>{new Date(result.updatedAt).toLocaleDateString()}</span>
                                     <span>•</span>
                                     <span>{result.messageCount} messages</span>
+                                    {result.matchedMessageCount > 1 && (
+                                        <>
+                                            <span>•</span>
+                                            <span>{result.matchedMessageCount} matching messages</span>
+                                        </>
+                                    )}
+                                    {result.semanticMatch && (
+                                        <Badge variant="outline" className="text-xs py-0 px-1 border-purple-500/30 text-purple-300">
+                                            <Sparkles className="w-3 h-3 mr-1" />
+                                            Similar meaning
+                                        </Badge>
+                                    )}
                                 </div>
-                                {result.matchedContent && (
+                                {result.matchedSnippet && (
                                     <p className="text-sm text-purple-300 mt-2 line-clamp-2">
-                                        ...{result.matchedContent}...
+                                        <HighlightedText
+                                            text={result.matchedSnippet.text}
+                                            highlights={result.matchedSnippet.highlights}
+                                        />
                                     </p>
                                 )}
                                 {result.matchedAttachments && result.matchedAttachments.length > 0 && (
@@ -189,6 +294,18 @@ export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: Advanc
                         </div>
                     </div>
                 ))}
+                {search?.hasMore && (
+                    <div className="flex justify-center pt-2">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLimit((current) => current + SEARCH_PAGE_SIZE)}
+                            className="text-purple-300 hover:text-purple-100"
+                        >
+                            Load more
+                        </Button>
+                    </div>
+                )}
             </div>
         );
     };
@@ -258,6 +375,19 @@ export function AdvancedSearchModal({ open, onOpenChange, onSelectChat }: Advanc
                                                     onCheckedChange={(checked) => updateFilter("includeContent", checked)}
                                                 />
                                             </div>
+                                            <div className="flex items-center justify-between">
+                                                <span
+                                                    className="text-sm text-purple-300"
+                                                    title="Also find messages that say the same thing in other words"
+                                                >
+                                                    Match by meaning
+                                                </span>
+                                                <Switch
+                                                    checked={matchByMeaning}
+                                                    disabled={!filters.includeContent}
+                                                    onCheckedChange={handleMatchByMeaningChange}
+                                                />
+                                            </div>
                                             <div className="flex items-center justify-between">
                                                 <span className="text-sm text-purple-300">Attachments</span>
                                                 <Switch
@@ -26,7 +26,7 @@ import {
     eachHourOfInterval,
     startOfHour,
 } from "date-fns";
-import { cn } from "../lib/utils";
+import { cn, formatCost } from "../lib/utils";
 
 // Color palette consistent with app theme
 const COLORS = {
@@ -534,6 +534,113 @@ export function ProjectDistributionChart({
     );
 }
 
+// Spend Trend Chart
+interface SpendTrendChartProps {
+    data: Array<{ period: string; cost: number; timestamp: number }>;
+    className?: string;
+}
+
+export function SpendTrendChart({ data, className }: SpendTrendChartProps) {
+    const formatLabel = (timestamp: number) => {
+        return format(new Date(timestamp), "MMM dd");
+    };
+
+    return (
+        <div className={cn("h-64", className)}>
+            <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={data}>
+                    <CartesianGrid
+                        strokeDasharray="3 3"
+                        stroke="rgba(168, 85, 247, 0.2)"
+                    />
+                    <XAxis
+                        dataKey="timestamp"
+                        tickFormatter={formatLabel}
+                        stroke="#9ca3af"
+                        fontSize={12}
+                    />
+                    <YAxis
+                        stroke="#9ca3af"
+                        fontSize={12}
+                        tickFormatter={(value: number) => formatCost(value)}
+                    />
+                    <Tooltip
+                        content={
+                            <CustomTooltip
+                                labelFormatter={formatLabel}
+                                valueFormatter={(value: number) =>
+                                    formatCost(value)
+                                }
+                            />
+                        }
+                    />
+                    <Area
+                        type="monotone"
+                        dataKey="cost"
+                        stroke={COLORS.success}
+                        fill={COLORS.success}
+                        fillOpacity={0.4}
+                        name="Spend"
+                    />
+                </AreaChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
+
+// Cost by Model Bar Chart
+interface CostByModelChartProps {
+    data: Array<{ model: string; cost: number; count: number }>;
+    className?: string;
+}
+
+export function CostByModelChart({ data, className }: CostByModelChartProps) {
+    const chartData = data.slice(0, 10).map((item, index) => ({
+        ...item,
+        color: CHART_COLORS[index % CHART_COLORS.length],
+    }));
+
+    return (
+        <div className={cn("h-64", className)}>
+            <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} layout="vertical">
+                    <CartesianGrid
+                        strokeDasharray="3 3"
+                        stroke="rgba(168, 85, 247, 0.2)"
+                    />
+                    <XAxis
+                        type="number"
+                        stroke="#9ca3af"
+                        fontSize={12}
+                        tickFormatter={(value: number) => formatCost(value)}
+                    />
+                    <YAxis
+                        type="category"
+                        dataKey="model"
+                        stroke="#9ca3af"
+                        fontSize={11}
+                        width={140}
+                    />
+                    <Tooltip
+                        content={
+                            <CustomTooltip
+                                valueFormatter={(value: number) =>
+                                    formatCost(value)
+                                }
+                            />
+                        }
+                    />
+                    <Bar dataKey="cost" name="Spend" radius={[0, 2, 2, 0]}>
+                        {chartData.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color} />
+                        ))}
+                    </Bar>
+                </BarChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
+
 // Animated Counter Component
 interface AnimatedCounterProps {
     value: number;
@@ -30,8 +30,10 @@ import {
     Code,
     Crown,
     RefreshCw,
+    DollarSign,
+    Coins,
 } from "lucide-react";
-import { cn } from "../lib/utils";
+import { cn, formatCost } from "../lib/utils";
 import {
     ActivityHeatmap,
     MessageTrendChart,
@@ -42,6 +44,8 @@ import {
     ProjectDistributionChart,
     AnimatedCounter,
     LibraryTypeChart,
+    SpendTrendChart,
+    CostByModelChart,
 } from "./AnalyticsCharts";
 import {
     AnalyticsPDFExporter,
@@ -60,6 +64,7 @@ import {
 import { AnalyticsDrilldown } from "./AnalyticsDrilldown";
 import { CustomDatePicker, type DateRange } from "./CustomDatePicker";
 import { GranularShareModal } from "./GranularShareModal";
+import { useUnlockTokens } from "../hooks/useChatUnlock";
 
 interface AnalyticsDashboardProps {
     open: boolean;
@@ -708,7 +713,7 @@ export function AnalyticsDashboard({
                             onValueChange={setActiveTab}
                             className="h-full flex flex-col"
                         >
-                            <TabsList className="mx-6 mt-4 grid w-fit grid-cols-6 bg-purple-500/10">
+                            <TabsList className="mx-6 mt-4 grid w-fit grid-cols-7 bg-purple-500/10">
                                 <TabsTrigger
                                     value="overview"
                                     className="flex items-center gap-2"
@@ -751,6 +756,13 @@ export function AnalyticsDashboard({
                                     <Clock className="w-4 h-4" />
                                     Activity
                                 </TabsTrigger>
+                                <TabsTrigger
+                                    value="costs"
+                                    className="flex items-center gap-2"
+                                >
+                                    <DollarSign className="w-4 h-4" />
+                                    Costs
+                                </TabsTrigger>
                             </TabsList>
 
                             <div className="flex-1 overflow-y-auto px-6 py-4">
@@ -819,6 +831,18 @@ export function AnalyticsDashboard({
                                         onShare={handleChartShare}
                                     />
                                 </TabsContent>
+
+                                <TabsContent
+                                    value="costs"
+                                    className="mt-0 space-y-6"
+                                >
+                                    <CostsTab
+                                        analytics={filteredData}
+                                        timeRange={timeRange}
+                                        filters={searchFilters}
+                                        onShare={handleChartShare}
+                                    />
+                                </TabsContent>
                             </div>
                         </Tabs>
                     </div>
@@ -1422,6 +1446,157 @@ function TimeTab({
 }
 
 // Utility Components
+const COST_BREAKDOWNS = [
+    { metric: "cost_by_model", label: "Model" },
+    { metric: "cost_by_provider", label: "Provider" },
+    { metric: "cost_by_project", label: "Project" },
+    { metric: "cost_by_chat", label: "Chat" },
+];
+
+function CostsTab({
+    analytics,
+    timeRange,
+    filters,
+    onShare,
+}: {
+    analytics: any;
+    timeRange: {
+        start: number;
+        end: number;
+        granularity: "day" | "week" | "month";
+    };
+    filters: AnalyticsFilter;
+    onShare: (chartId: string, chartElement?: HTMLElement) => void;
+}) {
+    const [breakdownMetric, setBreakdownMetric] = useState(
+        COST_BREAKDOWNS[0].metric
+    );
+    const costs = analytics?.costAnalytics;
+
+    // Full breakdown (every chat / project) comes from the drilldown query
+    const unlockTokens = useUnlockTokens();
+    const breakdown = useQuery(api.analytics.getAnalyticsDrilldown, {
+        metric: breakdownMetric,
+        timeRange,
+        filters: { models: filters.models, projects: filters.projects },
+        unlockTokens,
+    });
+
+    return (
+        <div className="space-y-6">
+            {/* Spend Metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <MetricCard
+                    title="Total Spend"
+                    value={formatCost(costs?.totalCost || 0)}
+                    subtitle="in selected range"
+                    icon={<DollarSign className="w-5 h-5" />}
+                    trend="neutral"
+                />
+                <MetricCard
+                    title="Per Response"
+                    value={formatCost(costs?.averageCostPerResponse || 0)}
+                    subtitle={`${costs?.pricedResponses || 0} priced responses`}
+                    icon={<Coins className="w-5 h-5" />}
+                    trend="neutral"
+                />
+                <MetricCard
+                    title="Tokens"
+                    value={(costs?.totalTokens || 0).toLocaleString()}
+                    subtitle="prompt + completion"
+                    icon={<Hash className="w-5 h-5" />}
+                    trend="neutral"
+                />
+                <MetricCard
+                    title="Top Provider"
+                    value={costs?.costByProvider?.[0]?.provider || "N/A"}
+                    subtitle={
+                        costs?.costByProvider?.[0]
+                            ? formatCost(costs.costByProvider[0].cost)
+                            : ""
+                    }
+                    icon={<Cpu className="w-5 h-5" />}
+                    trend="neutral"
+                />
+            </div>
+
+            {/* Spend Charts */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <ChartCard
+                    title="Spend Over Time"
+                    description="Dollar cost of AI responses"
+                    onShare={() => onShare("spend-over-time")}
+                >
+                    <SpendTrendChart data={costs?.spendTrend || []} />
+                </ChartCard>
+
+                <ChartCard
+                    title="Cost by Model"
+                    description="Where the spend goes"
+                    onShare={() => onShare("cost-by-model")}
+                >
+                    <CostByModelChart data={costs?.costByModel || []} />
+                </ChartCard>
+            </div>
+
+            {/* Spend Breakdown */}
+            <div className="bg-purple-500/10 rounded-lg border border-purple-500/30 p-6">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-purple-100">
+                        Spend Breakdown
+                    </h3>
+                    <div className="flex gap-1">
+                        {COST_BREAKDOWNS.map(({ metric, label }) => (
+                            <Button
+                                key={metric}
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setBreakdownMetric(metric)}
+                                className={cn(
+                                    "text-purple-300 hover:text-purple-100",
+                                    breakdownMetric === metric &&
+                                        "bg-purple-500/20 text-purple-100"
+                                )}
+                            >
+                                {label}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+                <div className="space-y-2 max-h-80 overflow-y-auto">
+                    {breakdown?.breakdown.length === 0 && (
+                        <p className="text-sm text-purple-400">
+                            No priced responses in this range
+                        </p>
+                    )}
+                    {breakdown?.breakdown.map((item, index) => (
+                        <div
+                            key={`${item.label}-${index}`}
+                            className="flex items-center gap-3 p-3 bg-purple-500/10 rounded border border-purple-500/20"
+                        >
+                            <span className="flex-1 min-w-0 truncate text-purple-100">
+                                {item.label}
+                            </span>
+                            <div className="w-32 h-2 rounded-full bg-purple-500/20 overflow-hidden">
+                                <div
+                                    className="h-full bg-purple-400"
+                                    style={{ width: `${item.percentage}%` }}
+                                />
+                            </div>
+                            <span className="w-10 text-right text-xs text-purple-400">
+                                {item.percentage}%
+                            </span>
+                            <span className="w-20 text-right text-sm font-medium text-purple-200">
+                                {formatCost(item.value)}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+}
+
 function StatCard({
     icon,
     label,
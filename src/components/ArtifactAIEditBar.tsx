@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useAction } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Loader2, Sparkles, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+
+interface ArtifactAIEditBarProps {
+    artifactId: string;
+    content: string;
+    selection: { start: number; end: number } | null;
+    // Persist pending Canvas edits so the model sees what the user sees
+    beforeEdit: () => Promise<void>;
+    onEdited: () => void;
+    onClose: () => void;
+}
+
+function lineRange(content: string, start: number, end: number) {
+    const first = content.slice(0, start).split("\n").length;
+    const last = content.slice(0, end).split("\n").length;
+    return first === last ? `line ${first}` : `lines ${first}-${last}`;
+}
+
+export function ArtifactAIEditBar({
+    artifactId,
+    content,
+    selection,
+    beforeEdit,
+    onEdited,
+    onClose,
+}: ArtifactAIEditBarProps) {
+    const editArtifact = useAction(api.ai.editArtifactWithAI);
+    const [instruction, setInstruction] = useState("");
+    const [isEditing, setIsEditing] = useState(false);
+
+    const handleSubmit = async () => {
+        if (!instruction.trim() || isEditing) return;
+
+        setIsEditing(true);
+        try {
+            await beforeEdit();
+            const result = await editArtifact({
+                artifactId,
+                instruction,
+                selection: selection ?? undefined,
+            });
+
+            if (!result.success) {
+                toast.error(result.error);
+                return;
+            }
+            if (!result.changed) {
+                toast.info("The AI didn't find anything to change");
+                return;
+            }
+
+            toast.success(`v${result.revision}: ${result.summary}`);
+            setInstruction("");
+            onEdited();
+        } catch (error) {
+            console.error("Failed to edit artifact with AI:", error);
+            toast.error("Failed to edit artifact with AI");
+        } finally {
+            setIsEditing(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-purple-600/20 bg-purple-950/30">
+            <Sparkles className="w-4 h-4 shrink-0 text-purple-300" />
+            {selection && (
+                <span className="shrink-0 text-xs px-2 py-0.5 bg-purple-600/30 rounded text-purple-200">
+                    Selection · {lineRange(content, selection.start, selection.end)}
+                </span>
+            )}
+            <Input
+                autoFocus
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter") void handleSubmit();
+                    if (e.key === "Escape") onClose();
+                }}
+                placeholder={
+                    selection
+                        ? "Describe how to change the selection..."
+                        : "Describe how to change this file..."
+                }
+                disabled={isEditing}
+                className="flex-1 h-8 bg-gray-800 border-purple-600/30"
+            />
+            <Button
+                size="sm"
+                onClick={() => void handleSubmit()}
+                disabled={!instruction.trim() || isEditing}
+                className="bg-purple-600 hover:bg-purple-700"
+            >
+                {isEditing ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                    "Apply"
+                )}
+            </Button>
+            <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                disabled={isEditing}
+                className="h-8 w-8 p-0 text-purple-300"
+            >
+                <X className="w-4 h-4" />
+            </Button>
+        </div>
+    );
+}
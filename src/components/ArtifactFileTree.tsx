@@ -0,0 +1,126 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, FileText, Folder } from "lucide-react";
+import { cn } from "../lib/utils";
+
+interface TreeFile {
+    artifactId: string;
+    path: string;
+}
+
+interface TreeNode {
+    name: string;
+    path: string;
+    children: TreeNode[];
+    file?: TreeFile;
+}
+
+interface ArtifactFileTreeProps {
+    files: TreeFile[];
+    activeArtifactId?: string;
+    onSelect: (artifactId: string) => void;
+}
+
+function buildTree(files: TreeFile[]): TreeNode[] {
+    const root: TreeNode = { name: "", path: "", children: [] };
+
+    for (const file of files) {
+        const parts = file.path.split("/");
+        let node = root;
+        parts.forEach((name, index) => {
+            const path = parts.slice(0, index + 1).join("/");
+            const isFile = index === parts.length - 1;
+            let child = node.children.find(
+                (c) => c.name === name && !c.file === !isFile
+            );
+            if (!child) {
+                child = { name, path, children: [] };
+                node.children.push(child);
+            }
+            if (isFile) child.file = file;
+            node = child;
+        });
+    }
+
+    // Folders first, then files, each alphabetically
+    const sort = (nodes: TreeNode[]) => {
+        nodes.sort((a, b) =>
+            !a.file === !b.file
+                ? a.name.localeCompare(b.name)
+                : a.file
+                  ? 1
+                  : -1
+        );
+        nodes.forEach((node) => sort(node.children));
+    };
+    sort(root.children);
+    return root.children;
+}
+
+export function ArtifactFileTree({
+    files,
+    activeArtifactId,
+    onSelect,
+}: ArtifactFileTreeProps) {
+    const tree = useMemo(() => buildTree(files), [files]);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+    const toggle = (path: string) => {
+        setCollapsed((prev) => {
+            const next = new Set(prev);
+            if (next.has(path)) next.delete(path);
+            else next.add(path);
+            return next;
+        });
+    };
+
+    const renderNode = (node: TreeNode, depth: number) => {
+        const indent = { paddingLeft: `${depth * 12 + 8}px` };
+
+        if (node.file) {
+            const artifactId = node.file.artifactId;
+            return (
+                <button
+                    key={node.path}
+                    onClick={() => onSelect(artifactId)}
+                    style={indent}
+                    className={cn(
+                        "w-full flex items-center gap-1.5 py-1 pr-2 text-left text-sm text-purple-200 hover:bg-purple-500/10 truncate",
+                        activeArtifactId === artifactId &&
+                            "bg-purple-500/20 text-purple-100"
+                    )}
+                    title={node.path}
+                >
+                    <FileText className="w-3.5 h-3.5 shrink-0 text-purple-400" />
+                    <span className="truncate">{node.name}</span>
+                </button>
+            );
+        }
+
+        const isCollapsed = collapsed.has(node.path);
+        return (
+            <div key={node.path}>
+                <button
+                    onClick={() => toggle(node.path)}
+                    style={indent}
+                    className="w-full flex items-center gap-1.5 py-1 pr-2 text-left text-sm text-purple-300 hover:bg-purple-500/10"
+                >
+                    {isCollapsed ? (
+                        <ChevronRight className="w-3.5 h-3.5 shrink-0" />
+                    ) : (
+                        <ChevronDown className="w-3.5 h-3.5 shrink-0" />
+                    )}
+                    <Folder className="w-3.5 h-3.5 shrink-0 text-purple-400" />
+                    <span className="truncate">{node.name}</span>
+                </button>
+                {!isCollapsed &&
+                    node.children.map((child) => renderNode(child, depth + 1))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="py-2 overflow-y-auto">
+            {tree.map((node) => renderNode(node, 0))}
+        </div>
+    );
+}
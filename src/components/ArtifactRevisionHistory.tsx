@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Bot, History, RotateCcw, User } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import {
+    diffLines,
+    diffStats,
+    toSplitRows,
+    type DiffLine,
+} from "../lib/textDiff";
+
+interface ArtifactRevisionHistoryProps {
+    artifactId: string;
+    unlockToken?: string; // Required when the chat is password protected
+    onRestored?: () => void;
+}
+
+type CompareMode = "previous" | "current";
+type DiffView = "unified" | "split";
+
+function describeSource(revision: {
+    source: "ai" | "user" | "restore";
+    restoredFrom?: number;
+    instruction?: string;
+}) {
+    if (revision.source === "restore") {
+        return `Restored from v${revision.restoredFrom}`;
+    }
+    if (revision.instruction) return `AI edit: ${revision.instruction}`;
+    return revision.source === "ai" ? "AI response" : "Edited";
+}
+
+function lineClassName(line?: DiffLine) {
+    if (!line) return "bg-gray-900/40";
+    if (line.type === "add") return "bg-green-500/15 text-green-200";
+    if (line.type === "remove") return "bg-red-500/15 text-red-200";
+    return "text-purple-200/80";
+}
+
+function DiffGutter({ number }: { number?: number }) {
+    return (
+        <span className="w-10 shrink-0 select-none pr-2 text-right text-purple-500/60">
+            {number ?? ""}
+        </span>
+    );
+}
+
+export function ArtifactRevisionHistory({
+    artifactId,
+    unlockToken,
+    onRestored,
+}: ArtifactRevisionHistoryProps) {
+    const revisions = useQuery(api.artifacts.getArtifactRevisions, {
+        artifactId,
+        unlockToken,
+    });
+    const restoreRevision = useMutation(api.artifacts.restoreArtifactRevision);
+
+    const [selectedRevision, setSelectedRevision] = useState<number | null>(
+        null
+    );
+    const [compareMode, setCompareMode] = useState<CompareMode>("previous");
+    const [diffView, setDiffView] = useState<DiffView>("unified");
+    const [isRestoring, setIsRestoring] = useState(false);
+
+    useEffect(() => {
+        setSelectedRevision(null);
+    }, [artifactId]);
+
+    // Follow the newest revision until the user picks one
+    const latest = revisions?.[0];
+    const selected =
+        revisions?.find((r) => r.revision === selectedRevision) ?? latest;
+
+    const base = useMemo(() => {
+        if (!revisions || !selected) return undefined;
+        if (compareMode === "current") return latest;
+        return revisions.find((r) => r.revision < selected.revision);
+    }, [revisions, selected, latest, compareMode]);
+
+    const lines = useMemo(() => {
+        if (!selected) return [];
+        // Against the current content the selected revision is the "old" side
+        return compareMode === "current"
+            ? diffLines(selected.content, latest?.content ?? "")
+            : diffLines(base?.content ?? "", selected.content);
+    }, [selected, base, latest, compareMode]);
+    const stats = diffStats(lines);
+
+    const handleRestore = async () => {
+        if (!selected) return;
+        setIsRestoring(true);
+        try {
+            const result = await restoreRevision({
+                artifactId,
+                revision: selected.revision,
+            });
+            setSelectedRevision(null);
+            toast.success(
+                `Restored v${selected.revision} as v${result.revision}`
+            );
+            onRestored?.();
+        } catch (error) {
+            console.error("Failed to restore revision:", error);
+            toast.error("Failed to restore revision");
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    if (revisions === undefined) {
+        return (
+            <div className="p-4 text-sm text-purple-400">
+                Loading history...
+            </div>
+        );
+    }
+
+    if (!selected) {
+        return (
+            <div className="p-4 text-sm text-purple-400">
+                No revisions yet
+            </div>
+        );
+    }
+
+    const isLatest = selected.revision === latest?.revision;
+
+    return (
+        <div className="flex flex-col h-full">
+            {/* Revision timeline */}
+            <div className="max-h-48 overflow-y-auto border-b border-purple-600/20">
+                {revisions.map((revision) => (
+                    <button
+                        key={revision.revision}
+                        onClick={() => setSelectedRevision(revision.revision)}
+                        className={cn(
+                            "w-full flex items-center gap-3 px-4 py-2 text-left text-sm hover:bg-purple-500/10 transition-colors",
+                            revision.revision === selected.revision &&
+                                "bg-purple-500/20"
+                        )}
+                    >
+                        <span className="w-10 font-mono text-purple-300">
+                            v{revision.revision}
+                        </span>
+                        {revision.source === "ai" ? (
+                            <Bot className="w-4 h-4 text-blue-400" />
+                        ) : revision.source === "restore" ? (
+                            <RotateCcw className="w-4 h-4 text-amber-400" />
+                        ) : (
+                            <User className="w-4 h-4 text-purple-400" />
+                        )}
+                        <span className="flex-1 truncate text-purple-100">
+                            {describeSource(revision)}
+                        </span>
+                        {revision.revision === latest?.revision && (
+                            <span className="text-xs px-2 py-0.5 bg-purple-600/30 rounded text-purple-200">
+                                Current
+                            </span>
+                        )}
+                        <span className="text-xs text-purple-400">
+                            {new Date(revision.updatedAt).toLocaleString()}
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            {/* Diff controls */}
+            <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-purple-600/20 text-sm">
+                <History className="w-4 h-4 text-purple-400" />
+                <select
+                    value={compareMode}
+                    onChange={(e) =>
+                        setCompareMode(e.target.value as CompareMode)
+                    }
+                    className="bg-gray-800 border border-purple-600/30 rounded px-2 py-1 text-purple-100"
+                >
+                    <option value="previous">Changes in this revision</option>
+                    <option value="current">Compare with current</option>
+                </select>
+                <div className="flex rounded border border-purple-600/30 overflow-hidden">
+                    {(["unified", "split"] as const).map((view) => (
+                        <button
+                            key={view}
+                            onClick={() => setDiffView(view)}
+                            className={cn(
+                                "px-2 py-1 text-purple-200",
+                                diffView === view && "bg-purple-500/30"
+                            )}
+                        >
+                            {view === "unified" ? "Unified" : "Side by side"}
+                        </button>
+                    ))}
+                </div>
+                <span className="text-xs">
+                    <span className="text-green-400">+{stats.added}</span>{" "}
+                    <span className="text-red-400">-{stats.removed}</span>
+                </span>
+                <div className="flex-1" />
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => void handleRestore()}
+                    disabled={isLatest || isRestoring}
+                    className="border-purple-600/30 text-purple-200"
+                >
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Restore v{selected.revision}
+                </Button>
+            </div>
+
+            {/* Diff */}
+            <div className="flex-1 overflow-auto font-mono text-xs leading-relaxed">
+                {stats.added === 0 && stats.removed === 0 ? (
+                    <div className="p-4 text-purple-400 font-sans text-sm">
+                        {compareMode === "current"
+                            ? "Identical to the current content"
+                            : "No changes"}
+                    </div>
+                ) : diffView === "unified" ? (
+                    lines.map((line, index) => (
+                        <div
+                            key={index}
+                            className={cn("flex", lineClassName(line))}
+                        >
+                            <DiffGutter number={line.oldNumber} />
+                            <DiffGutter number={line.newNumber} />
+                            <span className="w-4 shrink-0 select-none">
+                                {line.type === "add"
+                                    ? "+"
+                                    : line.type === "remove"
+                                      ? "-"
+                                      : " "}
+                            </span>
+                            <span className="whitespace-pre-wrap break-all pr-4">
+                                {line.text}
+                            </span>
+                        </div>
+                    ))
+                ) : (
+                    toSplitRows(lines).map((row, index) => (
+                        <div key={index} className="grid grid-cols-2">
+                            {[row.left, row.right].map((line, side) => (
+                                <div
+                                    key={side}
+                                    className={cn(
+                                        "flex min-w-0",
+                                        side === 0 &&
+                                            "border-r border-purple-600/20",
+                                        lineClassName(line)
+                                    )}
+                                >
+                                    <DiffGutter
+                                        number={
+                                            side === 0
+                                                ? line?.oldNumber
+                                                : line?.newNumber
+                                        }
+                                    />
+                                    <span className="whitespace-pre-wrap break-all pr-2">
+                                        {line?.text}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,654 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { ModelSelector } from "./ModelSelector";
+import { toast } from "sonner";
+import {
+    Bot,
+    X,
+    Plus,
+    ArrowLeft,
+    MessageSquare,
+    Pencil,
+    Trash2,
+    Share2,
+    Link2Off,
+    BookOpen,
+    Search,
+} from "lucide-react";
+import { AVAILABLE_TOOLS } from "../lib/toolsConfig";
+import { getModelDisplayName } from "../lib/modelConfig";
+
+interface AssistantsModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onChatStarted: (chatId: Id<"chats">) => void;
+}
+
+type KnowledgeItem = NonNullable<Doc<"assistants">["knowledge"]>[number];
+
+type AssistantForm = {
+    name: string;
+    description: string;
+    avatar: string;
+    instructions: string;
+    defaultModel: string;
+    temperature?: number;
+    enabledTools: string[];
+    knowledge: KnowledgeItem[];
+    restrictCommands: boolean;
+    allowedCommands: string[];
+};
+
+// Same commands as MessageInput; availability still depends on the model
+const ASSISTANT_COMMANDS = [
+    { command: "/search", label: "Search" },
+    { command: "/canvas", label: "Canvas" },
+    { command: "/image", label: "Image" },
+    { command: "/video", label: "Video" },
+];
+
+const EMPTY_FORM: AssistantForm = {
+    name: "",
+    description: "",
+    avatar: "🤖",
+    instructions: "",
+    defaultModel: "gemini-2.0-flash",
+    temperature: undefined,
+    enabledTools: [],
+    knowledge: [],
+    restrictCommands: false,
+    allowedCommands: ASSISTANT_COMMANDS.map((c) => c.command),
+};
+
+function toForm(assistant: Doc<"assistants">): AssistantForm {
+    return {
+        name: assistant.name,
+        description: assistant.description || "",
+        avatar: assistant.avatar || "🤖",
+        instructions: assistant.instructions,
+        defaultModel: assistant.defaultModel,
+        temperature: assistant.aiSettings?.temperature,
+        enabledTools: assistant.aiSettings?.enabledTools || [],
+        knowledge: assistant.knowledge || [],
+        restrictCommands: !!assistant.allowedCommands,
+        allowedCommands:
+            assistant.allowedCommands ||
+            ASSISTANT_COMMANDS.map((c) => c.command),
+    };
+}
+
+export function AssistantsModal({
+    open,
+    onOpenChange,
+    onChatStarted,
+}: AssistantsModalProps) {
+    const [editing, setEditing] = useState<{
+        assistantId: Id<"assistants"> | null;
+        form: AssistantForm;
+    } | null>(null);
+    const [knowledgeQuery, setKnowledgeQuery] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    const assistants = useQuery(api.assistants.listAssistants);
+    const librarySearch = useQuery(
+        api.library.searchLibraryItems,
+        editing ? { query: knowledgeQuery, limit: 8 } : "skip"
+    );
+    const libraryResults =
+        librarySearch && "results" in librarySearch ? librarySearch.results : [];
+
+    const createAssistant = useMutation(api.assistants.createAssistant);
+    const updateAssistant = useMutation(api.assistants.updateAssistant);
+    const deleteAssistant = useMutation(api.assistants.deleteAssistant);
+    const startChatFromAssistant = useMutation(
+        api.assistants.startChatFromAssistant
+    );
+    const shareAssistant = useMutation(api.assistants.shareAssistant);
+    const revokeAssistantShare = useMutation(
+        api.assistants.revokeAssistantShare
+    );
+
+    const updateForm = (changes: Partial<AssistantForm>) => {
+        setEditing((current) =>
+            current
+                ? { ...current, form: { ...current.form, ...changes } }
+                : current
+        );
+    };
+
+    const handleClose = () => {
+        setEditing(null);
+        setKnowledgeQuery("");
+        onOpenChange(false);
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        const { form } = editing;
+        if (!form.name.trim() || !form.instructions.trim()) {
+            toast.error("Name and instructions are required");
+            return;
+        }
+
+        const fields = {
+            name: form.name.trim(),
+            description: form.description.trim() || undefined,
+            avatar: form.avatar.trim() || undefined,
+            instructions: form.instructions,
+            defaultModel: form.defaultModel,
+            aiSettings: {
+                temperature: form.temperature,
+                enabledTools:
+                    form.enabledTools.length > 0 ? form.enabledTools : undefined,
+            },
+            knowledge: form.knowledge.length > 0 ? form.knowledge : undefined,
+            allowedCommands: form.restrictCommands
+                ? form.allowedCommands
+                : undefined,
+        };
+
+        setIsSaving(true);
+        try {
+            if (editing.assistantId) {
+                await updateAssistant({
+                    assistantId: editing.assistantId,
+                    ...fields,
+                });
+                toast.success("Assistant updated");
+            } else {
+                await createAssistant(fields);
+                toast.success("Assistant created");
+            }
+            setEditing(null);
+        } catch (error) {
+            console.error("Failed to save assistant:", error);
+            toast.error(
+                error instanceof Error ? error.message : "Failed to save assistant"
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleStartChat = async (assistantId: Id<"assistants">) => {
+        try {
+            const chatId = await startChatFromAssistant({ assistantId });
+            onChatStarted(chatId);
+            handleClose();
+        } catch (error) {
+            console.error("Failed to start chat:", error);
+            toast.error("Failed to start chat");
+        }
+    };
+
+    const handleShare = async (assistant: Doc<"assistants">) => {
+        try {
+            const shareId = await shareAssistant({
+                assistantId: assistant._id,
+            });
+            const url = `${window.location.origin}/share/assistant/${shareId}`;
+            await navigator.clipboard.writeText(url);
+            toast.success("Share link copied to clipboard");
+        } catch (error) {
+            console.error("Failed to share assistant:", error);
+            toast.error("Failed to share assistant");
+        }
+    };
+
+    const handleRevokeShare = async (assistantId: Id<"assistants">) => {
+        try {
+            await revokeAssistantShare({ assistantId });
+            toast.success("Share link revoked");
+        } catch (error) {
+            console.error("Failed to revoke share:", error);
+            toast.error("Failed to revoke share");
+        }
+    };
+
+    const handleDelete = async (assistant: Doc<"assistants">) => {
+        if (
+            !confirm(
+                `Delete "${assistant.name}"? Chats started from it are kept.`
+            )
+        )
+            return;
+        try {
+            await deleteAssistant({ assistantId: assistant._id });
+            toast.success("Assistant deleted");
+        } catch (error) {
+            console.error("Failed to delete assistant:", error);
+            toast.error("Failed to delete assistant");
+        }
+    };
+
+    const renderList = () => (
+        <div className="space-y-3">
+            <Button
+                onClick={() => setEditing({ assistantId: null, form: EMPTY_FORM })}
+                className="w-full bg-gradient-to-r from-purple-600/80 to-indigo-600/80 hover:from-purple-600/70 hover:to-indigo-600/70 text-white"
+            >
+                <Plus className="w-4 h-4 mr-2" />
+                New Assistant
+            </Button>
+
+            {assistants === undefined ? (
+                <div className="text-center py-8">
+                    <div className="w-6 h-6 border-2 border-purple-500 border-t-transparent rounded-full animate-spin mx-auto" />
+                </div>
+            ) : assistants.length === 0 ? (
+                <p className="text-center text-purple-300/80 py-8 text-sm">
+                    Assistants bundle instructions, a model and pinned
+                    knowledge so you can start focused chats in one click.
+                </p>
+            ) : (
+                assistants.map((assistant) => (
+                    <div
+                        key={assistant._id}
+                        className="p-3 rounded-lg border border-purple-600/20 bg-purple-500/10"
+                    >
+                        <div className="flex items-start gap-3">
+                            <div className="text-2xl leading-none pt-1">
+                                {assistant.avatar || "🤖"}
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-medium text-purple-100 truncate">
+                                    {assistant.name}
+                                </div>
+                                {assistant.description && (
+                                    <p className="text-sm text-purple-300/80 line-clamp-2">
+                                        {assistant.description}
+                                    </p>
+                                )}
+                                <div className="flex items-center gap-3 text-xs text-purple-400/80 mt-1">
+                                    <span>
+                                        {getModelDisplayName(
+                                            assistant.defaultModel
+                                        )}
+                                    </span>
+                                    {(assistant.knowledge?.length ?? 0) > 0 && (
+                                        <span className="flex items-center gap-1">
+                                            <BookOpen className="w-3 h-3" />
+                                            {assistant.knowledge!.length}{" "}
+                                            knowledge
+                                        </span>
+                                    )}
+                                    {assistant.isPublic && (
+                                        <span className="flex items-center gap-1">
+                                            <Share2 className="w-3 h-3" />
+                                            Shared
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex items-center justify-end gap-1 mt-3">
+                            <button
+                                onClick={() =>
+                                    setEditing({
+                                        assistantId: assistant._id,
+                                        form: toForm(assistant),
+                                    })
+                                }
+                                className="p-2 rounded-lg hover:bg-purple-500/20 text-purple-300"
+                                title="Edit"
+                            >
+                                <Pencil className="w-4 h-4" />
+                            </button>
+                            {assistant.isPublic ? (
+                                <button
+                                    onClick={() =>
+                                        void handleRevokeShare(assistant._id)
+                                    }
+                                    className="p-2 rounded-lg hover:bg-purple-500/20 text-purple-300"
+                                    title="Stop sharing"
+                                >
+                                    <Link2Off className="w-4 h-4" />
+                                </button>
+                            ) : null}
+                            <button
+                                onClick={() => void handleShare(assistant)}
+                                className="p-2 rounded-lg hover:bg-purple-500/20 text-purple-300"
+                                title="Copy share link"
+                            >
+                                <Share2 className="w-4 h-4" />
+                            </button>
+                            <button
+                                onClick={() => void handleDelete(assistant)}
+                                className="p-2 rounded-lg hover:bg-red-500/20 text-red-300"
+                                title="Delete"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                            <Button
+                                onClick={() =>
+                                    void handleStartChat(assistant._id)
+                                }
+                                className="ml-2 bg-purple-600/80 hover:bg-purple-600/70 text-white h-8"
+                            >
+                                <MessageSquare className="w-4 h-4 mr-2" />
+                                Start Chat
+                            </Button>
+                        </div>
+                    </div>
+                ))
+            )}
+        </div>
+    );
+
+    const renderForm = (form: AssistantForm) => {
+        const pinnedIds = new Set(form.knowledge.map((item) => item.id));
+        return (
+            <div className="space-y-5">
+                <div className="flex gap-3">
+                    <div className="space-y-1 w-20">
+                        <label className="text-sm font-medium text-purple-200">
+                            Avatar
+                        </label>
+                        <input
+                            value={form.avatar}
+                            onChange={(e) => updateForm({ avatar: e.target.value })}
+                            maxLength={4}
+                            className="w-full px-3 py-2 text-center text-xl bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-100 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                    </div>
+                    <div className="space-y-1 flex-1">
+                        <label className="text-sm font-medium text-purple-200">
+                            Name
+                        </label>
+                        <input
+                            value={form.name}
+                            onChange={(e) => updateForm({ name: e.target.value })}
+                            placeholder="Code Reviewer"
+                            className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-100 placeholder-purple-400/60 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                    </div>
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-purple-200">
+                        Description
+                    </label>
+                    <input
+                        value={form.description}
+                        onChange={(e) =>
+                            updateForm({ description: e.target.value })
+                        }
+                        placeholder="What this assistant is for"
+                        className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-100 placeholder-purple-400/60 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                    />
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-purple-200">
+                        Instructions
+                    </label>
+                    <textarea
+                        value={form.instructions}
+                        onChange={(e) =>
+                            updateForm({ instructions: e.target.value })
+                        }
+                        rows={6}
+                        placeholder="You are a meticulous code reviewer..."
+                        className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-100 placeholder-purple-400/60 focus:outline-none focus:ring-2 focus:ring-purple-500/50 resize-y"
+                    />
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-purple-200">
+                        Default Model
+                    </label>
+                    <ModelSelector
+                        selectedModel={form.defaultModel}
+                        onModelChange={(model) =>
+                            updateForm({ defaultModel: model })
+                        }
+                        context="settings"
+                    />
+                </div>
+
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-purple-200 flex justify-between">
+                        <span>Temperature</span>
+                        <span className="text-purple-400">
+                            {form.temperature ?? "Default"}
+                        </span>
+                    </label>
+                    <input
+                        type="range"
+                        min="0"
+                        max="2"
+                        step="0.1"
+                        value={form.temperature ?? 0.7}
+                        onChange={(e) =>
+                            updateForm({
+                                temperature: parseFloat(e.target.value),
+                            })
+                        }
+                        className="w-full accent-purple-500"
+                    />
+                </div>
+
+                {/* Tools */}
+                <div className="space-y-2">
+                    <label className="text-sm font-medium text-purple-200">
+                        Tools
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                        {AVAILABLE_TOOLS.map((tool) => {
+                            const isEnabled = form.enabledTools.includes(tool.id);
+                            return (
+                                <button
+                                    key={tool.id}
+                                    onClick={() =>
+                                        updateForm({
+                                            enabledTools: isEnabled
+                                                ? form.enabledTools.filter(
+                                                      (id) => id !== tool.id
+                                                  )
+                                                : [...form.enabledTools, tool.id],
+                                        })
+                                    }
+                                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                                        isEnabled
+                                            ? "bg-purple-500/30 border-purple-400/50 text-purple-100"
+                                            : "bg-purple-500/5 border-purple-600/20 text-purple-400"
+                                    }`}
+                                >
+                                    {tool.icon} {tool.name}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* Commands */}
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-sm font-medium text-purple-200">
+                        <input
+                            type="checkbox"
+                            checked={form.restrictCommands}
+                            onChange={(e) =>
+                                updateForm({ restrictCommands: e.target.checked })
+                            }
+                            className="accent-purple-500"
+                        />
+                        Limit / commands
+                    </label>
+                    {form.restrictCommands && (
+                        <div className="flex flex-wrap gap-2">
+                            {ASSISTANT_COMMANDS.map(({ command, label }) => {
+                                const isAllowed =
+                                    form.allowedCommands.includes(command);
+                                return (
+                                    <button
+                                        key={command}
+                                        onClick={() =>
+                                            updateForm({
+                                                allowedCommands: isAllowed
+                                                    ? form.allowedCommands.filter(
+                                                          (c) => c !== command
+                                                      )
+                                                    : [
+                                                          ...form.allowedCommands,
+                                                          command,
+                                                      ],
+                                            })
+                                        }
+                                        className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                                            isAllowed
+                                                ? "bg-purple-500/30 border-purple-400/50 text-purple-100"
+                                                : "bg-purple-500/5 border-purple-600/20 text-purple-400 line-through"
+                                        }`}
+                                    >
+                                        {command} {label}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+
+                {/* Knowledge */}
+                <div className="space-y-2">
+                    <label className="text-sm font-medium text-purple-200 flex items-center gap-2">
+                        <BookOpen className="w-4 h-4 text-purple-400" />
+                        Knowledge
+                    </label>
+                    {form.knowledge.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {form.knowledge.map((item) => (
+                                <span
+                                    key={item.id}
+                                    className="flex items-center gap-1 px-2 py-1 rounded-lg bg-purple-500/20 border border-purple-500/30 text-sm text-purple-100"
+                                >
+                                    {item.name}
+                                    <button
+                                        onClick={() =>
+                                            updateForm({
+                                                knowledge: form.knowledge.filter(
+                                                    (k) => k.id !== item.id
+                                                ),
+                                            })
+                                        }
+                                        className="text-purple-300 hover:text-purple-100"
+                                        title="Remove"
+                                    >
+                                        <X className="w-3 h-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="relative">
+                        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-purple-400" />
+                        <input
+                            value={knowledgeQuery}
+                            onChange={(e) => setKnowledgeQuery(e.target.value)}
+                            placeholder="Search your library to pin items..."
+                            className="w-full pl-9 pr-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-100 placeholder-purple-400/60 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                        />
+                    </div>
+                    <div className="space-y-1 max-h-40 overflow-y-auto">
+                        {libraryResults
+                            .filter((item) => !pinnedIds.has(item.id))
+                            .map((item) => (
+                                <button
+                                    key={`${item.type}-${item.id}`}
+                                    onClick={() =>
+                                        updateForm({
+                                            knowledge: [
+                                                ...form.knowledge,
+                                                {
+                                                    type: item.type,
+                                                    id: item.id,
+                                                    name: item.name,
+                                                    size: item.size,
+                                                    mimeType: item.mimeType,
+                                                },
+                                            ],
+                                        })
+                                    }
+                                    className="w-full flex items-center justify-between px-3 py-2 rounded-lg hover:bg-purple-500/15 text-left text-sm"
+                                >
+                                    <span className="text-purple-100 truncate">
+                                        {item.name}
+                                    </span>
+                                    <span className="text-xs text-purple-400 ml-2">
+                                        {item.type}
+                                    </span>
+                                </button>
+                            ))}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : handleClose())}>
+            <DialogContent
+                className="bg-transparent backdrop-blur-lg border border-purple-600/30 text-purple-100 max-w-2xl max-h-[85vh] overflow-hidden flex flex-col"
+                hideCloseButton
+            >
+                <DialogHeader>
+                    <DialogTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            {editing ? (
+                                <button
+                                    onClick={() => setEditing(null)}
+                                    className="p-1 rounded-lg hover:bg-purple-500/20 transition-colors"
+                                    title="Back"
+                                >
+                                    <ArrowLeft className="w-5 h-5 text-purple-300" />
+                                </button>
+                            ) : (
+                                <Bot className="w-5 h-5 text-purple-300" />
+                            )}
+                            <span className="text-lg font-semibold text-purple-100">
+                                {editing
+                                    ? editing.assistantId
+                                        ? "Edit Assistant"
+                                        : "New Assistant"
+                                    : "Assistants"}
+                            </span>
+                        </div>
+                        <button
+                            onClick={handleClose}
+                            className="p-2 rounded-lg hover:bg-purple-500/20 transition-colors"
+                            title="Close"
+                        >
+                            <X className="w-5 h-5 text-purple-300" />
+                        </button>
+                    </DialogTitle>
+                </DialogHeader>
+
+                <div className="flex-1 overflow-y-auto pr-1">
+                    {editing ? renderForm(editing.form) : renderList()}
+                </div>
+
+                {editing && (
+                    <div className="flex justify-end gap-2 pt-4 border-t border-purple-600/20">
+                        <Button
+                            variant="ghost"
+                            onClick={() => setEditing(null)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() => void handleSave()}
+                            disabled={isSaving}
+                            className="bg-gradient-to-r from-purple-600/80 to-indigo-600/80 hover:from-purple-600/70 hover:to-indigo-600/70 text-white"
+                        >
+                            {isSaving ? "Saving..." : "Save Assistant"}
+                        </Button>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { ArrowLeft, ArrowRight, Columns2, MessageSquarePlus } from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { cn } from "../lib/utils";
+import { useUnlockToken } from "../hooks/useChatUnlock";
+import { useChatKey, useDecryptedMessages } from "../hooks/useChatEncryption";
+
+type Comparison = NonNullable<
+    FunctionReturnType<typeof api.branches.compareBranches>
+>;
+type ComparedMessage = Comparison["turns"][number]["left"][number];
+type Side = "left" | "right";
+
+interface BranchCompareDialogProps {
+    chatId: Id<"chats">;
+    leftBranchId: Id<"branches">;
+    rightBranchId: Id<"branches">;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onOpenChat?: (chatId: Id<"chats">) => void;
+}
+
+const ROLE_LABELS: Record<ComparedMessage["role"], string> = {
+    user: "You",
+    assistant: "Assistant",
+    system: "System",
+};
+
+export function BranchCompareDialog({
+    chatId,
+    leftBranchId,
+    rightBranchId,
+    open,
+    onOpenChange,
+    onOpenChat,
+}: BranchCompareDialogProps) {
+    const unlockToken = useUnlockToken(chatId);
+    const comparison = useQuery(
+        api.branches.compareBranches,
+        open ? { leftBranchId, rightBranchId, unlockToken } : "skip"
+    );
+    // Encrypted chats are compared on the decrypted text
+    const chatKey = useChatKey(chatId);
+    const comparedMessages = useMemo(
+        () => comparison?.turns.flatMap((turn) => [...turn.left, ...turn.right]),
+        [comparison]
+    );
+    const decryptedMessages = useDecryptedMessages(comparedMessages, chatKey?.key);
+    const plainText = useMemo(
+        () => new Map(decryptedMessages?.map((m) => [m._id, m.content])),
+        [decryptedMessages]
+    );
+    const textOf = (message: ComparedMessage) =>
+        plainText.get(message._id) ?? message.content;
+    const cherryPick = useMutation(api.branches.cherryPickMessages);
+    const createMergedChat = useMutation(
+        api.chats.createChatFromMergedBranches
+    );
+
+    const [selectedIds, setSelectedIds] = useState<Set<Id<"messages">>>(
+        new Set()
+    );
+    const [isWorking, setIsWorking] = useState(false);
+
+    useEffect(() => {
+        setSelectedIds(new Set());
+    }, [leftBranchId, rightBranchId]);
+
+    const toggle = (messageId: Id<"messages">) => {
+        setSelectedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(messageId)) next.delete(messageId);
+            else next.add(messageId);
+            return next;
+        });
+    };
+
+    // Selected messages in reading order: turn by turn, left column first
+    const selectedOn = (sides: Side[]) =>
+        (comparison?.turns ?? []).flatMap((turn) =>
+            sides.flatMap((side) =>
+                turn[side]
+                    .filter((message) => selectedIds.has(message._id))
+                    .map((message) => message._id)
+            )
+        );
+    const selectedLeft = selectedOn(["left"]);
+    const selectedRight = selectedOn(["right"]);
+
+    const handleCopy = async (from: Side) => {
+        if (!comparison) return;
+        const target = from === "left" ? comparison.right : comparison.left;
+        const messageIds = from === "left" ? selectedLeft : selectedRight;
+
+        setIsWorking(true);
+        try {
+            const result = await cherryPick({
+                targetBranchId: target._id,
+                messageIds,
+            });
+            const count = result.copiedMessageIds.length;
+            toast.success(
+                `Copied ${count} message${count === 1 ? "" : "s"} to ${target.name}`
+            );
+            setSelectedIds(new Set());
+        } catch (error) {
+            console.error("Failed to copy messages:", error);
+            toast.error("Failed to copy messages");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleMerge = async () => {
+        if (!comparison) return;
+
+        setIsWorking(true);
+        try {
+            const result = await createMergedChat({
+                branchId: comparison.left._id,
+                messageIds: selectedOn(["left", "right"]),
+            });
+            toast.success(
+                `Created new chat with ${result.messageCount} messages`
+            );
+            onOpenChange(false);
+            onOpenChat?.(result.newChatId);
+        } catch (error) {
+            console.error("Failed to create merged chat:", error);
+            toast.error("Failed to create merged chat");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const renderMessage = (
+        message: ComparedMessage | undefined,
+        counterpart: ComparedMessage | undefined
+    ) => {
+        if (!message) return <div />;
+        const isSame = !!counterpart && textOf(counterpart) === textOf(message);
+        const isSelected = selectedIds.has(message._id);
+
+        return (
+            <label
+                className={cn(
+                    "flex gap-2 p-3 rounded-lg border cursor-pointer transition-colors",
+                    isSelected
+                        ? "border-purple-400 bg-purple-500/20"
+                        : "border-purple-600/20 bg-gray-800/50 hover:bg-gray-800",
+                    isSame && !isSelected && "opacity-60"
+                )}
+            >
+                <input
+                    type="checkbox"
+                    checked={isSelected}
+                    onChange={() => toggle(message._id)}
+                    className="mt-1 accent-purple-500"
+                />
+                <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 mb-1 text-xs text-purple-400">
+                        <span className="font-medium text-purple-300">
+                            {ROLE_LABELS[message.role]}
+                        </span>
+                        {message.model && <span>{message.model}</span>}
+                        {isSame && <span>· same on both</span>}
+                    </div>
+                    <div className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words text-sm text-purple-100">
+                        {textOf(message)}
+                    </div>
+                </div>
+            </label>
+        );
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="bg-gray-900/95 backdrop-blur-lg border border-purple-600/30 text-purple-100 max-w-6xl h-[85vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2 text-purple-100">
+                        <Columns2 className="w-5 h-5" />
+                        Compare Branches
+                    </DialogTitle>
+                </DialogHeader>
+
+                {comparison === undefined ? (
+                    <div className="p-4 text-sm text-purple-400">
+                        Loading branches...
+                    </div>
+                ) : comparison === null ? (
+                    <div className="p-4 text-sm text-purple-400">
+                        These branches are no longer available.
+                    </div>
+                ) : (
+                    <>
+                        <p className="text-xs text-purple-400">
+                            Forked at:{" "}
+                            {comparison.forkPreview ?? "an edited message"} ·{" "}
+                            {comparison.sharedMessageCount} shared messages
+                            before the fork
+                        </p>
+
+                        <div className="grid grid-cols-2 gap-4 text-sm font-medium text-purple-200">
+                            {(["left", "right"] as const).map((side) => (
+                                <div
+                                    key={side}
+                                    className="flex items-center gap-2"
+                                >
+                                    {comparison[side].name}
+                                    {comparison[side].isActive && (
+                                        <span className="text-xs px-1.5 py-0.5 rounded bg-purple-600/40">
+                                            current
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+                            {comparison.turns.length === 0 && (
+                                <div className="text-sm text-purple-400">
+                                    Neither branch has messages yet.
+                                </div>
+                            )}
+                            {comparison.turns.map((turn, index) => (
+                                <div key={index}>
+                                    <div className="mb-2 text-xs uppercase tracking-wide text-purple-500">
+                                        Turn {index + 1}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-4">
+                                        {Array.from(
+                                            {
+                                                length: Math.max(
+                                                    turn.left.length,
+                                                    turn.right.length
+                                                ),
+                                            },
+                                            (_, i) => (
+                                                <div
+                                                    key={i}
+                                                    className="contents"
+                                                >
+                                                    {renderMessage(
+                                                        turn.left[i],
+                                                        turn.right[i]
+                                                    )}
+                                                    {renderMessage(
+                                                        turn.right[i],
+                                                        turn.left[i]
+                                                    )}
+                                                </div>
+                                            )
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-2 border-t border-purple-600/20 pt-3">
+                            <span className="mr-auto text-xs text-purple-400">
+                                {selectedIds.size} selected
+                            </span>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => void handleCopy("right")}
+                                disabled={isWorking || !selectedRight.length}
+                                className="border-purple-600/30 text-purple-200"
+                            >
+                                <ArrowLeft className="w-4 h-4 mr-2" />
+                                Copy to {comparison.left.name}
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => void handleCopy("left")}
+                                disabled={isWorking || !selectedLeft.length}
+                                className="border-purple-600/30 text-purple-200"
+                            >
+                                Copy to {comparison.right.name}
+                                <ArrowRight className="w-4 h-4 ml-2" />
+                            </Button>
+                            <Button
+                                size="sm"
+                                onClick={() => void handleMerge()}
+                                disabled={isWorking || selectedIds.size === 0}
+                                className="bg-purple-600 hover:bg-purple-700"
+                            >
+                                <MessageSquarePlus className="w-4 h-4 mr-2" />
+                                New chat from selection
+                            </Button>
+                        </div>
+                    </>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
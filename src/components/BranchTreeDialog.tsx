@@ -0,0 +1,620 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import {
+    ArrowUpCircle,
+    Columns2,
+    GitBranch,
+    LogIn,
+    Maximize2,
+    Trash2,
+    ZoomIn,
+    ZoomOut,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { BranchCompareDialog } from "./BranchCompareDialog";
+import { cn } from "../lib/utils";
+import { useUnlockToken } from "../hooks/useChatUnlock";
+
+type BranchTree = NonNullable<FunctionReturnType<typeof api.branches.getBranchTree>>;
+type TreeBranch = BranchTree["branches"][number];
+
+interface BranchTreeDialogProps {
+    chatId: Id<"chats">;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onOpenChat?: (chatId: Id<"chats">) => void;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 64;
+const COLUMN_WIDTH = 210;
+const LEVEL_HEIGHT = 170;
+const FORK_OFFSET = 108; // Branch point sits between a branch and its forks
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 2.5;
+
+type PositionedBranch = { branch: TreeBranch; x: number; y: number };
+type ForkPoint = {
+    key: string;
+    x: number;
+    y: number;
+    parent: PositionedBranch;
+    children: PositionedBranch[];
+    preview?: string;
+};
+
+function truncate(text: string, length: number) {
+    return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Leaves get their own column; parents and branch points center over them
+function layoutTree(branches: TreeBranch[]) {
+    const childrenOf = new Map<string, TreeBranch[]>();
+    for (const branch of branches) {
+        if (!branch.parentId) continue;
+        const siblings = childrenOf.get(branch.parentId) ?? [];
+        siblings.push(branch);
+        childrenOf.set(branch.parentId, siblings);
+    }
+
+    const positioned: PositionedBranch[] = [];
+    const forks: ForkPoint[] = [];
+    let nextColumn = 0;
+
+    const place = (branch: TreeBranch, depth: number): PositionedBranch => {
+        const children = childrenOf.get(branch._id) ?? [];
+        const y = depth * LEVEL_HEIGHT;
+
+        if (children.length === 0) {
+            const node = { branch, x: nextColumn++ * COLUMN_WIDTH, y };
+            positioned.push(node);
+            return node;
+        }
+
+        // One branch point per fork message, in creation order
+        const groups = new Map<string, TreeBranch[]>();
+        for (const child of children) {
+            const key = child.fromMessageId ?? child._id;
+            groups.set(key, [...(groups.get(key) ?? []), child]);
+        }
+
+        const placedGroups = [...groups.entries()].map(([key, group]) => ({
+            key,
+            preview: group[0].forkPreview,
+            children: group.map((child) => place(child, depth + 1)),
+        }));
+        const childXs = placedGroups.flatMap((g) => g.children.map((c) => c.x));
+        const node = {
+            branch,
+            x: (Math.min(...childXs) + Math.max(...childXs)) / 2,
+            y,
+        };
+        positioned.push(node);
+
+        for (const group of placedGroups) {
+            const xs = group.children.map((c) => c.x);
+            forks.push({
+                key: `${branch._id}:${group.key}`,
+                x: (Math.min(...xs) + Math.max(...xs)) / 2,
+                y: y + FORK_OFFSET,
+                parent: node,
+                children: group.children,
+                preview: group.preview,
+            });
+        }
+        return node;
+    };
+
+    for (const root of branches.filter((b) => !b.parentId)) {
+        place(root, 0);
+    }
+
+    return { positioned, forks };
+}
+
+export function BranchTreeDialog({
+    chatId,
+    open,
+    onOpenChange,
+    onOpenChat,
+}: BranchTreeDialogProps) {
+    const unlockToken = useUnlockToken(chatId);
+    const tree = useQuery(
+        api.branches.getBranchTree,
+        open ? { chatId, unlockToken } : "skip"
+    );
+    const switchToBranch = useMutation(api.branches.switchToBranch);
+    const updateBranchDetails = useMutation(api.branches.updateBranchDetails);
+    const deleteBranch = useMutation(api.branches.deleteBranch);
+    const promoteBranchToMain = useMutation(api.branches.promoteBranchToMain);
+
+    const [selectedId, setSelectedId] = useState<Id<"branches"> | null>(null);
+    const [name, setName] = useState("");
+    const [description, setDescription] = useState("");
+    const [isWorking, setIsWorking] = useState(false);
+    const [compareWithId, setCompareWithId] = useState<Id<"branches"> | "">(
+        ""
+    );
+    const [showCompare, setShowCompare] = useState(false);
+
+    const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+    const layout = useMemo(
+        () => layoutTree(tree?.branches ?? []),
+        [tree?.branches]
+    );
+    const selected =
+        tree?.branches.find((b) => b._id === selectedId) ??
+        tree?.branches.find((b) => b._id === tree.activeBranchId);
+
+    // Forks of the same message can be compared with each other
+    const siblings = selected?.fromMessageId
+        ? (tree?.branches ?? []).filter(
+              (b) =>
+                  b.fromMessageId === selected.fromMessageId &&
+                  b._id !== selected._id
+          )
+        : [];
+
+    useEffect(() => {
+        setCompareWithId("");
+    }, [selected?._id]);
+
+    useEffect(() => {
+        setName(selected?.name ?? "");
+        setDescription(selected?.description ?? "");
+    }, [selected?._id, selected?.name, selected?.description]);
+
+    // Fit the whole tree into the viewport
+    const fitToView = () => {
+        const container = containerRef.current;
+        if (!container || layout.positioned.length === 0) return;
+        const xs = layout.positioned.map((n) => n.x);
+        const ys = layout.positioned.map((n) => n.y);
+        const width = Math.max(...xs) - Math.min(...xs) + NODE_WIDTH + 80;
+        const height = Math.max(...ys) - Math.min(...ys) + NODE_HEIGHT + 80;
+        const scale = Math.min(
+            1,
+            Math.max(
+                MIN_SCALE,
+                Math.min(
+                    container.clientWidth / width,
+                    container.clientHeight / height
+                )
+            )
+        );
+        setView({
+            scale,
+            x:
+                (container.clientWidth - width * scale) / 2 -
+                (Math.min(...xs) - NODE_WIDTH / 2 - 40) * scale,
+            y: 40 * scale - Math.min(...ys) * scale,
+        });
+    };
+
+    const hasTree = layout.positioned.length > 0;
+    useEffect(() => {
+        // Only refit when the dialog opens or the tree first loads
+        if (open && hasTree) fitToView();
+    }, [open, hasTree]);
+
+    const zoomAt = (factor: number, cx: number, cy: number) => {
+        setView((prev) => {
+            const scale = Math.min(
+                MAX_SCALE,
+                Math.max(MIN_SCALE, prev.scale * factor)
+            );
+            const ratio = scale / prev.scale;
+            return {
+                scale,
+                x: cx - (cx - prev.x) * ratio,
+                y: cy - (cy - prev.y) * ratio,
+            };
+        });
+    };
+
+    const zoomCenter = (factor: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        zoomAt(factor, container.clientWidth / 2, container.clientHeight / 2);
+    };
+
+    const run = async (action: () => Promise<void>, failure: string) => {
+        setIsWorking(true);
+        try {
+            await action();
+        } catch (error) {
+            console.error(failure, error);
+            toast.error(
+                error instanceof Error && error.message
+                    ? error.message
+                    : failure
+            );
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleOpen = (branch: TreeBranch) =>
+        run(async () => {
+            await switchToBranch({ branchId: branch._id });
+            toast.success(`Switched to ${branch.name}`);
+            onOpenChange(false);
+        }, "Failed to switch branch");
+
+    const handleSave = (branch: TreeBranch) =>
+        run(async () => {
+            await updateBranchDetails({
+                branchId: branch._id,
+                branchName: name,
+                description,
+            });
+            toast.success("Branch updated");
+        }, "Failed to update branch");
+
+    const handlePromote = (branch: TreeBranch) =>
+        run(async () => {
+            await promoteBranchToMain({ branchId: branch._id });
+            toast.success(`${branch.name} is now the main branch`);
+        }, "Failed to promote branch");
+
+    const handleDelete = (branch: TreeBranch) => {
+        if (
+            !confirm(
+                `Delete "${branch.name}" and every branch forked from it? Their messages will be removed.`
+            )
+        ) {
+            return;
+        }
+        void run(async () => {
+            const result = await deleteBranch({ branchId: branch._id });
+            setSelectedId(null);
+            toast.success(
+                `Deleted ${result.deletedBranches} branch${result.deletedBranches === 1 ? "" : "es"}`
+            );
+        }, "Failed to delete branch");
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="bg-gray-900/95 backdrop-blur-lg border border-purple-600/30 text-purple-100 max-w-6xl h-[80vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2 text-purple-100">
+                        <GitBranch className="w-5 h-5" />
+                        Conversation Tree
+                    </DialogTitle>
+                </DialogHeader>
+
+                <div className="flex flex-1 min-h-0 gap-4">
+                    {/* Zoomable tree canvas */}
+                    <div
+                        ref={containerRef}
+                        className="relative flex-1 overflow-hidden rounded-lg border border-purple-600/20 bg-gray-950/60 cursor-grab active:cursor-grabbing"
+                        onWheel={(e) => {
+                            const rect =
+                                e.currentTarget.getBoundingClientRect();
+                            zoomAt(
+                                e.deltaY < 0 ? 1.1 : 1 / 1.1,
+                                e.clientX - rect.left,
+                                e.clientY - rect.top
+                            );
+                        }}
+                        onPointerDown={(e) => {
+                            dragRef.current = { x: e.clientX, y: e.clientY };
+                        }}
+                        onPointerMove={(e) => {
+                            if (!dragRef.current) return;
+                            const dx = e.clientX - dragRef.current.x;
+                            const dy = e.clientY - dragRef.current.y;
+                            dragRef.current = { x: e.clientX, y: e.clientY };
+                            setView((prev) => ({
+                                ...prev,
+                                x: prev.x + dx,
+                                y: prev.y + dy,
+                            }));
+                        }}
+                        onPointerUp={() => (dragRef.current = null)}
+                        onPointerLeave={() => (dragRef.current = null)}
+                    >
+                        {tree === undefined ? (
+                            <div className="p-4 text-sm text-purple-400">
+                                Loading branches...
+                            </div>
+                        ) : (
+                            <svg className="w-full h-full select-none">
+                                <g
+                                    transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}
+                                >
+                                    {layout.forks.map((fork) => (
+                                        <g key={fork.key}>
+                                            <path
+                                                d={`M ${fork.parent.x} ${fork.parent.y + NODE_HEIGHT} L ${fork.x} ${fork.y}`}
+                                                className="stroke-purple-500/50"
+                                                fill="none"
+                                                strokeWidth={2}
+                                            />
+                                            {fork.children.map((child) => (
+                                                <path
+                                                    key={child.branch._id}
+                                                    d={`M ${fork.x} ${fork.y} C ${fork.x} ${fork.y + 30}, ${child.x} ${child.y - 40}, ${child.x} ${child.y}`}
+                                                    className="stroke-purple-500/50"
+                                                    fill="none"
+                                                    strokeWidth={2}
+                                                />
+                                            ))}
+                                            <circle
+                                                cx={fork.x}
+                                                cy={fork.y}
+                                                r={8}
+                                                className="fill-purple-600 stroke-purple-300"
+                                                strokeWidth={2}
+                                            >
+                                                <title>
+                                                    {`Branch point: ${fork.preview ?? "edited message"}`}
+                                                </title>
+                                            </circle>
+                                        </g>
+                                    ))}
+
+                                    {layout.positioned.map(({ branch, x, y }) => {
+                                        const isActive =
+                                            branch._id === tree?.activeBranchId;
+                                        const isSelected =
+                                            branch._id === selected?._id;
+                                        return (
+                                            <g
+                                                key={branch._id}
+                                                transform={`translate(${x - NODE_WIDTH / 2} ${y})`}
+                                                className="cursor-pointer"
+                                                onPointerDown={(e) =>
+                                                    e.stopPropagation()
+                                                }
+                                                onClick={() =>
+                                                    setSelectedId(branch._id)
+                                                }
+                                                onDoubleClick={() =>
+                                                    void handleOpen(branch)
+                                                }
+                                            >
+                                                <rect
+                                                    width={NODE_WIDTH}
+                                                    height={NODE_HEIGHT}
+                                                    rx={10}
+                                                    className={cn(
+                                                        "fill-gray-900",
+                                                        isActive
+                                                            ? "stroke-purple-300"
+                                                            : "stroke-purple-600/50",
+                                                        isSelected &&
+                                                            "fill-purple-900/60"
+                                                    )}
+                                                    strokeWidth={
+                                                        isActive ? 2.5 : 1.5
+                                                    }
+                                                />
+                                                <text
+                                                    x={12}
+                                                    y={22}
+                                                    className="fill-purple-100 text-[13px] font-medium"
+                                                >
+                                                    {truncate(branch.name, 18)}
+                                                    {branch.isMain && " ★"}
+                                                </text>
+                                                <text
+                                                    x={12}
+                                                    y={40}
+                                                    className="fill-purple-400 text-[11px]"
+                                                >
+                                                    {truncate(
+                                                        branch.preview ??
+                                                            "No messages yet",
+                                                        26
+                                                    )}
+                                                </text>
+                                                <text
+                                                    x={12}
+                                                    y={55}
+                                                    className="fill-purple-500 text-[10px]"
+                                                >
+                                                    {branch.messageCount}{" "}
+                                                    {branch.messageCount === 1
+                                                        ? "message"
+                                                        : "messages"}
+                                                    {isActive && " · current"}
+                                                </text>
+                                            </g>
+                                        );
+                                    })}
+                                </g>
+                            </svg>
+                        )}
+
+                        <div className="absolute top-2 right-2 flex gap-1">
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => zoomCenter(1.2)}
+                                className="h-8 w-8 p-0 border-purple-600/30 text-purple-200"
+                                title="Zoom in"
+                            >
+                                <ZoomIn className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => zoomCenter(1 / 1.2)}
+                                className="h-8 w-8 p-0 border-purple-600/30 text-purple-200"
+                                title="Zoom out"
+                            >
+                                <ZoomOut className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={fitToView}
+                                className="h-8 w-8 p-0 border-purple-600/30 text-purple-200"
+                                title="Fit to view"
+                            >
+                                <Maximize2 className="w-4 h-4" />
+                            </Button>
+                        </div>
+                    </div>
+
+                    {/* Selected branch details */}
+                    {selected && (
+                        <div className="w-72 shrink-0 flex flex-col gap-3 overflow-y-auto">
+                            <div className="text-xs text-purple-400">
+                                {selected.isRoot
+                                    ? "Root conversation"
+                                    : `Forked at: ${selected.forkPreview ?? "an edited message"}`}
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-sm text-purple-200">
+                                    Name
+                                </label>
+                                <Input
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    className="bg-gray-800 border-purple-600/30"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-sm text-purple-200">
+                                    Description
+                                </label>
+                                <Textarea
+                                    value={description}
+                                    onChange={(e) =>
+                                        setDescription(e.target.value)
+                                    }
+                                    rows={3}
+                                    placeholder="What does this branch explore?"
+                                    className="bg-gray-800 border-purple-600/30"
+                                />
+                            </div>
+                            <Button
+                                size="sm"
+                                onClick={() => void handleSave(selected)}
+                                disabled={
+                                    isWorking ||
+                                    !name.trim() ||
+                                    (name === selected.name &&
+                                        description ===
+                                            (selected.description ?? ""))
+                                }
+                                className="bg-purple-600 hover:bg-purple-700"
+                            >
+                                Save details
+                            </Button>
+
+                            <div className="border-t border-purple-600/20 pt-3 flex flex-col gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => void handleOpen(selected)}
+                                    disabled={
+                                        isWorking ||
+                                        selected._id === tree?.activeBranchId
+                                    }
+                                    className="justify-start border-purple-600/30 text-purple-200"
+                                >
+                                    <LogIn className="w-4 h-4 mr-2" />
+                                    Open branch
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => void handlePromote(selected)}
+                                    disabled={isWorking || selected.isMain}
+                                    className="justify-start border-purple-600/30 text-purple-200"
+                                >
+                                    <ArrowUpCircle className="w-4 h-4 mr-2" />
+                                    {selected.isMain
+                                        ? "Main branch"
+                                        : "Promote to main"}
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleDelete(selected)}
+                                    disabled={
+                                        isWorking ||
+                                        selected.isRoot ||
+                                        selected.isMain
+                                    }
+                                    className="justify-start border-red-600/30 text-red-300 hover:text-red-200"
+                                >
+                                    <Trash2 className="w-4 h-4 mr-2" />
+                                    Delete branch
+                                </Button>
+                            </div>
+
+                            {siblings.length > 0 && (
+                                <div className="border-t border-purple-600/20 pt-3 flex flex-col gap-2">
+                                    <select
+                                        value={compareWithId}
+                                        onChange={(e) =>
+                                            setCompareWithId(
+                                                e.target.value as Id<"branches">
+                                            )
+                                        }
+                                        className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-md text-purple-100 text-sm"
+                                    >
+                                        <option value="">
+                                            Compare with...
+                                        </option>
+                                        {siblings.map((sibling) => (
+                                            <option
+                                                key={sibling._id}
+                                                value={sibling._id}
+                                            >
+                                                {sibling.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => setShowCompare(true)}
+                                        disabled={!compareWithId}
+                                        className="justify-start border-purple-600/30 text-purple-200"
+                                    >
+                                        <Columns2 className="w-4 h-4 mr-2" />
+                                        Compare side by side
+                                    </Button>
+                                </div>
+                            )}
+
+                            <p className="text-xs text-purple-500">
+                                {selected.messageCount} messages · created{" "}
+                                {new Date(selected.createdAt).toLocaleString()}
+                            </p>
+                        </div>
+                    )}
+                </div>
+                {selected && compareWithId && (
+                    <BranchCompareDialog
+                        chatId={chatId}
+                        leftBranchId={selected._id}
+                        rightBranchId={compareWithId}
+                        open={showCompare}
+                        onOpenChange={setShowCompare}
+                        onOpenChat={(newChatId) => {
+                            onOpenChange(false);
+                            onOpenChat?.(newChatId);
+                        }}
+                    />
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
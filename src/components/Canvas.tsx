@@ -1,10 +1,14 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { MarkdownRenderer } from "./MarkdownRenderer";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
+import { ArtifactRevisionHistory } from "./ArtifactRevisionHistory";
+import { useUnlockToken } from "../hooks/useChatUnlock";
+import { ArtifactFileTree } from "./ArtifactFileTree";
+import { ArtifactAIEditBar } from "./ArtifactAIEditBar";
 import {
     ChevronDown,
     Search,
@@ -15,12 +19,24 @@ import {
     Code2,
     FileText,
     Save,
+    History,
+    FileArchive,
+    Sparkles,
 } from "lucide-react";
 import { toast } from "sonner";
+import { saveAs } from "file-saver";
 import { cn } from "../lib/utils";
+import {
+    artifactPath,
+    buildBundlePreviewHtml,
+    findBundleArtifactIds,
+    isRunnableBundle,
+} from "../lib/bundlePreview";
+import { createZip } from "../lib/zip";
 
 interface Artifact {
     _id: Id<"artifacts">;
+    messageId: Id<"messages">;
     artifactId: string;
     filename: string;
     language: string;
@@ -28,6 +44,7 @@ interface Artifact {
     description?: string;
     isPreviewable?: boolean;
     editCount?: number;
+    currentRevision?: number;
     updatedAt: number;
 }
 
@@ -47,6 +64,12 @@ export function Canvas({
     const [searchQuery, setSearchQuery] = useState("");
     const [showDropdown, setShowDropdown] = useState(false);
     const [previewMode, setPreviewMode] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showAIEdit, setShowAIEdit] = useState(false);
+    const [aiSelection, setAiSelection] = useState<{
+        start: number;
+        end: number;
+    } | null>(null);
     const [editedContent, setEditedContent] = useState("");
     const [isEditing, setIsEditing] = useState(false);
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -54,16 +77,19 @@ export function Canvas({
     const textareaRef = useRef<HTMLTextAreaElement>(null);
 
     // Get artifacts for the current chat
+    const unlockToken = useUnlockToken(chatId ?? undefined);
     const artifacts =
         useQuery(
             api.artifacts.getChatArtifacts,
-            chatId ? { chatId } : "skip"
+            chatId ? { chatId, unlockToken } : "skip"
         ) || [];
 
     // Get the active artifact
     const activeArtifact = useQuery(
         api.artifacts.getArtifact,
-        activeArtifactId ? { artifactId: activeArtifactId } : "skip"
+        activeArtifactId
+            ? { artifactId: activeArtifactId, unlockToken }
+            : "skip"
     );
 
     const updateArtifact = useMutation(api.artifacts.updateArtifact);
@@ -80,6 +106,27 @@ export function Canvas({
             artifact.language.toLowerCase().includes(searchQuery.toLowerCase())
     );
 
+    // Artifacts generated together (see findBundleArtifactIds) form one project bundle
+    const bundleFiles = useMemo(() => {
+        if (!activeArtifact) return [];
+        const bundleIds = findBundleArtifactIds(
+            artifacts,
+            activeArtifact.artifactId
+        );
+        return artifacts
+            .filter((artifact) => bundleIds.has(artifact.artifactId))
+            .map((artifact) => ({
+                artifactId: artifact.artifactId,
+                path: artifactPath(artifact.filename, artifact.language),
+                content:
+                    artifact.artifactId === activeArtifact.artifactId
+                        ? editedContent
+                        : artifact.content,
+            }));
+    }, [artifacts, activeArtifact, editedContent]);
+    const isBundle = bundleFiles.length > 1;
+    const isRunnable = isBundle && isRunnableBundle(bundleFiles);
+
     // Set initial content and preview mode when artifact changes
     useEffect(() => {
         if (activeArtifact) {
@@ -128,6 +175,29 @@ export function Canvas({
         }
     };
 
+    // Edit the text selected in the editor, or the whole file
+    const openAIEdit = () => {
+        const textarea = textareaRef.current;
+        setAiSelection(
+            textarea &&
+                !previewMode &&
+                !showHistory &&
+                textarea.selectionEnd > textarea.selectionStart
+                ? { start: textarea.selectionStart, end: textarea.selectionEnd }
+                : null
+        );
+        setShowAIEdit(true);
+    };
+
+    const flushUnsavedChanges = async () => {
+        if (!activeArtifact || !hasUnsavedChanges) return;
+        await updateArtifact({
+            artifactId: activeArtifact.artifactId,
+            content: editedContent,
+        });
+        setHasUnsavedChanges(false);
+    };
+
     const handleCopy = async () => {
         if (!activeArtifact) return;
 
@@ -157,6 +227,21 @@ export function Canvas({
         toast.success(`Downloaded ${activeArtifact.filename}`);
     };
 
+    const handleDownloadBundle = () => {
+        if (!isBundle) return;
+
+        // Name the zip after the top-level folder when every file shares one
+        const roots = new Set(bundleFiles.map((file) => file.path.split("/")[0]));
+        const [root] = roots;
+        const name =
+            roots.size === 1 && bundleFiles.every((f) => f.path.includes("/"))
+                ? root
+                : "project";
+
+        saveAs(createZip(bundleFiles), `${name}.zip`);
+        toast.success(`Downloaded ${bundleFiles.length} files as ${name}.zip`);
+    };
+
     const getContentType = (language: string): string => {
         const typeMap: Record<string, string> = {
             javascript: "application/javascript",
@@ -205,6 +290,22 @@ export function Canvas({
 
         const language = activeArtifact.language.toLowerCase();
 
+        // Projects and React components run through the bundle preview
+        const bundleHtml =
+            isRunnable || ["react", "jsx", "tsx"].includes(language)
+                ? buildBundlePreviewHtml(bundleFiles)
+                : null;
+        if (bundleHtml) {
+            return (
+                <iframe
+                    srcDoc={bundleHtml}
+                    className="w-full h-full border-0 bg-white"
+                    sandbox="allow-scripts allow-same-origin"
+                    title="Project Preview"
+                />
+            );
+        }
+
         if (language === "markdown") {
             return (
                 <div className="prose prose-invert max-w-none p-4">
@@ -399,7 +500,7 @@ export function Canvas({
                     </div>
 
                     {/* Preview Toggle */}
-                    {isPreviewable(activeArtifact.language) && (
+                    {(isPreviewable(activeArtifact.language) || isRunnable) && (
                         <Button
                             variant="outline"
                             size="sm"
@@ -422,6 +523,34 @@ export function Canvas({
                             )}
                         </Button>
                     )}
+
+                    {/* Edit with AI */}
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={openAIEdit}
+                        className={cn(
+                            "border-purple-600/30 text-purple-200",
+                            showAIEdit && "bg-purple-500/20"
+                        )}
+                    >
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Edit with AI
+                    </Button>
+
+                    {/* Revision history toggle */}
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowHistory(!showHistory)}
+                        className={cn(
+                            "border-purple-600/30 text-purple-200",
+                            showHistory && "bg-purple-500/20"
+                        )}
+                    >
+                        <History className="w-4 h-4 mr-2" />
+                        History
+                    </Button>
                 </div>
 
                 <div className="flex items-center gap-2">
@@ -450,6 +579,17 @@ export function Canvas({
                     >
                         <Download className="w-4 h-4" />
                     </Button>
+                    {isBundle && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={handleDownloadBundle}
+                            className="border-purple-600/30 text-purple-200"
+                            title="Download project as zip"
+                        >
+                            <FileArchive className="w-4 h-4" />
+                        </Button>
+                    )}
                     <Button
                         variant="outline"
                         size="sm"
@@ -461,37 +601,75 @@ export function Canvas({
                 </div>
             </div>
 
-            {/* Content */}
-            <div className="flex-1 overflow-hidden">
-                {previewMode ? (
-                    <div className="h-full overflow-auto">
-                        {renderPreview()}
-                    </div>
-                ) : (
-                    <div className="h-full flex flex-col">
-                        <textarea
-                            ref={textareaRef}
-                            value={editedContent}
-                            onChange={(e) => setEditedContent(e.target.value)}
-                            className="flex-1 w-full p-4 bg-transparent text-purple-100 placeholder-purple-400 border-0 resize-none focus:outline-none font-mono text-sm leading-relaxed"
-                            style={{
-                                tabSize: 2,
-                                lineHeight: "1.5",
-                            }}
-                            spellCheck={false}
-                        />
+            {showAIEdit && (
+                <ArtifactAIEditBar
+                    artifactId={activeArtifact.artifactId}
+                    content={editedContent}
+                    selection={aiSelection}
+                    beforeEdit={flushUnsavedChanges}
+                    onEdited={() => {
+                        // Review what changed in the new revision's diff
+                        setShowAIEdit(false);
+                        setShowHistory(true);
+                    }}
+                    onClose={() => setShowAIEdit(false)}
+                />
+            )}
 
-                        {/* Line numbers overlay could go here */}
-                        <div className="px-4 py-2 border-t border-purple-600/20 bg-gray-900/50 text-xs text-purple-400">
-                            Lines: {editedContent.split("\n").length} |
-                            Characters: {editedContent.length} | Language:{" "}
-                            {activeArtifact.language} |
-                            {activeArtifact.editCount
-                                ? ` Edits: ${activeArtifact.editCount}`
-                                : " Original"}
+            {/* Content */}
+            <div className="flex-1 overflow-hidden flex">
+                {/* Project file tree */}
+                {isBundle && (
+                    <div className="w-48 shrink-0 border-r border-purple-600/20 bg-gray-900/60 overflow-y-auto">
+                        <div className="px-3 pt-3 text-xs font-medium uppercase tracking-wide text-purple-400">
+                            Files ({bundleFiles.length})
                         </div>
+                        <ArtifactFileTree
+                            files={bundleFiles}
+                            activeArtifactId={activeArtifact.artifactId}
+                            onSelect={onSelectArtifact}
+                        />
                     </div>
                 )}
+                <div className="flex-1 min-w-0 overflow-hidden">
+                    {showHistory ? (
+                        <ArtifactRevisionHistory
+                            artifactId={activeArtifact.artifactId}
+                            unlockToken={unlockToken}
+                            onRestored={() => setShowHistory(false)}
+                        />
+                    ) : previewMode ? (
+                        <div className="h-full overflow-auto">
+                            {renderPreview()}
+                        </div>
+                    ) : (
+                        <div className="h-full flex flex-col">
+                            <textarea
+                                ref={textareaRef}
+                                value={editedContent}
+                                onChange={(e) => setEditedContent(e.target.value)}
+                                className="flex-1 w-full p-4 bg-transparent text-purple-100 placeholder-purple-400 border-0 resize-none focus:outline-none font-mono text-sm leading-relaxed"
+                                style={{
+                                    tabSize: 2,
+                                    lineHeight: "1.5",
+                                }}
+                                spellCheck={false}
+                            />
+
+                            {/* Line numbers overlay could go here */}
+                            <div className="px-4 py-2 border-t border-purple-600/20 bg-gray-900/50 text-xs text-purple-400">
+                                Lines: {editedContent.split("\n").length} |
+                                Characters: {editedContent.length} | Language:{" "}
+                                {activeArtifact.language} |
+                                {activeArtifact.currentRevision
+                                    ? ` Revision: ${activeArtifact.currentRevision}`
+                                    : activeArtifact.editCount
+                                      ? ` Edits: ${activeArtifact.editCount}`
+                                      : " Original"}
+                            </div>
+                        </div>
+                    )}
+                </div>
             </div>
 
             {/* Click outside to close dropdown */}
@@ -21,7 +21,9 @@ import {
     MessageSquare,
     Hash,
     Sliders,
+    Wrench,
 } from "lucide-react";
+import { AVAILABLE_TOOLS } from "../lib/toolsConfig";
 
 interface ChatAISettingsModalProps {
     open: boolean;
@@ -38,6 +40,7 @@ interface ChatAISettings {
     topP?: number;
     frequencyPenalty?: number;
     presencePenalty?: number;
+    enabledTools?: string[];
 }
 
 export function ChatAISettingsModal({
@@ -266,6 +269,52 @@ export function ChatAISettingsModal({
                                     </label>
                                 </div>
 
+                                {/* Tools */}
+                                <div className="space-y-3">
+                                    <div className="flex items-center gap-2">
+                                        <Wrench className="w-4 h-4 text-purple-400" />
+                                        <label className="text-purple-200 font-medium">Tools</label>
+                                    </div>
+                                    <div className="space-y-2">
+                                        {AVAILABLE_TOOLS.map(tool => {
+                                            const isEnabled = (localSettings.enabledTools || []).includes(tool.id);
+                                            return (
+                                                <div
+                                                    key={tool.id}
+                                                    className="flex items-center justify-between p-3 bg-purple-500/10 rounded-lg border border-purple-500/30"
+                                                >
+                                                    <div>
+                                                        <h4 className="text-purple-100 font-medium text-sm">
+                                                            {tool.icon} {tool.name}
+                                                        </h4>
+                                                        <p className="text-xs text-purple-300 mt-1">{tool.description}</p>
+                                                    </div>
+                                                    <label className="relative inline-flex items-center cursor-pointer">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={isEnabled}
+                                                            onChange={(e) => setLocalSettings(prev => {
+                                                                const current = prev.enabledTools || [];
+                                                                return {
+                                                                    ...prev,
+                                                                    enabledTools: e.target.checked
+                                                                        ? [...current, tool.id]
+                                                                        : current.filter(id => id !== tool.id),
+                                                                };
+                                                            })}
+                                                            className="sr-only peer"
+                                                        />
+                                                        <div className="w-9 h-5 bg-purple-600/30 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-purple-500"></div>
+                                                    </label>
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                    <p className="text-xs text-purple-400">
+                                        Enabled tools can be called by the model while it answers. Each call and its result is shown on the message.
+                                    </p>
+                                </div>
+
                                 {/* Advanced Settings */}
                                 <details className="group">
                                     <summary className="flex items-center justify-between p-3 bg-purple-500/10 rounded-lg border border-purple-500/30 cursor-pointer hover:bg-purple-500/20 transition-colors">
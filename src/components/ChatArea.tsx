@@ -4,19 +4,26 @@ import {
     useState,
     useEffect,
     useCallback,
+    useMemo,
     useRef,
 } from "react";
 import { useQuery, useMutation } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { PasswordGateway } from "./PasswordGateway";
 import { MessageList } from "./MessageList";
 import { MessageInput } from "./MessageInput";
+import { UsageLimitWarning } from "./UsageLimits";
+import { ContextUsageMeter } from "./ContextUsageMeter";
 import { toast } from "sonner";
 import { useCustomShortcuts } from "../hooks/useCustomShortcuts";
 import { useNotificationSounds } from "../lib/utils";
 // AI SDK MIGRATION - Import new hooks
 import { useConvexChat, useMultiAIChat } from "../hooks/useConvexChat";
+import { useChatKey } from "../hooks/useChatEncryption";
+import { encryptText } from "../lib/chatCrypto";
+import { useCachedMessages, useOfflineQueue } from "../hooks/useLocalFirst";
 
 interface ChatAreaProps {
     chatId: Id<"chats">;
@@ -26,6 +33,11 @@ interface ChatAreaProps {
     scrollToBottom: () => void;
 }
 
+// Stored message, or a queued offline message rendered in its place
+type ChatMessage = FunctionReturnType<typeof api.chats.getChatMessages>[number] & {
+    isPending?: boolean;
+};
+
 // Define commands in a single place to be shared
 const AICommands = [
     { command: "/image", label: "Image" },
@@ -83,9 +95,17 @@ export function ChatArea({
 
     // Queries and mutations (only needed for non-messaging operations)
     const chat = useQuery(api.chats.getChat, { chatId });
+    // Edits in encrypted chats are sealed before they leave the browser
+    const chatKey = useChatKey(chatId);
+    const isEncrypted = !!chat?.encryption;
+    const assistant = useQuery(
+        api.assistants.getAssistant,
+        chat?.assistantId ? { assistantId: chat.assistantId } : "skip"
+    );
     const updateChatModel = useMutation(api.chats.updateChatModel);
     const deleteMessage = useMutation(api.messages.deleteMessage);
     const switchMessageVersion = useMutation(api.messages.switchMessageVersion);
+    const cancelGeneration = useMutation(api.messages.cancelGeneration);
 
     // Branching system mutations
     const createBranchFromMessageEdit = useMutation(
@@ -93,8 +113,39 @@ export function ChatArea({
     );
     const navigateToBranch = useMutation(api.branches.navigateToBranch);
 
-    // Use AI SDK messages
-    const messages = existingMessages || [];
+    // Convex messages, served from the IndexedDB cache while the query loads
+    const cachedMessages = useCachedMessages(chatId, existingMessages, {
+        cacheable: !!chat && !chat.isPasswordProtected,
+    });
+
+    // Messages written offline replay through the normal send path when back online
+    const { isOnline, pendingMessages, queueMessage } = useOfflineQueue(
+        chatId,
+        async (pending) => {
+            await sendAiMessage(pending.content, {
+                model: pending.model,
+                commands: pending.commands,
+            });
+        }
+    );
+
+    const messages = useMemo<ChatMessage[]>(
+        () => [
+            ...(cachedMessages || []),
+            ...pendingMessages.map(
+                (pending) =>
+                    ({
+                        _id: `pending-${pending.localId}` as Id<"messages">,
+                        _creationTime: pending.createdAt,
+                        role: "user",
+                        content: pending.content,
+                        timestamp: pending.createdAt,
+                        isPending: true,
+                    }) as ChatMessage
+            ),
+        ],
+        [cachedMessages, pendingMessages]
+    );
 
     // Computed values
     const streamingMessage = messages.find((message) => message.isStreaming);
@@ -158,6 +209,35 @@ export function ChatArea({
             )
                 return;
 
+            // Offline: keep text messages in the outbox until we reconnect
+            if (!isOnline) {
+                if (isEncrypted) {
+                    toast.error("Encrypted chats can't queue messages offline");
+                    return;
+                }
+                if (
+                    (attachments && attachments.length > 0) ||
+                    (referencedLibraryItems && referencedLibraryItems.length > 0)
+                ) {
+                    toast.error("Attachments can't be sent while offline");
+                    return;
+                }
+                try {
+                    await queueMessage({
+                        content: content.trim(),
+                        model: selectedModel,
+                        commands: activeCommands,
+                    });
+                    setMessageInput("");
+                    setActiveCommands([]);
+                    toast.info("You're offline - message will send when you reconnect");
+                } catch (error) {
+                    console.error("Failed to queue message:", error);
+                    toast.error("Failed to save message offline");
+                }
+                return;
+            }
+
             try {
                 // Use AI SDK streaming with all original parameters
                 await sendAiMessage(content.trim(), {
@@ -174,7 +254,15 @@ export function ChatArea({
                 toast.error("Failed to send message");
             }
         },
-        [selectedModel, activeCommands, sendAiMessage, aiIsLoading]
+        [
+            selectedModel,
+            activeCommands,
+            sendAiMessage,
+            aiIsLoading,
+            isOnline,
+            queueMessage,
+            isEncrypted,
+        ]
     );
 
     // AI SDK enhanced multi-AI send message handler
@@ -214,6 +302,16 @@ export function ChatArea({
                 return;
             }
 
+            if (!isOnline) {
+                toast.error("Multi-AI responses need a connection");
+                return;
+            }
+
+            if (isEncrypted) {
+                toast.error("Multi-AI responses aren't available in encrypted chats");
+                return;
+            }
+
             try {
                 // Use AI SDK multi-AI streaming with all original parameters
                 await sendMultiAiMessage(content.trim(), models, {
@@ -232,7 +330,14 @@ export function ChatArea({
                 toast.error("Failed to send multi-AI message");
             }
         },
-        [activeCommands, sendMultiAiMessage, aiIsLoading, multiAiIsLoading]
+        [
+            activeCommands,
+            sendMultiAiMessage,
+            aiIsLoading,
+            multiAiIsLoading,
+            isOnline,
+            isEncrypted,
+        ]
     );
 
     const handlePrefill = (promptText: string) => {
@@ -263,7 +368,9 @@ export function ChatArea({
             try {
                 const result = await createBranchFromMessageEdit({
                     messageId,
-                    newContent,
+                    newContent: chatKey
+                        ? await encryptText(chatKey.key, newContent)
+                        : newContent,
                 });
 
                 console.log("✅ BRANCH CREATED SUCCESSFULLY:", {
@@ -284,7 +391,7 @@ export function ChatArea({
                 );
             }
         },
-        [createBranchFromMessageEdit]
+        [createBranchFromMessageEdit, chatKey]
     );
 
     const handleRetryMessage = useCallback(
@@ -312,16 +419,20 @@ export function ChatArea({
         [messages, sendAiMessage, selectedModel, aiIsLoading]
     );
 
-    // AI SDK stop streaming handler
+    // Stop streaming handler - aborts the local request and flags the
+    // message so the backend generation stops and keeps the partial content
     const handleStopStreaming = useCallback(async () => {
         try {
             stopAiStreaming();
+            if (streamingMessage) {
+                await cancelGeneration({ messageId: streamingMessage._id });
+            }
             toast.success("Streaming stopped");
         } catch (error) {
             console.error("Failed to stop streaming:", error);
             toast.error("Failed to stop streaming");
         }
-    }, [stopAiStreaming]);
+    }, [stopAiStreaming, streamingMessage, cancelGeneration]);
 
     const handleDeleteMessage = useCallback(
         async (messageId: Id<"messages">) => {
@@ -467,6 +578,15 @@ export function ChatArea({
     // Enhanced keyboard shortcuts with branch navigation
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
+            // Stop generation works even while typing in the input
+            if (checkShortcutMatch(e, "stopGeneration")) {
+                if (aiIsLoading || streamingMessage) {
+                    e.preventDefault();
+                    void handleStopStreaming();
+                }
+                return;
+            }
+
             // Skip if user is typing in input/textarea
             const isTyping =
                 e.target instanceof HTMLInputElement ||
@@ -553,6 +673,9 @@ export function ChatArea({
         handleRetryMessage,
         handleVersionNavigation,
         handleBranchNavigation,
+        aiIsLoading,
+        streamingMessage,
+        handleStopStreaming,
     ]);
 
     // Edit handlers
@@ -627,6 +750,28 @@ export function ChatArea({
                     />
                 </div>
 
+                {assistant && (
+                    <div
+                        className="mx-auto mb-2 px-3 py-1.5 rounded-full text-xs text-purple-200 bg-purple-500/10 border border-purple-500/30 backdrop-blur-sm"
+                        title={assistant.description}
+                    >
+                        {assistant.avatar || "🤖"} {assistant.name}
+                    </div>
+                )}
+
+                <UsageLimitWarning />
+
+                {isOnline && (
+                    <ContextUsageMeter chatId={chatId} model={selectedModel} />
+                )}
+
+                {!isOnline && (
+                    <div className="mx-auto mb-2 px-3 py-1.5 rounded-full text-xs text-purple-200 bg-purple-500/10 border border-purple-500/30 backdrop-blur-sm">
+                        Offline - showing saved messages. New messages are
+                        queued until you reconnect.
+                    </div>
+                )}
+
                 {showMessageInput && (
                     <MessageInput
                         message={messageInput}
@@ -644,13 +789,14 @@ export function ChatArea({
                                 referencedLibraryItems
                             )
                         }
-                        isStreaming={aiIsLoading}
+                        isStreaming={aiIsLoading || !!streamingMessage}
                         onStopStreaming={handleStopStreaming}
                         selectedModel={selectedModel}
                         onModelChange={(model) => void handleModelChange(model)}
                         showMessageInput={showMessageInput}
                         sidebarOpen={sidebarOpen}
                         chatId={chatId}
+                        allowedCommands={assistant?.allowedCommands}
                         onSendMultiAIMessage={(
                             content,
                             models,
@@ -13,6 +13,8 @@ import { KeyboardShortcuts } from "./KeyboardShortcuts";
 import { WelcomeTour } from "./WelcomeTour";
 import { useLocalStorage } from "../hooks/useLocalStorage";
 import { useCustomShortcuts } from "../hooks/useCustomShortcuts";
+import { useCachedChatList } from "../hooks/useLocalFirst";
+import { useUnlockToken } from "../hooks/useChatUnlock";
 import { Edit3, PanelLeft, PanelRight, ChevronDown } from "lucide-react";
 import { Button } from "./ui/button";
 import { toast } from "sonner";
@@ -73,7 +75,10 @@ export function ChatInterface() {
     const [showHeader, setShowHeader] = useLocalStorage("showHeader", true);
     const [zenMode, setZenMode] = useLocalStorage("zenMode", false);
 
-    const chats = useQuery(api.chats.listChats);
+    const liveChats = useQuery(api.chats.listChats);
+    // Render the IndexedDB copy of the chat list until Convex responds
+    const { chats, isFromCache: isChatListFromCache } =
+        useCachedChatList(liveChats);
     const preferences = useQuery(api.preferences.getUserPreferences);
     // Add shared content query
     const sharedContent = useQuery(api.sharing.getUserSharedContent);
@@ -83,9 +88,10 @@ export function ChatInterface() {
         api.chats.getChat,
         selectedChatId ? { chatId: selectedChatId } : "skip"
     );
+    const unlockToken = useUnlockToken(selectedChatId ?? undefined);
     const messagesResult = useQuery(
         api.chats.getChatMessages,
-        selectedChatId ? { chatId: selectedChatId } : "skip"
+        selectedChatId ? { chatId: selectedChatId, unlockToken } : "skip"
     );
     const createChat = useMutation(api.chats.createChat);
     const createTemporaryChat = useMutation(api.chats.createTemporaryChat);
@@ -1044,7 +1050,7 @@ export function ChatInterface() {
                 // Chat exists, select it
                 setSelectedChatId(urlChatId as Id<"chats">);
                 setLastSelectedChatId(urlChatId);
-            } else if (urlChatId !== selectedChatId) {
+            } else if (urlChatId !== selectedChatId && !isChatListFromCache) {
                 // Chat doesn't exist or doesn't belong to user, redirect to home or first chat
                 const firstChat = chats.starred[0] || chats.regular[0];
                 if (firstChat) {
@@ -1054,7 +1060,14 @@ export function ChatInterface() {
                 }
             }
         }
-    }, [urlChatId, chats, selectedChatId, setLastSelectedChatId, navigate]);
+    }, [
+        urlChatId,
+        chats,
+        isChatListFromCache,
+        selectedChatId,
+        setLastSelectedChatId,
+        navigate,
+    ]);
 
     // Handle root path - redirect to last selected chat or first available
     useEffect(() => {
@@ -1088,9 +1101,9 @@ export function ChatInterface() {
     useEffect(() => {
         const createInitialChat = async () => {
             if (
-                chats &&
-                chats.starred.length === 0 &&
-                chats.regular.length === 0 &&
+                liveChats &&
+                liveChats.starred.length === 0 &&
+                liveChats.regular.length === 0 &&
                 !isCreatingInitialChat
             ) {
                 setIsCreatingInitialChat(true);
@@ -1106,20 +1119,20 @@ export function ChatInterface() {
         };
 
         void createInitialChat();
-    }, [chats, isCreatingInitialChat, handleNewChat]);
+    }, [liveChats, isCreatingInitialChat, handleNewChat]);
 
     // Show welcome tour for new users
     useEffect(() => {
         if (
             !hasSeenTour &&
-            chats &&
-            chats.starred.length === 0 &&
-            chats.regular.length === 0
+            liveChats &&
+            liveChats.starred.length === 0 &&
+            liveChats.regular.length === 0
         ) {
             const timer = setTimeout(() => setShowTour(true), 1000);
             return () => clearTimeout(timer);
         }
-    }, [hasSeenTour, chats]);
+    }, [hasSeenTour, liveChats]);
 
     const handleTourComplete = () => {
         setShowTour(false);
@@ -0,0 +1,80 @@
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { Layers } from "lucide-react";
+import { cn } from "../lib/utils";
+
+interface ContextUsageMeterProps {
+    chatId: Id<"chats">;
+    model: string;
+}
+
+const STRATEGY_LABELS: Record<string, string> = {
+    sliding_window: "Sliding window",
+    pinned: "Pinned messages",
+    summarize: "Rolling summary",
+};
+
+function formatTokens(tokens: number) {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}K`;
+    return String(tokens);
+}
+
+// How much of the model's context window the next request will use
+export function ContextUsageMeter({ chatId, model }: ContextUsageMeterProps) {
+    const usage = useQuery(api.contextWindow.getContextUsage, {
+        chatId,
+        model,
+    });
+    if (!usage || usage.totalTokens === 0) return null;
+
+    const ratio = Math.min(usage.usedTokens / usage.inputBudget, 1);
+    const trimmed = usage.droppedMessages > 0;
+    const details = [
+        `${STRATEGY_LABELS[usage.strategy] ?? usage.strategy} · ${formatTokens(usage.limit)} context window`,
+        `History: ~${usage.totalTokens.toLocaleString()} tokens`,
+        trimmed &&
+            `${usage.droppedMessages} older message${usage.droppedMessages === 1 ? "" : "s"} left out of the next request`,
+        usage.summarizedMessages > 0 &&
+            `${usage.summarizedMessages} messages summarized`,
+    ]
+        .filter(Boolean)
+        .join("\n");
+
+    return (
+        <div
+            className="mx-auto mb-2 px-3 py-1.5 rounded-full text-xs text-purple-200 bg-purple-500/10 border border-purple-500/30 backdrop-blur-sm flex items-center gap-2"
+            title={details}
+        >
+            <Layers className="w-3.5 h-3.5" />
+            <div className="w-20 h-1.5 rounded-full bg-purple-900/60 overflow-hidden">
+                <div
+                    className={cn(
+                        "h-full rounded-full",
+                        ratio >= 0.9
+                            ? "bg-red-400"
+                            : ratio >= 0.7
+                              ? "bg-amber-400"
+                              : "bg-purple-400"
+                    )}
+                    style={{ width: `${Math.max(ratio * 100, 2)}%` }}
+                />
+            </div>
+            <span>
+                {formatTokens(usage.usedTokens)} /{" "}
+                {formatTokens(usage.inputBudget)} tokens
+            </span>
+            {trimmed && (
+                <span className="text-purple-400">
+                    · {usage.droppedMessages} trimmed
+                </span>
+            )}
+            {usage.summarizedMessages > 0 && (
+                <span className="text-purple-400">
+                    · {usage.summarizedMessages} summarized
+                </span>
+            )}
+        </div>
+    );
+}
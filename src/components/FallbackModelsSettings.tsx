@@ -0,0 +1,121 @@
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { ModelSelector } from "./ModelSelector";
+import {
+    getModelDisplayName,
+    getProviderForModel,
+    PROVIDER_CONFIGS,
+} from "../lib/modelConfig";
+
+const MAX_FALLBACK_MODELS = 4;
+
+function providerName(model: string) {
+    const provider = getProviderForModel(model);
+    return provider
+        ? (PROVIDER_CONFIGS[provider]?.displayName ?? provider)
+        : "Unknown provider";
+}
+
+interface FallbackModelsSettingsProps {
+    defaultModel: string;
+    fallbackModels: string[];
+    onChange: (models: string[]) => void;
+}
+
+// Ordered chain tried when the requested model keeps failing (429/503...)
+export function FallbackModelsSettings({
+    defaultModel,
+    fallbackModels,
+    onChange,
+}: FallbackModelsSettingsProps) {
+    const move = (index: number, offset: number) => {
+        const next = [...fallbackModels];
+        const [model] = next.splice(index, 1);
+        next.splice(index + offset, 0, model);
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <p className="text-sm font-medium text-purple-200">
+                    Fallback Models
+                </p>
+                <p className="text-sm text-purple-400/80">
+                    Rate limits and outages are retried automatically. If a
+                    model still fails, these are tried in order.
+                </p>
+            </div>
+
+            {fallbackModels.length > 0 && (
+                <ol className="space-y-2">
+                    {fallbackModels.map((model, index) => (
+                        <li
+                            key={model}
+                            className="flex items-center gap-3 p-2 bg-purple-500/10 border border-purple-500/20 rounded-lg"
+                        >
+                            <span className="w-5 text-center text-xs text-purple-400">
+                                {index + 1}
+                            </span>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-purple-100 truncate">
+                                    {getModelDisplayName(model)}
+                                </div>
+                                <div className="text-xs text-purple-400/80">
+                                    {providerName(model)}
+                                    {model === defaultModel &&
+                                        " · same as default model"}
+                                </div>
+                            </div>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={index === 0}
+                                onClick={() => move(index, -1)}
+                                className="h-7 w-7 p-0 text-purple-300"
+                                title="Move up"
+                            >
+                                <ArrowUp className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={index === fallbackModels.length - 1}
+                                onClick={() => move(index, 1)}
+                                className="h-7 w-7 p-0 text-purple-300"
+                                title="Move down"
+                            >
+                                <ArrowDown className="w-4 h-4" />
+                            </Button>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                    onChange(
+                                        fallbackModels.filter(
+                                            (m) => m !== model
+                                        )
+                                    )
+                                }
+                                className="h-7 w-7 p-0 text-red-400 hover:text-red-300"
+                                title="Remove"
+                            >
+                                <X className="w-4 h-4" />
+                            </Button>
+                        </li>
+                    ))}
+                </ol>
+            )}
+
+            <ModelSelector
+                selectedModel={defaultModel}
+                onModelChange={() => {}}
+                context="settings"
+                multiSelect={true}
+                selectedModels={fallbackModels}
+                onModelsChange={onChange}
+                maxSelections={MAX_FALLBACK_MODELS}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,386 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { toast } from "sonner";
+import { Upload, X, FileJson, GitBranch, Copy } from "lucide-react";
+import {
+    IMPORT_SOURCE_LABELS,
+    parseImportFile,
+    type ImportedConversation,
+} from "../lib/chatImport";
+
+interface ImportChatsModalProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// Keep each importConversations call well under Convex mutation limits
+const MAX_MESSAGES_PER_BATCH = 1500;
+
+function countAlternates(conversation: ImportedConversation): number {
+    const childCounts = new Map<string | undefined, number>();
+    for (const message of conversation.messages) {
+        childCounts.set(
+            message.parentExternalId,
+            (childCounts.get(message.parentExternalId) ?? 0) + 1
+        );
+    }
+    let alternates = 0;
+    for (const count of childCounts.values()) {
+        if (count > 1) alternates += count;
+    }
+    return alternates;
+}
+
+function toBatches(conversations: ImportedConversation[]) {
+    const batches: ImportedConversation[][] = [];
+    let current: ImportedConversation[] = [];
+    let messageCount = 0;
+
+    for (const conversation of conversations) {
+        if (
+            current.length > 0 &&
+            messageCount + conversation.messages.length > MAX_MESSAGES_PER_BATCH
+        ) {
+            batches.push(current);
+            current = [];
+            messageCount = 0;
+        }
+        current.push(conversation);
+        messageCount += conversation.messages.length;
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+}
+
+export function ImportChatsModal({ open, onOpenChange }: ImportChatsModalProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [conversations, setConversations] = useState<ImportedConversation[]>(
+        []
+    );
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [projectId, setProjectId] = useState<Id<"projects"> | "">("");
+    const [isImporting, setIsImporting] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+    const projects = useQuery(api.projects.listProjects) || [];
+    const duplicateIds = useQuery(
+        api.imports.findDuplicateImports,
+        conversations.length > 0
+            ? {
+                  conversations: conversations.map(({ source, externalId }) => ({
+                      source,
+                      externalId,
+                  })),
+              }
+            : "skip"
+    );
+    const importConversations = useMutation(api.imports.importConversations);
+
+    const duplicates = new Set(duplicateIds ?? []);
+    const selectedConversations = conversations.filter(
+        (conversation) =>
+            selectedIds.has(conversation.externalId) &&
+            !duplicates.has(conversation.externalId)
+    );
+
+    const reset = () => {
+        setFileName(null);
+        setConversations([]);
+        setSelectedIds(new Set());
+        setProgress(null);
+        if (fileInputRef.current) fileInputRef.current.value = "";
+    };
+
+    const handleClose = () => {
+        if (isImporting) return;
+        reset();
+        onOpenChange(false);
+    };
+
+    const handleFileSelected = async (file: File) => {
+        try {
+            const text = await file.text();
+            const parsed = parseImportFile(file.name, text);
+            setFileName(file.name);
+            setConversations(parsed);
+            setSelectedIds(new Set(parsed.map((c) => c.externalId)));
+        } catch (error) {
+            console.error("Failed to parse import file:", error);
+            toast.error(
+                error instanceof Error ? error.message : "Failed to read file"
+            );
+            reset();
+        }
+    };
+
+    const toggleSelected = (externalId: string) => {
+        const next = new Set(selectedIds);
+        if (next.has(externalId)) {
+            next.delete(externalId);
+        } else {
+            next.add(externalId);
+        }
+        setSelectedIds(next);
+    };
+
+    const handleImport = async () => {
+        if (selectedConversations.length === 0) return;
+
+        setIsImporting(true);
+        setProgress({ done: 0, total: selectedConversations.length });
+        let importedCount = 0;
+        let skippedCount = 0;
+
+        try {
+            for (const batch of toBatches(selectedConversations)) {
+                const result = await importConversations({
+                    conversations: batch,
+                    projectId: projectId || undefined,
+                });
+                importedCount += result.imported.length;
+                skippedCount += result.skipped.length;
+                setProgress((current) =>
+                    current
+                        ? { ...current, done: current.done + batch.length }
+                        : current
+                );
+            }
+
+            toast.success(
+                `Imported ${importedCount} chat${importedCount !== 1 ? "s" : ""}`,
+                {
+                    description:
+                        skippedCount > 0
+                            ? `${skippedCount} already imported and skipped`
+                            : undefined,
+                }
+            );
+            reset();
+            onOpenChange(false);
+        } catch (error) {
+            console.error("Import failed:", error);
+            toast.error(
+                `Import stopped after ${importedCount} chat${importedCount !== 1 ? "s" : ""}`,
+                {
+                    description:
+                        error instanceof Error ? error.message : String(error),
+                }
+            );
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : handleClose())}>
+            <DialogContent
+                className="bg-transparent backdrop-blur-lg border border-purple-600/30 text-purple-100 max-w-2xl max-h-[85vh] overflow-hidden flex flex-col"
+                hideCloseButton
+            >
+                <DialogHeader>
+                    <DialogTitle className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                            <Upload className="w-5 h-5 text-purple-300" />
+                            <span className="text-lg font-semibold text-purple-100">
+                                Import Chats
+                            </span>
+                        </div>
+                        <button
+                            onClick={handleClose}
+                            className="p-2 rounded-lg hover:bg-purple-500/20 transition-colors"
+                            title="Close"
+                        >
+                            <X className="w-5 h-5 text-purple-300" />
+                        </button>
+                    </DialogTitle>
+                </DialogHeader>
+
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.md,.markdown,application/json,text/markdown"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) void handleFileSelected(file);
+                    }}
+                />
+
+                {conversations.length === 0 ? (
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        className="w-full p-8 rounded-lg border-2 border-dashed border-purple-600/30 hover:border-purple-500/50 hover:bg-purple-500/10 transition-colors text-center"
+                    >
+                        <FileJson className="w-10 h-10 mx-auto text-purple-300 mb-3" />
+                        <p className="font-medium text-purple-200">
+                            Choose an export file
+                        </p>
+                        <p className="text-sm text-purple-400/80 mt-1">
+                            ChatGPT or Claude <code>conversations.json</code>, or
+                            a 3tee Chat JSON / Markdown export
+                        </p>
+                    </button>
+                ) : (
+                    <div className="flex-1 flex flex-col min-h-0 space-y-4">
+                        <div className="flex items-center justify-between text-sm">
+                            <span className="text-purple-300 truncate">
+                                {fileName} · {conversations.length} conversation
+                                {conversations.length !== 1 ? "s" : ""}
+                            </span>
+                            <button
+                                onClick={reset}
+                                disabled={isImporting}
+                                className="text-purple-400 hover:text-purple-200 text-xs"
+                            >
+                                Choose another file
+                            </button>
+                        </div>
+
+                        {/* Preview */}
+                        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+                            {conversations.map((conversation) => {
+                                const isDuplicate = duplicates.has(
+                                    conversation.externalId
+                                );
+                                const alternates = countAlternates(conversation);
+                                return (
+                                    <label
+                                        key={conversation.externalId}
+                                        className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${
+                                            isDuplicate
+                                                ? "border-purple-600/10 bg-purple-500/5 opacity-60"
+                                                : "border-purple-600/20 bg-purple-500/10 hover:bg-purple-500/15 cursor-pointer"
+                                        }`}
+                                    >
+                                        <input
+                                            type="checkbox"
+                                            className="mt-1 accent-purple-500"
+                                            checked={
+                                                !isDuplicate &&
+                                                selectedIds.has(
+                                                    conversation.externalId
+                                                )
+                                            }
+                                            disabled={isDuplicate || isImporting}
+                                            onChange={() =>
+                                                toggleSelected(
+                                                    conversation.externalId
+                                                )
+                                            }
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="font-medium text-purple-100 truncate">
+                                                {conversation.title}
+                                            </div>
+                                            <div className="flex items-center gap-3 text-xs text-purple-400/80 mt-1">
+                                                <span>
+                                                    {
+                                                        IMPORT_SOURCE_LABELS[
+                                                            conversation.source
+                                                        ]
+                                                    }
+                                                </span>
+                                                <span>
+                                                    {conversation.messages.length}{" "}
+                                                    messages
+                                                </span>
+                                                <span>
+                                                    {new Date(
+                                                        conversation.createdAt
+                                                    ).toLocaleDateString()}
+                                                </span>
+                                                {alternates > 0 && (
+                                                    <span className="flex items-center gap-1">
+                                                        <GitBranch className="w-3 h-3" />
+                                                        {alternates} alternates
+                                                    </span>
+                                                )}
+                                                {isDuplicate && (
+                                                    <span className="flex items-center gap-1 text-purple-300">
+                                                        <Copy className="w-3 h-3" />
+                                                        Already imported
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </label>
+                                );
+                            })}
+                        </div>
+
+                        {/* Project assignment */}
+                        <div className="space-y-1">
+                            <label className="text-sm font-medium text-purple-200">
+                                Add to project
+                            </label>
+                            <select
+                                value={projectId}
+                                onChange={(e) =>
+                                    setProjectId(
+                                        e.target.value as Id<"projects"> | ""
+                                    )
+                                }
+                                disabled={isImporting}
+                                className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-lg text-purple-100 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                            >
+                                <option value="">General (default)</option>
+                                {projects
+                                    .filter((project) => !project.isDefault)
+                                    .map((project) => (
+                                        <option
+                                            key={project._id}
+                                            value={project._id}
+                                        >
+                                            {project.name}
+                                        </option>
+                                    ))}
+                            </select>
+                        </div>
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between gap-2 pt-4 border-t border-purple-600/20">
+                    <span className="text-xs text-purple-400/80">
+                        {progress
+                            ? `Importing ${progress.done}/${progress.total}...`
+                            : duplicates.size > 0
+                              ? `${duplicates.size} already imported`
+                              : ""}
+                    </span>
+                    <div className="flex gap-2">
+                        <Button
+                            variant="ghost"
+                            onClick={handleClose}
+                            disabled={isImporting}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={() => void handleImport()}
+                            disabled={
+                                isImporting ||
+                                selectedConversations.length === 0 ||
+                                duplicateIds === undefined
+                            }
+                            className="px-4 py-2 rounded-lg bg-gradient-to-r from-purple-600/80 to-indigo-600/80 hover:from-purple-600/70 hover:to-indigo-600/70 text-white disabled:opacity-50"
+                        >
+                            <Upload className="w-4 h-4 mr-2" />
+                            Import {selectedConversations.length || ""} chat
+                            {selectedConversations.length !== 1 ? "s" : ""}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
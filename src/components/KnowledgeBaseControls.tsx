@@ -0,0 +1,224 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+    AlertTriangle,
+    BookOpen,
+    FolderOpen,
+    Loader2,
+    RefreshCw,
+    X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+
+interface KnowledgeBaseControlsProps {
+    attachmentId: Id<"attachmentLibrary">;
+    name: string;
+    knowledgeBase?: Doc<"attachmentLibrary">["knowledgeBase"];
+}
+
+// Knowledge-base mode for one attachment: index it, share it with projects,
+// re-index or turn it off (convex/knowledgeBase.ts)
+export function KnowledgeBaseControls({
+    attachmentId,
+    name,
+    knowledgeBase,
+}: KnowledgeBaseControlsProps) {
+    const enableKnowledgeBase = useMutation(
+        api.knowledgeBase.enableKnowledgeBase
+    );
+    const disableKnowledgeBase = useMutation(
+        api.knowledgeBase.disableKnowledgeBase
+    );
+    const setKnowledgeBaseProjects = useMutation(
+        api.knowledgeBase.setKnowledgeBaseProjects
+    );
+    const projects = useQuery(
+        api.projects.listProjects,
+        knowledgeBase?.status === "ready" ? {} : "skip"
+    );
+
+    const projectIds = knowledgeBase?.projectIds ?? [];
+
+    const handleIndex = async () => {
+        try {
+            await enableKnowledgeBase({ attachmentId });
+            toast.success(`Indexing ${name}...`);
+        } catch (error) {
+            toast.error(
+                error instanceof Error ? error.message : "Failed to index file"
+            );
+        }
+    };
+
+    const handleDisable = async () => {
+        if (
+            !confirm(
+                `Remove "${name}" from the knowledge base? Chats will attach the whole file again.`
+            )
+        ) {
+            return;
+        }
+        try {
+            await disableKnowledgeBase({ attachmentId });
+            toast.success(`Removed ${name} from the knowledge base`);
+        } catch (error) {
+            console.error("Failed to disable knowledge base:", error);
+            toast.error("Failed to update knowledge base");
+        }
+    };
+
+    const handleProjectsChange = async (next: Id<"projects">[]) => {
+        try {
+            await setKnowledgeBaseProjects({ attachmentId, projectIds: next });
+        } catch (error) {
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to update projects"
+            );
+        }
+    };
+
+    if (!knowledgeBase) {
+        return (
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={(e) => {
+                    e.stopPropagation();
+                    void handleIndex();
+                }}
+                className="h-6 px-2 text-xs"
+                title="Search this file by relevance instead of attaching all of it"
+            >
+                <BookOpen className="w-3 h-3 mr-1" />
+                Use as knowledge base
+            </Button>
+        );
+    }
+
+    return (
+        <div
+            className="space-y-2 text-xs"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between gap-2">
+                {knowledgeBase.status === "indexing" && (
+                    <span className="flex items-center gap-1 text-purple-500">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Indexing...
+                    </span>
+                )}
+                {knowledgeBase.status === "ready" && (
+                    <span className="flex items-center gap-1 text-purple-600 dark:text-purple-300">
+                        <BookOpen className="w-3 h-3" />
+                        {knowledgeBase.chunkCount} passages
+                        {knowledgeBase.pageCount
+                            ? ` · ${knowledgeBase.pageCount} pages`
+                            : ""}
+                    </span>
+                )}
+                {knowledgeBase.status === "failed" && (
+                    <span
+                        className="flex items-center gap-1 text-red-500 truncate"
+                        title={knowledgeBase.error}
+                    >
+                        <AlertTriangle className="w-3 h-3 shrink-0" />
+                        <span className="truncate">
+                            {knowledgeBase.error || "Indexing failed"}
+                        </span>
+                    </span>
+                )}
+
+                <div className="flex items-center gap-1 shrink-0">
+                    {knowledgeBase.status !== "indexing" && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => void handleIndex()}
+                            className="p-1 h-6 w-6"
+                            title={
+                                knowledgeBase.status === "failed"
+                                    ? "Retry indexing"
+                                    : "Re-index"
+                            }
+                        >
+                            <RefreshCw className="w-3 h-3" />
+                        </Button>
+                    )}
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => void handleDisable()}
+                        className="p-1 h-6 w-6 text-red-500 hover:text-red-600"
+                        title="Remove from knowledge base"
+                    >
+                        <X className="w-3 h-3" />
+                    </Button>
+                </div>
+            </div>
+
+            {knowledgeBase.status === "ready" && projects && (
+                <div className="flex flex-wrap items-center gap-1">
+                    {projects
+                        .filter((project) => projectIds.includes(project._id))
+                        .map((project) => (
+                            <Badge
+                                key={project._id}
+                                variant="secondary"
+                                className="text-xs px-1 py-0 gap-1"
+                            >
+                                <FolderOpen className="w-3 h-3" />
+                                {project.name}
+                                <button
+                                    onClick={() =>
+                                        void handleProjectsChange(
+                                            projectIds.filter(
+                                                (id) => id !== project._id
+                                            )
+                                        )
+                                    }
+                                    className="hover:text-red-500"
+                                    title="Stop searching in this project"
+                                >
+                                    <X className="w-3 h-3" />
+                                </button>
+                            </Badge>
+                        ))}
+                    {projects.some(
+                        (project) => !projectIds.includes(project._id)
+                    ) && (
+                        <select
+                            value=""
+                            onChange={(e) =>
+                                void handleProjectsChange([
+                                    ...projectIds,
+                                    e.target.value as Id<"projects">,
+                                ])
+                            }
+                            className="border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 text-xs bg-white dark:bg-gray-800"
+                            title="Chats in the project search this file without referencing it"
+                        >
+                            <option value="" disabled>
+                                Add to project...
+                            </option>
+                            {projects
+                                .filter(
+                                    (project) =>
+                                        !projectIds.includes(project._id)
+                                )
+                                .map((project) => (
+                                    <option key={project._id} value={project._id}>
+                                        {project.name}
+                                    </option>
+                                ))}
+                        </select>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -26,6 +26,7 @@ import { Input } from "./ui/input";
 import { Badge } from "./ui/badge";
 import { toast } from "sonner";
 import { cn } from "../lib/utils";
+import { KnowledgeBaseControls } from "./KnowledgeBaseControls";
 
 interface LibraryModalProps {
     open: boolean;
@@ -274,6 +275,13 @@ export function LibraryModal({
         return "Just now";
     };
 
+    // Files the knowledge base can read (knowledgeBase.canIndexAttachment)
+    const canUseAsKnowledgeBase = (item: LibraryItem) =>
+        activeTab === "attachments" &&
+        (item.mimeType === "application/pdf" ||
+            item.mimeType === "application/json" ||
+            item.mimeType?.startsWith("text/"));
+
     // Render library item
     const renderLibraryItem = (item: LibraryItem) => {
         const isSelected = _selectedItems.has(item.id);
@@ -377,6 +385,16 @@ export function LibraryModal({
                         <span>{formatRelativeTime(item.lastUsed)}</span>
                     </div>
 
+                    {canUseAsKnowledgeBase(item) && (
+                        <div className="mt-2">
+                            <KnowledgeBaseControls
+                                attachmentId={item._id}
+                                name={item.displayName || item.originalName}
+                                knowledgeBase={item.knowledgeBase}
+                            />
+                        </div>
+                    )}
+
                     {/* Tags */}
                     {item.tags && item.tags.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-2">
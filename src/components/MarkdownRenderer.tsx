@@ -6,27 +6,134 @@ import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { oneDark } from "react-syntax-highlighter/dist/esm/styles/prism";
 import { cn } from "../lib/utils";
 import { Copy, Check, WrapText } from "lucide-react";
-import { useState, useMemo } from "react";
+import { useState, useMemo, useId } from "react";
 import { Button } from "./ui/button";
 import { toast } from "sonner";
 
+export interface Citation {
+    number: number;
+    title: string;
+    url: string;
+    source: string;
+    startIndex?: number;
+    endIndex?: number;
+    citedText?: string;
+    page?: number; // Knowledge-base passages
+}
+
 interface MarkdownRendererProps {
     content: string;
     className?: string;
     isStreaming?: boolean;
+    citations?: Citation[];
+}
+
+// [start, end) ranges of fenced code blocks and inline code spans, so bracket
+// indexing such as `arr[1]` or `matrix[0][2]` is not read as a citation
+function findCodeRanges(text: string): Array<[number, number]> {
+    const fences: Array<[number, number]> = [];
+    let open: { marker: string; start: number } | null = null;
+    let offset = 0;
+    for (const line of text.split("\n")) {
+        const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+        if (!open && marker) {
+            open = { marker, start: offset };
+        } else if (
+            open &&
+            marker &&
+            marker[0] === open.marker[0] &&
+            marker.length >= open.marker.length
+        ) {
+            fences.push([open.start, offset + line.length]);
+            open = null;
+        }
+        offset += line.length + 1;
+    }
+    // An unclosed fence (e.g. cut off mid-stream) runs to the end
+    if (open) fences.push([open.start, text.length]);
+
+    // Inline spans only count outside fenced blocks
+    const ranges = [...fences];
+    let segmentStart = 0;
+    for (const [fenceStart, fenceEnd] of [...fences, [text.length, text.length]]) {
+        const segment = text.slice(segmentStart, fenceStart);
+        const inlinePattern = /(`+)[\s\S]*?[^`]\1(?!`)/g;
+        let match: RegExpExecArray | null;
+        while ((match = inlinePattern.exec(segment)) !== null) {
+            const start = segmentStart + match.index;
+            ranges.push([start, start + match[0].length]);
+        }
+        segmentStart = fenceEnd;
+    }
+    return ranges;
+}
+
+// Rewrite [n] markers (located by startIndex/endIndex) into GFM footnote
+// references and append one footnote definition per cited source
+function applyCitationFootnotes(content: string, citations: Citation[]) {
+    const markers = new Map<number, { endIndex: number; numbers: number[] }>();
+    for (const citation of citations) {
+        if (citation.startIndex === undefined || citation.endIndex === undefined)
+            continue;
+        const marker = markers.get(citation.startIndex) || {
+            endIndex: citation.endIndex,
+            numbers: [],
+        };
+        if (!marker.numbers.includes(citation.number)) {
+            marker.numbers.push(citation.number);
+        }
+        markers.set(citation.startIndex, marker);
+    }
+
+    // Replace from the end so earlier indices stay valid
+    let processed = content;
+    const codeRanges = findCodeRanges(content);
+    const starts = [...markers.keys()].sort((a, b) => b - a);
+    for (const start of starts) {
+        const { endIndex, numbers } = markers.get(start)!;
+        // Skip stale indices (e.g. content was edited after generation)
+        if (!/^\[[\d,\s]+\]$/.test(processed.slice(start, endIndex))) continue;
+        // Older messages may have citations recorded inside code like `arr[1]`
+        if (codeRanges.some(([from, to]) => start >= from && start < to)) continue;
+        processed =
+            processed.slice(0, start) +
+            numbers.map((number) => `[^${number}]`).join("") +
+            processed.slice(endIndex);
+    }
+
+    const sources = new Map<number, Citation>();
+    for (const citation of citations) {
+        if (!sources.has(citation.number)) sources.set(citation.number, citation);
+    }
+    const definitions = [...sources.values()]
+        .sort((a, b) => a.number - b.number)
+        .map(
+            (citation) =>
+                `[^${citation.number}]: [${citation.title.replace(/[[\]]/g, "")}](${citation.url}) — ${citation.source}`
+        )
+        .join("\n");
+
+    return `${processed}\n\n${definitions}`;
 }
 
 export function MarkdownRenderer({
     content,
     className,
     isStreaming = false,
+    citations,
 }: MarkdownRendererProps) {
     const [copiedCode, setCopiedCode] = useState<string | null>(null);
     const [wrappedCode, setWrappedCode] = useState<Set<string>>(new Set());
+    // Unique footnote ids per rendered message so citation anchors don't collide
+    const footnotePrefix = `${useId().replace(/:/g, "")}-`;
 
     // Process content for streaming - handle incomplete markdown gracefully
     const processedContent = useMemo(() => {
-        if (!isStreaming) return content;
+        if (!isStreaming) {
+            return citations && citations.length > 0
+                ? applyCitationFootnotes(content, citations)
+                : content;
+        }
 
         let processed = content;
 
@@ -86,7 +193,7 @@ export function MarkdownRenderer({
         }
 
         return processed;
-    }, [content, isStreaming]);
+    }, [content, isStreaming, citations]);
 
     const handleCopyCode = async (code: string) => {
         try {
@@ -119,6 +226,10 @@ export function MarkdownRenderer({
             <ReactMarkdown
                 remarkPlugins={[remarkGfm, remarkMath]}
                 rehypePlugins={[rehypeKatex]}
+                remarkRehypeOptions={{
+                    clobberPrefix: footnotePrefix,
+                    footnoteLabel: "Sources",
+                }}
                 components={{
                     code: ({
                         node: _node,
@@ -246,11 +357,20 @@ export function MarkdownRenderer({
                             {children}
                         </h1>
                     ),
-                    h2: ({ children }) => (
-                        <h2 className="text-xl font-semibold text-purple-100 mb-3 border-b border-purple-500/20 pb-1 last:mb-0">
-                            {children}
-                        </h2>
-                    ),
+                    h2: ({ children, id }) =>
+                        // GFM footnotes heading (citations) - keep it compact
+                        id?.endsWith("footnote-label") ? (
+                            <h2
+                                id={id}
+                                className="text-xs font-semibold uppercase tracking-wide text-purple-400 mb-2"
+                            >
+                                {children}
+                            </h2>
+                        ) : (
+                            <h2 className="text-xl font-semibold text-purple-100 mb-3 border-b border-purple-500/20 pb-1 last:mb-0">
+                                {children}
+                            </h2>
+                        ),
                     h3: ({ children }) => (
                         <h3 className="text-lg font-medium text-purple-100 mb-2 last:mb-0">
                             {children}
@@ -276,15 +396,42 @@ export function MarkdownRenderer({
                             {children}
                         </blockquote>
                     ),
-                    a: ({ children, href }) => (
-                        <a
-                            href={href}
-                            className="text-purple-400 hover:text-purple-300 underline underline-offset-2 transition-colors"
-                            target="_blank"
-                            rel="noopener noreferrer"
+                    a: ({ node: _node, children, href, ...props }: any) =>
+                        // In-page anchors (footnote refs/backrefs) must not open a new tab
+                        href?.startsWith("#") ? (
+                            <a
+                                href={href}
+                                {...props}
+                                className="text-purple-400 hover:text-purple-300 no-underline transition-colors"
+                            >
+                                {children}
+                            </a>
+                        ) : (
+                            <a
+                                href={href}
+                                className="text-purple-400 hover:text-purple-300 underline underline-offset-2 transition-colors"
+                                target="_blank"
+                                rel="noopener noreferrer"
+                            >
+                                {children}
+                            </a>
+                        ),
+                    sup: ({ children }) => (
+                        <sup className="text-[0.7em] font-medium ml-0.5">
+                            {children}
+                        </sup>
+                    ),
+                    section: ({ node: _node, className, children, ...props }: any) => (
+                        <section
+                            className={cn(
+                                className,
+                                className?.includes("footnotes") &&
+                                    "mt-4 pt-3 border-t border-purple-500/20 text-sm [&_ol]:ml-0 [&_p]:mb-1 [&_p]:inline"
+                            )}
+                            {...props}
                         >
                             {children}
-                        </a>
+                        </section>
                     ),
                     table: ({ children }) => (
                         <div className="overflow-x-auto mb-3 rounded-lg border border-purple-500/30 last:mb-0">
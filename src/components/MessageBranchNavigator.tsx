@@ -1,13 +1,17 @@
 import React, { useState, useMemo } from "react";
-import { ChevronLeft, ChevronRight, RotateCcw, Edit3 } from "lucide-react";
+import { ChevronLeft, ChevronRight, RotateCcw, Edit3, GitBranch } from "lucide-react";
 import { Button } from "./ui/button";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { toast } from "sonner";
+import { BranchTreeDialog } from "./BranchTreeDialog";
+import { useUnlockToken } from "../hooks/useChatUnlock";
 
 interface MessageBranchNavigatorProps {
     messageId: Id<"messages">;
+    chatId?: Id<"chats">;
+    onOpenChat?: (chatId: Id<"chats">) => void;
     onRetry?: () => void;
     onEdit?: () => void;
     className?: string;
@@ -15,13 +19,17 @@ interface MessageBranchNavigatorProps {
 
 export function MessageBranchNavigator({
     messageId,
+    chatId,
+    onOpenChat,
     onRetry,
     onEdit,
     className = "",
 }: MessageBranchNavigatorProps) {
     // Query for message versions (retries)
+    const unlockToken = useUnlockToken(chatId);
     const versionsData = useQuery(api.messages.getMessageVersions, {
         messageId,
+        unlockToken,
     });
 
     // PHASE 6 FIX: Query for message branches using corrected system with preloaded content
@@ -34,6 +42,7 @@ export function MessageBranchNavigator({
 
     const [isLoading, setIsLoading] = useState(false);
     const [loadingOperation, setLoadingOperation] = useState<string>("");
+    const [showTree, setShowTree] = useState(false);
 
     // Check if we have multiple versions (retry system)
     const hasVersions = versionsData && versionsData.totalVersions > 1;
@@ -227,6 +236,18 @@ export function MessageBranchNavigator({
                             <Edit3 className="h-3 w-3" />
                         </Button>
                     )}
+
+                    {chatId && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 w-6 p-0 ml-1 hover:bg-blue-100/50 dark:hover:bg-blue-800/50"
+                            onClick={() => setShowTree(true)}
+                            title="Show conversation tree"
+                        >
+                            <GitBranch className="h-3 w-3" />
+                        </Button>
+                    )}
                 </div>
             )}
 
@@ -285,6 +306,15 @@ export function MessageBranchNavigator({
                 </div>
             )}
 
+            {chatId && showTree && (
+                <BranchTreeDialog
+                    chatId={chatId}
+                    open={showTree}
+                    onOpenChange={setShowTree}
+                    onOpenChat={onOpenChat}
+                />
+            )}
+
             {/* PHASE 6 FIX: Enhanced Loading States */}
             {isLoading && (
                 <div className="flex items-center gap-2 text-xs text-muted-foreground bg-gray-800/50 px-3 py-1 rounded-md border border-gray-600/30">
@@ -24,6 +24,7 @@ import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { getModelCapabilities, getProviderForModel } from "../lib/modelConfig";
 import { useCustomShortcuts } from "../hooks/useCustomShortcuts";
+import { useUnlockToken } from "../hooks/useChatUnlock";
 import { ChatAISettingsModal } from "./ChatAISettingsModal";
 
 interface MessageInputProps {
@@ -64,6 +65,8 @@ interface MessageInputProps {
             mimeType?: string;
         }>
     ) => Promise<void> | void;
+    // Commands allowed by the chat's assistant; undefined allows all
+    allowedCommands?: string[];
     // NEW: Edit mode prop
     editMode?: {
         isEditing: boolean;
@@ -93,6 +96,7 @@ export function MessageInput({
     sidebarOpen,
     chatId,
     onSendMultiAIMessage,
+    allowedCommands,
     editMode,
 }: MessageInputProps) {
     const [attachments, setAttachments] = useState<
@@ -145,10 +149,11 @@ export function MessageInput({
     const { checkShortcutMatch } = useCustomShortcuts();
 
     // Get chat artifacts for @ referencing
+    const unlockToken = useUnlockToken(chatId);
     const chatArtifacts =
         useQuery(
-            chatId ? api.artifacts.getChatArtifacts : "skip",
-            chatId ? { chatId } : undefined
+            api.artifacts.getChatArtifacts,
+            chatId ? { chatId, unlockToken } : "skip"
         ) || [];
 
     // Get library items for # referencing - NEW
@@ -231,8 +236,10 @@ export function MessageInput({
                       },
                   ]
                 : []),
-        ],
-        [modelCapabilities]
+        ].filter(
+            (cmd) => !allowedCommands || allowedCommands.includes(cmd.command)
+        ),
+        [modelCapabilities, allowedCommands]
     );
 
     // Helper function to check if a command combination is valid
@@ -561,6 +568,8 @@ export function MessageInput({
                     if (result.wasEnhanced) {
                         onMessageChange(result.enhancedPrompt);
                         toast.success("Prompt enhanced!");
+                    } else if (result.error) {
+                        toast.error(result.error);
                     }
                 } catch (error) {
                     toast.error("Failed to enhance prompt");
@@ -965,6 +974,8 @@ export function MessageInput({
                     if (result.wasEnhanced) {
                         onMessageChange(result.enhancedPrompt);
                         toast.success("Prompt enhanced!");
+                    } else if (result.error) {
+                        toast.error(result.error);
                     }
                 } catch (error) {
                     toast.error("Failed to enhance prompt");
@@ -1555,6 +1566,12 @@ export function MessageInput({
                                                             toast.success(
                                                                 "Prompt enhanced!"
                                                             );
+                                                        } else if (
+                                                            result.error
+                                                        ) {
+                                                            toast.error(
+                                                                result.error
+                                                            );
                                                         }
                                                     } catch (error) {
                                                         toast.error(
@@ -27,6 +27,10 @@ import {
     Video,
     Palette,
     Trash,
+    Wrench,
+    Shuffle,
+    Pin,
+    PinOff,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { MarkdownRenderer } from "./MarkdownRenderer";
@@ -35,6 +39,9 @@ import { LoadingPlaceholder } from "./LoadingPlaceholder";
 import { MessageBranchNavigator } from "./MessageBranchNavigator";
 import { ModelSelector } from "./ModelSelector";
 import { MultiAIResponseCarousel } from "./MultiAIResponseCarousel";
+import { getToolInfo, type ToolInvocation } from "../lib/toolsConfig";
+import { getModelDisplayName } from "../lib/modelConfig";
+import { useUnlockToken } from "../hooks/useChatUnlock";
 
 interface Message {
     _id: Id<"messages">;
@@ -71,6 +78,7 @@ interface Message {
             startIndex?: number;
             endIndex?: number;
             citedText?: string;
+            page?: number; // Knowledge-base passages
         }>;
         imagePrompt?: string;
         generatedImageUrl?: string;
@@ -98,9 +106,19 @@ interface Message {
             }>;
             primaryResponseId?: string;
         };
+        toolInvocations?: ToolInvocation[];
+        responseMetadata?: {
+            model?: string;
+            requestedModel?: string; // Set when a fallback model answered
+            attempts?: number;
+        };
     };
     // Branch information (optional for now until fully implemented)
     activeBranchId?: string;
+    // Written offline and waiting in the IndexedDB outbox
+    isPending?: boolean;
+    // Always kept in context under the "pinned" context strategy
+    isPinned?: boolean;
 }
 
 interface MessageListProps {
@@ -181,6 +199,9 @@ export function MessageList({
     );
     const editAssistantMessage = useMutation(api.messages.editAssistantMessage);
     const forkChat = useMutation(api.chats.forkChatFromMessage);
+    const openMessageLink = useMutation(api.deepLinks.openMessageLink);
+    const unlockToken = useUnlockToken(chat?._id);
+    const setMessagePinned = useMutation(api.messages.setMessagePinned);
 
     const lastAiMessage = useMemo(() => {
         for (let i = messages.length - 1; i >= 0; i--) {
@@ -541,6 +562,23 @@ export function MessageList({
         }
     };
 
+    const handleTogglePin = async (message: Message) => {
+        try {
+            await setMessagePinned({
+                messageId: message._id,
+                isPinned: !message.isPinned,
+            });
+            toast.success(
+                message.isPinned
+                    ? "Message unpinned"
+                    : "Message pinned to context"
+            );
+        } catch (error) {
+            console.error("Failed to pin message:", error);
+            toast.error("Failed to update pin");
+        }
+    };
+
     // Enhanced Deep Link Handlers with Branch Support and Sharing Integration
     const handleCopyMessageLink = async (messageId: Id<"messages">) => {
         try {
@@ -586,7 +624,7 @@ export function MessageList({
             if (chat) {
                 if (chat.shareId && chat.isPublic) {
                     // Chat is already shared - create the link directly
-                    const shareUrl = `${window.location.origin}/shared/chat/${chat.shareId}#${deepLinkHash}`;
+                    const shareUrl = `${window.location.origin}/share/chat/${chat.shareId}#${deepLinkHash}`;
 
                     await navigator.clipboard.writeText(shareUrl);
                     toast.success("Shared message link copied to clipboard!");
@@ -612,104 +650,156 @@ export function MessageList({
         }
     };
 
+    // Scroll a rendered message into view and flash the purple highlight
+    const highlightLinkedMessage = (messageId: string, switchedBranch: boolean) => {
+        setTimeout(() => {
+            const messageElement = document.querySelector<HTMLElement>(
+                `[data-message-id="${messageId}"]`
+            );
+            if (!messageElement) return;
+
+            messageElement.scrollIntoView({
+                behavior: "smooth",
+                block: "center",
+            });
+
+            // Enhanced purple glow animation matching our theme
+            messageElement.classList.add(
+                "ring-4",
+                "ring-purple-400",
+                "ring-opacity-70",
+                "shadow-2xl",
+                "shadow-purple-400/50",
+                "transition-all",
+                "duration-1000"
+            );
+
+            // Add pulsing animation
+            messageElement.style.animation =
+                "deep-link-highlight 3s ease-in-out";
+
+            setTimeout(() => {
+                messageElement.classList.remove(
+                    "ring-4",
+                    "ring-purple-400",
+                    "ring-opacity-70",
+                    "shadow-2xl",
+                    "shadow-purple-400/50"
+                );
+                messageElement.style.animation = "";
+            }, 4000);
+
+            toast.success("Navigated to linked message", {
+                description: switchedBranch
+                    ? "Switched to the branch containing this message"
+                    : undefined,
+                duration: 3000,
+            });
+        }, 500); // Allow time for messages to render
+    };
+
+    const clearDeepLinkHash = () => {
+        window.history.replaceState(
+            null,
+            "",
+            window.location.pathname + window.location.search
+        );
+    };
+
+    // Hash already scrolled to, and hash whose branch switch is in flight
+    const handledDeepLinkRef = useRef<string | null>(null);
+    const resolvingDeepLinkRef = useRef<string | null>(null);
+    const switchedDeepLinkRef = useRef<string | null>(null);
+
     // Handle deep link navigation on component mount
     useEffect(() => {
         const handleDeepLink = () => {
             const hash = window.location.hash;
-            if (hash.startsWith("#m=")) {
-                // Parse simplified deep link format: #m=messageId&b=branchId
-                const params = new URLSearchParams(hash.substring(1)); // Remove '#'
-                const messageId = params.get("m");
-                const branchId = params.get("b");
-
-                if (!messageId) return;
-
-                const targetMessage = messages.find((m) => m._id === messageId);
-
-                if (targetMessage) {
-                    // Check if we need to switch branches first
-                    if (branchId && targetMessage.activeBranchId !== branchId) {
-                        // TODO: Switch to the specified branch before scrolling
-                        console.log(
-                            `Switching to branch ${branchId} for message ${messageId}`
-                        );
-                        // For now, we'll scroll to the message even if branch doesn't match
-                    }
+            if (!hash.startsWith("#m=")) return;
+            if (handledDeepLinkRef.current === hash) return;
 
-                    // Message found - scroll to it with enhanced highlighting
-                    setTimeout(() => {
-                        const messageElement = document.querySelector(
-                            `[data-message-id="${messageId}"]`
-                        );
-                        if (messageElement) {
-                            messageElement.scrollIntoView({
-                                behavior: "smooth",
-                                block: "center",
-                            });
-
-                            // Enhanced purple glow animation matching our theme
-                            messageElement.classList.add(
-                                "ring-4",
-                                "ring-purple-400",
-                                "ring-opacity-70",
-                                "shadow-2xl",
-                                "shadow-purple-400/50",
-                                "transition-all",
-                                "duration-1000"
-                            );
-
-                            // Add pulsing animation
-                            messageElement.style.animation =
-                                "deep-link-highlight 3s ease-in-out";
-
-                            setTimeout(() => {
-                                messageElement.classList.remove(
-                                    "ring-4",
-                                    "ring-purple-400",
-                                    "ring-opacity-70",
-                                    "shadow-2xl",
-                                    "shadow-purple-400/50"
-                                );
-                                messageElement.style.animation = "";
-                            }, 4000);
-
-                            // Show success toast
-                            toast.success("Navigated to linked message", {
-                                description: branchId
-                                    ? `Branch: ${branchId}`
-                                    : undefined,
-                                duration: 3000,
-                            });
-                        }
-                    }, 500); // Allow time for messages to render
-                } else {
-                    // Message not found - show appropriate error
-                    const isValidMessageId = messageId.length > 10; // Basic validation
+            // Parse simplified deep link format: #m=messageId&b=branchId
+            const params = new URLSearchParams(hash.substring(1)); // Remove '#'
+            const messageId = params.get("m");
+            const branchId = params.get("b");
+
+            if (!messageId) return;
+
+            const targetMessage = messages.find((m) => m._id === messageId);
+            if (targetMessage) {
+                handledDeepLinkRef.current = hash;
+                highlightLinkedMessage(
+                    messageId,
+                    switchedDeepLinkRef.current === hash
+                );
+                return;
+            }
 
-                    if (isValidMessageId) {
-                        // Valid ID format but message doesn't exist
+            // Not in the visible messages - it may be on an inactive branch
+            if (!chat || resolvingDeepLinkRef.current === hash) return;
+            resolvingDeepLinkRef.current = hash;
+
+            openMessageLink({
+                chatId: chat._id,
+                messageId,
+                branchId: branchId ?? undefined,
+                unlockToken,
+            })
+                .then((result) => {
+                    // Keep the hash - the link opens once the chat is unlocked
+                    if (result.status === "locked") return;
+
+                    if (result.status !== "ok" || !result.messageId) {
                         toast.error("Message not found", {
                             description:
                                 "The linked message may have been deleted or is not accessible in this conversation.",
                             duration: 5000,
                         });
-                    } else {
-                        // Invalid message ID format
-                        toast.error("Invalid message link", {
-                            description:
-                                "The message link appears to be corrupted or invalid.",
-                            duration: 5000,
-                        });
+                        handledDeepLinkRef.current = hash;
+                        clearDeepLinkHash();
+                        return;
                     }
 
-                    // Clear the invalid hash
-                    window.history.replaceState(
-                        null,
-                        "",
-                        window.location.pathname
-                    );
-                }
-            }
+                    if (result.switched) {
+                        switchedDeepLinkRef.current = hash;
+                    }
+
+                    // Forks carry their own copy of the message - point the hash at it
+                    if (result.messageId !== messageId) {
+                        let resolvedHash = `m=${result.messageId}`;
+                        if (result.branchId) {
+                            resolvedHash += `&b=${result.branchId}`;
+                        }
+                        if (result.switched) {
+                            switchedDeepLinkRef.current = `#${resolvedHash}`;
+                        }
+                        window.history.replaceState(
+                            null,
+                            "",
+                            `${window.location.pathname}${window.location.search}#${resolvedHash}`
+                        );
+                    }
+
+                    // Messages re-render after the branch switch and the effect scrolls
+                    if (!result.switched) {
+                        const resolvedHash = window.location.hash;
+                        handledDeepLinkRef.current = resolvedHash;
+                        highlightLinkedMessage(result.messageId, false);
+                    }
+                })
+                .catch((error) => {
+                    console.error("Failed to open message link:", error);
+                    toast.error("Invalid message link", {
+                        description:
+                            "The message link appears to be corrupted or invalid.",
+                        duration: 5000,
+                    });
+                    handledDeepLinkRef.current = hash;
+                    clearDeepLinkHash();
+                })
+                .finally(() => {
+                    resolvingDeepLinkRef.current = null;
+                });
         };
 
         // Handle initial deep link
@@ -720,7 +810,7 @@ export function MessageList({
         // Handle hash changes (for SPA navigation)
         window.addEventListener("hashchange", handleDeepLink);
         return () => window.removeEventListener("hashchange", handleDeepLink);
-    }, [messages]);
+    }, [messages, chat?._id, unlockToken]);
 
     const toggleMessageCollapse = (messageId: Id<"messages">) => {
         const newCollapsed = new Set(collapsedMessages);
@@ -736,8 +826,100 @@ export function MessageList({
         if (!message.metadata || Object.keys(message.metadata).length === 0)
             return null;
 
+        const responseMetadata = message.metadata.responseMetadata;
+
         return (
             <div className="space-y-3 mb-3">
+                {/* Answered by a fallback after the requested model failed */}
+                {responseMetadata?.requestedModel && responseMetadata.model && (
+                    <div className="flex items-center gap-2 text-xs text-amber-300/90">
+                        <Shuffle className="w-3.5 h-3.5" />
+                        <span>
+                            Answered by{" "}
+                            {getModelDisplayName(responseMetadata.model)} -{" "}
+                            {getModelDisplayName(
+                                responseMetadata.requestedModel
+                            )}{" "}
+                            was unavailable
+                        </span>
+                    </div>
+                )}
+
+                {/* Tool calls made while generating this response */}
+                {message.metadata.toolInvocations &&
+                    message.metadata.toolInvocations.length > 0 && (
+                        <div className="space-y-2">
+                            {message.metadata.toolInvocations.map(
+                                (invocation) => {
+                                    const toolInfo = getToolInfo(
+                                        invocation.toolName
+                                    );
+                                    return (
+                                        <details
+                                            key={invocation.toolCallId}
+                                            className="group bg-purple-600/10 rounded-lg border border-purple-500/20"
+                                        >
+                                            <summary className="flex items-center gap-2 px-3 py-2 text-sm text-purple-300 cursor-pointer">
+                                                <Wrench className="w-4 h-4" />
+                                                <span>
+                                                    {toolInfo
+                                                        ? `${toolInfo.icon} ${toolInfo.name}`
+                                                        : invocation.toolName}
+                                                </span>
+                                                <span
+                                                    className={`ml-auto text-xs ${
+                                                        invocation.state ===
+                                                        "error"
+                                                            ? "text-red-400"
+                                                            : "text-green-400"
+                                                    }`}
+                                                >
+                                                    {invocation.state ===
+                                                    "error"
+                                                        ? "Failed"
+                                                        : "Completed"}
+                                                </span>
+                                                <ChevronDown className="w-4 h-4 group-open:rotate-180 transition-transform" />
+                                            </summary>
+                                            <div className="px-3 pb-3 space-y-2 text-xs font-mono">
+                                                <div>
+                                                    <div className="text-purple-400 mb-1">
+                                                        Input
+                                                    </div>
+                                                    <pre className="whitespace-pre-wrap break-words bg-gray-900/60 rounded p-2 text-purple-100">
+                                                        {JSON.stringify(
+                                                            invocation.input,
+                                                            null,
+                                                            2
+                                                        )}
+                                                    </pre>
+                                                </div>
+                                                <div>
+                                                    <div className="text-purple-400 mb-1">
+                                                        {invocation.state ===
+                                                        "error"
+                                                            ? "Error"
+                                                            : "Result"}
+                                                    </div>
+                                                    <pre className="whitespace-pre-wrap break-words bg-gray-900/60 rounded p-2 text-purple-100">
+                                                        {invocation.state ===
+                                                        "error"
+                                                            ? invocation.error
+                                                            : JSON.stringify(
+                                                                  invocation.output,
+                                                                  null,
+                                                                  2
+                                                              )}
+                                                    </pre>
+                                                </div>
+                                            </div>
+                                        </details>
+                                    );
+                                }
+                            )}
+                        </div>
+                    )}
+
                 {/* Voice transcription indicator */}
                 {/* {message.metadata.audioTranscription && (
                     <div className="flex items-center gap-2 text-sm text-purple-400 bg-purple-600/10 rounded-lg p-3 border border-purple-500/20">
@@ -1249,6 +1431,8 @@ export function MessageList({
                                             : ""
                                     }`}
                                     onMouseEnter={() => {
+                                        // Queued messages have no server id yet
+                                        if (message.isPending) return;
                                         setHoveredMessageId(message._id);
                                         if (onMessageHover) {
                                             onMessageHover(message._id);
@@ -1286,6 +1470,17 @@ export function MessageList({
                                         </div>
                                     )}
 
+                                    {/* Offline Queue Indicator */}
+                                    {message.isPending && (
+                                        <div className="mb-2 flex items-center gap-2 text-xs text-purple-300/80">
+                                            <div className="w-2 h-2 bg-purple-400/70 rounded-full animate-pulse"></div>
+                                            <span>
+                                                Queued - sends when you're back
+                                                online
+                                            </span>
+                                        </div>
+                                    )}
+
                                     {/* Message Header (for assistant messages) */}
                                     {message.role === "assistant" &&
                                         message.model &&
@@ -1425,6 +1620,20 @@ export function MessageList({
                                                             isStreaming={
                                                                 message.isStreaming
                                                             }
+                                                            citations={
+                                                                // Primary multi-AI response keeps its own citations
+                                                                message.metadata
+                                                                    ?.multiAIResponses
+                                                                    ? message.metadata.multiAIResponses.responses.find(
+                                                                          (r) =>
+                                                                              r.isPrimary
+                                                                      )
+                                                                          ?.metadata
+                                                                          ?.citations
+                                                                    : message
+                                                                          .metadata
+                                                                          ?.citations
+                                                            }
                                                         />
                                                         {/* Streaming cursor */}
                                                         {message.isStreaming && (
@@ -1465,6 +1674,8 @@ export function MessageList({
                                         <div className="mt-2 flex items-center justify-end">
                                             <MessageBranchNavigator
                                                 messageId={message._id}
+                                                chatId={chat?._id}
+                                                onOpenChat={setSelectedChatId}
                                             />
                                         </div>
                                     </div>
@@ -1511,6 +1722,34 @@ export function MessageList({
                                                 <Copy className="w-3 h-3" />
                                             </Button>
 
+                                            {!message.isPending && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    onClick={() => {
+                                                        void handleTogglePin(
+                                                            message
+                                                        );
+                                                    }}
+                                                    className={`h-6 w-6 p-0 hover:text-purple-100 ${
+                                                        message.isPinned
+                                                            ? "text-purple-100"
+                                                            : "text-purple-300"
+                                                    }`}
+                                                    title={
+                                                        message.isPinned
+                                                            ? "Unpin from context"
+                                                            : "Pin to context"
+                                                    }
+                                                >
+                                                    {message.isPinned ? (
+                                                        <PinOff className="w-3 h-3" />
+                                                    ) : (
+                                                        <Pin className="w-3 h-3" />
+                                                    )}
+                                                </Button>
+                                            )}
+
                                             {message.role === "user" && (
                                                 <Button
                                                     size="sm"
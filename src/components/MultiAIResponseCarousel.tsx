@@ -294,6 +294,7 @@ export function MultiAIResponseCarousel({
                     <MarkdownRenderer
                         content={response.content}
                         className="text-purple-100"
+                        citations={response.metadata?.citations}
                     />
                 </div>
             </div>
@@ -407,6 +408,9 @@ export function MultiAIResponseCarousel({
                                         <MarkdownRenderer
                                             content={response.content}
                                             className="text-purple-100"
+                                            citations={
+                                                response.metadata?.citations
+                                            }
                                         />
                                     </div>
                                 </div>
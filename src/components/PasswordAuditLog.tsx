@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import {
+    AlertTriangle,
+    History,
+    KeyRound,
+    Lock,
+    RefreshCw,
+    Unlock,
+    XCircle,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { useUnlockTokens } from "../hooks/useChatUnlock";
+
+const PAGE_SIZE = 20;
+
+const EVENT_LABELS = {
+    unlock: { label: "Unlocked", icon: Unlock, className: "text-green-400" },
+    failed_attempt: {
+        label: "Wrong password",
+        icon: XCircle,
+        className: "text-orange-400",
+    },
+    locked_out: {
+        label: "Locked after too many attempts",
+        icon: AlertTriangle,
+        className: "text-red-400",
+    },
+    password_set: {
+        label: "Password set",
+        icon: Lock,
+        className: "text-purple-300",
+    },
+    password_changed: {
+        label: "Password changed",
+        icon: KeyRound,
+        className: "text-blue-300",
+    },
+    password_removed: {
+        label: "Password removed",
+        icon: Unlock,
+        className: "text-purple-400",
+    },
+} as const;
+
+// Unlocks, failed attempts and password changes across the user's chats
+export function PasswordAuditLog() {
+    const [limit, setLimit] = useState(PAGE_SIZE);
+    const unlockTokens = useUnlockTokens();
+    const events = useQuery(api.chatPasswords.listPasswordAuditEvents, {
+        limit,
+        unlockTokens,
+    });
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                    <History className="w-4 h-4 text-purple-400" />
+                    <span className="text-purple-200 font-medium">
+                        Password Activity
+                    </span>
+                </div>
+                {!events && (
+                    <RefreshCw className="w-4 h-4 animate-spin text-purple-400" />
+                )}
+            </div>
+            <p className="text-purple-300 text-sm">
+                Unlocks, wrong passwords and password changes on your
+                protected chats from the last 90 days.
+            </p>
+
+            {events && events.length === 0 && (
+                <div className="text-center py-4 text-sm text-purple-400">
+                    No password activity yet
+                </div>
+            )}
+
+            {events && events.length > 0 && (
+                <ul className="divide-y divide-purple-600/20 max-h-72 overflow-y-auto">
+                    {events.map((event) => {
+                        const { label, icon: Icon, className } =
+                            EVENT_LABELS[event.event];
+                        return (
+                            <li
+                                key={event._id}
+                                className="flex items-start gap-3 py-2"
+                            >
+                                <Icon
+                                    className={`w-4 h-4 mt-0.5 shrink-0 ${className}`}
+                                />
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm text-purple-100">
+                                        {label}
+                                        {event.lockedUntil && (
+                                            <span className="text-purple-400">
+                                                {" "}
+                                                until{" "}
+                                                {new Date(
+                                                    event.lockedUntil
+                                                ).toLocaleTimeString()}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-purple-400 truncate">
+                                        {event.chatTitle ?? "Deleted chat"}
+                                    </div>
+                                </div>
+                                <span className="text-xs text-purple-400 whitespace-nowrap">
+                                    {new Date(event.createdAt).toLocaleString()}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {events && events.length >= limit && (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLimit((prev) => prev + PAGE_SIZE)}
+                    className="text-purple-300 border-purple-500/30 hover:bg-purple-500/20"
+                >
+                    Show more
+                </Button>
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import { PasswordProtectionModal } from "./PasswordProtectionModal";
 import { toast } from "sonner";
+import { useUnlockToken } from "../hooks/useChatUnlock";
+import { useChatKey } from "../hooks/useChatEncryption";
 
 interface PasswordGatewayProps {
     chatId: Id<"chats">;
@@ -13,35 +15,26 @@ interface PasswordGatewayProps {
 
 export function PasswordGateway({ chatId, children, onPasswordVerified }: PasswordGatewayProps) {
     const [showPasswordModal, setShowPasswordModal] = useState(false);
-    const [isVerified, setIsVerified] = useState(false);
-    const [lastVerifiedChat, setLastVerifiedChat] = useState<string | null>(null);
 
-    // Get password status for the chat
-    const passwordStatus = useQuery(api.chats.checkPasswordStatus, { chatId });
-    
-    // Check if password verification is needed
+    // The server decides: the chat stays locked until this tab holds a valid unlock token
+    const unlockToken = useUnlockToken(chatId);
+    const passwordStatus = useQuery(api.chats.checkPasswordStatus, {
+        chatId,
+        unlockToken,
+    });
+    // Encrypted chats also need the message key, which only the password gives
+    const chatKey = useChatKey(chatId);
+    const needsKey = !!passwordStatus?.encryption && !chatKey;
+    const isVerified = !passwordStatus?.needsVerification && !needsKey;
+
+    // Prompt as soon as a locked chat opens or its unlock token expires
     useEffect(() => {
-        if (passwordStatus) {
-            const needsVerification = passwordStatus.needsVerification;
-            const chatChanged = lastVerifiedChat !== chatId;
-            
-            if (needsVerification || chatChanged) {
-                if (passwordStatus.isPasswordProtected) {
-                    setIsVerified(false);
-                    setShowPasswordModal(true);
-                } else {
-                    setIsVerified(true);
-                    setLastVerifiedChat(chatId);
-                }
-            } else {
-                setIsVerified(true);
-            }
+        if (passwordStatus?.isPasswordProtected && !isVerified) {
+            setShowPasswordModal(true);
         }
-    }, [passwordStatus, chatId, lastVerifiedChat]);
+    }, [passwordStatus, isVerified, chatId]);
 
     const handlePasswordVerified = () => {
-        setIsVerified(true);
-        setLastVerifiedChat(chatId);
         setShowPasswordModal(false);
         onPasswordVerified?.();
         toast.success("🔓 Chat unlocked successfully!");
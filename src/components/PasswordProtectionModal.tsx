@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useMutation, useQuery } from "convex/react";
+import { useConvex, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { Id } from "../../convex/_generated/dataModel";
 import {
@@ -10,6 +10,23 @@ import {
 } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { toast } from "sonner";
+import {
+    forgetUnlockToken,
+    saveUnlockToken,
+    useUnlockToken,
+} from "../hooks/useChatUnlock";
+import {
+    forgetChatKey,
+    rewriteChatMessageTexts,
+    saveChatKey,
+} from "../hooks/useChatEncryption";
+import {
+    createChatEncryption,
+    decryptText,
+    encryptText,
+    isEncryptedContent,
+    unlockChatKey,
+} from "../lib/chatCrypto";
 import {
     Lock,
     Unlock,
@@ -21,6 +38,12 @@ import {
     AlertTriangle,
 } from "lucide-react";
 
+// Wrong passwords lock the chat for escalating periods (see convex/chatPasswords.ts)
+function lockoutMessage(lockedUntil: number) {
+    const minutes = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 60000));
+    return `🔒 Too many attempts - try again in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
 interface PasswordProtectionModalProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
@@ -42,14 +65,35 @@ export function PasswordProtectionModal({
     const [showPassword, setShowPassword] = useState(false);
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
+    const [encryptMessages, setEncryptMessages] = useState(false);
 
     // Get password status for the chat
-    const passwordStatus = useQuery(api.chats.checkPasswordStatus, { chatId });
+    const unlockToken = useUnlockToken(chatId);
+    const passwordStatus = useQuery(api.chats.checkPasswordStatus, {
+        chatId,
+        unlockToken,
+    });
     
     // Mutations
     const setPasswordProtection = useMutation(api.chats.setPasswordProtection);
     const verifyPasswordProtection = useMutation(api.chats.verifyPasswordProtection);
     const removePasswordProtection = useMutation(api.chats.removePasswordProtection);
+    const enableChatEncryption = useMutation(api.chatEncryption.enableChatEncryption);
+    const disableChatEncryption = useMutation(api.chatEncryption.disableChatEncryption);
+    const convex = useConvex();
+
+    // Fresh unlock token for the encryption steps, which run on the unlocked chat
+    const unlockWithPassword = async () => {
+        const result = await verifyPasswordProtection({ chatId, password });
+        if (result.lockedUntil) {
+            throw new Error(lockoutMessage(result.lockedUntil));
+        }
+        if (!result.verified || !result.unlockToken || !result.unlockExpiresAt) {
+            throw new Error("Invalid password");
+        }
+        saveUnlockToken(chatId, result.unlockToken, result.unlockExpiresAt);
+        return result.unlockToken;
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -79,8 +123,27 @@ export function PasswordProtectionModal({
                     password,
                     hint: hint.trim() || undefined,
                 });
+                forgetUnlockToken(chatId);
 
-                toast.success("🔒 Chat is now password protected!");
+                if (encryptMessages) {
+                    // Existing messages are encrypted here in the browser
+                    const token = await unlockWithPassword();
+                    const { key, params } = await createChatEncryption(password);
+                    await enableChatEncryption({
+                        chatId,
+                        unlockToken: token,
+                        encryption: params,
+                    });
+                    await rewriteChatMessageTexts(convex, chatId, token, (text) =>
+                        isEncryptedContent(text)
+                            ? Promise.resolve(text)
+                            : encryptText(key, text)
+                    );
+                    await saveChatKey(chatId, key);
+                    toast.success("🔒 Chat is now password protected and encrypted!");
+                } else {
+                    toast.success("🔒 Chat is now password protected!");
+                }
                 
             } else if (mode === "verify") {
                 const result = await verifyPasswordProtection({
@@ -89,19 +152,63 @@ export function PasswordProtectionModal({
                 });
 
                 if (result.verified) {
+                    if (result.unlockToken && result.unlockExpiresAt) {
+                        saveUnlockToken(
+                            chatId,
+                            result.unlockToken,
+                            result.unlockExpiresAt
+                        );
+                    }
+                    if (passwordStatus?.encryption) {
+                        const key = await unlockChatKey(
+                            password,
+                            passwordStatus.encryption
+                        );
+                        if (!key) {
+                            toast.error("❌ Could not derive the encryption key");
+                            setIsLoading(false);
+                            return;
+                        }
+                        await saveChatKey(chatId, key);
+                    }
                     toast.success("✅ Password verified!");
                     onPasswordVerified?.();
                 } else {
-                    toast.error("❌ Incorrect password");
+                    toast.error(
+                        result.lockedUntil
+                            ? lockoutMessage(result.lockedUntil)
+                            : "❌ Incorrect password"
+                    );
                     setIsLoading(false);
                     return;
                 }
                 
             } else if (mode === "remove") {
-                await removePasswordProtection({
+                if (passwordStatus?.encryption) {
+                    // Messages go back to plain text before the password that
+                    // derives their key is removed
+                    const token = await unlockWithPassword();
+                    const key = await unlockChatKey(password, passwordStatus.encryption);
+                    if (!key) throw new Error("Invalid password");
+                    await rewriteChatMessageTexts(convex, chatId, token, (text) =>
+                        decryptText(key, text)
+                    );
+                    await disableChatEncryption({ chatId, unlockToken: token });
+                    forgetChatKey(chatId);
+                }
+                const result = await removePasswordProtection({
                     chatId,
                     currentPassword: password,
                 });
+                if (!result.success) {
+                    toast.error(
+                        result.error === "Invalid password"
+                            ? "❌ Incorrect password"
+                            : result.error
+                    );
+                    return;
+                }
+                forgetUnlockToken(chatId);
 
                 toast.success("🔓 Password protection removed");
             }
@@ -110,6 +217,7 @@ export function PasswordProtectionModal({
             setPassword("");
             setConfirmPassword("");
             setHint("");
+            setEncryptMessages(false);
             setShowPassword(false);
             setShowConfirmPassword(false);
             onOpenChange(false);
@@ -118,6 +226,10 @@ export function PasswordProtectionModal({
             console.error("Password operation failed:", error);
             if (error.message === "Invalid password") {
                 toast.error("❌ Incorrect password");
+            } else if (error.message?.startsWith("🔒")) {
+                toast.error(error.message);
+            } else if (error.message?.includes("encryption")) {
+                toast.error("Turn off message encryption first - remove the password to decrypt this chat");
             } else {
                 toast.error("Failed to update password protection");
             }
@@ -201,6 +313,19 @@ export function PasswordProtectionModal({
                         </div>
                     )}
 
+                    {/* Lockout after too many wrong passwords */}
+                    {mode !== "set" &&
+                        passwordStatus?.lockedUntil &&
+                        passwordStatus.lockedUntil > Date.now() && (
+                            <div className="p-3 bg-red-500/10 rounded-lg border border-red-500/30 flex items-center gap-2">
+                                <AlertTriangle className="w-4 h-4 text-red-400" />
+                                <p className="text-red-300 text-sm">
+                                    Too many wrong passwords. Try again after{" "}
+                                    {new Date(passwordStatus.lockedUntil).toLocaleTimeString()}.
+                                </p>
+                            </div>
+                        )}
+
                     {/* Password Input */}
                     <div className="space-y-2">
                         <label className="text-purple-200 text-sm font-medium">
@@ -283,6 +408,27 @@ export function PasswordProtectionModal({
                         </div>
                     )}
 
+                    {/* End-to-end encryption for set mode */}
+                    {mode === "set" && (
+                        <label className="flex items-start gap-2 p-3 bg-purple-500/10 rounded-lg border border-purple-500/30 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={encryptMessages}
+                                onChange={(e) => setEncryptMessages(e.target.checked)}
+                                className="mt-1 accent-purple-500"
+                                disabled={isLoading || !!passwordStatus?.encryption}
+                            />
+                            <div>
+                                <span className="text-purple-200 text-sm font-medium">
+                                    Encrypt messages in this browser
+                                </span>
+                                <p className="text-xs text-purple-400 mt-1">
+                                    Messages are stored encrypted with a key derived from this password. A forgotten password can't be recovered, and image, video, canvas, multi-AI and tools are turned off for this chat.
+                                </p>
+                            </div>
+                        </label>
+                    )}
+
                     {/* Warning for remove mode */}
                     {mode === "remove" && (
                         <div className="p-3 bg-orange-500/10 rounded-lg border border-orange-500/30">
@@ -292,6 +438,7 @@ export function PasswordProtectionModal({
                             </div>
                             <p className="text-orange-300 text-sm mt-1">
                                 Removing password protection will make this chat accessible without a password.
+                                {passwordStatus?.encryption && " Its messages will be decrypted and stored in plain text."}
                             </p>
                         </div>
                     )}
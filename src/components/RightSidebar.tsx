@@ -5,6 +5,7 @@ import { Id } from "../../convex/_generated/dataModel";
 import { SearchInput } from "./SearchInput";
 import { Canvas } from "./Canvas";
 import { useLocalStorage } from "../hooks/useLocalStorage";
+import { useUnlockToken } from "../hooks/useChatUnlock";
 import { X, MessageSquare, Palette } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
 
@@ -49,10 +50,11 @@ export function RightSidebar({
     const searchInputRef = useRef<HTMLInputElement | null>(null);
 
     // Get real artifacts from database
+    const unlockToken = useUnlockToken(chatId ?? undefined);
     const realArtifacts =
         useQuery(
             api.artifacts.getChatArtifacts,
-            chatId ? { chatId } : "skip"
+            chatId ? { chatId, unlockToken } : "skip"
         ) || [];
 
     // Filter messages based on search query for navigation mode
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "convex/react";
+import { useAuthActions } from "@convex-dev/auth/react";
 import { api } from "../../convex/_generated/api";
+import { indexedDBService } from "../lib/indexedDBService";
 import {
     Monitor,
     Smartphone,
@@ -29,6 +31,10 @@ export function SessionManagement() {
     const updateSessionActivity = useMutation(
         api.sessions.updateSessionActivity
     );
+    const storeSessionMetadata = useMutation(
+        api.sessions.storeSessionMetadata
+    );
+    const { signOut } = useAuthActions();
 
     // Update current session activity periodically
     useEffect(() => {
@@ -58,14 +64,10 @@ export function SessionManagement() {
                     ipAddress = "Unknown";
                 }
 
-                await fetch("/api/store-session-metadata", {
-                    method: "POST",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({
-                        deviceInfo,
-                        deviceName,
-                        ipAddress,
-                    }),
+                await storeSessionMetadata({
+                    deviceInfo,
+                    deviceName,
+                    ipAddress,
                 });
             } catch (error) {
                 console.error("Failed to store session metadata:", error);
@@ -73,7 +75,7 @@ export function SessionManagement() {
         };
 
         void storeMetadata();
-    }, []);
+    }, [storeSessionMetadata]);
 
     const getDeviceName = (userAgent: string): string => {
         if (/Mobile|Android|iPhone|iPad/.test(userAgent)) {
@@ -147,8 +149,10 @@ export function SessionManagement() {
         setIsLoading(true);
         try {
             await signOutAllSessions();
-            // This will sign out the current session too, so the user will be redirected
             toast.success("Signed out from all devices");
+            // The current session was revoked too - clear local tokens so the user is redirected
+            await signOut();
+            await indexedDBService.clearAllData();
         } catch (error) {
             console.error("Failed to sign out all sessions:", error);
             toast.error("Failed to sign out all devices");
@@ -22,7 +22,9 @@ import {
 } from "./ui/tooltip";
 import { ModelSelector } from "./ModelSelector";
 import { DefaultPasswordModal } from "./DefaultPasswordModal";
+import { ImportChatsModal } from "./ImportChatsModal";
 import { NotificationSounds } from "../lib/utils";
+import { useUnlockTokens } from "../hooks/useChatUnlock";
 import {
     AlertTriangle,
     Clock,
@@ -33,6 +35,7 @@ import {
     Palette,
     Save,
     Download,
+    Upload,
     Trash2,
     ArrowLeft,
     ChevronDown,
@@ -52,6 +55,18 @@ import { toast } from "sonner";
 import { Id } from "../../convex/_generated/dataModel";
 import jsPDF from "jspdf";
 import { AnalyticsDashboard } from "./AnalyticsDashboard";
+import { SessionManagement } from "./SessionManagement";
+import { PasswordAuditLog } from "./PasswordAuditLog";
+import { UsageLimitsSettings } from "./UsageLimits";
+import { FallbackModelsSettings } from "./FallbackModelsSettings";
+
+type ContextStrategy = "sliding_window" | "pinned" | "summarize";
+
+const CONTEXT_STRATEGIES: { id: ContextStrategy; label: string }[] = [
+    { id: "sliding_window", label: "Sliding window - drop the oldest messages" },
+    { id: "pinned", label: "Pinned - keep pinned messages, drop the oldest others" },
+    { id: "summarize", label: "Summarize - fold older messages into a summary" },
+];
 
 interface SettingsModalProps {
     open: boolean;
@@ -62,7 +77,11 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     const preferences = useQuery(api.preferences.getUserPreferences);
     const allChats = useQuery(api.preferences.getAllUserChats) || [];
     const allProjects = useQuery(api.projects.listProjects) || [];
-    const fullWorkspaceData = useQuery(api.projects.getFullWorkspaceExport);
+    // Locked password protected chats are exported without their messages
+    const unlockTokens = useUnlockTokens();
+    const fullWorkspaceData = useQuery(api.projects.getFullWorkspaceExport, {
+        unlockTokens,
+    });
     const updatePreferences = useMutation(api.preferences.updatePreferences);
     const deleteAllChats = useMutation(api.preferences.deleteAllUserChats);
     const deleteAccount = useMutation(api.preferences.deleteUserAccount);
@@ -94,14 +113,14 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
         currentPage === "export" &&
             exportMode === "chats" &&
             selectedChats.length > 0
-            ? { chatIds: selectedChats as Id<"chats">[] }
+            ? { chatIds: selectedChats as Id<"chats">[], unlockTokens }
             : "skip"
     );
 
     const getSelectedProjectData = useQuery(
         api.projects.getProjectWithAllChats,
         currentPage === "export" && exportMode === "projects" && selectedProject
-            ? { projectId: selectedProject as Id<"projects"> }
+            ? { projectId: selectedProject as Id<"projects">, unlockTokens }
             : "skip"
     );
 
@@ -129,8 +148,10 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
     });
     const [showDefaultPasswordModal, setShowDefaultPasswordModal] =
         useState(false);
+    const [showImportChatsModal, setShowImportChatsModal] = useState(false);
     const [settings, setSettings] = useState({
         defaultModel: "gemini-2.0-flash",
+        fallbackModels: [] as string[],
         theme: "dark" as "light" | "dark" | "system",
         chatTitleGeneration: "first-message" as
             | "first-message"
@@ -167,7 +188,8 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
             systemPrompt: "",
             responseMode: "balanced",
             promptEnhancement: false,
-            contextWindow: undefined,
+            contextWindow: undefined as number | undefined,
+            contextStrategy: "sliding_window" as ContextStrategy,
             topP: 0.9,
             frequencyPenalty: 0,
             presencePenalty: 0,
@@ -184,6 +206,7 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
         if (preferences) {
             setSettings({
                 defaultModel: preferences.defaultModel || "gemini-2.0-flash",
+                fallbackModels: preferences.fallbackModels || [],
                 theme:
                     (preferences.theme as "light" | "dark" | "system") ||
                     "dark",
@@ -243,6 +266,9 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                         preferences.aiSettings?.promptEnhancement || false,
                     contextWindow:
                         preferences.aiSettings?.contextWindow || undefined,
+                    contextStrategy:
+                        preferences.aiSettings?.contextStrategy ||
+                        "sliding_window",
                     topP: preferences.aiSettings?.topP || 0.9,
                     frequencyPenalty:
                         preferences.aiSettings?.frequencyPenalty || 0,
@@ -1945,6 +1971,11 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                     )}
                                 </div>
 
+                                {/* Usage Limits Section */}
+                                <div className="pt-6 border-t border-purple-600/20">
+                                    <UsageLimitsSettings />
+                                </div>
+
                                 {/* Default AI Model Section */}
                                 <div className="space-y-4 pt-6 border-t border-purple-600/20">
                                     <div className="flex items-center gap-2">
@@ -1965,6 +1996,16 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                             onModelChange={handleModelChange}
                                         />
                                     </div>
+                                    <FallbackModelsSettings
+                                        defaultModel={settings.defaultModel}
+                                        fallbackModels={settings.fallbackModels}
+                                        onChange={(fallbackModels) =>
+                                            setSettings((prev) => ({
+                                                ...prev,
+                                                fallbackModels,
+                                            }))
+                                        }
+                                    />
                                 </div>
 
                                 {/* Data Management Section */}
@@ -1993,6 +2034,25 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                             </div>
                                         </Button>
 
+                                        <Button
+                                            variant="outline"
+                                            onClick={() =>
+                                                setShowImportChatsModal(true)
+                                            }
+                                            className="justify-start h-auto p-3 border-purple-600/30"
+                                        >
+                                            <div className="text-left">
+                                                <div className="font-medium text-purple-200 flex items-center gap-2">
+                                                    <Upload className="w-4 h-4" />
+                                                    Import Chats
+                                                </div>
+                                                <div className="text-xs text-purple-400/80">
+                                                    From ChatGPT, Claude, or a
+                                                    3tee export
+                                                </div>
+                                            </div>
+                                        </Button>
+
                                         <div className="relative">
                                             <Button
                                                 variant="outline"
@@ -2914,6 +2974,8 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                                     responseMode: "balanced",
                                                     promptEnhancement: false,
                                                     contextWindow: undefined,
+                                                    contextStrategy:
+                                                        "sliding_window",
                                                     topP: 0.9,
                                                     frequencyPenalty: 0,
                                                     presencePenalty: 0,
@@ -3153,6 +3215,80 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                             />
                                         </div>
 
+                                        {/* Context Window */}
+                                        <div className="space-y-2">
+                                            <div className="flex items-center justify-between">
+                                                <label className="text-purple-200 text-sm">
+                                                    Context Window
+                                                </label>
+                                                <span className="text-purple-300 text-sm">
+                                                    {settings.aiSettings
+                                                        ?.contextWindow ||
+                                                        "Model maximum"}
+                                                </span>
+                                            </div>
+                                            <input
+                                                type="number"
+                                                min="1000"
+                                                step="1000"
+                                                value={
+                                                    settings.aiSettings
+                                                        ?.contextWindow || ""
+                                                }
+                                                onChange={(e) =>
+                                                    setSettings((prev) => ({
+                                                        ...prev,
+                                                        aiSettings: {
+                                                            ...prev.aiSettings,
+                                                            contextWindow: e
+                                                                .target.value
+                                                                ? parseInt(
+                                                                      e.target
+                                                                          .value
+                                                                  )
+                                                                : undefined,
+                                                        },
+                                                    }))
+                                                }
+                                                placeholder="Model maximum"
+                                                className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-md text-purple-100 placeholder-purple-400 focus:outline-none focus:ring-2 focus:ring-purple-500/50"
+                                            />
+                                            <select
+                                                value={
+                                                    settings.aiSettings
+                                                        ?.contextStrategy ||
+                                                    "sliding_window"
+                                                }
+                                                onChange={(e) =>
+                                                    setSettings((prev) => ({
+                                                        ...prev,
+                                                        aiSettings: {
+                                                            ...prev.aiSettings,
+                                                            contextStrategy: e
+                                                                .target
+                                                                .value as ContextStrategy,
+                                                        },
+                                                    }))
+                                                }
+                                                className="w-full px-3 py-2 bg-purple-500/10 border border-purple-500/30 rounded-md text-purple-100 text-sm"
+                                            >
+                                                {CONTEXT_STRATEGIES.map(
+                                                    (strategy) => (
+                                                        <option
+                                                            key={strategy.id}
+                                                            value={strategy.id}
+                                                        >
+                                                            {strategy.label}
+                                                        </option>
+                                                    )
+                                                )}
+                                            </select>
+                                            <p className="text-xs text-purple-400">
+                                                What happens when a chat
+                                                outgrows the context window.
+                                            </p>
+                                        </div>
+
                                         {/* Top P */}
                                         <div className="space-y-2">
                                             <div className="flex items-center justify-between">
@@ -3503,6 +3639,16 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                                         </div>
                                     )}
                                 </div>
+
+                                {/* Unlocks, failed attempts and password changes */}
+                                <div className="bg-purple-500/10 rounded-lg p-4 border border-purple-500/20">
+                                    <PasswordAuditLog />
+                                </div>
+
+                                {/* Active Sessions / remote sign out */}
+                                <div className="bg-purple-500/10 rounded-lg p-4 border border-purple-500/20">
+                                    <SessionManagement />
+                                </div>
                             </div>
                         </TabsContent>
 
@@ -3560,6 +3706,11 @@ export function SettingsModal({ open, onOpenChange }: SettingsModalProps) {
                 onOpenChange={setShowDefaultPasswordModal}
             />
 
+            <ImportChatsModal
+                open={showImportChatsModal}
+                onOpenChange={setShowImportChatsModal}
+            />
+
             {/* Analytics Dashboard as Child Modal */}
             <AnalyticsDashboard
                 open={showAnalyticsDashboard}
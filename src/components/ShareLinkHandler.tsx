@@ -5,8 +5,9 @@ import { api } from "../../convex/_generated/api";
 import { Button } from "./ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
 import { Badge } from "./ui/badge";
-import { ExternalLink, GitFork, Users, Eye, AlertCircle, Share2, MessageSquare, Folder, X } from "lucide-react";
+import { ExternalLink, GitFork, Users, Eye, AlertCircle, Share2, MessageSquare, Folder, X, Link2, Lock, Bot, BookOpen } from "lucide-react";
 import { toast } from "sonner";
+import { useUnlockTokens } from "../hooks/useChatUnlock";
 
 interface ShareLinkHandlerProps {
     children: React.ReactNode;
@@ -24,7 +25,13 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
     } | null>(null);
     const [showDialog, setShowDialog] = useState(false);
     const [isProcessing, setIsProcessing] = useState(false);
+    // Assistant shares only offer "add to my assistants", so they get their own dialog
+    const [assistantShareId, setAssistantShareId] = useState<string | null>(
+        null
+    );
 
+    // Share ids don't name the chat, so every token this tab holds is passed
+    const unlockTokens = useUnlockTokens();
     const handleShareLinkAccess = useMutation(
         api.sharing.handleShareLinkAccess
     );
@@ -36,11 +43,32 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
     );
     const getSharedChat = useQuery(
         api.sharing.getSharedChat,
-        shareInfo?.type === "chat" ? { shareId: shareInfo.shareId } : "skip"
+        shareInfo?.type === "chat"
+            ? { shareId: shareInfo.shareId, unlockTokens }
+            : "skip"
     );
     const getSharedProject = useQuery(
         api.sharing.getSharedProject,
-        shareInfo?.type === "project" ? { shareId: shareInfo.shareId } : "skip"
+        shareInfo?.type === "project"
+            ? { shareId: shareInfo.shareId, unlockTokens }
+            : "skip"
+    );
+    const sharedAssistant = useQuery(
+        api.assistants.getSharedAssistant,
+        assistantShareId ? { shareId: assistantShareId } : "skip"
+    );
+    const forkAssistant = useMutation(api.assistants.forkAssistant);
+
+    // Message deep link carried on the share URL (#m=messageId&b=branchId)
+    const messageLinkHash = location.hash.startsWith("#m=") ? location.hash : "";
+    const linkedMessageId = messageLinkHash
+        ? new URLSearchParams(messageLinkHash.substring(1)).get("m")
+        : null;
+    const linkedMessagePreview = useQuery(
+        api.deepLinks.getSharedMessagePreview,
+        shareInfo?.type === "chat" && linkedMessageId
+            ? { shareId: shareInfo.shareId, messageId: linkedMessageId }
+            : "skip"
     );
 
     // Detect share links in URL
@@ -76,7 +104,16 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
                 return;
             }
 
-            // Pattern 3: Query parameter ?share=[type]:[shareId]
+            // Pattern 3: /share/assistant/[shareId]
+            const assistantShareMatch = path.match(
+                /^\/share\/assistant\/([a-f0-9-]+)$/
+            );
+            if (assistantShareMatch) {
+                setAssistantShareId(assistantShareMatch[1]);
+                return;
+            }
+
+            // Pattern 4: Query parameter ?share=[type]:[shareId]
             const shareParam = searchParams.get("share");
             if (shareParam) {
                 const [type, shareId] = shareParam.split(":");
@@ -91,7 +128,7 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
                 }
             }
 
-            // Pattern 4: Full URL detection in hash or query
+            // Pattern 5: Full URL detection in hash or query
             const hashShare = location.hash.match(/#share=([^&]+)/);
             if (hashShare) {
                 const [type, shareId] = hashShare[1].split(":");
@@ -118,6 +155,7 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
             const result = await handleShareLinkAccess({
                 shareId: shareInfo.shareId,
                 type: shareInfo.type,
+                unlockTokens,
             });
 
             // Emit event for ChatInterface to handle
@@ -136,7 +174,8 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
 
             // Navigate to the appropriate content
             if (shareInfo.type === "chat") {
-                navigate(`/chat/${result.chatId}`);
+                // Keep the message hash so MessageList can jump to it
+                navigate(`/chat/${result.chatId}${messageLinkHash}`);
             } else {
                 navigate(`/project/${result.projectId}`);
             }
@@ -164,6 +203,32 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
         navigate("/"); // Navigate to home
     };
 
+    const handleAddAssistant = async () => {
+        if (!assistantShareId) return;
+
+        setIsProcessing(true);
+        try {
+            const result = await forkAssistant({ shareId: assistantShareId });
+            toast.success(
+                result.action === "forked"
+                    ? "Assistant added - find it under Assistants in the sidebar"
+                    : "This is your own assistant"
+            );
+            setAssistantShareId(null);
+            void navigate("/");
+        } catch (error) {
+            console.error("Error adding shared assistant:", error);
+            toast.error("Failed to add assistant");
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleCancelAssistant = () => {
+        setAssistantShareId(null);
+        void navigate("/");
+    };
+
     const renderSharePreview = () => {
         if (shareInfo?.type === "chat" && getSharedChat) {
             return (
@@ -192,7 +257,28 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
                                         </span>
                                     )}
                                 </div>
-                                {getSharedChat.messages.length > 0 && (
+                                {getSharedChat.status === "password_required" ||
+                                linkedMessagePreview?.status === "password_required" ? (
+                                    <div className="p-3 bg-purple-500/10 rounded-lg border border-purple-500/20 flex items-center gap-2">
+                                        <Lock className="w-4 h-4 text-purple-300 flex-shrink-0" />
+                                        <p className="text-sm text-purple-200/80">
+                                            {linkedMessageId
+                                                ? "This link points to a message in a password-protected chat."
+                                                : "This chat is password protected."}{" "}
+                                            Unlock the chat to view it.
+                                        </p>
+                                    </div>
+                                ) : linkedMessagePreview?.status === "ok" ? (
+                                    <div className="p-3 bg-purple-500/10 rounded-lg border border-purple-500/20">
+                                        <p className="text-sm text-purple-300/80 mb-1 flex items-center gap-1">
+                                            <Link2 className="w-3 h-3" />
+                                            Linked {linkedMessagePreview.role === "user" ? "prompt" : "response"}:
+                                        </p>
+                                        <p className="text-purple-100 text-sm leading-relaxed line-clamp-3">
+                                            {linkedMessagePreview.excerpt}
+                                        </p>
+                                    </div>
+                                ) : getSharedChat.messages.length > 0 && (
                                     <div className="p-3 bg-purple-500/10 rounded-lg border border-purple-500/20">
                                         <p className="text-sm text-purple-300/80 mb-1">Latest message:</p>
                                         <p className="text-purple-100 text-sm leading-relaxed line-clamp-2">
@@ -421,6 +507,134 @@ export const ShareLinkHandler: React.FC<ShareLinkHandlerProps> = ({
                     </div>
                 </DialogContent>
             </Dialog>
+
+            <Dialog
+                open={!!assistantShareId}
+                onOpenChange={(open) => !open && handleCancelAssistant()}
+            >
+                <DialogContent className="bg-transparent backdrop-blur-lg border border-purple-600/30 text-purple-100 max-w-2xl" hideCloseButton>
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center justify-between mb-4">
+                            <div className="flex items-center gap-2">
+                                <Share2 className="w-5 h-5 text-purple-300" />
+                                <span className="text-lg font-semibold text-purple-100">
+                                    Shared Assistant
+                                </span>
+                            </div>
+                            <button
+                                onClick={handleCancelAssistant}
+                                className="p-2 rounded-lg hover:bg-purple-500/20 transition-colors"
+                            >
+                                <X className="w-5 h-5 text-purple-300" />
+                            </button>
+                        </DialogTitle>
+                    </DialogHeader>
+
+                    {sharedAssistant === undefined ? (
+                        <div className="text-center py-12">
+                            <div className="w-8 h-8 border-2 border-purple-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+                            <p className="text-purple-200/80">Loading shared content...</p>
+                        </div>
+                    ) : sharedAssistant === null ? (
+                        <div className="text-center py-12">
+                            <div className="p-4 bg-red-600/10 rounded-full w-fit mx-auto mb-4">
+                                <AlertCircle className="w-12 h-12 text-red-400" />
+                            </div>
+                            <h3 className="text-lg font-semibold mb-2 text-purple-100">
+                                Unable to Access
+                            </h3>
+                            <p className="text-purple-200/80 max-w-sm mx-auto leading-relaxed">
+                                This share link is invalid or has been removed.
+                            </p>
+                            <Button
+                                onClick={handleCancelAssistant}
+                                className="mt-6 bg-purple-600/80 hover:bg-purple-600/70 text-white"
+                            >
+                                Return to Home
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="space-y-6">
+                            <div className="p-4 bg-purple-600/10 rounded-lg border border-purple-600/20">
+                                <div className="flex items-start gap-3">
+                                    <div className="p-2 bg-purple-500/20 rounded-lg text-xl leading-none">
+                                        {sharedAssistant.avatar || <Bot className="w-5 h-5 text-purple-300" />}
+                                    </div>
+                                    <div className="flex-1 min-w-0">
+                                        <h3 className="font-semibold text-purple-100 text-lg mb-2">
+                                            {sharedAssistant.name}
+                                        </h3>
+                                        {sharedAssistant.description && (
+                                            <p className="text-purple-200/80 mb-3 text-sm leading-relaxed">
+                                                {sharedAssistant.description}
+                                            </p>
+                                        )}
+                                        <div className="flex items-center gap-3 text-sm text-purple-300/80 mb-3">
+                                            <Badge variant="secondary" className="bg-purple-500/20 text-purple-200 border-purple-500/30">
+                                                {sharedAssistant.defaultModel}
+                                            </Badge>
+                                            {sharedAssistant.knowledgeNames.length > 0 && (
+                                                <span className="flex items-center gap-1">
+                                                    <BookOpen className="w-3 h-3" />
+                                                    {sharedAssistant.knowledgeNames.length} knowledge items (not copied)
+                                                </span>
+                                            )}
+                                        </div>
+                                        <div className="p-3 bg-purple-500/10 rounded-lg border border-purple-500/20">
+                                            <p className="text-sm text-purple-300/80 mb-1">Instructions:</p>
+                                            <p className="text-purple-100 text-sm leading-relaxed line-clamp-4 whitespace-pre-wrap">
+                                                {sharedAssistant.instructions}
+                                            </p>
+                                        </div>
+                                    </div>
+                                </div>
+                            </div>
+
+                            <div className="p-4 rounded-lg border bg-green-600/10 border-green-600/20 text-green-200">
+                                <div className="flex items-center gap-2 mb-2">
+                                    <span className="text-green-300">
+                                        <GitFork className="w-4 h-4" />
+                                    </span>
+                                    <span className="font-medium">
+                                        {sharedAssistant.isOwner ? "Your Content" : "Fork Assistant"}
+                                    </span>
+                                </div>
+                                <p className="text-sm opacity-80">
+                                    {sharedAssistant.isOwner
+                                        ? "This is your own shared assistant"
+                                        : "A copy will be added to your assistants"}
+                                </p>
+                            </div>
+
+                            <div className="flex gap-3 justify-end pt-4 border-t border-purple-600/20">
+                                <Button
+                                    variant="ghost"
+                                    onClick={handleCancelAssistant}
+                                    className="text-purple-200 hover:bg-purple-500/20"
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    onClick={() => void handleAddAssistant()}
+                                    disabled={isProcessing}
+                                    className="min-w-[140px] bg-gradient-to-r from-purple-600/80 to-indigo-600/80 hover:from-purple-600/70 hover:to-indigo-600/70 text-white"
+                                >
+                                    {isProcessing ? (
+                                        <div className="flex items-center gap-2">
+                                            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                                            <span>Processing...</span>
+                                        </div>
+                                    ) : sharedAssistant.isOwner ? (
+                                        "Open"
+                                    ) : (
+                                        "Add to My Assistants"
+                                    )}
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
         </>
     );
 };
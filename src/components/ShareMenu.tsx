@@ -24,6 +24,8 @@ import {
     TextRun,
     HeadingLevel,
 } from "docx";
+import { useUnlockToken } from "../hooks/useChatUnlock";
+import { useChatKey, useDecryptedMessages } from "../hooks/useChatEncryption";
 
 interface ShareMenuProps {
     chatId: Id<"chats">;
@@ -39,8 +41,19 @@ export function ShareMenu({ chatId }: ShareMenuProps) {
     const closeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
     const chat = useQuery(api.chats.getChat, { chatId });
-    const messages = useQuery(api.chats.getChatMessages, { chatId }) || [];
-    const passwordStatus = useQuery(api.chats.checkPasswordStatus, { chatId });
+    const unlockToken = useUnlockToken(chatId);
+    // Exports of encrypted chats are decrypted here, in the browser
+    const chatKey = useChatKey(chatId);
+    const storedMessages = useQuery(api.chats.getChatMessages, {
+        chatId,
+        unlockToken,
+    });
+    const messages =
+        useDecryptedMessages(storedMessages, chatKey?.key) || [];
+    const passwordStatus = useQuery(api.chats.checkPasswordStatus, {
+        chatId,
+        unlockToken,
+    });
 
     useEffect(() => {
         function handleClickOutside(event: MouseEvent) {
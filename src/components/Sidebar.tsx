@@ -7,6 +7,7 @@ import { SearchInput } from "./SearchInput";
 import { ProjectTree } from "./ProjectTree";
 import { AdvancedSearchModal } from "./AdvancedSearchModal";
 import { LibraryModal } from "./LibraryModal";
+import { AssistantsModal } from "./AssistantsModal";
 import { useLocalStorage } from "../hooks/useLocalStorage";
 import { useCustomShortcuts } from "../hooks/useCustomShortcuts";
 import {
@@ -20,6 +21,7 @@ import {
     Search,
     Clock, // Add Clock icon for temporary chats
     BookOpen, // Add Library icon
+    Bot,
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -84,6 +86,9 @@ export function Sidebar({
     // Library modal state
     const [showLibrary, setShowLibrary] = useState(false);
 
+    // Assistants modal state
+    const [showAssistants, setShowAssistants] = useState(false);
+
     // View toggle state - chat view vs project view
     const [isProjectView, setIsProjectView] = useLocalStorage(
         "isProjectView",
@@ -595,6 +600,13 @@ export function Sidebar({
                     >
                         <BookOpen className="w-5 h-5 text-white" />
                     </button>
+                    <button
+                        onClick={() => setShowAssistants(true)}
+                        className="p-2 rounded-lg bg-gradient-to-r from-pink-500/20 to-purple-500/20 hover:from-pink-500/30 hover:to-purple-500/30 transition-all duration-200"
+                        title="Assistants"
+                    >
+                        <Bot className="w-5 h-5 text-white" />
+                    </button>
                 </div>
             </div>
 
@@ -908,6 +920,13 @@ export function Sidebar({
                     console.log("Selected library item:", item);
                 }}
             />
+
+            {/* Assistants Modal */}
+            <AssistantsModal
+                open={showAssistants}
+                onOpenChange={setShowAssistants}
+                onChatStarted={onSelectChat}
+            />
         </div>
     );
 }
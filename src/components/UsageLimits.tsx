@@ -0,0 +1,335 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Gauge, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { PROVIDER_CONFIGS } from "../lib/modelConfig";
+import { formatCost } from "../lib/utils";
+
+type BudgetDraft = {
+    provider: string; // "" = all providers
+    period: "daily" | "monthly";
+    unit: "usd" | "tokens";
+    limit: string;
+};
+
+const inputClassName =
+    "w-full p-2 bg-purple-800/30 border border-purple-600/30 rounded-lg text-purple-100 focus:outline-none focus:border-purple-500";
+
+function formatBudgetAmount(unit: "usd" | "tokens", amount: number) {
+    return unit === "usd"
+        ? formatCost(amount)
+        : `${Math.round(amount).toLocaleString()} tokens`;
+}
+
+function describeBudget(budget: {
+    provider?: string;
+    period: "daily" | "monthly";
+}) {
+    const provider = budget.provider
+        ? (PROVIDER_CONFIGS[budget.provider]?.displayName ?? budget.provider)
+        : "All providers";
+    return `${provider} · ${budget.period === "daily" ? "Daily" : "Monthly"}`;
+}
+
+function parseRateLimit(value: string): number | undefined {
+    const parsed = parseInt(value);
+    return parsed > 0 ? parsed : undefined;
+}
+
+export function UsageLimitsSettings() {
+    const status = useQuery(api.usageLimits.getUsageLimitStatus);
+    const updateUsageLimits = useMutation(api.usageLimits.updateUsageLimits);
+
+    const [budgets, setBudgets] = useState<BudgetDraft[]>([]);
+    const [requestsPerMinute, setRequestsPerMinute] = useState("");
+    const [requestsPerHour, setRequestsPerHour] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Load the saved limits once; later status updates only refresh usage
+    const [loaded, setLoaded] = useState(false);
+    useEffect(() => {
+        if (loaded || status === undefined) return;
+        setBudgets(
+            (status?.budgets ?? []).map((budget) => ({
+                provider: budget.provider ?? "",
+                period: budget.period,
+                unit: budget.unit,
+                limit: String(budget.limit),
+            }))
+        );
+        setRequestsPerMinute(status?.requestsPerMinute?.toString() ?? "");
+        setRequestsPerHour(status?.requestsPerHour?.toString() ?? "");
+        setLoaded(true);
+    }, [status, loaded]);
+
+    const updateBudget = (index: number, changes: Partial<BudgetDraft>) => {
+        setBudgets((prev) =>
+            prev.map((budget, i) =>
+                i === index ? { ...budget, ...changes } : budget
+            )
+        );
+    };
+
+    const handleSave = async () => {
+        const parsedBudgets = budgets.map((budget) => ({
+            provider: budget.provider || undefined,
+            period: budget.period,
+            unit: budget.unit,
+            limit: parseFloat(budget.limit),
+        }));
+        if (parsedBudgets.some((budget) => !(budget.limit > 0))) {
+            toast.error("Budget limits must be greater than zero");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await updateUsageLimits({
+                budgets: parsedBudgets,
+                requestsPerMinute: parseRateLimit(requestsPerMinute),
+                requestsPerHour: parseRateLimit(requestsPerHour),
+            });
+            toast.success("Usage limits saved");
+        } catch (error) {
+            console.error("Failed to save usage limits:", error);
+            toast.error(
+                error instanceof Error
+                    ? error.message
+                    : "Failed to save usage limits"
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center gap-2">
+                <Gauge className="w-5 h-5 text-purple-400" />
+                <h3 className="text-lg font-semibold text-purple-100">
+                    Usage Limits
+                </h3>
+            </div>
+            <p className="text-sm text-purple-400/80">
+                Cap what your own API keys can spend. Requests are refused once
+                a budget is used up or the rate limit is reached, and you'll
+                see a warning at 80%. Days and months are counted in UTC.
+            </p>
+
+            {/* Current usage of saved budgets */}
+            {status && status.budgets.length > 0 && (
+                <div className="space-y-2">
+                    {status.budgets.map((budget, index) => {
+                        const percent = Math.min(100, budget.ratio * 100);
+                        return (
+                            <div
+                                key={index}
+                                className="p-3 rounded-lg bg-purple-500/10 border border-purple-500/20"
+                            >
+                                <div className="flex justify-between text-xs text-purple-300 mb-1">
+                                    <span>{describeBudget(budget)}</span>
+                                    <span>
+                                        {formatBudgetAmount(
+                                            budget.unit,
+                                            budget.used
+                                        )}{" "}
+                                        /{" "}
+                                        {formatBudgetAmount(
+                                            budget.unit,
+                                            budget.limit
+                                        )}
+                                    </span>
+                                </div>
+                                <div className="h-1.5 rounded-full bg-purple-900/50 overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full ${
+                                            budget.ratio >= 1
+                                                ? "bg-red-500"
+                                                : budget.ratio >=
+                                                    status.warningRatio
+                                                  ? "bg-amber-400"
+                                                  : "bg-purple-500"
+                                        }`}
+                                        style={{ width: `${percent}%` }}
+                                    />
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {/* Budget editor */}
+            <div className="space-y-2">
+                {budgets.map((budget, index) => (
+                    <div
+                        key={index}
+                        className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2 items-center"
+                    >
+                        <select
+                            value={budget.provider}
+                            onChange={(e) =>
+                                updateBudget(index, {
+                                    provider: e.target.value,
+                                })
+                            }
+                            className={inputClassName}
+                        >
+                            <option value="">All providers</option>
+                            {Object.entries(PROVIDER_CONFIGS).map(
+                                ([id, config]) => (
+                                    <option key={id} value={id}>
+                                        {config.displayName}
+                                    </option>
+                                )
+                            )}
+                        </select>
+                        <select
+                            value={budget.period}
+                            onChange={(e) =>
+                                updateBudget(index, {
+                                    period: e.target
+                                        .value as BudgetDraft["period"],
+                                })
+                            }
+                            className={inputClassName}
+                        >
+                            <option value="daily">Daily</option>
+                            <option value="monthly">Monthly</option>
+                        </select>
+                        <select
+                            value={budget.unit}
+                            onChange={(e) =>
+                                updateBudget(index, {
+                                    unit: e.target.value as BudgetDraft["unit"],
+                                })
+                            }
+                            className={inputClassName}
+                        >
+                            <option value="usd">USD</option>
+                            <option value="tokens">Tokens</option>
+                        </select>
+                        <input
+                            type="number"
+                            min="0"
+                            step={budget.unit === "usd" ? "0.01" : "1000"}
+                            placeholder={
+                                budget.unit === "usd" ? "5.00" : "1000000"
+                            }
+                            value={budget.limit}
+                            onChange={(e) =>
+                                updateBudget(index, { limit: e.target.value })
+                            }
+                            className={inputClassName}
+                        />
+                        <button
+                            onClick={() =>
+                                setBudgets((prev) =>
+                                    prev.filter((_, i) => i !== index)
+                                )
+                            }
+                            className="p-2 rounded-lg text-red-300 hover:bg-red-600/20 transition-colors"
+                            title="Remove budget"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+                <Button
+                    variant="outline"
+                    onClick={() =>
+                        setBudgets((prev) => [
+                            ...prev,
+                            {
+                                provider: "",
+                                period: "monthly",
+                                unit: "usd",
+                                limit: "",
+                            },
+                        ])
+                    }
+                    className="border-purple-600/30 text-purple-200"
+                >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add budget
+                </Button>
+            </div>
+
+            {/* Rate limits */}
+            <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-purple-200">
+                        Requests per minute
+                    </label>
+                    <input
+                        type="number"
+                        min="1"
+                        placeholder="No limit"
+                        value={requestsPerMinute}
+                        onChange={(e) => setRequestsPerMinute(e.target.value)}
+                        className={inputClassName}
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-sm font-medium text-purple-200">
+                        Requests per hour
+                    </label>
+                    <input
+                        type="number"
+                        min="1"
+                        placeholder="No limit"
+                        value={requestsPerHour}
+                        onChange={(e) => setRequestsPerHour(e.target.value)}
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-purple-400">
+                Each model in a multi-AI comparison counts as one request.
+                Knowledge base indexing and search embeddings only count
+                toward budgets.
+            </p>
+
+            <div className="flex justify-end">
+                <Button
+                    onClick={() => void handleSave()}
+                    disabled={isSaving || !loaded}
+                    className="px-4 py-2 rounded-lg bg-gradient-to-r from-purple-600/80 to-indigo-600/80 hover:from-purple-600/70 hover:to-indigo-600/70 text-white disabled:opacity-50"
+                >
+                    {isSaving ? "Saving..." : "Save limits"}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+// Chat warning once a budget passes the warning threshold (80%)
+export function UsageLimitWarning() {
+    const status = useQuery(api.usageLimits.getUsageLimitStatus);
+    if (!status) return null;
+
+    const budget = status.budgets
+        .filter((b) => b.ratio >= status.warningRatio)
+        .sort((a, b) => b.ratio - a.ratio)[0];
+    if (!budget) return null;
+
+    const exceeded = budget.ratio >= 1;
+    return (
+        <div
+            className={`mx-auto mb-2 px-3 py-1.5 rounded-full text-xs backdrop-blur-sm border flex items-center gap-1.5 ${
+                exceeded
+                    ? "text-red-200 bg-red-500/10 border-red-500/30"
+                    : "text-amber-200 bg-amber-500/10 border-amber-500/30"
+            }`}
+            title={`Resets ${new Date(budget.resetsAt).toLocaleString()}`}
+        >
+            <Gauge className="w-3.5 h-3.5" />
+            {describeBudget(budget)} budget{" "}
+            {exceeded ? "used up" : `${Math.floor(budget.ratio * 100)}% used`}:{" "}
+            {formatBudgetAmount(budget.unit, budget.used)} of{" "}
+            {formatBudgetAmount(budget.unit, budget.limit)}
+        </div>
+    );
+}
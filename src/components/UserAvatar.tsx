@@ -3,6 +3,7 @@ import { useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
 import { useAuthActions } from "@convex-dev/auth/react";
 import { AuthComponent } from "./AuthComponent";
+import { indexedDBService } from "../lib/indexedDBService";
 
 interface UserAvatarProps {
     onOpenSettings?: () => void;
@@ -75,6 +76,8 @@ export function UserAvatar({ onOpenSettings }: UserAvatarProps) {
 
     const handleSignOut = async () => {
         await signOut();
+        // Drop the offline copy so the next account doesn't see these chats
+        await indexedDBService.clearAllData();
         setShowAuth(true);
         setIsOpen(false);
     };
@@ -82,6 +85,7 @@ export function UserAvatar({ onOpenSettings }: UserAvatarProps) {
     const handleLoginClick = async () => {
         // Sign out any existing anonymous session before showing auth
         await signOut();
+        await indexedDBService.clearAllData();
         setShowAuth(true);
     };
 
@@ -0,0 +1,135 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from "react";
+import type { ConvexReactClient } from "convex/react";
+import { api } from "../../convex/_generated/api";
+import { Id } from "../../convex/_generated/dataModel";
+import { decryptText, exportRawKey, isEncryptedContent } from "../lib/chatCrypto";
+
+// Message keys of encrypted chats, derived when the chat is unlocked (see
+// src/lib/chatCrypto.ts). Held in memory only - a reload asks for the
+// password again.
+
+type ChatKeyEntry = { key: CryptoKey; raw: string };
+type ChatKeys = Record<string, ChatKeyEntry>;
+
+const UNDECRYPTABLE_MESSAGE = "🔒 This message could not be decrypted";
+const REWRITE_BATCH_SIZE = 100; // chatEncryption.storeChatMessageTexts limit
+
+const listeners = new Set<() => void>();
+let keys: ChatKeys = {};
+
+function setKeys(next: ChatKeys) {
+    keys = next;
+    listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function getSnapshot() {
+    return keys;
+}
+
+export async function saveChatKey(chatId: Id<"chats">, key: CryptoKey) {
+    const raw = await exportRawKey(key);
+    setKeys({ ...keys, [chatId]: { key, raw } });
+}
+
+export function forgetChatKey(chatId: Id<"chats">) {
+    const { [chatId]: _removed, ...rest } = keys;
+    setKeys(rest);
+}
+
+/**
+ * Run every stored text of a chat (all branches, versions and edit history)
+ * through `transform` and write it back - encrypts a chat when encryption is
+ * turned on, decrypts it before it is turned off.
+ */
+export async function rewriteChatMessageTexts(
+    convex: ConvexReactClient,
+    chatId: Id<"chats">,
+    unlockToken: string,
+    transform: (text: string) => Promise<string>
+) {
+    const texts = await convex.query(api.chatEncryption.getChatMessageTexts, {
+        chatId,
+        unlockToken,
+    });
+    const updates = await Promise.all(
+        texts.map(async (entry) => ({
+            messageId: entry.messageId,
+            content: await transform(entry.content),
+            versions: await Promise.all(entry.versions.map(transform)),
+            editHistory: await Promise.all(entry.editHistory.map(transform)),
+        }))
+    );
+    for (let i = 0; i < updates.length; i += REWRITE_BATCH_SIZE) {
+        await convex.mutation(api.chatEncryption.storeChatMessageTexts, {
+            chatId,
+            unlockToken,
+            updates: updates.slice(i, i + REWRITE_BATCH_SIZE),
+        });
+    }
+}
+
+export function useChatKey(chatId: Id<"chats"> | undefined) {
+    const entries = useSyncExternalStore(subscribe, getSnapshot);
+    return chatId ? entries[chatId] : undefined;
+}
+
+/**
+ * Messages with their content decrypted. Stays undefined until everything is
+ * decrypted, like a loading query. Without a key messages pass through as-is.
+ */
+export function useDecryptedMessages<T extends { content: string }>(
+    messages: T[] | undefined,
+    key: CryptoKey | undefined
+): T[] | undefined {
+    const [decrypted, setDecrypted] = useState<T[] | undefined>(undefined);
+    // Streaming rewrites one message at a time - don't decrypt the rest again
+    const cache = useRef(new Map<string, string>());
+
+    useEffect(() => {
+        cache.current.clear();
+    }, [key]);
+
+    useEffect(() => {
+        if (!messages || !key) {
+            setDecrypted(undefined);
+            return;
+        }
+
+        let cancelled = false;
+        const decryptOne = async (content: string) => {
+            if (!isEncryptedContent(content)) return content;
+            const cached = cache.current.get(content);
+            if (cached !== undefined) return cached;
+            try {
+                const plaintext = await decryptText(key, content);
+                cache.current.set(content, plaintext);
+                return plaintext;
+            } catch (error) {
+                console.error("Failed to decrypt message:", error);
+                return UNDECRYPTABLE_MESSAGE;
+            }
+        };
+
+        void Promise.all(
+            messages.map(async (message) => ({
+                ...message,
+                content: await decryptOne(message.content),
+            }))
+        ).then((result) => {
+            if (!cancelled) setDecrypted(result);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [messages, key]);
+
+    return key ? decrypted : messages;
+}
@@ -0,0 +1,96 @@
+import { useMemo, useSyncExternalStore } from "react";
+import { Id } from "../../convex/_generated/dataModel";
+
+// Unlock tokens for password protected chats, issued by
+// chats.verifyPasswordProtection. Kept per tab in sessionStorage and passed to
+// every query that returns protected content.
+
+type UnlockEntry = { token: string; expiresAt: number };
+type UnlockTokens = Record<string, UnlockEntry>;
+
+const STORAGE_KEY = "chatUnlockTokens";
+
+const listeners = new Set<() => void>();
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+function withoutExpired(entries: UnlockTokens): UnlockTokens {
+    const now = Date.now();
+    return Object.fromEntries(
+        Object.entries(entries).filter(([, entry]) => entry.expiresAt > now)
+    );
+}
+
+function load(): UnlockTokens {
+    try {
+        const stored = window.sessionStorage.getItem(STORAGE_KEY);
+        return stored ? withoutExpired(JSON.parse(stored)) : {};
+    } catch (error) {
+        console.error("Error reading unlock tokens:", error);
+        return {};
+    }
+}
+
+let tokens: UnlockTokens = load();
+
+// Drop the next token to expire when it does, so queries relock on time
+function scheduleExpiry() {
+    clearTimeout(expiryTimer);
+    const expiries = Object.values(tokens).map((entry) => entry.expiresAt);
+    if (expiries.length === 0) return;
+    expiryTimer = setTimeout(
+        () => setTokens(withoutExpired(tokens)),
+        Math.max(0, Math.min(...expiries) - Date.now()) + 1000
+    );
+}
+
+function setTokens(next: UnlockTokens) {
+    tokens = next;
+    try {
+        window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+    } catch (error) {
+        console.error("Error saving unlock tokens:", error);
+    }
+    scheduleExpiry();
+    listeners.forEach((listener) => listener());
+}
+
+scheduleExpiry();
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function getSnapshot() {
+    return tokens;
+}
+
+export function saveUnlockToken(
+    chatId: Id<"chats">,
+    token: string,
+    expiresAt: number
+) {
+    setTokens({ ...withoutExpired(tokens), [chatId]: { token, expiresAt } });
+}
+
+export function forgetUnlockToken(chatId: Id<"chats">) {
+    const { [chatId]: _removed, ...rest } = tokens;
+    setTokens(rest);
+}
+
+// Token unlocking one chat, for single chat queries (`unlockToken`)
+export function useUnlockToken(chatId: Id<"chats"> | undefined) {
+    const entries = useSyncExternalStore(subscribe, getSnapshot);
+    return chatId ? entries[chatId]?.token : undefined;
+}
+
+// Every token this tab holds, for search, analytics and exports (`unlockTokens`)
+export function useUnlockTokens() {
+    const entries = useSyncExternalStore(subscribe, getSnapshot);
+    return useMemo(
+        () => Object.values(entries).map((entry) => entry.token),
+        [entries]
+    );
+}
@@ -1,8 +1,20 @@
 import { useChat } from "@ai-sdk/react";
 import { useCallback, useEffect, useMemo } from "react";
 import { useQuery, useMutation } from "convex/react";
+import { useAuthToken } from "@convex-dev/auth/react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { useUnlockToken } from "./useChatUnlock";
+import { useChatKey, useDecryptedMessages } from "./useChatEncryption";
+
+// Bearer token for the authenticated /api/chat and /api/multi-chat endpoints
+function useChatAuthHeaders(): Record<string, string> | undefined {
+    const token = useAuthToken();
+    return useMemo(
+        () => (token ? { Authorization: `Bearer ${token}` } : undefined),
+        [token]
+    );
+}
 
 // =============================================================================
 // AI SDK MIGRATION - PHASE 4: Frontend Hook Migration
@@ -14,7 +26,16 @@ import type { Id } from "../../convex/_generated/dataModel";
  */
 export function useConvexChat(chatId: Id<"chats">) {
     // Get existing chat messages for initialization
-    const existingMessages = useQuery(api.chats.getChatMessages, { chatId });
+    const unlockToken = useUnlockToken(chatId);
+    const storedMessages = useQuery(api.chats.getChatMessages, {
+        chatId,
+        unlockToken,
+    });
+    // Encrypted chats are decrypted here; the key goes along with each request
+    const chatKey = useChatKey(chatId);
+    const existingMessages = useDecryptedMessages(storedMessages, chatKey?.key);
+    const rawChatKey = chatKey?.raw;
+    const authHeaders = useChatAuthHeaders();
 
     // Convert stored messages to AI SDK UIMessage format
     const initialMessages = useMemo(() => {
@@ -43,6 +64,7 @@ export function useConvexChat(chatId: Id<"chats">) {
     } = useChat({
         api: "/api/chat", // Our Convex SSE endpoint
         initialMessages,
+        headers: authHeaders,
         body: {
             chatId,
         },
@@ -89,6 +111,8 @@ export function useConvexChat(chatId: Id<"chats">) {
             return originalHandleSubmit(e, {
                 body: {
                     chatId,
+                    unlockToken,
+                    chatKey: rawChatKey,
                     model,
                     commands,
                     attachments,
@@ -96,7 +120,7 @@ export function useConvexChat(chatId: Id<"chats">) {
                 },
             });
         },
-        [originalHandleSubmit, chatId]
+        [originalHandleSubmit, chatId, unlockToken, rawChatKey]
     );
 
     // Send message programmatically (replaces old sendMessage action)
@@ -137,6 +161,8 @@ export function useConvexChat(chatId: Id<"chats">) {
                 {
                     body: {
                         chatId,
+                        unlockToken,
+                        chatKey: rawChatKey,
                         model,
                         commands,
                         attachments,
@@ -145,7 +171,7 @@ export function useConvexChat(chatId: Id<"chats">) {
                 }
             );
         },
-        [append, chatId]
+        [append, chatId, unlockToken, rawChatKey]
     );
 
     return {
@@ -173,7 +199,14 @@ export function useConvexChat(chatId: Id<"chats">) {
  * Uses /api/multi-chat endpoint for multiple model streaming
  */
 export function useMultiAIChat(chatId: Id<"chats">) {
-    const existingMessages = useQuery(api.chats.getChatMessages, { chatId });
+    const unlockToken = useUnlockToken(chatId);
+    const storedMessages = useQuery(api.chats.getChatMessages, {
+        chatId,
+        unlockToken,
+    });
+    const chatKey = useChatKey(chatId);
+    const existingMessages = useDecryptedMessages(storedMessages, chatKey?.key);
+    const authHeaders = useChatAuthHeaders();
 
     const initialMessages = useMemo(() => {
         if (!existingMessages) return [];
@@ -197,6 +230,7 @@ export function useMultiAIChat(chatId: Id<"chats">) {
     } = useChat({
         api: "/api/multi-chat", // Multi-model SSE endpoint
         initialMessages,
+        headers: authHeaders,
         body: {
             chatId,
         },
@@ -249,6 +283,7 @@ export function useMultiAIChat(chatId: Id<"chats">) {
                 {
                     body: {
                         chatId,
+                        unlockToken,
                         models,
                         commands,
                         attachments,
@@ -257,7 +292,7 @@ export function useMultiAIChat(chatId: Id<"chats">) {
                 }
             );
         },
-        [append, chatId]
+        [append, chatId, unlockToken]
     );
 
     return {
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { liveQuery } from "dexie";
+import { toast } from "sonner";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import {
+    indexedDBService,
+    type LocalChat,
+    type LocalMessage,
+    type PendingMessage,
+} from "../lib/indexedDBService";
+
+// =============================================================================
+// Local-first layer: Convex stays the source of truth, IndexedDB mirrors what
+// the user has seen so the app can render instantly (and offline) on startup.
+// =============================================================================
+
+type ChatList = FunctionReturnType<typeof api.chats.listChats>;
+
+// Queued messages are dropped after this many failed replays
+const MAX_REPLAY_ATTEMPTS = 3;
+
+export function useOnlineStatus() {
+    const [isOnline, setIsOnline] = useState(() =>
+        typeof navigator === "undefined" ? true : navigator.onLine
+    );
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener("online", handleOnline);
+        window.addEventListener("offline", handleOffline);
+        return () => {
+            window.removeEventListener("online", handleOnline);
+            window.removeEventListener("offline", handleOffline);
+        };
+    }, []);
+
+    return isOnline;
+}
+
+// Same grouping as api.chats.listChats
+function groupCachedChats(chats: Doc<"chats">[]): ChatList {
+    const archived = chats.filter((chat) => chat.isArchived);
+    const temporary = chats.filter(
+        (chat) => chat.isTemporary && !chat.isArchived
+    );
+    const nonArchivedPermanent = chats.filter(
+        (chat) => !chat.isArchived && !chat.isTemporary
+    );
+
+    return {
+        starred: nonArchivedPermanent.filter((chat) => chat.isStarred),
+        regular: nonArchivedPermanent.filter(
+            (chat) => !chat.isStarred && !chat.isPasswordProtected
+        ),
+        archived,
+        temporary,
+        protected: nonArchivedPermanent.filter(
+            (chat) => chat.isPasswordProtected && !chat.isStarred
+        ),
+    };
+}
+
+/**
+ * Chat list from Convex, falling back to the IndexedDB copy while the query loads.
+ * Every live result is mirrored back into IndexedDB.
+ */
+export function useCachedChatList(liveChats: ChatList | undefined) {
+    const [cachedChats, setCachedChats] = useState<ChatList | undefined>();
+
+    useEffect(() => {
+        let cancelled = false;
+        void indexedDBService.getChats().then((chats) => {
+            if (!cancelled && chats.length > 0) {
+                setCachedChats(
+                    groupCachedChats(chats as unknown as Doc<"chats">[])
+                );
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!liveChats) return;
+        const allChats = [
+            ...liveChats.starred,
+            ...liveChats.regular,
+            ...liveChats.archived,
+            ...liveChats.temporary,
+            ...liveChats.protected,
+        ];
+        void indexedDBService.cacheChats(allChats as LocalChat[]);
+    }, [liveChats]);
+
+    return {
+        chats: liveChats ?? cachedChats,
+        isFromCache: !liveChats && !!cachedChats,
+    };
+}
+
+/**
+ * Messages for a chat from Convex, falling back to IndexedDB while loading.
+ * Password-protected chats are never written to the cache.
+ */
+export function useCachedMessages<
+    T extends { _id: Id<"messages">; timestamp: number; isStreaming?: boolean },
+>(
+    chatId: Id<"chats">,
+    liveMessages: T[] | undefined,
+    options: { cacheable: boolean }
+) {
+    const [cached, setCached] = useState<{
+        chatId: Id<"chats">;
+        messages: T[];
+    } | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        void indexedDBService.getChatMessages(chatId).then((messages) => {
+            if (!cancelled) {
+                setCached({ chatId, messages: messages as unknown as T[] });
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [chatId]);
+
+    useEffect(() => {
+        if (!liveMessages || !options.cacheable) return;
+        // Streaming updates arrive per chunk - cache the settled result only
+        if (liveMessages.some((message) => message.isStreaming)) return;
+
+        void indexedDBService.cacheChatMessages(
+            chatId,
+            liveMessages.map(
+                (message) => ({ ...message, chatId }) as unknown as LocalMessage
+            )
+        );
+    }, [chatId, liveMessages, options.cacheable]);
+
+    if (liveMessages) return liveMessages;
+    return cached?.chatId === chatId ? cached.messages : undefined;
+}
+
+/**
+ * Outbox for messages written while offline. Queued messages for `chatId`
+ * are replayed in order through `send` once the connection comes back.
+ */
+export function useOfflineQueue(
+    chatId: Id<"chats">,
+    send: (message: PendingMessage) => Promise<void>
+) {
+    const isOnline = useOnlineStatus();
+    const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>(
+        []
+    );
+    const isReplayingRef = useRef(false);
+    const sendRef = useRef(send);
+    sendRef.current = send;
+
+    // Live view of the queue so queued/sent messages update the UI immediately
+    useEffect(() => {
+        const subscription = liveQuery(() =>
+            indexedDBService.getPendingMessages(chatId)
+        ).subscribe({
+            next: setPendingMessages,
+            error: (error) =>
+                console.error("Failed to watch pending messages:", error),
+        });
+        return () => subscription.unsubscribe();
+    }, [chatId]);
+
+    const queueMessage = useCallback(
+        async (message: { content: string; model: string; commands?: string[] }) => {
+            await indexedDBService.queuePendingMessage({ chatId, ...message });
+            console.log("📥 MESSAGE QUEUED OFFLINE:", {
+                chatId,
+                timestamp: new Date().toISOString(),
+            });
+        },
+        [chatId]
+    );
+
+    useEffect(() => {
+        if (!isOnline || pendingMessages.length === 0) return;
+        if (isReplayingRef.current) return;
+        isReplayingRef.current = true;
+
+        const replay = async () => {
+            // Re-read so a message is never sent twice from a stale snapshot
+            const queue = await indexedDBService.getPendingMessages(chatId);
+            for (const message of queue) {
+                if (!navigator.onLine || message.localId === undefined) break;
+                try {
+                    await sendRef.current(message);
+                    await indexedDBService.removePendingMessage(message.localId);
+                    console.log("📤 QUEUED MESSAGE REPLAYED:", {
+                        chatId,
+                        localId: message.localId,
+                        timestamp: new Date().toISOString(),
+                    });
+                } catch (error) {
+                    const reason =
+                        error instanceof Error ? error.message : String(error);
+                    if (message.attempts + 1 >= MAX_REPLAY_ATTEMPTS) {
+                        await indexedDBService.removePendingMessage(
+                            message.localId
+                        );
+                        toast.error("Failed to send a queued message", {
+                            description: message.content.slice(0, 80),
+                        });
+                    } else {
+                        await indexedDBService.markPendingMessageFailed(
+                            message.localId,
+                            reason
+                        );
+                    }
+                    throw error;
+                }
+            }
+        };
+
+        replay()
+            .catch((error) =>
+                console.error("❌ Failed to replay queued messages:", error)
+            )
+            .finally(() => {
+                isReplayingRef.current = false;
+            });
+    }, [isOnline, pendingMessages.length, chatId]);
+
+    return { isOnline, pendingMessages, queueMessage };
+}
@@ -0,0 +1,378 @@
+// In-browser preview for multi-file artifact bundles.
+//
+// The preview document runs inside the Canvas iframe: each file becomes an ES
+// module (JSX/TypeScript compiled with Babel standalone), an import map ties
+// the modules together under `bundle:/<path>` URLs, and bare package imports
+// are served from esm.sh with React shared through the import map.
+
+export type BundleFile = {
+    path: string;
+    content: string;
+};
+
+const BABEL_URL = "https://unpkg.com/@babel/standalone@7/babel.min.js";
+
+const SCRIPT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js", ".mjs"];
+const RESOLVE_EXTENSIONS = [...SCRIPT_EXTENSIONS, ".css", ".json"];
+const ENTRY_NAMES = ["main", "index", "App", "app"];
+
+// Extensions for artifacts whose filename came back without one
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+    javascript: "js",
+    typescript: "ts",
+    react: "jsx",
+    jsx: "jsx",
+    tsx: "tsx",
+    html: "html",
+    css: "css",
+    json: "json",
+    markdown: "md",
+    python: "py",
+};
+
+export function normalizeBundlePath(path: string): string {
+    const parts: string[] = [];
+    for (const part of path.replace(/\\/g, "/").split("/")) {
+        if (!part || part === ".") continue;
+        if (part === "..") parts.pop();
+        else parts.push(part);
+    }
+    return parts.join("/");
+}
+
+export function artifactPath(filename: string, language: string): string {
+    const path = normalizeBundlePath(filename);
+    const basename = path.split("/").pop() ?? path;
+    const extension = LANGUAGE_EXTENSIONS[language.toLowerCase()];
+    return basename.includes(".") || !extension
+        ? path
+        : `${path}.${extension}`;
+}
+
+function dirname(path: string): string {
+    const index = path.lastIndexOf("/");
+    return index === -1 ? "" : path.slice(0, index);
+}
+
+// Same lookup order as the runtime resolver in PREVIEW_RUNTIME below
+export function resolveBundlePath(
+    paths: Set<string>,
+    from: string,
+    specifier: string
+): string | null {
+    const base = normalizeBundlePath(
+        specifier.startsWith("/")
+            ? specifier
+            : `${dirname(from)}/${specifier}`
+    );
+    const candidates = [
+        base,
+        ...RESOLVE_EXTENSIONS.map((ext) => base + ext),
+        ...RESOLVE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    return candidates.find((candidate) => paths.has(candidate)) ?? null;
+}
+
+function isScript(path: string): boolean {
+    return SCRIPT_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+function findHtmlEntry(files: BundleFile[]): BundleFile | undefined {
+    const pages = files.filter((file) => file.path.endsWith(".html"));
+    return (
+        pages.find((file) => file.path === "index.html") ??
+        pages.find((file) => file.path.endsWith("/index.html")) ??
+        pages[0]
+    );
+}
+
+function findScriptEntry(files: BundleFile[]): BundleFile | undefined {
+    const scripts = files.filter((file) => isScript(file.path));
+    for (const name of ENTRY_NAMES) {
+        for (const dir of ["", "src/"]) {
+            const entry = scripts.find((file) =>
+                SCRIPT_EXTENSIONS.some((ext) => file.path === dir + name + ext)
+            );
+            if (entry) return entry;
+        }
+    }
+    return scripts.length === 1 ? scripts[0] : undefined;
+}
+
+/** Whether the bundle has an HTML page or script entry the preview can run. */
+/**
+ * Artifacts in the same project as `artifactId`: files generated by one
+ * message, joined with files a follow-up message generated alongside any of
+ * them (regenerated files keep their original artifact).
+ */
+export function findBundleArtifactIds(
+    artifacts: { artifactId: string; generatedBy: string[] }[],
+    artifactId: string
+): Set<string> {
+    const bundle = new Set<string>();
+    const messages = new Set(
+        artifacts.find((artifact) => artifact.artifactId === artifactId)
+            ?.generatedBy ?? []
+    );
+
+    let grew = messages.size > 0;
+    while (grew) {
+        grew = false;
+        for (const artifact of artifacts) {
+            if (bundle.has(artifact.artifactId)) continue;
+            if (!artifact.generatedBy.some((id) => messages.has(id))) continue;
+            bundle.add(artifact.artifactId);
+            artifact.generatedBy.forEach((id) => messages.add(id));
+            grew = true;
+        }
+    }
+    return bundle;
+}
+
+export function isRunnableBundle(files: BundleFile[]): boolean {
+    return !!(findHtmlEntry(files) || findScriptEntry(files));
+}
+
+// A component module with no mounting code of its own gets rendered into #root
+function needsMount(entry: BundleFile): boolean {
+    return (
+        /export\s+default/.test(entry.content) &&
+        !/createRoot|\.render\(|document\./.test(entry.content)
+    );
+}
+
+type PreviewEntry = { path: string; mount: boolean };
+
+function escapeInlineScript(json: string): string {
+    return json.replace(/</g, "\\u003c");
+}
+
+function buildDocument(
+    files: BundleFile[],
+    paths: Set<string>
+): { html: string; entries: PreviewEntry[] } {
+    const page = findHtmlEntry(files);
+
+    if (!page) {
+        const entry = findScriptEntry(files);
+        // Stylesheets nothing imports would otherwise never load
+        const scripts = files.filter((file) => isScript(file.path));
+        const styles = files
+            .filter(
+                (file) =>
+                    file.path.endsWith(".css") &&
+                    !scripts.some((script) =>
+                        script.content.includes(file.path.split("/").pop()!)
+                    )
+            )
+            .map((file) => `<style>${file.content}</style>`)
+            .join("\n");
+        return {
+            html: `<!DOCTYPE html><html><head><meta charset="utf-8">${styles}</head><body><div id="root"></div></body></html>`,
+            entries: entry
+                ? [{ path: entry.path, mount: needsMount(entry) }]
+                : [],
+        };
+    }
+
+    const doc = new DOMParser().parseFromString(page.content, "text/html");
+    const entries: PreviewEntry[] = [];
+
+    doc.querySelectorAll<HTMLLinkElement>('link[rel="stylesheet"][href]').forEach(
+        (link) => {
+            const href = link.getAttribute("href")!;
+            const path = href.includes(":")
+                ? null
+                : resolveBundlePath(paths, page.path, href);
+            const file = path && files.find((f) => f.path === path);
+            if (!file) return;
+            const style = doc.createElement("style");
+            style.textContent = file.content;
+            link.replaceWith(style);
+        }
+    );
+
+    doc.querySelectorAll<HTMLScriptElement>("script[src]").forEach((script) => {
+        const src = script.getAttribute("src")!;
+        const path = src.includes(":")
+            ? null
+            : resolveBundlePath(paths, page.path, src);
+        if (!path) return;
+        entries.push({ path, mount: false });
+        script.remove();
+    });
+
+    return {
+        html: `<!DOCTYPE html>${doc.documentElement.outerHTML}`,
+        entries,
+    };
+}
+
+/**
+ * Builds the iframe document for a bundle. Returns null when there is nothing
+ * to run (no HTML page and no recognizable script entry).
+ */
+export function buildBundlePreviewHtml(files: BundleFile[]): string | null {
+    const normalized = files.map((file) => ({
+        ...file,
+        path: normalizeBundlePath(file.path),
+    }));
+    if (!isRunnableBundle(normalized)) return null;
+
+    const paths = new Set(normalized.map((file) => file.path));
+    const { html, entries } = buildDocument(normalized, paths);
+
+    const payload = escapeInlineScript(
+        JSON.stringify({
+            files: Object.fromEntries(
+                normalized.map((file) => [file.path, file.content])
+            ),
+            entries,
+        })
+    );
+    const runtime = `
+<script src="${BABEL_URL}"></script>
+<script type="application/json" id="bundle-data">${payload}</script>
+<script>${PREVIEW_RUNTIME}</script>`;
+
+    const bodyEnd = html.lastIndexOf("</body>");
+    return bodyEnd === -1
+        ? html + runtime
+        : html.slice(0, bodyEnd) + runtime + html.slice(bodyEnd);
+}
+
+// Runs inside the preview iframe (plain JS - it is not compiled by Vite)
+const PREVIEW_RUNTIME = `
+(function () {
+    var SCRIPT_EXTENSIONS = ${JSON.stringify(SCRIPT_EXTENSIONS)};
+    var RESOLVE_EXTENSIONS = ${JSON.stringify(RESOLVE_EXTENSIONS)};
+    var SHARED = {
+        "react": "https://esm.sh/react@19",
+        "react/jsx-runtime": "https://esm.sh/react@19/jsx-runtime",
+        "react/jsx-dev-runtime": "https://esm.sh/react@19/jsx-dev-runtime",
+        "react-dom": "https://esm.sh/react-dom@19?external=react",
+        "react-dom/client": "https://esm.sh/react-dom@19/client?external=react"
+    };
+
+    function showError(error) {
+        var box = document.getElementById("bundle-error");
+        if (!box) {
+            box = document.createElement("pre");
+            box.id = "bundle-error";
+            box.style.cssText = "position:fixed;left:0;right:0;bottom:0;margin:0;max-height:50%;overflow:auto;padding:12px;background:#2d0b0b;color:#fca5a5;font:12px monospace;white-space:pre-wrap;z-index:2147483647";
+            document.body.appendChild(box);
+        }
+        box.textContent += (error && error.message ? error.message : String(error)) + "\\n";
+    }
+    window.addEventListener("error", function (event) { showError(event.error || event.message); });
+    window.addEventListener("unhandledrejection", function (event) { showError(event.reason); });
+
+    var data = JSON.parse(document.getElementById("bundle-data").textContent);
+    var files = data.files;
+
+    function normalize(path) {
+        var parts = [];
+        path.split("/").forEach(function (part) {
+            if (!part || part === ".") return;
+            if (part === "..") parts.pop(); else parts.push(part);
+        });
+        return parts.join("/");
+    }
+
+    function resolve(from, specifier) {
+        var dir = from.indexOf("/") === -1 ? "" : from.slice(0, from.lastIndexOf("/"));
+        var base = normalize(specifier.charAt(0) === "/" ? specifier : dir + "/" + specifier);
+        var candidates = [base]
+            .concat(RESOLVE_EXTENSIONS.map(function (ext) { return base + ext; }))
+            .concat(RESOLVE_EXTENSIONS.map(function (ext) { return base + "/index" + ext; }));
+        for (var i = 0; i < candidates.length; i++) {
+            if (Object.prototype.hasOwnProperty.call(files, candidates[i])) return candidates[i];
+        }
+        throw new Error('Cannot resolve "' + specifier + '" from ' + from);
+    }
+
+    function rewrite(from, specifier) {
+        if (/^(\\.{1,2}\\/|\\/)/.test(specifier)) return "bundle:/" + resolve(from, specifier);
+        if (/^[a-z]+:/i.test(specifier) || SHARED[specifier]) return specifier;
+        return "https://esm.sh/" + specifier + "?external=react,react-dom";
+    }
+
+    function rewriteImports(from) {
+        return function () {
+            return {
+                visitor: {
+                    "ImportDeclaration|ExportNamedDeclaration|ExportAllDeclaration": function (path) {
+                        var source = path.node.source;
+                        if (source) source.value = rewrite(from, source.value);
+                    },
+                    CallExpression: function (path) {
+                        var arg = path.node.arguments[0];
+                        if (path.node.callee.type === "Import" && arg && arg.type === "StringLiteral") {
+                            arg.value = rewrite(from, arg.value);
+                        }
+                    }
+                }
+            };
+        };
+    }
+
+    function compile(path, content) {
+        if (/\\.css$/.test(path)) {
+            return "var style = document.createElement('style');\\n" +
+                "style.textContent = " + JSON.stringify(content) + ";\\n" +
+                "document.head.appendChild(style);\\n" +
+                "export default " + JSON.stringify(content) + ";";
+        }
+        if (/\\.json$/.test(path)) return "export default " + content + ";";
+        var isScript = SCRIPT_EXTENSIONS.some(function (ext) { return path.slice(-ext.length) === ext; });
+        if (!isScript) return "export default " + JSON.stringify(content) + ";";
+
+        var presets = [["react", { runtime: "automatic" }]];
+        if (/\\.tsx?$/.test(path)) {
+            presets.push(["typescript", { allExtensions: true, isTSX: /\\.tsx$/.test(path) }]);
+        }
+        return Babel.transform(content, {
+            filename: path,
+            sourceType: "module",
+            presets: presets,
+            plugins: [rewriteImports(path)]
+        }).code;
+    }
+
+    if (typeof Babel === "undefined") {
+        showError("Could not load the in-browser compiler. Check your connection and reopen the preview.");
+        return;
+    }
+
+    var imports = Object.assign({}, SHARED);
+    Object.keys(files).forEach(function (path) {
+        var code;
+        try {
+            code = compile(path, files[path]);
+        } catch (error) {
+            // Only fails the preview if something actually imports this file
+            code = "throw new Error(" + JSON.stringify(path + ": " + (error && error.message)) + ");";
+        }
+        imports["bundle:/" + path] = URL.createObjectURL(new Blob([code], { type: "text/javascript" }));
+    });
+
+    data.entries.forEach(function (entry, index) {
+        if (!entry.mount) return;
+        var mount = "import { createElement } from 'react';\\n" +
+            "import { createRoot } from 'react-dom/client';\\n" +
+            "import App from " + JSON.stringify("bundle:/" + entry.path) + ";\\n" +
+            "createRoot(document.getElementById('root')).render(createElement(App));";
+        entry.path = "__mount" + index + ".js";
+        imports["bundle:/" + entry.path] = URL.createObjectURL(new Blob([mount], { type: "text/javascript" }));
+    });
+
+    var map = document.createElement("script");
+    map.type = "importmap";
+    map.textContent = JSON.stringify({ imports: imports });
+    document.head.appendChild(map);
+
+    data.entries.reduce(function (previous, entry) {
+        return previous.then(function () { return import("bundle:/" + entry.path); });
+    }, Promise.resolve()).catch(showError);
+})();
+`;
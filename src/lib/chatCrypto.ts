@@ -0,0 +1,112 @@
+// Browser side of end-to-end encrypted chats.
+//
+// The message key is derived from the chat password with PBKDF2 and never
+// leaves the tab except as `chatKey` on AI requests. Message text is stored as
+// "e2ee:v1:<iv>:<ciphertext>" (base64, AES-GCM). convex/chatEncryption.ts
+// imports the envelope constants below to open and seal the same envelopes.
+
+export const ENCRYPTED_CONTENT_PREFIX = "e2ee:v1:";
+export const KEY_CHECK_PLAINTEXT = "3tee-chat-key-check";
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_LENGTH = 16;
+export const IV_LENGTH = 12;
+
+export type ChatEncryptionParams = {
+    version: 1;
+    kdf: "PBKDF2-SHA256";
+    iterations: number;
+    salt: string;
+    keyCheck: string;
+};
+
+function toBase64(bytes: Uint8Array) {
+    let binary = "";
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary);
+}
+
+function fromBase64(text: string) {
+    return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
+
+export function isEncryptedContent(content: string) {
+    return content.startsWith(ENCRYPTED_CONTENT_PREFIX);
+}
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number) {
+    const material = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(password),
+        "PBKDF2",
+        false,
+        ["deriveKey"]
+    );
+    // Extractable so the raw key can accompany AI requests
+    return await crypto.subtle.deriveKey(
+        { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+        material,
+        { name: "AES-GCM", length: 256 },
+        true,
+        ["encrypt", "decrypt"]
+    );
+}
+
+export async function encryptText(key: CryptoKey, text: string) {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv },
+        key,
+        new TextEncoder().encode(text)
+    );
+    return `${ENCRYPTED_CONTENT_PREFIX}${toBase64(iv)}:${toBase64(
+        new Uint8Array(ciphertext)
+    )}`;
+}
+
+// Plain text passes through unchanged - chats may mix both
+export async function decryptText(key: CryptoKey, content: string) {
+    if (!isEncryptedContent(content)) return content;
+    const [iv, ciphertext] = content
+        .slice(ENCRYPTED_CONTENT_PREFIX.length)
+        .split(":");
+    const plaintext = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(iv) },
+        key,
+        fromBase64(ciphertext)
+    );
+    return new TextDecoder().decode(plaintext);
+}
+
+export async function exportRawKey(key: CryptoKey) {
+    return toBase64(new Uint8Array(await crypto.subtle.exportKey("raw", key)));
+}
+
+// New key and the parameters stored on the chat to derive it again
+export async function createChatEncryption(password: string) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+    const params: ChatEncryptionParams = {
+        version: 1,
+        kdf: "PBKDF2-SHA256",
+        iterations: PBKDF2_ITERATIONS,
+        salt: toBase64(salt),
+        keyCheck: await encryptText(key, KEY_CHECK_PLAINTEXT),
+    };
+    return { key, params };
+}
+
+// Key for an existing encrypted chat, or null when the password doesn't match
+export async function unlockChatKey(
+    password: string,
+    params: ChatEncryptionParams
+): Promise<CryptoKey | null> {
+    const key = await deriveKey(password, fromBase64(params.salt), params.iterations);
+    try {
+        return (await decryptText(key, params.keyCheck)) === KEY_CHECK_PLAINTEXT
+            ? key
+            : null;
+    } catch {
+        return null;
+    }
+}
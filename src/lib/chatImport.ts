@@ -0,0 +1,375 @@
+// Parsers for conversation archives from other tools (and our own exports).
+// Everything is normalized to ImportedConversation, which mirrors the
+// importedConversation validator in convex/imports.ts.
+
+export type ImportSource = "chatgpt" | "claude" | "3tee";
+
+export type ImportedMessage = {
+    externalId: string;
+    parentExternalId?: string; // Omitted for the first message of a conversation
+    role: "user" | "assistant" | "system";
+    content: string;
+    timestamp: number;
+    model?: string;
+};
+
+export type ImportedConversation = {
+    source: ImportSource;
+    externalId: string; // Stable id used for duplicate detection
+    title: string;
+    model?: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ImportedMessage[]; // A tree via parentExternalId
+    currentExternalId?: string; // Leaf of the path that was active in the source
+};
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+    chatgpt: "ChatGPT",
+    claude: "Claude",
+    "3tee": "3tee Chat",
+};
+
+const DEFAULT_IMPORT_TITLE = "Imported Chat";
+
+// Accept both seconds (ChatGPT) and milliseconds / ISO strings
+function toTimestamp(value: unknown, fallback: number): number {
+    if (typeof value === "number" && Number.isFinite(value)) {
+        return value < 1e12 ? Math.round(value * 1000) : value;
+    }
+    if (typeof value === "string") {
+        const parsed = Date.parse(value);
+        if (!Number.isNaN(parsed)) return parsed;
+    }
+    return fallback;
+}
+
+// Short stable fingerprint for archives without ids (e.g. Markdown exports)
+function fingerprint(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// Linear message list -> parent-linked chain
+function chainMessages(messages: ImportedMessage[]): ImportedMessage[] {
+    return messages.map((message, index) => ({
+        ...message,
+        parentExternalId:
+            index > 0 ? messages[index - 1].externalId : undefined,
+    }));
+}
+
+// =============================================================================
+// ChatGPT - conversations.json from "Export data"
+// Each conversation is a tree in `mapping`; regenerations and edits are siblings.
+// =============================================================================
+
+function getChatGPTText(content: any): string {
+    if (!content) return "";
+    if (typeof content.text === "string") return content.text;
+    if (!Array.isArray(content.parts)) return "";
+
+    return content.parts
+        .map((part: any) => {
+            if (typeof part === "string") return part;
+            if (part?.content_type === "image_asset_pointer") return "[Image]";
+            if (typeof part?.text === "string") return part.text;
+            return "";
+        })
+        .filter(Boolean)
+        .join("\n")
+        .trim();
+}
+
+function parseChatGPTConversation(raw: any): ImportedConversation | null {
+    const mapping: Record<string, any> = raw?.mapping;
+    if (!mapping || typeof mapping !== "object") return null;
+
+    const createdAt = toTimestamp(raw.create_time, Date.now());
+    const messages: ImportedMessage[] = [];
+    // Skipped nodes (system prompts, tool calls, empty roots) hand their
+    // children to the nearest kept ancestor
+    const keptAncestor = new Map<string, string | undefined>();
+
+    const visit = (nodeId: string, parentKeptId: string | undefined) => {
+        const node = mapping[nodeId];
+        if (!node) return;
+
+        const message = node.message;
+        const role = message?.author?.role;
+        const content = getChatGPTText(message?.content);
+        const isHidden =
+            message?.metadata?.is_visually_hidden_from_conversation === true;
+        const keep =
+            (role === "user" || role === "assistant") &&
+            !!content &&
+            !isHidden;
+
+        let keptId = parentKeptId;
+        if (keep) {
+            messages.push({
+                externalId: String(message.id ?? nodeId),
+                parentExternalId: parentKeptId,
+                role,
+                content,
+                timestamp: toTimestamp(
+                    message.create_time,
+                    createdAt + messages.length
+                ),
+                model: message.metadata?.model_slug,
+            });
+            keptId = String(message.id ?? nodeId);
+        }
+        keptAncestor.set(nodeId, keptId);
+
+        for (const childId of node.children || []) {
+            visit(childId, keptId);
+        }
+    };
+
+    const roots = Object.keys(mapping).filter(
+        (nodeId) => !mapping[nodeId]?.parent || !mapping[mapping[nodeId].parent]
+    );
+    roots.forEach((rootId) => visit(rootId, undefined));
+
+    if (messages.length === 0) return null;
+
+    return {
+        source: "chatgpt",
+        externalId: String(raw.conversation_id ?? raw.id ?? fingerprint(JSON.stringify(raw.title) + createdAt)),
+        title: (raw.title || DEFAULT_IMPORT_TITLE).trim(),
+        model: raw.default_model_slug,
+        createdAt,
+        updatedAt: toTimestamp(raw.update_time, createdAt),
+        messages,
+        currentExternalId: raw.current_node
+            ? keptAncestor.get(raw.current_node)
+            : undefined,
+    };
+}
+
+// =============================================================================
+// Claude - conversations.json from claude.ai "Export data"
+// =============================================================================
+
+function getClaudeText(message: any): string {
+    if (Array.isArray(message?.content) && message.content.length > 0) {
+        const text = message.content
+            .filter((block: any) => block?.type === "text" && block.text)
+            .map((block: any) => block.text)
+            .join("\n\n")
+            .trim();
+        if (text) return text;
+    }
+    return typeof message?.text === "string" ? message.text.trim() : "";
+}
+
+function parseClaudeConversation(raw: any): ImportedConversation | null {
+    if (!Array.isArray(raw?.chat_messages)) return null;
+
+    const createdAt = toTimestamp(raw.created_at, Date.now());
+    const hasParents = raw.chat_messages.some(
+        (message: any) => message?.parent_message_uuid
+    );
+
+    const parsed: ImportedMessage[] = raw.chat_messages
+        .map((message: any, index: number): ImportedMessage | null => {
+            const content = getClaudeText(message);
+            if (!content) return null;
+            return {
+                externalId: String(message.uuid ?? `${raw.uuid}-${index}`),
+                parentExternalId: message.parent_message_uuid || undefined,
+                role: message.sender === "human" ? "user" : "assistant",
+                content,
+                timestamp: toTimestamp(message.created_at, createdAt + index),
+            };
+        })
+        .filter((message: ImportedMessage | null): message is ImportedMessage => message !== null);
+
+    if (parsed.length === 0) return null;
+
+    // Older exports are flat lists; newer ones link messages to their parent
+    let messages = parsed;
+    if (hasParents) {
+        const ids = new Set(parsed.map((message) => message.externalId));
+        messages = parsed.map((message) => ({
+            ...message,
+            parentExternalId:
+                message.parentExternalId && ids.has(message.parentExternalId)
+                    ? message.parentExternalId
+                    : undefined,
+        }));
+    } else {
+        messages = chainMessages(parsed);
+    }
+
+    return {
+        source: "claude",
+        externalId: String(raw.uuid ?? fingerprint(JSON.stringify(raw.name) + createdAt)),
+        title: (raw.name || DEFAULT_IMPORT_TITLE).trim(),
+        createdAt,
+        updatedAt: toTimestamp(raw.updated_at, createdAt),
+        messages,
+        currentExternalId: hasParents
+            ? messages[messages.length - 1].externalId
+            : undefined,
+    };
+}
+
+// =============================================================================
+// 3tee Chat - JSON exports from ShareMenu / SettingsModal (chat, project, workspace)
+// =============================================================================
+
+function parse3teeChat(raw: any): ImportedConversation | null {
+    if (!Array.isArray(raw?.messages)) return null;
+
+    const createdAt = toTimestamp(raw.createdAt ?? raw._creationTime, Date.now());
+    const messages = chainMessages(
+        raw.messages
+            .filter(
+                (message: any) =>
+                    typeof message?.content === "string" &&
+                    ["user", "assistant", "system"].includes(message.role)
+            )
+            .map((message: any, index: number) => ({
+                externalId: String(message.id ?? message._id ?? index),
+                role: message.role,
+                content: message.content,
+                timestamp: toTimestamp(message.timestamp, createdAt + index),
+                model: message.model,
+            }))
+    );
+
+    if (messages.length === 0) return null;
+
+    return {
+        source: "3tee",
+        externalId: String(raw.id ?? raw._id ?? fingerprint(raw.title + createdAt)),
+        title: (raw.title || DEFAULT_IMPORT_TITLE).trim(),
+        model: raw.model,
+        createdAt,
+        updatedAt: toTimestamp(raw.updatedAt, createdAt),
+        messages,
+    };
+}
+
+function collect3teeChats(data: any): any[] {
+    const chats: any[] = [];
+    if (Array.isArray(data?.chats)) chats.push(...data.chats);
+    if (Array.isArray(data?.project?.chats)) chats.push(...data.project.chats);
+    if (Array.isArray(data?.projects)) {
+        for (const project of data.projects) {
+            if (Array.isArray(project?.chats)) chats.push(...project.chats);
+        }
+    }
+    if (Array.isArray(data?.unorganizedChats)) {
+        chats.push(...data.unorganizedChats);
+    }
+    return chats;
+}
+
+// =============================================================================
+// 3tee Chat - Markdown export ("# Advanced Chat Export")
+// =============================================================================
+
+function parse3teeMarkdown(text: string): ImportedConversation[] {
+    const conversations: ImportedConversation[] = [];
+    const sections = text.split(/^## /m).slice(1);
+
+    for (const section of sections) {
+        const [heading, ...rest] = section.split("\n");
+        const body = rest.join("\n");
+        const title = heading.replace(/🌿/g, "").trim() || DEFAULT_IMPORT_TITLE;
+        const modelMatch = body.match(/\*\*Model:\*\*\s*([^|\n]+)/);
+        const createdMatch = body.match(/\*\*Created:\*\*\s*([^\n]+)/);
+        const createdAt = toTimestamp(createdMatch?.[1]?.trim(), Date.now());
+
+        const messagePattern =
+            /^### (👤 \*\*You\*\*|🤖 \*\*Assistant\*\*)[^\n]*\n\n([\s\S]*?)\n\n---\n/gm;
+        const parsed: ImportedMessage[] = [];
+        let match: RegExpExecArray | null;
+        while ((match = messagePattern.exec(body)) !== null) {
+            const content = match[2].trim();
+            if (!content) continue;
+            parsed.push({
+                externalId: `md-${parsed.length}`,
+                role: match[1].includes("You") ? "user" : "assistant",
+                content,
+                timestamp: createdAt + parsed.length,
+            });
+        }
+
+        if (parsed.length === 0) continue;
+
+        conversations.push({
+            source: "3tee",
+            // No ids in Markdown - fingerprint the content instead
+            externalId: `md-${fingerprint(
+                title + parsed.map((message) => message.content).join("\n")
+            )}`,
+            title,
+            model: modelMatch?.[1]?.trim(),
+            createdAt,
+            updatedAt: createdAt + parsed.length,
+            messages: chainMessages(parsed),
+        });
+    }
+
+    return conversations;
+}
+
+// =============================================================================
+// Entry point
+// =============================================================================
+
+/**
+ * Detect the archive format and parse it.
+ * Throws when the file isn't a recognized export.
+ */
+export function parseImportFile(
+    fileName: string,
+    text: string
+): ImportedConversation[] {
+    const isMarkdown = /\.(md|markdown)$/i.test(fileName);
+    if (isMarkdown) {
+        const conversations = parse3teeMarkdown(text);
+        if (conversations.length === 0) {
+            throw new Error("No conversations found in this Markdown file");
+        }
+        return conversations;
+    }
+
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error("File is not valid JSON or Markdown");
+    }
+
+    const items: any[] = Array.isArray(data) ? data : [data];
+    let conversations: (ImportedConversation | null)[] = [];
+
+    if (items.some((item) => item?.mapping)) {
+        conversations = items.map(parseChatGPTConversation);
+    } else if (items.some((item) => Array.isArray(item?.chat_messages))) {
+        conversations = items.map(parseClaudeConversation);
+    } else {
+        const chats = collect3teeChats(data);
+        conversations = chats.map(parse3teeChat);
+    }
+
+    const parsed = conversations.filter(
+        (conversation): conversation is ImportedConversation =>
+            conversation !== null
+    );
+    if (parsed.length === 0) {
+        throw new Error(
+            "Unrecognized export - expected a ChatGPT, Claude or 3tee Chat export"
+        );
+    }
+    return parsed;
+}
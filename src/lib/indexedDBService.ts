@@ -10,6 +10,10 @@ export interface LocalChat {
     _creationTime: number;
     isStarred?: boolean;
     userId?: Id<"users">;
+    isArchived?: boolean;
+    isTemporary?: boolean;
+    isPasswordProtected?: boolean;
+    projectId?: Id<"projects">;
 }
 
 export interface LocalMessage {
@@ -44,6 +48,18 @@ export interface LocalMessage {
     };
 }
 
+// Message written while offline, replayed in order once the connection is back
+export interface PendingMessage {
+    localId?: number; // Auto-incremented by Dexie
+    chatId: Id<"chats">;
+    content: string;
+    model: string;
+    commands?: string[];
+    createdAt: number;
+    attempts: number;
+    lastError?: string;
+}
+
 export interface LocalProject {
     _id: Id<"projects">;
     name: string;
@@ -59,6 +75,7 @@ export class LocalFirstDatabase extends Dexie {
     chats!: Table<LocalChat>;
     messages!: Table<LocalMessage>;
     projects!: Table<LocalProject>;
+    pendingMessages!: Table<PendingMessage, number>;
 
     constructor() {
         super('LocalFirstDB');
@@ -68,6 +85,11 @@ export class LocalFirstDatabase extends Dexie {
             messages: '&_id, chatId, role, timestamp, model, isStreaming',
             projects: '&_id, name, userId, _creationTime, updatedAt, *chatIds'
         });
+
+        // v2: offline outbox for messages written without a connection
+        this.version(2).stores({
+            pendingMessages: '++localId, chatId, createdAt'
+        });
     }
 }
 
@@ -141,6 +163,32 @@ class IndexedDBService {
         }
     }
 
+    // Mirror the server chat list - chats missing from it were deleted remotely
+    async cacheChats(chats: LocalChat[]): Promise<void> {
+        try {
+            await this.db.transaction('rw', this.db.chats, this.db.messages, async () => {
+                const liveIds = new Set(chats.map(chat => chat._id));
+                const staleIds = (await this.db.chats.toCollection().primaryKeys())
+                    .filter(id => !liveIds.has(id as Id<"chats">)) as Id<"chats">[];
+                // Never keep message content of password-protected chats on disk
+                const protectedIds = chats
+                    .filter(chat => chat.isPasswordProtected)
+                    .map(chat => chat._id);
+
+                if (staleIds.length) {
+                    await this.db.chats.bulkDelete(staleIds);
+                    await this.db.messages.where('chatId').anyOf(staleIds).delete();
+                }
+                if (protectedIds.length) {
+                    await this.db.messages.where('chatId').anyOf(protectedIds).delete();
+                }
+                await this.db.chats.bulkPut(chats);
+            });
+        } catch (error) {
+            console.error('Failed to cache chats:', error);
+        }
+    }
+
     // ==================== MESSAGE OPERATIONS ====================
 
     async getMessages(): Promise<LocalMessage[]> {
@@ -164,6 +212,18 @@ class IndexedDBService {
         }
     }
 
+    // Replace the cached view of a chat with the messages currently visible on the server
+    async cacheChatMessages(chatId: Id<"chats">, messages: LocalMessage[]): Promise<void> {
+        try {
+            await this.db.transaction('rw', this.db.messages, async () => {
+                await this.db.messages.where('chatId').equals(chatId).delete();
+                await this.db.messages.bulkPut(messages);
+            });
+        } catch (error) {
+            console.error('Failed to cache chat messages:', error);
+        }
+    }
+
     async addMessage(message: LocalMessage): Promise<void> {
         try {
             await this.db.messages.add(message);
@@ -191,6 +251,59 @@ class IndexedDBService {
         }
     }
 
+    // ==================== OFFLINE QUEUE OPERATIONS ====================
+
+    async queuePendingMessage(message: Omit<PendingMessage, 'localId' | 'attempts' | 'createdAt'>): Promise<number> {
+        try {
+            return await this.db.pendingMessages.add({
+                ...message,
+                createdAt: Date.now(),
+                attempts: 0
+            });
+        } catch (error) {
+            console.error('Failed to queue pending message:', error);
+            throw error;
+        }
+    }
+
+    async getPendingMessages(chatId?: Id<"chats">): Promise<PendingMessage[]> {
+        try {
+            if (chatId) {
+                return await this.db.pendingMessages
+                    .where('chatId')
+                    .equals(chatId)
+                    .sortBy('createdAt');
+            }
+            return await this.db.pendingMessages.orderBy('createdAt').toArray();
+        } catch (error) {
+            console.error('Failed to get pending messages:', error);
+            return [];
+        }
+    }
+
+    async markPendingMessageFailed(localId: number, error: string): Promise<void> {
+        try {
+            await this.db.pendingMessages
+                .where('localId')
+                .equals(localId)
+                .modify(message => {
+                    message.attempts += 1;
+                    message.lastError = error;
+                });
+        } catch (err) {
+            console.error('Failed to update pending message:', err);
+        }
+    }
+
+    async removePendingMessage(localId: number): Promise<void> {
+        try {
+            await this.db.pendingMessages.delete(localId);
+        } catch (error) {
+            console.error('Failed to remove pending message:', error);
+            throw error;
+        }
+    }
+
     // ==================== PROJECT OPERATIONS ====================
 
     async getProjects(): Promise<LocalProject[]> {
@@ -295,10 +408,11 @@ class IndexedDBService {
 
     async clearAllData(): Promise<void> {
         try {
-            await this.db.transaction('rw', this.db.chats, this.db.messages, this.db.projects, async () => {
+            await this.db.transaction('rw', [this.db.chats, this.db.messages, this.db.projects, this.db.pendingMessages], async () => {
                 await this.db.chats.clear();
                 await this.db.messages.clear();
                 await this.db.projects.clear();
+                await this.db.pendingMessages.clear();
             });
         } catch (error) {
             console.error('Failed to clear all data:', error);
@@ -30,14 +30,25 @@ export type ModelInfo = {
     capabilities: ModelCapabilities; // Now required, not optional overrides
     contextLength?: number;
     pricing?: {
-        input?: number;
-        output?: number;
+        input?: number; // USD per 1M input tokens
+        output?: number; // USD per 1M output tokens
     };
     isNew?: boolean;
     isRecommended?: boolean;
     isCommented?: boolean; // For models we want to show but disable
 };
 
+const OPENROUTER_CAPABILITIES: ModelCapabilities = {
+    textGeneration: true,
+    imageGeneration: false,
+    videoGeneration: false,
+    vision: false,
+    files: false,
+    webSearch: false,
+    liveChat: false,
+    structuredOutput: false,
+};
+
 export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
     google: {
         id: "google",
@@ -55,6 +66,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A faster, more efficient model for high-frequency tasks and general conversation.",
                 isRecommended: true,
                 contextLength: 1000000,
+                pricing: { input: 0.1, output: 0.4 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -73,6 +85,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The newest flash model from the next-gen Gemini 2.5 family with improved performance.",
                 isNew: true,
                 contextLength: 1000000,
+                pricing: { input: 0.3, output: 2.5 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -91,6 +104,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The most capable Gemini model with a massive 2M token context window for complex tasks.",
                 isNew: true,
                 contextLength: 2000000,
+                pricing: { input: 1.25, output: 10 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -108,6 +122,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "Specialized for real-time, low-latency conversational and voice applications.",
                 contextLength: 1000000,
+                pricing: { input: 0.35, output: 1.5 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -154,6 +169,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 isNew: true,
                 isRecommended: true,
                 contextLength: 128000,
+                pricing: { input: 2, output: 8 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -172,6 +188,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A highly efficient, small-scale version of GPT-4.1 for on-device and edge tasks.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 0.1, output: 0.4 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -190,6 +207,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A compact and fast model from the new GPT-4.1 family, perfect for quick tasks.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 0.4, output: 1.6 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -208,6 +226,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "OpenAI's next frontier model, rumored to be highly capable and intelligent.",
                 isNew: true,
                 contextLength: 200000,
+                pricing: { input: 2, output: 8 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -226,6 +245,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A smaller, faster, and more affordable version of the cutting-edge o3 model.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 1.1, output: 4.4 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -244,6 +264,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A hypothetical future mini model from OpenAI's next major series.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 1.1, output: 4.4 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -261,6 +282,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The flagship multimodal model, expertly balancing speed, cost, and intelligence.",
                 contextLength: 128000,
+                pricing: { input: 2.5, output: 10 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -278,6 +300,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A fast, affordable, and highly capable small model with advanced multimodal skills.",
                 contextLength: 128000,
+                pricing: { input: 0.15, output: 0.6 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: true,
@@ -339,6 +362,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 isNew: true,
                 isRecommended: true,
                 contextLength: 200000,
+                pricing: { input: 3, output: 15 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: false,
@@ -357,6 +381,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A hypothetical future model from the Claude 3 family with enhanced features.",
                 isNew: true,
                 contextLength: 200000,
+                pricing: { input: 3, output: 15 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: false,
@@ -374,6 +399,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "Top-tier intelligence with advanced reasoning, coding, and vision capabilities.",
                 contextLength: 200000,
+                pricing: { input: 3, output: 15 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: false,
@@ -404,6 +430,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "Highly capable model for general conversation and multilingual tasks.",
                 isRecommended: true,
                 contextLength: 64000,
+                pricing: { input: 0.27, output: 1.1 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: false,
@@ -421,6 +448,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A specialized model with excellent performance on programming and code-related tasks.",
                 contextLength: 64000,
+                pricing: { input: 0.27, output: 1.1 },
                 capabilities: {
                     textGeneration: true,
                     imageGeneration: false,
@@ -444,16 +472,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
         description: "Access to 200+ AI models",
         baseURL: "https://openrouter.ai/api/v1",
         // Provider-level capabilities for OpenRouter - all models are text-only
-        capabilities: {
-            textGeneration: true,
-            imageGeneration: false,
-            videoGeneration: false,
-            vision: false,
-            files: false,
-            webSearch: false,
-            liveChat: false,
-            structuredOutput: false,
-        },
+        capabilities: OPENROUTER_CAPABILITIES,
         models: [
             {
                 id: "google/gemini-2.5-pro-preview",
@@ -462,6 +481,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "Access Google's most advanced model via OpenRouter's unified API.",
                 isNew: true,
                 contextLength: 2000000,
+                pricing: { input: 1.25, output: 10 },
             },
             {
                 id: "google/gemini-2.0-flash-001",
@@ -469,6 +489,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A fast and efficient multimodal model from Google, available on OpenRouter.",
                 contextLength: 1000000,
+                pricing: { input: 0.1, output: 0.4 },
             },
             {
                 id: "google/gemini-exp-1206",
@@ -492,6 +513,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A lightweight and fast version of Gemini 1.5, balanced for performance.",
                 contextLength: 1000000,
+                pricing: { input: 0.0375, output: 0.15 },
             },
             {
                 id: "google/gemini-pro-1.5",
@@ -499,6 +521,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The standard, highly capable Gemini 1.5 model with a large context window.",
                 contextLength: 2000000,
+                pricing: { input: 1.25, output: 5 },
             },
             {
                 id: "openai/gpt-4.1",
@@ -507,6 +530,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The next-gen GPT-4, available through the OpenRouter gateway.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 2, output: 8 },
             },
             {
                 id: "openai/o1",
@@ -514,6 +538,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "OpenAI's next frontier model with powerful reasoning, via OpenRouter.",
                 contextLength: 200000,
+                pricing: { input: 15, output: 60 },
             },
             {
                 id: "openai/o1-mini",
@@ -521,6 +546,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The smaller, faster version of the cutting-edge o1 model on OpenRouter.",
                 contextLength: 128000,
+                pricing: { input: 1.1, output: 4.4 },
             },
             {
                 id: "openai/gpt-4o",
@@ -528,6 +554,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The flagship multimodal model from OpenAI, accessible via OpenRouter.",
                 contextLength: 128000,
+                pricing: { input: 2.5, output: 10 },
             },
             {
                 id: "openai/gpt-4o-mini",
@@ -535,6 +562,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A fast, affordable, and highly capable small model via OpenRouter.",
                 contextLength: 128000,
+                pricing: { input: 0.15, output: 0.6 },
             },
             {
                 id: "openai/gpt-4-turbo",
@@ -542,6 +570,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The previous generation flagship turbo model from OpenAI.",
                 contextLength: 128000,
+                pricing: { input: 10, output: 30 },
             },
             {
                 id: "anthropic/claude-opus-4",
@@ -550,6 +579,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The most powerful Claude 4 model, accessible via OpenRouter.",
                 isNew: true,
                 contextLength: 200000,
+                pricing: { input: 15, output: 75 },
             },
             {
                 id: "anthropic/claude-sonnet-4",
@@ -558,6 +588,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The balanced Sonnet 4 model from Anthropic, via OpenRouter.",
                 isNew: true,
                 contextLength: 200000,
+                pricing: { input: 3, output: 15 },
             },
             {
                 id: "anthropic/claude-3.5-sonnet",
@@ -565,6 +596,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "Top-tier intelligence with advanced reasoning from Anthropic, on OpenRouter.",
                 contextLength: 200000,
+                pricing: { input: 3, output: 15 },
             },
             {
                 id: "anthropic/claude-3.5-haiku",
@@ -572,6 +604,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The fastest model in the Claude 3.5 family, perfect for quick tasks.",
                 contextLength: 200000,
+                pricing: { input: 0.8, output: 4 },
             },
             {
                 id: "x-ai/grok-3-beta",
@@ -580,6 +613,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The latest beta model from xAI with unique personality and real-time info.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 3, output: 15 },
             },
             {
                 id: "x-ai/grok-2-1212",
@@ -587,6 +621,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description: "A new experimental release of the Grok 2 model.",
                 isNew: true,
                 contextLength: 128000,
+                pricing: { input: 2, output: 10 },
             },
             {
                 id: "x-ai/grok-2-vision-1212",
@@ -595,6 +630,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "The vision-capable version of Grok 2 for multimodal tasks.",
                 isNew: true,
                 contextLength: 32000,
+                pricing: { input: 2, output: 10 },
             },
             {
                 id: "x-ai/grok-beta",
@@ -602,6 +638,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The previous generation beta model from xAI, known for its unfiltered responses.",
                 contextLength: 128000,
+                pricing: { input: 5, output: 15 },
             },
             {
                 id: "qwen/qwen3-32b",
@@ -610,6 +647,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A powerful 32-billion parameter model from Alibaba's Qwen family.",
                 isNew: true,
                 contextLength: 32000,
+                pricing: { input: 0.1, output: 0.3 },
             },
             {
                 id: "qwen/qwen-2.5-coder-32b-instruct",
@@ -617,6 +655,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A specialized coding model from the Qwen 2.5 series.",
                 contextLength: 128000,
+                pricing: { input: 0.06, output: 0.15 },
             },
             {
                 id: "qwen/qwen-2.5-72b-instruct",
@@ -624,6 +663,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A large, highly capable instruction-tuned model from Alibaba.",
                 contextLength: 128000,
+                pricing: { input: 0.12, output: 0.39 },
             },
             {
                 id: "deepseek/deepseek-r1",
@@ -632,6 +672,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                     "A new research model from DeepSeek with advanced capabilities.",
                 isNew: true,
                 contextLength: 64000,
+                pricing: { input: 0.55, output: 2.19 },
             },
             {
                 id: "deepseek/deepseek-chat",
@@ -639,6 +680,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "Highly capable model for general conversation, via OpenRouter.",
                 contextLength: 64000,
+                pricing: { input: 0.27, output: 1.1 },
             },
             {
                 id: "deepseek/deepseek-coder",
@@ -646,6 +688,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A specialized coding model, accessible through OpenRouter.",
                 contextLength: 64000,
+                pricing: { input: 0.27, output: 1.1 },
             },
             {
                 id: "mistralai/mistral-large",
@@ -653,6 +696,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "Mistral's flagship model, offering top-tier reasoning performance.",
                 contextLength: 128000,
+                pricing: { input: 2, output: 6 },
             },
             {
                 id: "mistralai/codestral",
@@ -660,6 +704,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A fast and efficient coding-specific model from Mistral.",
                 contextLength: 32000,
+                pricing: { input: 0.3, output: 0.9 },
             },
             {
                 id: "mistralai/pixtral-12b",
@@ -667,6 +712,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A new vision-language model from Mistral for image-related tasks.",
                 contextLength: 128000,
+                pricing: { input: 0.1, output: 0.1 },
             },
             {
                 id: "meta-llama/llama-3.3-70b-instruct",
@@ -674,6 +720,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "The latest 70B parameter instruction-tuned model from Meta.",
                 contextLength: 128000,
+                pricing: { input: 0.13, output: 0.4 },
             },
             {
                 id: "meta-llama/llama-3.2-90b-vision-instruct",
@@ -681,6 +728,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A massive vision model from Meta for complex multimodal understanding.",
                 contextLength: 128000,
+                pricing: { input: 1.2, output: 1.2 },
             },
             {
                 id: "meta-llama/llama-3.2-11b-vision-instruct",
@@ -688,6 +736,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "An efficient and fast vision model from the Llama 3.2 family.",
                 contextLength: 128000,
+                pricing: { input: 0.055, output: 0.055 },
             },
             {
                 id: "meta-llama/llama-3.2-3b-instruct",
@@ -695,6 +744,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A lightweight and very fast instruction model for simple tasks.",
                 contextLength: 128000,
+                pricing: { input: 0.015, output: 0.025 },
             },
             {
                 id: "microsoft/wizardlm-2-8x22b",
@@ -702,6 +752,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A powerful mixture-of-experts model from Microsoft, fine-tuned for complex instructions.",
                 contextLength: 64000,
+                pricing: { input: 0.5, output: 0.5 },
             },
             {
                 id: "cohere/command-r-plus",
@@ -709,6 +760,7 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "Cohere's most advanced model, optimized for enterprise-grade RAG and tool use.",
                 contextLength: 128000,
+                pricing: { input: 2.5, output: 10 },
             },
             {
                 id: "perplexity/llama-3.1-sonar-large-128k-online",
@@ -716,8 +768,9 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
                 description:
                     "A Llama-based model from Perplexity with built-in, real-time web search capabilities.",
                 contextLength: 128000,
+                pricing: { input: 1, output: 1 },
             },
-        ],
+        ].map((model) => ({ ...model, capabilities: OPENROUTER_CAPABILITIES })),
     },
 };
 // Enhanced model capabilities detection - now uses per-model capabilities
@@ -129,6 +129,13 @@ export const DEFAULT_SHORTCUTS: ShortcutConfig[] = [
         category: "Message Input",
         isEditable: true,
     },
+    {
+        id: "stopGeneration",
+        defaultKey: "Cmd/Ctrl + Shift + X",
+        action: "Stop generating response",
+        category: "Message Input",
+        isEditable: true,
+    },
     {
         id: "clearInput",
         defaultKey: "Cmd/Ctrl + L",
@@ -0,0 +1,165 @@
+// Line-based diff for comparing artifact revisions.
+//
+// Common leading/trailing lines are stripped first, then the changed middle is
+// aligned with a longest-common-subsequence table. Very large changed regions
+// skip the table and show up as a plain remove + add.
+
+export type DiffLine = {
+    type: "equal" | "add" | "remove";
+    text: string;
+    oldNumber?: number; // 1-based line in the old text
+    newNumber?: number; // 1-based line in the new text
+};
+
+export type SplitDiffRow = {
+    left?: DiffLine;
+    right?: DiffLine;
+};
+
+const MAX_LCS_CELLS = 4_000_000;
+
+function splitLines(text: string): string[] {
+    return text === "" ? [] : text.split("\n");
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+    const a = splitLines(oldText);
+    const b = splitLines(newText);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const lines: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) {
+        lines.push({
+            type: "equal",
+            text: a[i],
+            oldNumber: i + 1,
+            newNumber: i + 1,
+        });
+    }
+
+    const oldMiddle = a.slice(prefix, a.length - suffix);
+    const newMiddle = b.slice(prefix, b.length - suffix);
+    lines.push(...diffMiddle(oldMiddle, newMiddle, prefix));
+
+    for (let i = suffix; i > 0; i--) {
+        lines.push({
+            type: "equal",
+            text: a[a.length - i],
+            oldNumber: a.length - i + 1,
+            newNumber: b.length - i + 1,
+        });
+    }
+    return lines;
+}
+
+function diffMiddle(a: string[], b: string[], offset: number): DiffLine[] {
+    const removeAll = () =>
+        a.map((text, i) => ({
+            type: "remove" as const,
+            text,
+            oldNumber: offset + i + 1,
+        }));
+    const addAll = () =>
+        b.map((text, j) => ({
+            type: "add" as const,
+            text,
+            newNumber: offset + j + 1,
+        }));
+
+    if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+        return [...removeAll(), ...addAll()];
+    }
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i * width + j] =
+                a[i] === b[j]
+                    ? lcs[(i + 1) * width + j + 1] + 1
+                    : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push({
+                type: "equal",
+                text: a[i],
+                oldNumber: offset + i + 1,
+                newNumber: offset + j + 1,
+            });
+            i++;
+            j++;
+        } else if (
+            i < a.length &&
+            (j === b.length ||
+                lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+        ) {
+            lines.push({
+                type: "remove",
+                text: a[i],
+                oldNumber: offset + i + 1,
+            });
+            i++;
+        } else {
+            lines.push({ type: "add", text: b[j], newNumber: offset + j + 1 });
+            j++;
+        }
+    }
+    return lines;
+}
+
+/**
+ * Side-by-side rows: unchanged lines on both sides, and each run of removed
+ * lines paired up with the added lines that replaced it.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+    const rows: SplitDiffRow[] = [];
+    let removed: DiffLine[] = [];
+    let added: DiffLine[] = [];
+
+    const flush = () => {
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            rows.push({ left: removed[k], right: added[k] });
+        }
+        removed = [];
+        added = [];
+    };
+
+    for (const line of lines) {
+        if (line.type === "remove") {
+            removed.push(line);
+        } else if (line.type === "add") {
+            added.push(line);
+        } else {
+            flush();
+            rows.push({ left: line, right: line });
+        }
+    }
+    flush();
+    return rows;
+}
+
+export function diffStats(lines: DiffLine[]) {
+    return {
+        added: lines.filter((line) => line.type === "add").length,
+        removed: lines.filter((line) => line.type === "remove").length,
+    };
+}
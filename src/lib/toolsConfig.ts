@@ -0,0 +1,42 @@
+// Server-side AI tools mirrored from convex/ai/tools.ts (UI fields only)
+export type ToolInfo = {
+    id: string; // Must match the TOOL_REGISTRY key on the backend
+    name: string;
+    description: string;
+    icon: string;
+};
+
+export const AVAILABLE_TOOLS: ToolInfo[] = [
+    {
+        id: "calculator",
+        name: "Calculator",
+        description: "Exact arithmetic instead of mental math",
+        icon: "🧮",
+    },
+    {
+        id: "dateMath",
+        name: "Date Math",
+        description: "Current date, durations and date differences",
+        icon: "📅",
+    },
+    {
+        id: "libraryLookup",
+        name: "Library Lookup",
+        description: "Search your attachments, artifacts and media",
+        icon: "📚",
+    },
+];
+
+export const getToolInfo = (toolId: string): ToolInfo | undefined =>
+    AVAILABLE_TOOLS.find((tool) => tool.id === toolId);
+
+// Tool invocation as persisted on messages.metadata.toolInvocations
+export type ToolInvocation = {
+    toolCallId: string;
+    toolName: string;
+    input: any;
+    output?: any;
+    state: "result" | "error";
+    error?: string;
+    step: number;
+};
@@ -27,6 +27,12 @@ export function formatDuration(ms: number): string {
     return "< 1m";
 }
 
+// Dollar amounts from spend analytics - sub-cent values keep 4 decimals
+export function formatCost(usd: number): string {
+    if (usd > 0 && usd < 0.01) return `$${usd.toFixed(4)}`;
+    return `$${usd.toFixed(2)}`;
+}
+
 export function generateSessionId(): string {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
 }